@@ -5,6 +5,7 @@ const CLASS_NAME = 'Server';
 
 export interface ServerConfig {
   socketPath: string;
+  eventsSocketPath: string;
 }
 
 export class Server {
@@ -15,7 +16,10 @@ export class Server {
     this.config = config || {
       socketPath: Config.has(ConfigKeys.ZMQ_SOCKET_PATH)
         ? Config.get(ConfigKeys.ZMQ_SOCKET_PATH)
-        : 'ipc:///tmp/rs-pack-db.sock'
+        : 'ipc:///tmp/rs-pack-db.sock',
+      eventsSocketPath: Config.has(ConfigKeys.ZMQ_EVENTS_SOCKET_PATH)
+        ? Config.get(ConfigKeys.ZMQ_EVENTS_SOCKET_PATH)
+        : 'ipc:///tmp/rs-pack-db-events.sock'
     };
     this.factory = ServiceFactory.getInstance();
   }
@@ -23,9 +27,11 @@ export class Server {
   async start(): Promise<void> {
     const zmqHandler = this.factory.getZmqHandler();
 
+    await this.factory.getBalancePublisher().start(this.config.eventsSocketPath);
     await zmqHandler.start(this.config.socketPath);
 
     Logger.debug(CLASS_NAME, null, 'Database service ready and listening for requests');
     Logger.debug(CLASS_NAME, null, 'Socket: {}', this.config.socketPath);
+    Logger.debug(CLASS_NAME, null, 'Events socket: {}', this.config.eventsSocketPath);
   }
 }
@@ -1,39 +1,107 @@
-import { IAccountService, SessionData, ErrorCode, Logger } from 'pack-shared';
+import { IAccountService, SessionData, SessionScope, ClientToken, CreditReservation, ErrorCode, Logger,
+  getAccountStatusError, SessionLatency, SessionLimitCheck } from 'pack-shared';
 import { ILLMService } from '../interfaces/ILLMService';
 import { IUsageRepo } from '../interfaces/IUsageRepo';
-import { ISessionRepo } from '../interfaces/ISessionRepo';
+import { ISessionRepo, SessionRow } from '../interfaces/ISessionRepo';
 import { IAccountRepo } from '../interfaces/IAccountRepo';
+import { IBalancePublisher } from '../interfaces/IBalancePublisher';
+import { ICreditService } from '../interfaces/ICreditService';
+import { IPersistenceService } from '../interfaces/IPersistenceService';
+import { ClientTokenTtlOptions, IClientTokenRepo } from '../interfaces/IClientTokenRepo';
+import { CLIENT_TOKEN_PREFIX } from '../interfaces/entities/ClientToken';
 import { buildSummaryPrompt, SUMMARY_DEFAULTS } from './prompts/SummaryPrompt';
 
 const CLASS_NAME = 'AccountServiceImpl';
+const PLAN_MAX_CONCURRENT_SESSIONS: Record<string, number> = { Free: 2, Pro: 20, Enterprise: 200 };
 const CONTEXT_PREFIX = '\n\nHere is the previous conversation that happened which should be continued now:\n';
 
-export class AccountServiceImpl implements IAccountService {
+function parseScopeList(value: string | null): string[] | null {
+  if (value === null) return null;
+  return value.split(',').map(normalizeScopeValue).filter(Boolean);
+}
+
+function normalizeScopeValue(value: string): string {
+  return value.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+export class AccountServiceImpl implements IAccountService, IPersistenceService {
   private accountRepo: IAccountRepo;
   private sessionRepo: ISessionRepo;
   private usageRepo: IUsageRepo;
   private llmService: ILLMService;
-
-  constructor(accountRepo: IAccountRepo, sessionRepo: ISessionRepo, usageRepo: IUsageRepo, llmService: ILLMService) {
+  private balancePublisher: IBalancePublisher;
+  private creditService: ICreditService;
+  private clientTokenRepo: IClientTokenRepo;
+  private lastUsedThrottleMs: number;
+  private clientTokenTtl: ClientTokenTtlOptions;
+
+  constructor(accountRepo: IAccountRepo, sessionRepo: ISessionRepo, usageRepo: IUsageRepo, llmService: ILLMService,
+    balancePublisher: IBalancePublisher, creditService: ICreditService, clientTokenRepo: IClientTokenRepo,
+    lastUsedThrottleMs: number, clientTokenTtl: ClientTokenTtlOptions) {
     this.accountRepo = accountRepo;
     this.sessionRepo = sessionRepo;
     this.usageRepo = usageRepo;
     this.llmService = llmService;
+    this.balancePublisher = balancePublisher;
+    this.creditService = creditService;
+    this.clientTokenRepo = clientTokenRepo;
+    this.lastUsedThrottleMs = lastUsedThrottleMs;
+    this.clientTokenTtl = clientTokenTtl;
   }
 
-  async validateAndLoad(apiKey: string, sessionId: string): Promise<SessionData> {
+  async validateAndLoad(apiKey: string, sessionId: string, scope?: SessionScope): Promise<SessionData> {
     try {
-      const rows = await this.sessionRepo.loadSessionByKeyAndId(apiKey, sessionId);
+      const rows = apiKey.startsWith(CLIENT_TOKEN_PREFIX)
+        ? await this.loadSessionByClientToken(apiKey, sessionId)
+        : await this.sessionRepo.loadSessionByKeyAndId(apiKey, sessionId);
 
       if (rows.length === 0) {
-        return { error: ErrorCode.EXTERNAL_INVALID_AUTH, accountId: '', sessionData: '', credits: 0 };
+        return this.rejected(ErrorCode.EXTERNAL_INVALID_AUTH);
       }
 
       const accountId = rows[0].account_id;
       const totalCredits = rows[0].token_remaining + rows[0].topup_remaining;
+      const creditAlertThresholds = rows[0].credit_alert_thresholds ?? '';
+      const keyHash = rows[0].key_hash;
+      const maxSessionSeconds = rows[0].max_session_seconds ?? 0;
+      const maxConcurrentSessions = this.getSessionLimit(rows[0].max_concurrent_sessions, rows[0].plan_name);
+      this.touchKey(accountId, keyHash, rows[0].last_used_at);
+
+      const statusError = getAccountStatusError(rows[0].status);
+      if (statusError) {
+        Logger.debug(CLASS_NAME, accountId, 'Rejecting session for account status {}', rows[0].status);
+        return this.rejected(statusError, accountId, totalCredits, creditAlertThresholds, keyHash);
+      }
+
+      const scopeError = this.checkScope(rows[0], scope);
+      if (scopeError) {
+        Logger.debug(CLASS_NAME, accountId, 'Rejecting session outside scope: {}', scopeError);
+        return this.rejected(scopeError, accountId, totalCredits, creditAlertThresholds, keyHash);
+      }
+
+      const keyBudget = await this.getKeyBudget(accountId, keyHash, rows[0].token_budget);
+      if (keyBudget !== null && keyBudget <= 0) {
+        Logger.debug(CLASS_NAME, accountId, 'Rejecting session, key budget of {} used', rows[0].token_budget);
+        return this.rejected(ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED, accountId, totalCredits, creditAlertThresholds,
+          keyHash);
+      }
 
       if (totalCredits <= 0) {
-        return { error: ErrorCode.EXTERNAL_NO_CREDITS, accountId, sessionData: '', credits: totalCredits };
+        return this.rejected(ErrorCode.EXTERNAL_NO_CREDITS, accountId, totalCredits, creditAlertThresholds, keyHash);
+      }
+
+      const { holdId, reserved, error } = await this.creditService.openSession(accountId, sessionId, {
+        maxConcurrentSessions,
+        rejectDuplicate: scope?.rejectDuplicate ?? false,
+        key: { keyHash, budget: keyBudget },
+      });
+      if (error) {
+        Logger.debug(CLASS_NAME, accountId, 'Rejecting session {}: {}', sessionId, error);
+        return this.rejected(error, accountId, totalCredits, creditAlertThresholds, keyHash);
+      }
+      if (reserved <= 0) {
+        Logger.debug(CLASS_NAME, accountId, 'Balance {} fully held by other sessions', totalCredits);
+        return this.rejected(ErrorCode.EXTERNAL_NO_CREDITS, accountId, totalCredits, creditAlertThresholds, keyHash);
       }
 
       let sessionData = '';
@@ -64,7 +132,10 @@ export class AccountServiceImpl implements IAccountService {
 
           sessionData = this.createSyntheticSession(CONTEXT_PREFIX + contextToInject);
         } else {
-          return { error: '', accountId, sessionData: '', credits: totalCredits };
+          return {
+            error: '', accountId, sessionData: '', credits: totalCredits, creditAlertThresholds, holdId, reserved,
+            keyHash, maxSessionSeconds, maxConcurrentSessions,
+          };
         }
       } else if (conversation.length > 0) {
 
@@ -82,13 +153,83 @@ export class AccountServiceImpl implements IAccountService {
         sessionData = this.injectIntoInstructions(sessionData, CONTEXT_PREFIX + contextToInject);
       }
 
-      return { error: '', accountId, sessionData, credits: totalCredits };
+      return {
+        error: '', accountId, sessionData, credits: totalCredits, creditAlertThresholds, holdId, reserved, keyHash,
+        maxSessionSeconds, maxConcurrentSessions,
+      };
     } catch (error) {
       Logger.error(CLASS_NAME, null, 'Error in validateAndLoad', error as Error);
-      return { error: 'INTERNAL_ERROR', accountId: '', sessionData: '', credits: 0 };
+      return this.rejected('INTERNAL_ERROR');
     }
   }
 
+  async createClientToken(apiKey: string, sessionId: string, ttlSeconds: number): Promise<ClientToken> {
+    try {
+      const key = apiKey.startsWith(CLIENT_TOKEN_PREFIX) ? null : await this.accountRepo.validateApiKey(apiKey);
+      if (!key) {
+        return { error: ErrorCode.EXTERNAL_INVALID_AUTH, token: '', expiresAt: '' };
+      }
+
+      const account = await this.accountRepo.getAccount(key.account_id);
+      const statusError = account ? getAccountStatusError(account.status) : ErrorCode.EXTERNAL_INVALID_AUTH;
+      if (statusError) {
+        return { error: statusError, token: '', expiresAt: '' };
+      }
+
+      const { defaultSeconds, maxSeconds } = this.clientTokenTtl;
+      const ttl = ttlSeconds > 0 ? Math.min(ttlSeconds, maxSeconds) : defaultSeconds;
+      const { token, expiresAt } = await this.clientTokenRepo.createToken(key.key_hash, key.account_id, sessionId,
+        ttl * 1000);
+      Logger.debug(CLASS_NAME, key.account_id, 'Issued client token for session {} until {}', sessionId, expiresAt);
+      return { error: '', token, expiresAt };
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Error in createClientToken', error as Error);
+      return { error: 'INTERNAL_ERROR', token: '', expiresAt: '' };
+    }
+  }
+
+  private async loadSessionByClientToken(token: string, sessionId: string): Promise<SessionRow[]> {
+    const keyHash = await this.clientTokenRepo.resolveToken(token, sessionId);
+    return keyHash ? this.sessionRepo.loadSessionByKeyHashAndId(keyHash, sessionId) : [];
+  }
+
+  private rejected(error: string, accountId = '', credits = 0, creditAlertThresholds = '', keyHash = ''): SessionData {
+    return {
+      error, accountId, sessionData: '', credits, creditAlertThresholds, holdId: '', reserved: 0, keyHash,
+      maxSessionSeconds: 0, maxConcurrentSessions: 0,
+    };
+  }
+
+  private checkScope(row: SessionRow, scope?: SessionScope): string | null {
+    const origin = normalizeScopeValue(scope?.origin ?? '');
+    const accountOrigins = parseScopeList(row.account_allowed_origins);
+    if (accountOrigins && !accountOrigins.includes(origin)) {
+      return ErrorCode.EXTERNAL_ORIGIN_NOT_ALLOWED;
+    }
+
+    const providers = parseScopeList(row.allowed_providers);
+    const provider = normalizeScopeValue(scope?.provider ?? '');
+    const apiStyle = normalizeScopeValue(scope?.apiStyle ?? '');
+    if (providers && !(providers.includes(provider) && providers.includes(apiStyle))) {
+      return ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED;
+    }
+
+    const origins = parseScopeList(row.allowed_origins);
+    if (origins && !origins.includes(origin)) {
+      return ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED;
+    }
+    return null;
+  }
+
+  private async getKeyBudget(accountId: string, keyHash: string, tokenBudget: number | null): Promise<number | null> {
+    if (tokenBudget === null) return null;
+    return tokenBudget - await this.usageRepo.getKeyTokensUsed(accountId, keyHash);
+  }
+
+  private getSessionLimit(maxConcurrentSessions: number | null, planName: string): number {
+    return maxConcurrentSessions ?? PLAN_MAX_CONCURRENT_SESSIONS[planName] ?? 0;
+  }
+
   private async triggerSummarization(
     accountId: string,
     sessionId: string,
@@ -166,13 +307,71 @@ export class AccountServiceImpl implements IAccountService {
     return sessionData;
   }
 
+  private touchKey(accountId: string, keyHash: string, lastUsedAt: string | null): void {
+    const staleBefore = new Date(Date.now() - this.lastUsedThrottleMs).toISOString();
+    if (lastUsedAt && lastUsedAt >= staleBefore) return;
+
+    this.accountRepo.updateLastUsed(keyHash, staleBefore).catch((err) => {
+      Logger.error(CLASS_NAME, accountId, 'Failed to update key last_used_at', err);
+    });
+  }
+
   updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number,
-    outputTokens: number): void {
-    this.usageRepo.insertUsage(accountId, sessionId, provider, inputTokens, outputTokens).catch((err) => {
+    outputTokens: number, holdId: string, keyHash: string): void {
+    this.persistUsage(accountId, sessionId, provider, inputTokens, outputTokens, holdId, keyHash, null).catch((err) => {
       Logger.error(CLASS_NAME, accountId, 'Failed to insert usage', err);
     });
   }
 
+  async persistUsage(accountId: string, sessionId: string, provider: string, inputTokens: number,
+    outputTokens: number, holdId: string, keyHash: string, messageId: string | null): Promise<void> {
+    const hold = holdId ? { holdId, ttlMs: this.creditService.getHoldTtlMs() } : null;
+    const { inserted, credits } = await this.usageRepo.insertUsage(accountId, sessionId, provider, inputTokens,
+      outputTokens, keyHash || null, messageId, hold);
+    if (!inserted) {
+      Logger.debug(CLASS_NAME, accountId, 'Usage {} already recorded', messageId);
+      return;
+    }
+    this.balancePublisher.publishBalance(accountId, credits);
+  }
+
+  async reserveCredits(accountId: string, sessionId: string, holdId: string,
+    keyHash: string): Promise<CreditReservation> {
+    const key = keyHash ? await this.accountRepo.getApiKey(keyHash) : null;
+    const budget = key ? await this.getKeyBudget(accountId, keyHash, key.token_budget) : null;
+    const { reserved, credits, error } = await this.creditService.reserve(accountId, sessionId, holdId,
+      keyHash ? { keyHash, budget } : null);
+    return { error, reserved, credits };
+  }
+
+  async checkSessionLimit(accountId: string, sessionId: string): Promise<SessionLimitCheck> {
+    const account = await this.accountRepo.getAccount(accountId);
+    const limit = account ? this.getSessionLimit(account.max_concurrent_sessions, account.plan_name) : 0;
+    if (limit <= 0) {
+      return { limit, overLimit: false };
+    }
+    const openSessions = await this.creditService.countOpenSessions(accountId, sessionId);
+    return { limit, overLimit: openSessions >= limit };
+  }
+
+  releaseCredits(accountId: string, holdId: string): void {
+    this.persistRelease(accountId, holdId).catch((err) => {
+      Logger.error(CLASS_NAME, accountId, 'Failed to release hold', err);
+    });
+  }
+
+  async persistRelease(accountId: string, holdId: string): Promise<void> {
+    await this.creditService.release(holdId);
+  }
+
+  async refreshHold(accountId: string, holdId: string): Promise<boolean> {
+    const refreshed = await this.creditService.refresh(holdId);
+    if (!refreshed) {
+      Logger.warn(CLASS_NAME, accountId, 'Hold {} expired before it was refreshed', holdId);
+    }
+    return refreshed;
+  }
+
   async getCredits(accountId: string): Promise<number> {
     const credits = await this.accountRepo.getCredits(accountId);
     if (!credits) {
@@ -204,38 +403,57 @@ export class AccountServiceImpl implements IAccountService {
   }
 
   saveSession(accountId: string, sessionId: string, sessionData: string): void {
+    this.persistSession(accountId, sessionId, sessionData).catch((err) => {
+      Logger.error(CLASS_NAME, accountId, 'Failed to save session', err);
+    });
+  }
+
+  async persistSession(accountId: string, sessionId: string, sessionData: string): Promise<void> {
+    let event: any;
     try {
       // Parse the session.updated event from OpenAI
-      const event = JSON.parse(sessionData);
+      event = JSON.parse(sessionData);
+    } catch (err) {
+      Logger.error(CLASS_NAME, accountId, 'Failed to parse session data', err as Error);
+      return;
+    }
 
-      if (event.type === 'session.updated' && event.session) {
-        // Strip server-generated fields that cannot be sent in session.update
-        const { object, id, expires_at, ...clientSession } = event.session;
+    if (event.type !== 'session.updated' || !event.session) {
+      Logger.error(CLASS_NAME, accountId, 'Invalid session data format: {}', new Error('Invalid format'), sessionData.substring(0, 100));
+      return;
+    }
 
-        // Remove null fields (OpenAI doesn't accept null, fields must be omitted)
-        const cleanedSession = this.removeNullFields(clientSession);
+    // Strip server-generated fields that cannot be sent in session.update
+    const { object, id, expires_at, ...clientSession } = event.session;
 
+    // Remove null fields (OpenAI doesn't accept null, fields must be omitted)
+    const cleanedSession = this.removeNullFields(clientSession);
 
-        const transformedEvent = {
-          type: 'session.update',
-          session: cleanedSession,
-        };
+    const transformedEvent = {
+      type: 'session.update',
+      session: cleanedSession,
+    };
 
-        const cleanedSessionData = JSON.stringify(transformedEvent);
-        this.sessionRepo.upsertSession(accountId, sessionId, cleanedSessionData).catch((err) => {
-          Logger.error(CLASS_NAME, accountId, 'Failed to save session', err);
-        });
-      } else {
-        Logger.error(CLASS_NAME, accountId, 'Invalid session data format: {}', new Error('Invalid format'), sessionData.substring(0, 100));
-      }
-    } catch (err) {
-      Logger.error(CLASS_NAME, accountId, 'Failed to parse session data', err as Error);
-    }
+    await this.sessionRepo.upsertSession(accountId, sessionId, JSON.stringify(transformedEvent));
   }
 
   appendConversation(accountId: string, sessionId: string, conversationData: string): void {
-    this.sessionRepo.appendConversation(accountId, sessionId, conversationData).catch((err) => {
+    this.persistConversation(accountId, sessionId, conversationData).catch((err) => {
       Logger.error(CLASS_NAME, accountId, 'Failed to append conversation', err);
     });
   }
+
+  async persistConversation(accountId: string, sessionId: string, conversationData: string): Promise<void> {
+    await this.sessionRepo.appendConversation(accountId, sessionId, conversationData);
+  }
+
+  saveLatency(accountId: string, sessionId: string, latency: SessionLatency): void {
+    this.persistLatency(accountId, sessionId, latency).catch((err) => {
+      Logger.error(CLASS_NAME, accountId, 'Failed to save latency', err);
+    });
+  }
+
+  async persistLatency(accountId: string, sessionId: string, latency: SessionLatency): Promise<void> {
+    await this.sessionRepo.upsertLatency(accountId, sessionId, latency);
+  }
 }
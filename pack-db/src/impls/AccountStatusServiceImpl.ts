@@ -0,0 +1,34 @@
+import { AccountStatus, Logger } from 'pack-shared';
+import { IAccountRepo } from '../interfaces/IAccountRepo';
+import { IBalancePublisher } from '../interfaces/IBalancePublisher';
+import { IAccountStatusService } from '../interfaces/IAccountStatusService';
+import { AccountStatusAudit } from '../interfaces/entities/AccountStatusAudit';
+
+const CLASS_NAME = 'AccountStatusServiceImpl';
+
+export class AccountStatusServiceImpl implements IAccountStatusService {
+  private accountRepo: IAccountRepo;
+  private balancePublisher: IBalancePublisher;
+
+  constructor(accountRepo: IAccountRepo, balancePublisher: IBalancePublisher) {
+    this.accountRepo = accountRepo;
+    this.balancePublisher = balancePublisher;
+  }
+
+  async setStatus(accountId: string, status: AccountStatus, changedBy: string, reason: string): Promise<boolean> {
+    const previous = await this.accountRepo.setStatus(accountId, status, changedBy, reason);
+    if (previous === null) return false;
+
+    Logger.debug(CLASS_NAME, accountId, 'Status changed {} -> {} by {}: {}', previous, status, changedBy, reason);
+    this.balancePublisher.publishAccountStatus(accountId, status);
+    return true;
+  }
+
+  async suspend(accountId: string, changedBy: string, reason: string): Promise<boolean> {
+    return this.setStatus(accountId, AccountStatus.SUSPENDED, changedBy, reason);
+  }
+
+  async getStatusHistory(accountId: string): Promise<AccountStatusAudit[]> {
+    return this.accountRepo.getStatusAudit(accountId);
+  }
+}
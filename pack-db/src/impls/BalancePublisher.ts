@@ -0,0 +1,77 @@
+import * as zmq from 'zeromq';
+import { ZmqEvent, ZmqEventType, ZmqUtils, Logger } from 'pack-shared';
+import { AccountEventListener, IBalancePublisher } from '../interfaces/IBalancePublisher';
+
+const CLASS_NAME = 'BalancePublisher';
+
+export class BalancePublisher implements IBalancePublisher {
+  private publisher: zmq.Publisher;
+  private running = false;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<AccountEventListener>();
+
+  constructor() {
+    this.publisher = new zmq.Publisher();
+    this.publisher.sendHighWaterMark = 10000;
+  }
+
+  async start(socketPath: string): Promise<void> {
+    await this.publisher.bind(socketPath);
+    this.running = true;
+    Logger.debug(CLASS_NAME, null, 'Publishing balance events on {}', socketPath);
+  }
+
+  publishBalance(accountId: string, credits: number): void {
+    this.notify({ type: ZmqEventType.BALANCE_CHANGED, accountId, credits });
+    if (!this.running) return;
+
+    this.enqueue(accountId, ZmqUtils.encodeEvent(ZmqEventType.BALANCE_CHANGED, accountId, credits));
+  }
+
+  publishAccountStatus(accountId: string, status: number): void {
+    this.notify({ type: ZmqEventType.ACCOUNT_STATUS_CHANGED, accountId, status });
+    if (!this.running) return;
+
+    this.enqueue(accountId, ZmqUtils.encodeEvent(ZmqEventType.ACCOUNT_STATUS_CHANGED, accountId, status));
+  }
+
+  publishSessionReplaced(accountId: string, sessionId: string, holdId: string): void {
+    this.notify({ type: ZmqEventType.SESSION_REPLACED, accountId, sessionId, holdId });
+    if (!this.running) return;
+
+    this.enqueue(accountId, ZmqUtils.encodeEvent(ZmqEventType.SESSION_REPLACED, accountId, sessionId, holdId));
+  }
+
+  addListener(listener: AccountEventListener): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: AccountEventListener): void {
+    this.listeners.delete(listener);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.listeners.clear();
+    this.publisher.close();
+    Logger.debug(CLASS_NAME, null, 'Stopped');
+  }
+
+  private notify(event: ZmqEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (err) {
+        Logger.error(CLASS_NAME, event.accountId, 'Account event listener failed', err as Error);
+      }
+    }
+  }
+
+  private enqueue(accountId: string, frames: string[]): void {
+    this.sendQueue = this.sendQueue
+      .then(() => this.publisher.send(frames))
+      .catch((err) => {
+        Logger.error(CLASS_NAME, accountId, 'Failed to publish event', err);
+      });
+  }
+}
@@ -0,0 +1,80 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pack-shared';
+import { IAccountRepo } from '../interfaces/IAccountRepo';
+import { IBalancePublisher } from '../interfaces/IBalancePublisher';
+import { CreditHoldOptions, ICreditService } from '../interfaces/ICreditService';
+import { HoldKey, HoldReservation, IHoldRepo, SessionHoldReservation, SessionLimits } from '../interfaces/IHoldRepo';
+
+const CLASS_NAME = 'CreditServiceImpl';
+
+export class CreditServiceImpl implements ICreditService {
+  private accountRepo: IAccountRepo;
+  private holdRepo: IHoldRepo;
+  private balancePublisher: IBalancePublisher;
+  private holdOptions: CreditHoldOptions;
+
+  constructor(accountRepo: IAccountRepo, holdRepo: IHoldRepo, balancePublisher: IBalancePublisher,
+    holdOptions: CreditHoldOptions) {
+    this.accountRepo = accountRepo;
+    this.holdRepo = holdRepo;
+    this.balancePublisher = balancePublisher;
+    this.holdOptions = holdOptions;
+  }
+
+  async topUp(accountId: string, tokens: number): Promise<number | null> {
+    const credits = await this.accountRepo.addTopup(accountId, tokens);
+    if (credits === null) return null;
+
+    Logger.debug(CLASS_NAME, accountId, 'Top-up of {} tokens, balance now {}', tokens, credits);
+    this.balancePublisher.publishBalance(accountId, credits);
+    return credits;
+  }
+
+  async adjustCredits(accountId: string, delta: number): Promise<number | null> {
+    const credits = await this.accountRepo.adjustCredits(accountId, delta);
+    if (credits === null) return null;
+
+    Logger.debug(CLASS_NAME, accountId, 'Credits adjusted by {}, balance now {}', delta, credits);
+    this.balancePublisher.publishBalance(accountId, credits);
+    return credits;
+  }
+
+  async reserve(accountId: string, sessionId: string, holdId: string,
+    key: HoldKey | null): Promise<HoldReservation> {
+    const reservation = await this.holdRepo.reserve(accountId, sessionId, holdId || uuidv4(), this.holdOptions.chunk,
+      this.holdOptions.ttlMs, key);
+    Logger.debug(CLASS_NAME, accountId, 'Reserved {} tokens for hold {}', reservation.reserved, reservation.holdId);
+    return reservation;
+  }
+
+  async openSession(accountId: string, sessionId: string, limits: SessionLimits): Promise<SessionHoldReservation> {
+    const reservation = await this.holdRepo.reserveSession(accountId, sessionId, uuidv4(), this.holdOptions.chunk,
+      this.holdOptions.ttlMs, limits);
+    for (const holdId of reservation.replacedHoldIds) {
+      Logger.debug(CLASS_NAME, accountId, 'Hold {} of session {} replaced by {}', holdId, sessionId,
+        reservation.holdId);
+      this.balancePublisher.publishSessionReplaced(accountId, sessionId, holdId);
+    }
+    return reservation;
+  }
+
+  async drawDown(holdId: string, tokens: number): Promise<void> {
+    await this.holdRepo.drawDown(holdId, tokens, this.holdOptions.ttlMs);
+  }
+
+  async refresh(holdId: string): Promise<boolean> {
+    return this.holdRepo.refresh(holdId, this.holdOptions.ttlMs);
+  }
+
+  getHoldTtlMs(): number {
+    return this.holdOptions.ttlMs;
+  }
+
+  async release(holdId: string): Promise<boolean> {
+    return this.holdRepo.release(holdId);
+  }
+
+  async countOpenSessions(accountId: string, exceptSessionId: string): Promise<number> {
+    return this.holdRepo.countOpenSessions(accountId, exceptSessionId);
+  }
+}
@@ -1,19 +1,36 @@
-import { Kysely, SqliteDialect } from 'kysely';
+import { Kysely, LogEvent, SqliteDialect } from 'kysely';
 import SQLite from 'better-sqlite3-multiple-ciphers';
 import { Database } from '../interfaces/entities/Account';
-import { Config, ConfigKeys } from 'pack-shared';
+import { Config, ConfigKeys, HistogramSeries, MetricsRegistry } from 'pack-shared';
+
+const QUERY_OPERATIONS: Record<string, string> = {
+  SelectQueryNode: 'select',
+  InsertQueryNode: 'insert',
+  UpdateQueryNode: 'update',
+  DeleteQueryNode: 'delete',
+};
 
 export class DatabaseConnection {
   private db: Kysely<Database>;
+  private queryDurations = new Map<string, HistogramSeries>();
 
-  constructor() {
+  constructor(metrics: MetricsRegistry) {
     const dbPath = Config.get(ConfigKeys.DB_PATH);
     const encryptionKey = Config.get(ConfigKeys.DB_ENCRYPTION_KEY);
     const sqlite = new SQLite(dbPath);
     sqlite.pragma(`cipher='sqlcipher'`);
     sqlite.pragma(`legacy=4`);
     sqlite.pragma(`key='${encryptionKey}'`);
-    this.db = new Kysely<Database>({ dialect: new SqliteDialect({ database: sqlite }) });
+
+    const histogram = metrics.histogram('rs_db_query_duration_seconds', 'Duration of pack-db queries by operation',
+      ['operation']);
+    for (const operation of [...Object.values(QUERY_OPERATIONS), 'other']) {
+      this.queryDurations.set(operation, histogram.labels(operation));
+    }
+    this.db = new Kysely<Database>({
+      dialect: new SqliteDialect({ database: sqlite }),
+      log: (event) => this.observe(event),
+    });
   }
 
   getDb(): Kysely<Database> {
@@ -23,4 +40,9 @@ export class DatabaseConnection {
   destroy(): Promise<void> {
     return this.db.destroy();
   }
+
+  private observe(event: LogEvent): void {
+    const operation = QUERY_OPERATIONS[event.query.query.kind] ?? 'other';
+    this.queryDurations.get(operation)!.observe(event.queryDurationMillis / 1000);
+  }
 }
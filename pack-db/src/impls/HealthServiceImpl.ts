@@ -0,0 +1,31 @@
+import { Kysely, sql } from 'kysely';
+import { DbHealth, IHealthService, Logger, MetricsRegistry } from 'pack-shared';
+import { Migrator } from './migrations/Migrator';
+
+const CLASS_NAME = 'HealthServiceImpl';
+
+export class HealthServiceImpl implements IHealthService {
+  private db: Kysely<any>;
+  private migrator: Migrator;
+  private metrics: MetricsRegistry;
+
+  constructor(db: Kysely<any>, migrator: Migrator, metrics: MetricsRegistry) {
+    this.db = db;
+    this.migrator = migrator;
+    this.metrics = metrics;
+  }
+
+  async check(): Promise<DbHealth> {
+    try {
+      await sql`SELECT 1`.execute(this.db);
+      return { database: true, pendingMigrations: await this.migrator.getPendingCount() };
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Health check failed', error as Error);
+      return { database: false, pendingMigrations: 0 };
+    }
+  }
+
+  async getMetrics(): Promise<string> {
+    return this.metrics.render();
+  }
+}
@@ -0,0 +1,48 @@
+import { Kysely } from 'kysely';
+import { createHash, randomBytes } from 'crypto';
+import { IClientTokenRepo, IssuedClientToken } from '../interfaces/IClientTokenRepo';
+import { CLIENT_TOKEN_PREFIX } from '../interfaces/entities/ClientToken';
+import { Database } from '../interfaces/entities/Account';
+
+export class SQLClientTokenRepo implements IClientTokenRepo {
+  constructor(private db: Kysely<Database>) { }
+
+  async createToken(keyHash: string, accountId: string, sessionId: string, ttlMs: number): Promise<IssuedClientToken> {
+    const token = `${CLIENT_TOKEN_PREFIX}${randomBytes(24).toString('hex')}`;
+    const now = Date.now();
+    const expiresAt = new Date(now + ttlMs).toISOString();
+
+    await this.deleteExpired();
+    await this.db.insertInto('client_tokens').values({
+      token_hash: this.hashToken(token),
+      key_hash: keyHash,
+      account_id: accountId,
+      session_id: sessionId,
+      created_at: new Date(now).toISOString(),
+      expires_at: expiresAt,
+    }).execute();
+
+    return { token, expiresAt };
+  }
+
+  async resolveToken(token: string, sessionId: string): Promise<string | null> {
+    const row = await this.db.selectFrom('client_tokens')
+      .select('key_hash')
+      .where('token_hash', '=', this.hashToken(token))
+      .where('session_id', '=', sessionId)
+      .where('expires_at', '>', new Date().toISOString())
+      .executeTakeFirst();
+    return row?.key_hash ?? null;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.db.deleteFrom('client_tokens')
+      .where('expires_at', '<=', new Date().toISOString())
+      .executeTakeFirst();
+    return Number(result.numDeletedRows);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,187 @@
+import { Kysely, Transaction, sql } from 'kysely';
+import { ErrorCode } from 'pack-shared';
+import { HoldKey, HoldReservation, IHoldRepo, SessionHoldReservation, SessionLimits } from '../interfaces/IHoldRepo';
+import { Database } from '../interfaces/entities/Account';
+
+export class SQLHoldRepo implements IHoldRepo {
+  constructor(private db: Kysely<Database>) { }
+
+  async reserve(accountId: string, sessionId: string, holdId: string, amount: number, ttlMs: number,
+    key: HoldKey | null): Promise<HoldReservation> {
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    const expiresAt = new Date(now + ttlMs).toISOString();
+
+    return this.db.transaction().execute(async (trx) => {
+      const credits = await this.expireAndGetCredits(trx, accountId, nowIso);
+      const { held } = await trx
+        .selectFrom('credit_holds')
+        .select(sql<number>`coalesce(sum(amount), 0)`.as('held'))
+        .where('account_id', '=', accountId)
+        .executeTakeFirstOrThrow();
+
+      const existing = await trx
+        .selectFrom('credit_holds')
+        .select('id')
+        .where('id', '=', holdId)
+        .executeTakeFirst();
+
+      const budgetLeft = key?.budget == null ? Infinity : key.budget - await this.getKeyHeld(trx, key.keyHash);
+      const reserved = Math.max(0, Math.min(amount, credits - held, budgetLeft));
+
+      if (existing) {
+        await trx.updateTable('credit_holds')
+          .set((eb) => ({ amount: eb('amount', '+', reserved), expires_at: expiresAt }))
+          .where('id', '=', holdId)
+          .execute();
+      } else if (reserved > 0) {
+        await trx.insertInto('credit_holds')
+          .values({
+            id: holdId,
+            account_id: accountId,
+            session_id: sessionId,
+            key_hash: key?.keyHash ?? null,
+            amount: reserved,
+            created_at: nowIso,
+            expires_at: expiresAt,
+          })
+          .execute();
+      }
+
+      return { holdId, reserved, credits, error: budgetLeft <= 0 ? ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED : '' };
+    });
+  }
+
+  async reserveSession(accountId: string, sessionId: string, holdId: string, amount: number, ttlMs: number,
+    limits: SessionLimits): Promise<SessionHoldReservation> {
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    const expiresAt = new Date(now + ttlMs).toISOString();
+
+    return this.db.transaction().execute(async (trx) => {
+      const credits = await this.expireAndGetCredits(trx, accountId, nowIso);
+      const holds = await trx
+        .selectFrom('credit_holds')
+        .select(['id', 'session_id', 'key_hash', 'amount'])
+        .where('account_id', '=', accountId)
+        .execute();
+
+      const duplicates = holds.filter(hold => hold.session_id === sessionId).map(hold => hold.id);
+      if (duplicates.length > 0 && limits.rejectDuplicate) {
+        return { holdId: '', reserved: 0, credits, error: ErrorCode.EXTERNAL_SESSION_DUPLICATE, replacedHoldIds: [] };
+      }
+
+      const others = holds.filter(hold => hold.session_id !== sessionId);
+      const openSessions = new Set(others.map(hold => hold.session_id)).size;
+      if (limits.maxConcurrentSessions > 0 && openSessions >= limits.maxConcurrentSessions) {
+        return { holdId: '', reserved: 0, credits, error: ErrorCode.EXTERNAL_TOO_MANY_SESSIONS, replacedHoldIds: [] };
+      }
+
+      const { key } = limits;
+      const keyHeld = others.filter(hold => hold.key_hash === key?.keyHash)
+        .reduce((sum, hold) => sum + hold.amount, 0);
+      const budgetLeft = key?.budget == null ? Infinity : key.budget - keyHeld;
+      if (budgetLeft <= 0) {
+        return {
+          holdId: '', reserved: 0, credits, error: ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED, replacedHoldIds: [],
+        };
+      }
+
+      const held = others.reduce((sum, hold) => sum + hold.amount, 0);
+      const reserved = Math.max(0, Math.min(amount, credits - held, budgetLeft));
+      if (reserved <= 0) {
+        return { holdId: '', reserved: 0, credits, error: '', replacedHoldIds: [] };
+      }
+
+      if (duplicates.length > 0) {
+        await trx.deleteFrom('credit_holds').where('id', 'in', duplicates).execute();
+      }
+      await trx.insertInto('credit_holds')
+        .values({
+          id: holdId,
+          account_id: accountId,
+          session_id: sessionId,
+          key_hash: key?.keyHash ?? null,
+          amount: reserved,
+          created_at: nowIso,
+          expires_at: expiresAt,
+        })
+        .execute();
+
+      return { holdId, reserved, credits, error: '', replacedHoldIds: duplicates };
+    });
+  }
+
+  async drawDown(holdId: string, tokens: number, ttlMs: number): Promise<void> {
+    await this.db.updateTable('credit_holds')
+      .set({
+        amount: sql<number>`max(0, amount - ${tokens})`,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      })
+      .where('id', '=', holdId)
+      .execute();
+  }
+
+  async refresh(holdId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const result = await this.db.updateTable('credit_holds')
+      .set({ expires_at: new Date(now + ttlMs).toISOString() })
+      .where('id', '=', holdId)
+      .where('expires_at', '>', new Date(now).toISOString())
+      .executeTakeFirst();
+    return result.numUpdatedRows > 0;
+  }
+
+  async release(holdId: string): Promise<boolean> {
+    const result = await this.db.deleteFrom('credit_holds').where('id', '=', holdId).executeTakeFirst();
+    return result.numDeletedRows > 0;
+  }
+
+  async getHeldAmount(accountId: string): Promise<number> {
+    const { held } = await this.db
+      .selectFrom('credit_holds')
+      .select(sql<number>`coalesce(sum(amount), 0)`.as('held'))
+      .where('account_id', '=', accountId)
+      .where('expires_at', '>', new Date().toISOString())
+      .executeTakeFirstOrThrow();
+    return held;
+  }
+
+  async countOpenSessions(accountId: string, exceptSessionId: string): Promise<number> {
+    const { sessions } = await this.db
+      .selectFrom('credit_holds')
+      .select(sql<number>`count(distinct session_id)`.as('sessions'))
+      .where('account_id', '=', accountId)
+      .where('session_id', '!=', exceptSessionId)
+      .where('expires_at', '>', new Date().toISOString())
+      .executeTakeFirstOrThrow();
+    return sessions;
+  }
+
+  private async getKeyHeld(trx: Transaction<Database>, keyHash: string): Promise<number> {
+    const { held } = await trx
+      .selectFrom('credit_holds')
+      .select(sql<number>`coalesce(sum(amount), 0)`.as('held'))
+      .where('key_hash', '=', keyHash)
+      .executeTakeFirstOrThrow();
+    return held;
+  }
+
+  private async expireAndGetCredits(trx: Transaction<Database>, accountId: string, nowIso: string): Promise<number> {
+    await trx.deleteFrom('credit_holds')
+      .where('account_id', '=', accountId)
+      .where('expires_at', '<=', nowIso)
+      .execute();
+
+    const account = await trx
+      .selectFrom('accounts')
+      .select(['token_remaining', 'topup_remaining'])
+      .where('id', '=', accountId)
+      .executeTakeFirst();
+
+    if (!account) {
+      throw new Error(ErrorCode.INTERNAL_DB_ACCOUNT_NOT_FOUND);
+    }
+    return account.token_remaining + account.topup_remaining;
+  }
+}
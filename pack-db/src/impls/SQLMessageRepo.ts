@@ -0,0 +1,26 @@
+import { Kysely } from 'kysely';
+import { IMessageRepo } from '../interfaces/IMessageRepo';
+import { Database } from '../interfaces/entities/Account';
+
+export class SQLMessageRepo implements IMessageRepo {
+  constructor(private db: Kysely<Database>) { }
+
+  async markProcessed(id: string, type: string): Promise<boolean> {
+    const result = await this.db.insertInto('processed_messages')
+      .values({ id, type, processed_at: new Date().toISOString() })
+      .onConflict((oc) => oc.column('id').doNothing())
+      .executeTakeFirst();
+    return Number(result.numInsertedOrUpdatedRows ?? 0) > 0;
+  }
+
+  async unmarkProcessed(id: string): Promise<void> {
+    await this.db.deleteFrom('processed_messages').where('id', '=', id).execute();
+  }
+
+  async purgeProcessedBefore(cutoff: string): Promise<number> {
+    const result = await this.db.deleteFrom('processed_messages')
+      .where('processed_at', '<', cutoff)
+      .executeTakeFirst();
+    return Number(result.numDeletedRows);
+  }
+}
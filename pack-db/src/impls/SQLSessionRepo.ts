@@ -1,5 +1,6 @@
 import { Kysely, sql } from 'kysely';
 import { createHash } from 'crypto';
+import { SessionLatency } from 'pack-shared';
 import { ISessionRepo, SessionRow } from '../interfaces/ISessionRepo';
 import { Database } from '../interfaces/entities/Account';
 
@@ -7,7 +8,10 @@ export class SQLSessionRepo implements ISessionRepo {
   constructor(private db: Kysely<Database>) { }
 
   async loadSessionByKeyAndId(apiKey: string, sessionId: string): Promise<SessionRow[]> {
-    const keyHash = this.hashKey(apiKey);
+    return this.loadSessionByKeyHashAndId(this.hashKey(apiKey), sessionId);
+  }
+
+  async loadSessionByKeyHashAndId(keyHash: string, sessionId: string): Promise<SessionRow[]> {
     const now = new Date().toISOString();
 
     const rows = await sql<SessionRow>`
@@ -16,7 +20,18 @@ export class SQLSessionRepo implements ISessionRepo {
         s.type,
         s.data,
         acc.token_remaining,
-        acc.topup_remaining
+        acc.topup_remaining,
+        acc.credit_alert_thresholds,
+        acc.allowed_origins AS account_allowed_origins,
+        acc.plan_name,
+        acc.max_concurrent_sessions,
+        acc.status,
+        a.key_hash,
+        a.last_used_at,
+        a.allowed_providers,
+        a.allowed_origins,
+        a.max_session_seconds,
+        a.token_budget
       FROM api_keys a
       JOIN accounts acc ON acc.id = a.account_id
       LEFT JOIN sessions s ON s.account_id = a.account_id AND s.session_id = ${sessionId}
@@ -58,6 +73,22 @@ export class SQLSessionRepo implements ISessionRepo {
     `.execute(this.db);
   }
 
+  async upsertLatency(accountId: string, sessionId: string, latency: SessionLatency): Promise<void> {
+    const now = new Date().toISOString();
+    const { provider, turns, firstAudioP50Ms, firstAudioP95Ms, turnP50Ms, turnP95Ms } = latency;
+
+    await sql`
+      INSERT INTO session_latency (account_id, session_id, provider, turns, first_audio_p50_ms, first_audio_p95_ms,
+        turn_p50_ms, turn_p95_ms, updated_at)
+      VALUES (${accountId}, ${sessionId}, ${provider}, ${turns}, ${firstAudioP50Ms}, ${firstAudioP95Ms}, ${turnP50Ms},
+        ${turnP95Ms}, ${now})
+      ON CONFLICT(account_id, session_id)
+      DO UPDATE SET provider = ${provider}, turns = ${turns}, first_audio_p50_ms = ${firstAudioP50Ms},
+        first_audio_p95_ms = ${firstAudioP95Ms}, turn_p50_ms = ${turnP50Ms}, turn_p95_ms = ${turnP95Ms},
+        updated_at = ${now}
+    `.execute(this.db);
+  }
+
   private hashKey(plainKey: string): string {
     return createHash('sha256').update(plainKey).digest('hex');
   }
@@ -1,5 +1,6 @@
-import { Kysely } from 'kysely';
-import { IUsageRepo } from '../interfaces/IUsageRepo';
+import { Kysely, sql } from 'kysely';
+import { ErrorCode } from 'pack-shared';
+import { IUsageRepo, KeyUsage, UsageHold, UsageInsertResult } from '../interfaces/IUsageRepo';
 import { Database } from '../interfaces/entities/Account';
 
 export class SQLUsageRepo implements IUsageRepo {
@@ -10,13 +11,15 @@ export class SQLUsageRepo implements IUsageRepo {
     sessionId: string,
     provider: string,
     inputTokens: number,
-    outputTokens: number
-  ): Promise<void> {
+    outputTokens: number,
+    keyHash: string | null,
+    messageId: string | null,
+    hold: UsageHold | null
+  ): Promise<UsageInsertResult> {
     const now = new Date().toISOString();
     const totalTokens = inputTokens + outputTokens;
 
-    await this.db.transaction().execute(async (trx) => {
-      // Get current account balances
+    return this.db.transaction().execute(async (trx) => {
       const account = await trx
         .selectFrom('accounts')
         .select(['topup_remaining', 'token_remaining'])
@@ -24,16 +27,33 @@ export class SQLUsageRepo implements IUsageRepo {
         .executeTakeFirst();
 
       if (!account) {
-        throw new Error(`Account ${accountId} not found`);
+        throw new Error(ErrorCode.INTERNAL_DB_ACCOUNT_NOT_FOUND);
+      }
+
+      const insert = await trx
+        .insertInto('usage_metrics')
+        .values({
+          account_id: accountId,
+          session_id: sessionId,
+          provider,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          total_tokens: totalTokens,
+          created_at: now,
+          message_id: messageId,
+          key_hash: keyHash,
+        })
+        .onConflict((oc) => oc.column('message_id').doNothing())
+        .executeTakeFirst();
+
+      if (Number(insert.numInsertedOrUpdatedRows ?? 0) === 0) {
+        return { inserted: false, credits: account.token_remaining + account.topup_remaining };
       }
 
       let topupRemaining = account.topup_remaining;
       let tokenRemaining = account.token_remaining;
-
-      // Deduct usage from balances
       let remainingUsage = totalTokens;
 
-      // First deduct from topup credits
       if (topupRemaining > 0) {
         if (topupRemaining >= remainingUsage) {
           topupRemaining -= remainingUsage;
@@ -44,26 +64,10 @@ export class SQLUsageRepo implements IUsageRepo {
         }
       }
 
-      // Then deduct from plan credits
       if (remainingUsage > 0) {
         tokenRemaining -= remainingUsage;
       }
 
-      // Insert usage metric
-      await trx
-        .insertInto('usage_metrics')
-        .values({
-          account_id: accountId,
-          session_id: sessionId,
-          provider,
-          input_tokens: inputTokens,
-          output_tokens: outputTokens,
-          total_tokens: totalTokens,
-          created_at: now,
-        })
-        .execute();
-
-      // Update account balances
       await trx
         .updateTable('accounts')
         .set({
@@ -73,6 +77,51 @@ export class SQLUsageRepo implements IUsageRepo {
         })
         .where('id', '=', accountId)
         .execute();
+
+      if (hold) {
+        await trx.updateTable('credit_holds')
+          .set({
+            amount: sql<number>`max(0, amount - ${totalTokens})`,
+            expires_at: new Date(Date.now() + hold.ttlMs).toISOString(),
+          })
+          .where('id', '=', hold.holdId)
+          .execute();
+      }
+
+      return { inserted: true, credits: tokenRemaining + topupRemaining };
     });
   }
+
+  async getUsageByKey(accountId: string, since?: string): Promise<KeyUsage[]> {
+    let query = this.db
+      .selectFrom('usage_metrics')
+      .select((eb) => [
+        'key_hash',
+        eb.fn.sum<number>('input_tokens').as('input_tokens'),
+        eb.fn.sum<number>('output_tokens').as('output_tokens'),
+        eb.fn.sum<number>('total_tokens').as('total_tokens'),
+      ])
+      .where('account_id', '=', accountId);
+    if (since) {
+      query = query.where('created_at', '>=', since);
+    }
+
+    const rows = await query.groupBy('key_hash').orderBy('total_tokens', 'desc').execute();
+    return rows.map(row => ({
+      keyHash: row.key_hash,
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      totalTokens: Number(row.total_tokens),
+    }));
+  }
+
+  async getKeyTokensUsed(accountId: string, keyHash: string): Promise<number> {
+    const row = await this.db
+      .selectFrom('usage_metrics')
+      .select((eb) => eb.fn.sum<number>('total_tokens').as('total_tokens'))
+      .where('account_id', '=', accountId)
+      .where('key_hash', '=', keyHash)
+      .executeTakeFirst();
+    return Number(row?.total_tokens ?? 0);
+  }
 }
@@ -1,9 +1,10 @@
-import { Kysely } from 'kysely';
+import { Kysely, sql } from 'kysely';
 import { v4 as uuidv4 } from 'uuid';
 import { createHash, randomBytes } from 'crypto';
 import { IAccountRepo } from '../interfaces/IAccountRepo';
 import { Account, CreateAccountInput, Database } from '../interfaces/entities/Account';
 import { ApiKey, CreateApiKeyInput, CreateApiKeyResult } from '../interfaces/entities/ApiKey';
+import { AccountStatusAudit } from '../interfaces/entities/AccountStatusAudit';
 
 const PLAN_DEFAULTS: Record<string, number> = { Free: 1000, Pro: 50000, Enterprise: 500000 };
 
@@ -20,6 +21,9 @@ export class SQLiteAccountRepo implements IAccountRepo {
       token_remaining: input.tokenRemaining ?? PLAN_DEFAULTS[planName] ?? 1000,
       topup_remaining: input.topupRemaining ?? 0,
       status: 1,
+      credit_alert_thresholds: input.creditAlertThresholds ?? null,
+      allowed_origins: input.allowedOrigins?.join(',') ?? null,
+      max_concurrent_sessions: input.maxConcurrentSessions ?? null,
       created_at: now,
       updated_at: now,
     };
@@ -46,6 +50,10 @@ export class SQLiteAccountRepo implements IAccountRepo {
       created_at: now,
       expires_at: input.expiresAt ?? null,
       last_used_at: null,
+      allowed_providers: input.allowedProviders?.join(',') ?? null,
+      allowed_origins: input.allowedOrigins?.join(',') ?? null,
+      max_session_seconds: input.maxSessionSeconds ?? null,
+      token_budget: input.tokenBudget ?? null,
     };
     await this.db.insertInto('api_keys').values(row).execute();
     return { apiKey: row, plainKey };
@@ -60,6 +68,11 @@ export class SQLiteAccountRepo implements IAccountRepo {
     return result ?? null;
   }
 
+  async getApiKey(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.db.selectFrom('api_keys').selectAll().where('key_hash', '=', keyHash).executeTakeFirst();
+    return result ?? null;
+  }
+
   async getApiKeysByAccountId(accountId: string): Promise<ApiKey[]> {
     return await this.db.selectFrom('api_keys').selectAll().where('account_id', '=', accountId)
       .orderBy('created_at', 'desc').execute();
@@ -71,9 +84,35 @@ export class SQLiteAccountRepo implements IAccountRepo {
     return result.numUpdatedRows > 0;
   }
 
-  async updateLastUsed(keyHash: string): Promise<void> {
-    await this.db.updateTable('api_keys').set({ last_used_at: new Date().toISOString() })
-      .where('key_hash', '=', keyHash).execute();
+  async updateLastUsed(keyHash: string, staleBefore?: string): Promise<boolean> {
+    let query = this.db.updateTable('api_keys').set({ last_used_at: new Date().toISOString() })
+      .where('key_hash', '=', keyHash);
+    if (staleBefore) {
+      query = query.where((eb) => eb.or([eb('last_used_at', 'is', null), eb('last_used_at', '<', staleBefore)]));
+    }
+    const result = await query.executeTakeFirst();
+    return result.numUpdatedRows > 0;
+  }
+
+  async setCreditAlertThresholds(accountId: string, thresholds: string | null): Promise<boolean> {
+    const result = await this.db.updateTable('accounts')
+      .set({ credit_alert_thresholds: thresholds, updated_at: new Date().toISOString() })
+      .where('id', '=', accountId).executeTakeFirst();
+    return result.numUpdatedRows > 0;
+  }
+
+  async setAllowedOrigins(accountId: string, origins: string[] | null): Promise<boolean> {
+    const result = await this.db.updateTable('accounts')
+      .set({ allowed_origins: origins?.join(',') ?? null, updated_at: new Date().toISOString() })
+      .where('id', '=', accountId).executeTakeFirst();
+    return result.numUpdatedRows > 0;
+  }
+
+  async setMaxConcurrentSessions(accountId: string, limit: number | null): Promise<boolean> {
+    const result = await this.db.updateTable('accounts')
+      .set({ max_concurrent_sessions: limit, updated_at: new Date().toISOString() })
+      .where('id', '=', accountId).executeTakeFirst();
+    return result.numUpdatedRows > 0;
   }
 
   async getCredits(accountId: string): Promise<{ tokenRemaining: number; topupRemaining: number } | null> {
@@ -90,6 +129,59 @@ export class SQLiteAccountRepo implements IAccountRepo {
     };
   }
 
+  async addTopup(accountId: string, tokens: number): Promise<number | null> {
+    return this.incrementBalance(accountId, 'topup_remaining', tokens);
+  }
+
+  async adjustCredits(accountId: string, delta: number): Promise<number | null> {
+    return this.incrementBalance(accountId, 'token_remaining', delta);
+  }
+
+  async setStatus(accountId: string, status: number, changedBy: string, reason: string): Promise<number | null> {
+    return this.db.transaction().execute(async (trx) => {
+      const account = await trx.selectFrom('accounts').select('status').where('id', '=', accountId)
+        .executeTakeFirst();
+      if (!account) return null;
+
+      const now = new Date().toISOString();
+      await trx.updateTable('accounts').set({ status, updated_at: now }).where('id', '=', accountId).execute();
+      await trx.insertInto('account_status_audit').values({
+        id: uuidv4(),
+        account_id: accountId,
+        previous_status: account.status,
+        status,
+        changed_by: changedBy,
+        reason,
+        created_at: now,
+      }).execute();
+      return account.status;
+    });
+  }
+
+  async getStatusAudit(accountId: string): Promise<AccountStatusAudit[]> {
+    return await this.db.selectFrom('account_status_audit').selectAll().where('account_id', '=', accountId)
+      .orderBy('created_at', 'asc').orderBy(sql`rowid`).execute();
+  }
+
+  private async incrementBalance(
+    accountId: string,
+    column: 'token_remaining' | 'topup_remaining',
+    amount: number
+  ): Promise<number | null> {
+    return this.db.transaction().execute(async (trx) => {
+      const result = await trx.updateTable('accounts')
+        .set((eb) => ({ [column]: eb(column, '+', amount), updated_at: new Date().toISOString() }))
+        .where('id', '=', accountId).executeTakeFirst();
+      if (result.numUpdatedRows < 1) return null;
+
+      const account = await trx.selectFrom('accounts')
+        .select(['token_remaining', 'topup_remaining'])
+        .where('id', '=', accountId)
+        .executeTakeFirstOrThrow();
+      return account.token_remaining + account.topup_remaining;
+    });
+  }
+
   private generateKey(): string {
     const random = randomBytes(24).toString('hex');
     return `rslive_v1_${random}`;
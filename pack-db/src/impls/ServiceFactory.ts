@@ -1,28 +1,56 @@
-import { IAccountService, Config } from 'pack-shared';
+import { IAccountService, IHealthService, Config, ConfigKeys, MetricsRegistry } from 'pack-shared';
 import { ILLMService } from '../interfaces/ILLMService';
 import { IServiceFactory } from '../interfaces/IServiceFactory';
 import { IAccountRepo } from '../interfaces/IAccountRepo';
 import { IUsageRepo } from '../interfaces/IUsageRepo';
 import { ISessionRepo } from '../interfaces/ISessionRepo';
+import { IHoldRepo } from '../interfaces/IHoldRepo';
+import { IBalancePublisher } from '../interfaces/IBalancePublisher';
+import { ICreditService } from '../interfaces/ICreditService';
+import { IMessageRepo } from '../interfaces/IMessageRepo';
+import { IPersistenceService } from '../interfaces/IPersistenceService';
+import { IAccountStatusService } from '../interfaces/IAccountStatusService';
+import { IClientTokenRepo } from '../interfaces/IClientTokenRepo';
 import { DatabaseConnection } from './DatabaseConnection';
 import { SQLiteAccountRepo } from './SQLiteAccountRepo';
 import { SQLUsageRepo } from './SQLUsageRepo';
 import { SQLSessionRepo } from './SQLSessionRepo';
+import { SQLHoldRepo } from './SQLHoldRepo';
+import { SQLMessageRepo } from './SQLMessageRepo';
+import { SQLClientTokenRepo } from './SQLClientTokenRepo';
 import { AccountServiceImpl } from './AccountServiceImpl';
 import { LLMServiceGemini } from './LLMServiceGemini';
 import { ZmqHandler } from './ZmqHandler';
+import { BalancePublisher } from './BalancePublisher';
+import { CreditServiceImpl } from './CreditServiceImpl';
+import { AccountStatusServiceImpl } from './AccountStatusServiceImpl';
+import { HealthServiceImpl } from './HealthServiceImpl';
 import { Migrator } from './migrations/Migrator';
 
+const DEFAULT_CREDIT_HOLD_CHUNK = 2000;
+const DEFAULT_CREDIT_HOLD_TTL_MS = 300000;
+const DEFAULT_API_KEY_LAST_USED_THROTTLE_MS = 60000;
+const DEFAULT_CLIENT_TOKEN_TTL_SECONDS = 300;
+const DEFAULT_CLIENT_TOKEN_MAX_TTL_SECONDS = 3600;
+
 export class ServiceFactory implements IServiceFactory {
   private static instance: ServiceFactory | null = null;
   private dbConnection: DatabaseConnection | null = null;
   private accountRepo: SQLiteAccountRepo | null = null;
   private usageRepo: SQLUsageRepo | null = null;
   private sessionRepo: SQLSessionRepo | null = null;
+  private holdRepo: SQLHoldRepo | null = null;
+  private messageRepo: SQLMessageRepo | null = null;
+  private clientTokenRepo: SQLClientTokenRepo | null = null;
   private accountService: AccountServiceImpl | null = null;
   private llmService: LLMServiceGemini | null = null;
   private zmqHandler: ZmqHandler | null = null;
+  private balancePublisher: BalancePublisher | null = null;
+  private creditService: CreditServiceImpl | null = null;
+  private accountStatusService: AccountStatusServiceImpl | null = null;
   private migrator: Migrator | null = null;
+  private healthService: HealthServiceImpl | null = null;
+  private metricsRegistry: MetricsRegistry | null = null;
 
   private constructor() {}
 
@@ -37,6 +65,9 @@ export class ServiceFactory implements IServiceFactory {
     if (ServiceFactory.instance?.zmqHandler) {
       ServiceFactory.instance.zmqHandler.stop();
     }
+    if (ServiceFactory.instance?.balancePublisher) {
+      ServiceFactory.instance.balancePublisher.stop();
+    }
     if (ServiceFactory.instance?.dbConnection) {
       ServiceFactory.instance.dbConnection.destroy();
     }
@@ -46,7 +77,7 @@ export class ServiceFactory implements IServiceFactory {
 
   getDatabaseConnection(): DatabaseConnection {
     if (!this.dbConnection) {
-      this.dbConnection = new DatabaseConnection();
+      this.dbConnection = new DatabaseConnection(this.getMetricsRegistry());
     }
     return this.dbConnection;
   }
@@ -79,6 +110,27 @@ export class ServiceFactory implements IServiceFactory {
     return this.sessionRepo;
   }
 
+  getHoldRepo(): IHoldRepo {
+    if (!this.holdRepo) {
+      this.holdRepo = new SQLHoldRepo(this.getDatabaseConnection().getDb());
+    }
+    return this.holdRepo;
+  }
+
+  getMessageRepo(): IMessageRepo {
+    if (!this.messageRepo) {
+      this.messageRepo = new SQLMessageRepo(this.getDatabaseConnection().getDb());
+    }
+    return this.messageRepo;
+  }
+
+  getClientTokenRepo(): IClientTokenRepo {
+    if (!this.clientTokenRepo) {
+      this.clientTokenRepo = new SQLClientTokenRepo(this.getDatabaseConnection().getDb());
+    }
+    return this.clientTokenRepo;
+  }
+
   getLLMService(): ILLMService {
     if (!this.llmService) {
       this.llmService = new LLMServiceGemini();
@@ -87,12 +139,28 @@ export class ServiceFactory implements IServiceFactory {
   }
 
   getAccountService(): IAccountService {
+    return this.getAccountServiceImpl();
+  }
+
+  getPersistenceService(): IPersistenceService {
+    return this.getAccountServiceImpl();
+  }
+
+  private getAccountServiceImpl(): AccountServiceImpl {
     if (!this.accountService) {
       this.accountService = new AccountServiceImpl(
         this.getAccountRepo(),
         this.getSessionRepo(),
         this.getUsageRepo(),
-        this.getLLMService()
+        this.getLLMService(),
+        this.getBalancePublisher(),
+        this.getCreditService(),
+        this.getClientTokenRepo(),
+        this.getNumber(ConfigKeys.API_KEY_LAST_USED_THROTTLE_MS, DEFAULT_API_KEY_LAST_USED_THROTTLE_MS),
+        {
+          defaultSeconds: this.getNumber(ConfigKeys.CLIENT_TOKEN_TTL_SECONDS, DEFAULT_CLIENT_TOKEN_TTL_SECONDS),
+          maxSeconds: this.getNumber(ConfigKeys.CLIENT_TOKEN_MAX_TTL_SECONDS, DEFAULT_CLIENT_TOKEN_MAX_TTL_SECONDS),
+        }
       );
     }
     return this.accountService;
@@ -100,8 +168,52 @@ export class ServiceFactory implements IServiceFactory {
 
   getZmqHandler(): ZmqHandler {
     if (!this.zmqHandler) {
-      this.zmqHandler = new ZmqHandler(this.getAccountService());
+      this.zmqHandler = new ZmqHandler(this.getAccountService(), this.getPersistenceService(), this.getMessageRepo(),
+        this.getHealthService());
     }
     return this.zmqHandler;
   }
+
+  getBalancePublisher(): IBalancePublisher {
+    if (!this.balancePublisher) {
+      this.balancePublisher = new BalancePublisher();
+    }
+    return this.balancePublisher;
+  }
+
+  getCreditService(): ICreditService {
+    if (!this.creditService) {
+      this.creditService = new CreditServiceImpl(this.getAccountRepo(), this.getHoldRepo(), this.getBalancePublisher(), {
+        chunk: this.getNumber(ConfigKeys.CREDIT_HOLD_CHUNK, DEFAULT_CREDIT_HOLD_CHUNK),
+        ttlMs: this.getNumber(ConfigKeys.CREDIT_HOLD_TTL_MS, DEFAULT_CREDIT_HOLD_TTL_MS),
+      });
+    }
+    return this.creditService;
+  }
+
+  getAccountStatusService(): IAccountStatusService {
+    if (!this.accountStatusService) {
+      this.accountStatusService = new AccountStatusServiceImpl(this.getAccountRepo(), this.getBalancePublisher());
+    }
+    return this.accountStatusService;
+  }
+
+  getHealthService(): IHealthService {
+    if (!this.healthService) {
+      this.healthService = new HealthServiceImpl(this.getDatabaseConnection().getDb(), this.getMigrator(),
+        this.getMetricsRegistry());
+    }
+    return this.healthService;
+  }
+
+  getMetricsRegistry(): MetricsRegistry {
+    if (!this.metricsRegistry) {
+      this.metricsRegistry = new MetricsRegistry();
+    }
+    return this.metricsRegistry;
+  }
+
+  private getNumber(key: ConfigKeys, defaultValue: number): number {
+    return Config.has(key) ? parseInt(Config.get(key), 10) : defaultValue;
+  }
 }
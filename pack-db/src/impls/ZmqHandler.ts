@@ -1,22 +1,40 @@
 import * as zmq from 'zeromq';
 import {
   ZmqMessageType,
-  ZMQ_FIRE_AND_FORGET,
+  ZMQ_DURABLE,
+  ZMQ_PROTOCOL_VERSION,
+  ZMQ_MIN_PROTOCOL_VERSION,
+  ErrorCode,
   IAccountService,
+  IHealthService,
   ZmqUtils,
+  ZmqFrames,
   Logger,
 } from 'pack-shared';
+import { IPersistenceService } from '../interfaces/IPersistenceService';
+import { IMessageRepo } from '../interfaces/IMessageRepo';
 
 const CLASS_NAME = 'ZmqHandler';
 const DEFAULT_SOCKET_PATH = 'ipc:///tmp/rs-pack-db.sock';
+const PROCESSED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PERMANENT_SQLITE_CODES = ['SQLITE_CONSTRAINT', 'SQLITE_MISMATCH', 'SQLITE_TOOBIG', 'SQLITE_RANGE'];
 
 export class ZmqHandler {
   private router: zmq.Router;
   private accountService: IAccountService;
+  private persistenceService: IPersistenceService;
+  private messageRepo: IMessageRepo;
+  private healthService: IHealthService;
+  private purgeTimer: NodeJS.Timeout | null = null;
   private running = false;
 
-  constructor(accountService: IAccountService) {
+  constructor(accountService: IAccountService, persistenceService: IPersistenceService, messageRepo: IMessageRepo,
+    healthService: IHealthService) {
     this.accountService = accountService;
+    this.persistenceService = persistenceService;
+    this.messageRepo = messageRepo;
+    this.healthService = healthService;
     this.router = new zmq.Router();
     this.router.sendHighWaterMark = 10000;
     this.router.receiveHighWaterMark = 10000;
@@ -26,65 +44,129 @@ export class ZmqHandler {
     await this.router.bind(socketPath);
     this.running = true;
     Logger.debug(CLASS_NAME, null, 'Listening on {}', socketPath);
+    this.purgeProcessed();
+    this.purgeTimer = setInterval(() => this.purgeProcessed(), PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
     this.listen();
   }
 
+  private purgeProcessed(): void {
+    const cutoff = new Date(Date.now() - PROCESSED_RETENTION_MS).toISOString();
+    this.messageRepo.purgeProcessedBefore(cutoff).then((purged) => {
+      if (purged > 0) Logger.debug(CLASS_NAME, null, 'Purged {} processed message ids', purged);
+    }).catch((err) => {
+      Logger.error(CLASS_NAME, null, 'Failed to purge processed message ids', err);
+    });
+  }
+
   private async listen(): Promise<void> {
     try {
-      for await (const [identity, delimiter, msgBuffer] of this.router) {
+      for await (const [identity, delimiter, ...frameBuffers] of this.router) {
         if (!this.running) break;
-        this.handleMessage(identity, delimiter, msgBuffer.toString());
+        this.handleMessage(identity, delimiter, frameBuffers.map(frame => frame.toString()));
       }
     } catch (error) {
       if (this.running) Logger.error(CLASS_NAME, null, 'Listen error', error as Error);
     }
   }
 
-  private async handleMessage(identity: Buffer, delimiter: Buffer, rawString: string): Promise<void> {
-    const request = ZmqUtils.decodeRequest(rawString);
+  private async handleMessage(identity: Buffer, delimiter: Buffer, frames: ZmqFrames): Promise<void> {
+    const version = ZmqUtils.parseVersion(frames[0] ?? '');
+    if (version !== null && !ZmqUtils.isSupportedVersion(version) && frames.length >= 3) {
+      Logger.warn(CLASS_NAME, null, 'Rejecting {} from protocol version {}', frames[2], version);
+      await this.router.send([identity, delimiter, ...ZmqUtils.encodeResponse(ZMQ_PROTOCOL_VERSION, frames[1],
+        frames[2] as ZmqMessageType, ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE)]);
+      return;
+    }
+
+    const request = ZmqUtils.decodeRequest(frames);
 
     if (!request) {
-      Logger.error(CLASS_NAME, null, 'Failed to decode request: {}', new Error('Decode failed'), rawString.slice(0, 100));
+      Logger.error(CLASS_NAME, null, 'Failed to decode request: {}', new Error('Decode failed'),
+        frames.slice(0, 3).join(' ').slice(0, 100));
       return;
     }
 
     const { id, type, args } = request;
+    const replyVersion = Math.min(request.version, ZMQ_PROTOCOL_VERSION);
 
-
-    if (ZMQ_FIRE_AND_FORGET.has(type)) {
-      try {
-        await this.processFireAndForget(type, args);
-      } catch (error) {
-        Logger.error(CLASS_NAME, null, 'Fire-and-forget error: {}', error as Error, type);
-      }
+    if (ZMQ_DURABLE.has(type)) {
+      await this.handleDurable(identity, delimiter, replyVersion, id, type, args);
       return;
     }
 
-
     try {
-      const response = await this.processRequest(id, type, args);
-      await this.router.send([identity, delimiter, response]);
+      const response = await this.processRequest(replyVersion, id, type, args);
+      await this.router.send([identity, delimiter, ...response]);
     } catch (error) {
       Logger.error(CLASS_NAME, null, 'Error processing: {}', error as Error, type);
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      await this.router.send([identity, delimiter, ZmqUtils.encodeResponse(id, type, errorMsg)]);
+      await this.router.send([identity, delimiter, ...ZmqUtils.encodeResponse(replyVersion, id, type, errorMsg)]);
+    }
+  }
+
+  private async handleDurable(
+    identity: Buffer,
+    delimiter: Buffer,
+    version: number,
+    id: string,
+    type: ZmqMessageType,
+    args: Record<string, string | number>
+  ): Promise<void> {
+    let error = '';
+    try {
+      if (type === ZmqMessageType.UPDATE_USAGE) {
+        await this.processDurable(id, type, args);
+      } else if (await this.messageRepo.markProcessed(id, type)) {
+        try {
+          await this.processDurable(id, type, args);
+        } catch (processError) {
+          await this.messageRepo.unmarkProcessed(id);
+          throw processError;
+        }
+      } else {
+        Logger.debug(CLASS_NAME, null, 'Skipping duplicate {} {}', type, id);
+      }
+    } catch (err) {
+      Logger.error(CLASS_NAME, null, 'Error processing: {}', err as Error, type);
+      error = err instanceof Error ? err.message : 'Unknown error';
+      if (ZmqHandler.isPermanentFailure(err)) {
+        error = `${ErrorCode.INTERNAL_DB_MESSAGE_REJECTED}: ${error}`;
+      }
+    }
+
+    try {
+      await this.router.send([identity, delimiter, ...ZmqUtils.encodeResponse(version, id, type, error)]);
+    } catch (err) {
+      Logger.error(CLASS_NAME, null, 'Failed to acknowledge {}', err as Error, id);
     }
   }
 
-  private async processFireAndForget(
+  private static isPermanentFailure(error: unknown): boolean {
+    if (!(error instanceof Error)) return true;
+    if (error.message === ErrorCode.INTERNAL_DB_ACCOUNT_NOT_FOUND) return true;
+    const code = (error as Error & { code?: unknown }).code;
+    return typeof code === 'string' && PERMANENT_SQLITE_CODES.some(prefix => code.startsWith(prefix));
+  }
+
+  private async processDurable(
+    id: string,
     type: ZmqMessageType,
     args: Record<string, string | number>
   ): Promise<void> {
     switch (type) {
       case ZmqMessageType.UPDATE_USAGE: {
-        const { accountId, sessionId, provider, inputTokens, outputTokens } = args as {
+        const { accountId, sessionId, provider, inputTokens, outputTokens, holdId, keyHash } = args as {
           accountId: string;
           sessionId: string;
           provider: string;
           inputTokens: number;
           outputTokens: number;
+          holdId: string;
+          keyHash: string;
         };
-        this.accountService.updateUsage(accountId, sessionId, provider, inputTokens, outputTokens);
+        await this.persistenceService.persistUsage(accountId, sessionId, provider, inputTokens, outputTokens, holdId,
+          keyHash, id);
         break;
       }
       case ZmqMessageType.SAVE_SESSION: {
@@ -93,7 +175,7 @@ export class ZmqHandler {
           sessionId: string;
           sessionData: string;
         };
-        this.accountService.saveSession(accountId, sessionId, sessionData);
+        await this.persistenceService.persistSession(accountId, sessionId, sessionData);
         break;
       }
       case ZmqMessageType.APPEND_CONVERSATION: {
@@ -102,29 +184,93 @@ export class ZmqHandler {
           sessionId: string;
           conversationData: string;
         };
-        this.accountService.appendConversation(accountId, sessionId, conversationData);
+        await this.persistenceService.persistConversation(accountId, sessionId, conversationData);
+        break;
+      }
+      case ZmqMessageType.RELEASE_CREDITS: {
+        const { accountId, holdId } = args as { accountId: string; holdId: string };
+        await this.persistenceService.persistRelease(accountId, holdId);
+        break;
+      }
+      case ZmqMessageType.SAVE_LATENCY: {
+        const { accountId, sessionId, provider, turns, firstAudioP50Ms, firstAudioP95Ms, turnP50Ms, turnP95Ms } =
+          args as { accountId: string; sessionId: string; provider: string; turns: number; firstAudioP50Ms: number;
+            firstAudioP95Ms: number; turnP50Ms: number; turnP95Ms: number };
+        await this.persistenceService.persistLatency(accountId, sessionId,
+          { provider, turns, firstAudioP50Ms, firstAudioP95Ms, turnP50Ms, turnP95Ms });
         break;
       }
       default:
-        Logger.error(CLASS_NAME, null, 'Unknown fire-and-forget type: {}', new Error('Unknown type'), type);
+        throw new Error(`Unknown message type: ${type}`);
     }
   }
 
   private async processRequest(
+    version: number,
     id: string,
     type: ZmqMessageType,
     args: Record<string, string | number>
-  ): Promise<string> {
+  ): Promise<ZmqFrames> {
     switch (type) {
       case ZmqMessageType.VALIDATE_AND_LOAD: {
-        const { apiKey, sessionId } = args as { apiKey: string; sessionId: string };
-        const data = await this.accountService.validateAndLoad(apiKey, sessionId);
-        return ZmqUtils.encodeResponse(id, type, data.error, data.accountId, data.sessionData, data.credits);
+        const { apiKey, sessionId, provider, apiStyle, origin, rejectDuplicate } = args as {
+          apiKey: string; sessionId: string; provider: string; apiStyle: string; origin: string;
+          rejectDuplicate: number;
+        };
+        const data = await this.accountService.validateAndLoad(apiKey, sessionId,
+          { provider, apiStyle, origin, rejectDuplicate: rejectDuplicate === 1 });
+        return ZmqUtils.encodeResponse(version, id, type, data.error, data.accountId, data.sessionData, data.credits,
+          data.creditAlertThresholds, data.holdId, data.reserved, data.keyHash, data.maxSessionSeconds,
+          data.maxConcurrentSessions);
       }
       case ZmqMessageType.GET_CREDITS: {
         const { accountId } = args as { accountId: string };
         const credits = await this.accountService.getCredits(accountId);
-        return ZmqUtils.encodeResponse(id, type, '', credits);
+        return ZmqUtils.encodeResponse(version, id, type, '', credits);
+      }
+      case ZmqMessageType.RESERVE_CREDITS: {
+        const { accountId, sessionId, holdId, keyHash } = args as {
+          accountId: string;
+          sessionId: string;
+          holdId: string;
+          keyHash: string;
+        };
+        const reservation = await this.accountService.reserveCredits(accountId, sessionId, holdId, keyHash);
+        return ZmqUtils.encodeResponse(version, id, type, reservation.error, reservation.reserved,
+          reservation.credits);
+      }
+      case ZmqMessageType.REFRESH_HOLD: {
+        const { accountId, holdId } = args as { accountId: string; holdId: string };
+        const refreshed = await this.accountService.refreshHold(accountId, holdId);
+        return ZmqUtils.encodeResponse(version, id, type, '', refreshed ? 1 : 0);
+      }
+      case ZmqMessageType.CHECK_SESSION_LIMIT: {
+        const { accountId, sessionId } = args as { accountId: string; sessionId: string };
+        const { limit, overLimit } = await this.accountService.checkSessionLimit(accountId, sessionId);
+        return ZmqUtils.encodeResponse(version, id, type, '', limit, overLimit ? 1 : 0);
+      }
+      case ZmqMessageType.CREATE_CLIENT_TOKEN: {
+        const { apiKey, sessionId, ttlSeconds } = args as { apiKey: string; sessionId: string; ttlSeconds: number };
+        const result = await this.accountService.createClientToken(apiKey, sessionId, ttlSeconds);
+        return ZmqUtils.encodeResponse(version, id, type, result.error, result.token, result.expiresAt);
+      }
+      case ZmqMessageType.PING:
+        return ZmqUtils.encodeResponse(version, id, type, '');
+      case ZmqMessageType.HEALTH: {
+        const { database, pendingMigrations } = await this.healthService.check();
+        return ZmqUtils.encodeResponse(version, id, type, '', database ? 1 : 0, pendingMigrations);
+      }
+      case ZmqMessageType.METRICS:
+        return ZmqUtils.encodeResponse(version, id, type, '', await this.healthService.getMetrics());
+      case ZmqMessageType.HELLO: {
+        const { minVersion, maxVersion } = args as { minVersion: number; maxVersion: number };
+        const negotiated = ZmqUtils.negotiateVersion(minVersion, maxVersion);
+        if (negotiated === null) {
+          Logger.warn(CLASS_NAME, null, 'Peer speaks protocol {}-{}, we support {}-{}', minVersion, maxVersion,
+            ZMQ_MIN_PROTOCOL_VERSION, ZMQ_PROTOCOL_VERSION);
+          return ZmqUtils.encodeResponse(version, id, type, ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE);
+        }
+        return ZmqUtils.encodeResponse(version, id, type, '', negotiated);
       }
       default:
         throw new Error(`Unknown message type: ${type}`);
@@ -133,6 +279,10 @@ export class ZmqHandler {
 
   async stop(): Promise<void> {
     this.running = false;
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
     this.router.close();
     Logger.debug(CLASS_NAME, null, 'Stopped');
   }
@@ -1,4 +1,4 @@
-import { Kysely } from 'kysely';
+import { Kysely, sql } from 'kysely';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -30,14 +30,19 @@ export class Migrator {
   async runAll(): Promise<MigrationResult[]> {
     const results: MigrationResult[] = [];
     const files = this.getMigrationFiles();
-    for (const file of files) {
-      const result = await this.runMigration(file);
+    for (let i = 0; i < files.length; i++) {
+      const result = await this.runMigration(files[i]);
       results.push(result);
       if (result.status === 'failed') break;
+      await this.setAppliedCount(i + 1);
     }
     return results;
   }
 
+  async getPendingCount(): Promise<number> {
+    return Math.max(0, this.getMigrationFiles().length - await this.getAppliedCount());
+  }
+
   async runMigration(fileName: string): Promise<MigrationResult> {
     const name = fileName.replace(/\.(ts|js)$/, '');
     try {
@@ -57,6 +62,10 @@ export class Migrator {
       const filePath = path.join(this.migrationsPath, fileName);
       const migration: MigrationModule = await import(filePath);
       await migration.down(this.db);
+      const index = this.getMigrationFiles().indexOf(fileName);
+      if (index !== -1 && index < await this.getAppliedCount()) {
+        await this.setAppliedCount(index);
+      }
       return { name, status: 'executed' };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -64,6 +73,15 @@ export class Migrator {
     }
   }
 
+  private async getAppliedCount(): Promise<number> {
+    const result = await sql<{ user_version: number }>`PRAGMA user_version`.execute(this.db);
+    return result.rows[0]?.user_version ?? 0;
+  }
+
+  private async setAppliedCount(count: number): Promise<void> {
+    await sql`PRAGMA user_version = ${sql.raw(String(count))}`.execute(this.db);
+  }
+
   private getMigrationFiles(): string[] {
     if (!fs.existsSync(this.migrationsPath)) return [];
     return fs.readdirSync(this.migrationsPath)
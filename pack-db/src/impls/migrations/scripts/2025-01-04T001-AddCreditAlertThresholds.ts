@@ -0,0 +1,21 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'accounts', 'credit_alert_thresholds')) {
+    console.log('✅ SKIPPED: accounts.credit_alert_thresholds column already exists');
+    return 'skipped';
+  }
+
+  await db.schema.alterTable('accounts')
+    .addColumn('credit_alert_thresholds', 'text')
+    .execute();
+
+  console.log('✅ EXECUTED: accounts.credit_alert_thresholds column added');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('accounts').dropColumn('credit_alert_thresholds').execute();
+}
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.tableExists(db, 'credit_holds')) {
+    console.log('✅ SKIPPED: credit_holds table already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'accounts'))) {
+    throw new Error('❌ HALT: accounts table must exist before creating credit_holds table');
+  }
+
+  await db.schema.createTable('credit_holds')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('account_id', 'text', (col) => col.notNull().references('accounts.id').onDelete('cascade'))
+    .addColumn('session_id', 'text', (col) => col.notNull())
+    .addColumn('amount', 'integer', (col) => col.defaultTo(0).notNull())
+    .addColumn('created_at', 'text', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull())
+    .addColumn('expires_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema.createIndex('credit_holds_account_expires_index')
+    .on('credit_holds')
+    .columns(['account_id', 'expires_at'])
+    .execute();
+
+  console.log('✅ EXECUTED: credit_holds table created with indexes');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('credit_holds').ifExists().execute();
+}
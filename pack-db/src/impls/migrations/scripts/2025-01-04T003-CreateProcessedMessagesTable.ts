@@ -0,0 +1,28 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.tableExists(db, 'processed_messages')) {
+    console.log('✅ SKIPPED: processed_messages table already exists');
+    return 'skipped';
+  }
+
+  await db.schema.createTable('processed_messages')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('type', 'text', (col) => col.notNull())
+    .addColumn('processed_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema.createIndex('processed_messages_processed_at_index')
+    .on('processed_messages')
+    .column('processed_at')
+    .execute();
+
+  console.log('✅ EXECUTED: processed_messages table created with indexes');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('processed_messages').ifExists().execute();
+}
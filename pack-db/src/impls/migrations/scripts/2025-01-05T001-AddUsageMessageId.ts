@@ -0,0 +1,32 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'usage_metrics', 'message_id')) {
+    console.log('✅ SKIPPED: usage_metrics.message_id column already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'usage_metrics'))) {
+    throw new Error('❌ HALT: usage_metrics table must exist before adding message_id');
+  }
+
+  await db.schema.alterTable('usage_metrics')
+    .addColumn('message_id', 'text')
+    .execute();
+
+  await db.schema.createIndex('usage_metrics_message_id_unique')
+    .on('usage_metrics')
+    .column('message_id')
+    .unique()
+    .execute();
+
+  console.log('✅ EXECUTED: usage_metrics.message_id column added with unique index');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('usage_metrics_message_id_unique').ifExists().execute();
+  await db.schema.alterTable('usage_metrics').dropColumn('message_id').execute();
+}
@@ -0,0 +1,36 @@
+import { Kysely, sql } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.tableExists(db, 'account_status_audit')) {
+    console.log('✅ SKIPPED: account_status_audit table already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'accounts'))) {
+    throw new Error('❌ HALT: accounts table must exist before creating account_status_audit table');
+  }
+
+  await db.schema.createTable('account_status_audit')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('account_id', 'text', (col) => col.notNull().references('accounts.id').onDelete('cascade'))
+    .addColumn('previous_status', 'integer', (col) => col.notNull())
+    .addColumn('status', 'integer', (col) => col.notNull())
+    .addColumn('changed_by', 'text', (col) => col.notNull())
+    .addColumn('reason', 'text', (col) => col.notNull())
+    .addColumn('created_at', 'text', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull())
+    .execute();
+
+  await db.schema.createIndex('account_status_audit_account_created_index')
+    .on('account_status_audit')
+    .columns(['account_id', 'created_at'])
+    .execute();
+
+  console.log('✅ EXECUTED: account_status_audit table created with indexes');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('account_status_audit').ifExists().execute();
+}
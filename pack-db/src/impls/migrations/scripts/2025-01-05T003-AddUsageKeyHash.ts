@@ -0,0 +1,31 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'usage_metrics', 'key_hash')) {
+    console.log('✅ SKIPPED: usage_metrics.key_hash column already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'usage_metrics'))) {
+    throw new Error('❌ HALT: usage_metrics table must exist before adding key_hash');
+  }
+
+  await db.schema.alterTable('usage_metrics')
+    .addColumn('key_hash', 'text')
+    .execute();
+
+  await db.schema.createIndex('usage_metrics_account_key_index')
+    .on('usage_metrics')
+    .columns(['account_id', 'key_hash'])
+    .execute();
+
+  console.log('✅ EXECUTED: usage_metrics.key_hash column added with index');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('usage_metrics_account_key_index').ifExists().execute();
+  await db.schema.alterTable('usage_metrics').dropColumn('key_hash').execute();
+}
@@ -0,0 +1,29 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'api_keys', 'allowed_providers')) {
+    console.log('✅ SKIPPED: api_keys scope columns already exist');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'api_keys'))) {
+    throw new Error('❌ HALT: api_keys table must exist before adding scope columns');
+  }
+
+  await db.schema.alterTable('api_keys').addColumn('allowed_providers', 'text').execute();
+  await db.schema.alterTable('api_keys').addColumn('allowed_origins', 'text').execute();
+  await db.schema.alterTable('api_keys').addColumn('max_session_seconds', 'integer').execute();
+  await db.schema.alterTable('api_keys').addColumn('token_budget', 'integer').execute();
+
+  console.log('✅ EXECUTED: api_keys scope columns added');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('api_keys').dropColumn('token_budget').execute();
+  await db.schema.alterTable('api_keys').dropColumn('max_session_seconds').execute();
+  await db.schema.alterTable('api_keys').dropColumn('allowed_origins').execute();
+  await db.schema.alterTable('api_keys').dropColumn('allowed_providers').execute();
+}
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.tableExists(db, 'client_tokens')) {
+    console.log('✅ SKIPPED: client_tokens table already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'api_keys'))) {
+    throw new Error('❌ HALT: api_keys table must exist before creating client_tokens table');
+  }
+
+  await db.schema.createTable('client_tokens')
+    .addColumn('token_hash', 'text', (col) => col.primaryKey())
+    .addColumn('key_hash', 'text', (col) => col.notNull().references('api_keys.key_hash').onDelete('cascade'))
+    .addColumn('account_id', 'text', (col) => col.notNull().references('accounts.id').onDelete('cascade'))
+    .addColumn('session_id', 'text', (col) => col.notNull())
+    .addColumn('created_at', 'text', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull())
+    .addColumn('expires_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema.createIndex('client_tokens_expires_index')
+    .on('client_tokens')
+    .column('expires_at')
+    .execute();
+
+  console.log('✅ EXECUTED: client_tokens table created with indexes');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('client_tokens').ifExists().execute();
+}
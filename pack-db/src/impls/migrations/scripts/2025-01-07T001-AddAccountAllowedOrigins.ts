@@ -0,0 +1,23 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'accounts', 'allowed_origins')) {
+    console.log('✅ SKIPPED: accounts.allowed_origins already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'accounts'))) {
+    throw new Error('❌ HALT: accounts table must exist before adding allowed_origins');
+  }
+
+  await db.schema.alterTable('accounts').addColumn('allowed_origins', 'text').execute();
+
+  console.log('✅ EXECUTED: accounts.allowed_origins added');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('accounts').dropColumn('allowed_origins').execute();
+}
@@ -0,0 +1,23 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'accounts', 'max_concurrent_sessions')) {
+    console.log('✅ SKIPPED: accounts.max_concurrent_sessions already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'accounts'))) {
+    throw new Error('❌ HALT: accounts table must exist before adding max_concurrent_sessions');
+  }
+
+  await db.schema.alterTable('accounts').addColumn('max_concurrent_sessions', 'integer').execute();
+
+  console.log('✅ EXECUTED: accounts.max_concurrent_sessions added');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('accounts').dropColumn('max_concurrent_sessions').execute();
+}
@@ -0,0 +1,32 @@
+import { Kysely, sql } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.tableExists(db, 'session_latency')) {
+    console.log('✅ SKIPPED: session_latency table already exists');
+    return 'skipped';
+  }
+
+  await sql`
+    CREATE TABLE session_latency (
+      account_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      turns INTEGER NOT NULL,
+      first_audio_p50_ms INTEGER NOT NULL,
+      first_audio_p95_ms INTEGER NOT NULL,
+      turn_p50_ms INTEGER NOT NULL,
+      turn_p95_ms INTEGER NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (account_id, session_id)
+    )
+  `.execute(db);
+
+  console.log('✅ EXECUTED: session_latency table created');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('session_latency').ifExists().execute();
+}
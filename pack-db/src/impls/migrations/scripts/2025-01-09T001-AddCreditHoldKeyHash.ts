@@ -0,0 +1,31 @@
+import { Kysely } from 'kysely';
+import { PreconditionHelpers } from '../PreconditionHelpers';
+import { MigrationStatus } from '../Migrator';
+
+export async function up(db: Kysely<any>): Promise<MigrationStatus> {
+  if (await PreconditionHelpers.columnExists(db, 'credit_holds', 'key_hash')) {
+    console.log('✅ SKIPPED: credit_holds.key_hash column already exists');
+    return 'skipped';
+  }
+
+  if (!(await PreconditionHelpers.tableExists(db, 'credit_holds'))) {
+    throw new Error('❌ HALT: credit_holds table must exist before adding key_hash');
+  }
+
+  await db.schema.alterTable('credit_holds')
+    .addColumn('key_hash', 'text')
+    .execute();
+
+  await db.schema.createIndex('credit_holds_key_hash_index')
+    .on('credit_holds')
+    .column('key_hash')
+    .execute();
+
+  console.log('✅ EXECUTED: credit_holds.key_hash column added with index');
+  return 'executed';
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('credit_holds_key_hash_index').ifExists().execute();
+  await db.schema.alterTable('credit_holds').dropColumn('key_hash').execute();
+}
@@ -1,6 +1,19 @@
 export { Account, Database, CreateAccountInput } from './interfaces/entities/Account';
 export { ApiKey, CreateApiKeyInput, CreateApiKeyResult } from './interfaces/entities/ApiKey';
 export { IAccountRepo } from './interfaces/IAccountRepo';
+export { ICreditService, CreditHoldOptions } from './interfaces/ICreditService';
+export { IUsageRepo, KeyUsage, UsageInsertResult } from './interfaces/IUsageRepo';
+export { IHoldRepo, HoldReservation } from './interfaces/IHoldRepo';
+export { CreditHold } from './interfaces/entities/CreditHold';
+export { IMessageRepo } from './interfaces/IMessageRepo';
+export { IClientTokenRepo, IssuedClientToken, ClientTokenTtlOptions } from './interfaces/IClientTokenRepo';
+export { ClientTokenRow, CLIENT_TOKEN_PREFIX } from './interfaces/entities/ClientToken';
+export { IPersistenceService } from './interfaces/IPersistenceService';
+export { IAccountStatusService } from './interfaces/IAccountStatusService';
+export { HealthServiceImpl } from './impls/HealthServiceImpl';
+export { AccountStatusAudit } from './interfaces/entities/AccountStatusAudit';
+export { ProcessedMessage } from './interfaces/entities/ProcessedMessage';
+export { IBalancePublisher, AccountEventListener } from './interfaces/IBalancePublisher';
 export { IServiceFactory } from './interfaces/IServiceFactory';
 export { ServiceFactory } from './impls/ServiceFactory';
 export { Migrator, Migration, MigrationResult, MigrationStatus, MigrationModule } from './impls/migrations/Migrator';
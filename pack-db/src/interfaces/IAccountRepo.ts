@@ -1,13 +1,22 @@
 import { Account, CreateAccountInput } from './entities/Account';
 import { ApiKey, CreateApiKeyInput, CreateApiKeyResult } from './entities/ApiKey';
+import { AccountStatusAudit } from './entities/AccountStatusAudit';
 
 export interface IAccountRepo {
   createAccount(input: CreateAccountInput): Promise<Account>;
   getAccount(accountId: string): Promise<Account | null>;
   createApiKey(input: CreateApiKeyInput): Promise<CreateApiKeyResult>;
   validateApiKey(plainKey: string): Promise<ApiKey | null>;
+  getApiKey(keyHash: string): Promise<ApiKey | null>;
   getApiKeysByAccountId(accountId: string): Promise<ApiKey[]>;
   revokeApiKey(keyHash: string): Promise<boolean>;
-  updateLastUsed(keyHash: string): Promise<void>;
+  updateLastUsed(keyHash: string, staleBefore?: string): Promise<boolean>;
+  setCreditAlertThresholds(accountId: string, thresholds: string | null): Promise<boolean>;
+  setAllowedOrigins(accountId: string, origins: string[] | null): Promise<boolean>;
+  setMaxConcurrentSessions(accountId: string, limit: number | null): Promise<boolean>;
   getCredits(accountId: string): Promise<{ tokenRemaining: number; topupRemaining: number } | null>;
+  addTopup(accountId: string, tokens: number): Promise<number | null>;
+  adjustCredits(accountId: string, delta: number): Promise<number | null>;
+  setStatus(accountId: string, status: number, changedBy: string, reason: string): Promise<number | null>;
+  getStatusAudit(accountId: string): Promise<AccountStatusAudit[]>;
 }
@@ -0,0 +1,8 @@
+import { AccountStatus } from 'pack-shared';
+import { AccountStatusAudit } from './entities/AccountStatusAudit';
+
+export interface IAccountStatusService {
+  setStatus(accountId: string, status: AccountStatus, changedBy: string, reason: string): Promise<boolean>;
+  suspend(accountId: string, changedBy: string, reason: string): Promise<boolean>;
+  getStatusHistory(accountId: string): Promise<AccountStatusAudit[]>;
+}
@@ -0,0 +1,13 @@
+import { ZmqEvent } from 'pack-shared';
+
+export type AccountEventListener = (event: ZmqEvent) => void;
+
+export interface IBalancePublisher {
+  start(socketPath: string): Promise<void>;
+  publishBalance(accountId: string, credits: number): void;
+  publishAccountStatus(accountId: string, status: number): void;
+  publishSessionReplaced(accountId: string, sessionId: string, holdId: string): void;
+  addListener(listener: AccountEventListener): void;
+  removeListener(listener: AccountEventListener): void;
+  stop(): Promise<void>;
+}
@@ -0,0 +1,15 @@
+export interface IssuedClientToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface ClientTokenTtlOptions {
+  defaultSeconds: number;
+  maxSeconds: number;
+}
+
+export interface IClientTokenRepo {
+  createToken(keyHash: string, accountId: string, sessionId: string, ttlMs: number): Promise<IssuedClientToken>;
+  resolveToken(token: string, sessionId: string): Promise<string | null>;
+  deleteExpired(): Promise<number>;
+}
@@ -0,0 +1,18 @@
+import { HoldKey, HoldReservation, SessionHoldReservation, SessionLimits } from './IHoldRepo';
+
+export interface CreditHoldOptions {
+  chunk: number;
+  ttlMs: number;
+}
+
+export interface ICreditService {
+  topUp(accountId: string, tokens: number): Promise<number | null>;
+  adjustCredits(accountId: string, delta: number): Promise<number | null>;
+  reserve(accountId: string, sessionId: string, holdId: string, key: HoldKey | null): Promise<HoldReservation>;
+  openSession(accountId: string, sessionId: string, limits: SessionLimits): Promise<SessionHoldReservation>;
+  drawDown(holdId: string, tokens: number): Promise<void>;
+  refresh(holdId: string): Promise<boolean>;
+  getHoldTtlMs(): number;
+  release(holdId: string): Promise<boolean>;
+  countOpenSessions(accountId: string, exceptSessionId: string): Promise<number>;
+}
@@ -0,0 +1,33 @@
+export interface HoldReservation {
+  holdId: string;
+  reserved: number;
+  credits: number;
+  error: string;
+}
+
+export interface HoldKey {
+  keyHash: string;
+  budget: number | null;
+}
+
+export interface SessionLimits {
+  maxConcurrentSessions: number;
+  rejectDuplicate: boolean;
+  key: HoldKey | null;
+}
+
+export interface SessionHoldReservation extends HoldReservation {
+  replacedHoldIds: string[];
+}
+
+export interface IHoldRepo {
+  reserve(accountId: string, sessionId: string, holdId: string, amount: number, ttlMs: number,
+    key: HoldKey | null): Promise<HoldReservation>;
+  reserveSession(accountId: string, sessionId: string, holdId: string, amount: number, ttlMs: number,
+    limits: SessionLimits): Promise<SessionHoldReservation>;
+  drawDown(holdId: string, tokens: number, ttlMs: number): Promise<void>;
+  refresh(holdId: string, ttlMs: number): Promise<boolean>;
+  release(holdId: string): Promise<boolean>;
+  getHeldAmount(accountId: string): Promise<number>;
+  countOpenSessions(accountId: string, exceptSessionId: string): Promise<number>;
+}
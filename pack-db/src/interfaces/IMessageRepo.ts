@@ -0,0 +1,5 @@
+export interface IMessageRepo {
+  markProcessed(id: string, type: string): Promise<boolean>;
+  unmarkProcessed(id: string): Promise<void>;
+  purgeProcessedBefore(cutoff: string): Promise<number>;
+}
@@ -0,0 +1,10 @@
+import { SessionLatency } from 'pack-shared';
+
+export interface IPersistenceService {
+  persistUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number,
+    holdId: string, keyHash: string, messageId: string | null): Promise<void>;
+  persistSession(accountId: string, sessionId: string, sessionData: string): Promise<void>;
+  persistConversation(accountId: string, sessionId: string, conversationData: string): Promise<void>;
+  persistRelease(accountId: string, holdId: string): Promise<void>;
+  persistLatency(accountId: string, sessionId: string, latency: SessionLatency): Promise<void>;
+}
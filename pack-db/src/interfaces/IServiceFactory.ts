@@ -1,8 +1,15 @@
-import { IAccountService } from 'pack-shared';
+import { IAccountService, IHealthService, MetricsRegistry } from 'pack-shared';
 import { ILLMService } from './ILLMService';
 import { IAccountRepo } from './IAccountRepo';
 import { IUsageRepo } from './IUsageRepo';
 import { ISessionRepo } from './ISessionRepo';
+import { IHoldRepo } from './IHoldRepo';
+import { IBalancePublisher } from './IBalancePublisher';
+import { ICreditService } from './ICreditService';
+import { IMessageRepo } from './IMessageRepo';
+import { IPersistenceService } from './IPersistenceService';
+import { IAccountStatusService } from './IAccountStatusService';
+import { IClientTokenRepo } from './IClientTokenRepo';
 import { DatabaseConnection } from '../impls/DatabaseConnection';
 import { Migrator } from '../impls/migrations/Migrator';
 import { ZmqHandler } from '../impls/ZmqHandler';
@@ -13,7 +20,16 @@ export interface IServiceFactory {
   getAccountRepo(): IAccountRepo;
   getUsageRepo(): IUsageRepo;
   getSessionRepo(): ISessionRepo;
+  getHoldRepo(): IHoldRepo;
+  getMessageRepo(): IMessageRepo;
+  getClientTokenRepo(): IClientTokenRepo;
   getAccountService(): IAccountService;
+  getPersistenceService(): IPersistenceService;
   getLLMService(): ILLMService;
   getZmqHandler(): ZmqHandler;
+  getBalancePublisher(): IBalancePublisher;
+  getCreditService(): ICreditService;
+  getAccountStatusService(): IAccountStatusService;
+  getHealthService(): IHealthService;
+  getMetricsRegistry(): MetricsRegistry;
 }
@@ -1,14 +1,29 @@
+import { SessionLatency } from 'pack-shared';
+
 export interface SessionRow {
   account_id: string;
   type: string;
   data: string;
   token_remaining: number;
   topup_remaining: number;
+  credit_alert_thresholds: string | null;
+  account_allowed_origins: string | null;
+  plan_name: string;
+  max_concurrent_sessions: number | null;
+  status: number;
+  key_hash: string;
+  last_used_at: string | null;
+  allowed_providers: string | null;
+  allowed_origins: string | null;
+  max_session_seconds: number | null;
+  token_budget: number | null;
 }
 
 export interface ISessionRepo {
   upsertSession(accountId: string, sessionId: string, sessionData: string): Promise<void>;
   appendConversation(accountId: string, sessionId: string, conversationData: string): Promise<void>;
   loadSessionByKeyAndId(apiKey: string, sessionId: string): Promise<SessionRow[]>;
+  loadSessionByKeyHashAndId(keyHash: string, sessionId: string): Promise<SessionRow[]>;
   overwriteConversation(accountId: string, sessionId: string, content: string): Promise<void>;
+  upsertLatency(accountId: string, sessionId: string, latency: SessionLatency): Promise<void>;
 }
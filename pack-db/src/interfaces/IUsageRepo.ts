@@ -1,9 +1,31 @@
+export interface UsageInsertResult {
+  inserted: boolean;
+  credits: number;
+}
+
+export interface UsageHold {
+  holdId: string;
+  ttlMs: number;
+}
+
+export interface KeyUsage {
+  keyHash: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
 export interface IUsageRepo {
   insertUsage(
     accountId: string,
     sessionId: string,
     provider: string,
     inputTokens: number,
-    outputTokens: number
-  ): Promise<void>;
+    outputTokens: number,
+    keyHash: string | null,
+    messageId: string | null,
+    hold: UsageHold | null
+  ): Promise<UsageInsertResult>;
+  getUsageByKey(accountId: string, since?: string): Promise<KeyUsage[]>;
+  getKeyTokensUsed(accountId: string, keyHash: string): Promise<number>;
 }
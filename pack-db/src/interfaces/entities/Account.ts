@@ -1,6 +1,10 @@
 import { ApiKey } from './ApiKey';
-import { Session } from './Session';
+import { Session, SessionLatencyRow } from './Session';
 import { UsageMetric } from './UsageMetric';
+import { CreditHold } from './CreditHold';
+import { ProcessedMessage } from './ProcessedMessage';
+import { AccountStatusAudit } from './AccountStatusAudit';
+import { ClientTokenRow } from './ClientToken';
 
 export interface Account {
   id: string;
@@ -9,6 +13,9 @@ export interface Account {
   token_remaining: number;
   topup_remaining: number;
   status: number;
+  credit_alert_thresholds: string | null;
+  allowed_origins: string | null;
+  max_concurrent_sessions: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -18,6 +25,11 @@ export interface Database {
   api_keys: ApiKey;
   sessions: Session;
   usage_metrics: UsageMetric;
+  credit_holds: CreditHold;
+  processed_messages: ProcessedMessage;
+  account_status_audit: AccountStatusAudit;
+  client_tokens: ClientTokenRow;
+  session_latency: SessionLatencyRow;
 }
 
 export interface CreateAccountInput {
@@ -25,4 +37,7 @@ export interface CreateAccountInput {
   planName?: string;
   tokenRemaining?: number;
   topupRemaining?: number;
+  creditAlertThresholds?: string;
+  allowedOrigins?: string[];
+  maxConcurrentSessions?: number;
 }
@@ -0,0 +1,9 @@
+export interface AccountStatusAudit {
+  id: string;
+  account_id: string;
+  previous_status: number;
+  status: number;
+  changed_by: string;
+  reason: string;
+  created_at: string;
+}
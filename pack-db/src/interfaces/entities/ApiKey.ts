@@ -6,12 +6,20 @@ export interface ApiKey {
   created_at: string;
   expires_at: string | null;
   last_used_at: string | null;
+  allowed_providers: string | null;
+  allowed_origins: string | null;
+  max_session_seconds: number | null;
+  token_budget: number | null;
 }
 
 export interface CreateApiKeyInput {
   accountId: string;
   label: string;
   expiresAt?: string | null;
+  allowedProviders?: string[] | null;
+  allowedOrigins?: string[] | null;
+  maxSessionSeconds?: number | null;
+  tokenBudget?: number | null;
 }
 
 export interface CreateApiKeyResult {
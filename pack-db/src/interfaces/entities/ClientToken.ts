@@ -0,0 +1,10 @@
+export const CLIENT_TOKEN_PREFIX = 'rstok_v1_';
+
+export interface ClientTokenRow {
+  token_hash: string;
+  key_hash: string;
+  account_id: string;
+  session_id: string;
+  created_at: string;
+  expires_at: string;
+}
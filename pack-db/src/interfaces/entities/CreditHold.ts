@@ -0,0 +1,9 @@
+export interface CreditHold {
+  id: string;
+  account_id: string;
+  session_id: string;
+  key_hash: string | null;
+  amount: number;
+  created_at: string;
+  expires_at: string;
+}
@@ -0,0 +1,5 @@
+export interface ProcessedMessage {
+  id: string;
+  type: string;
+  processed_at: string;
+}
@@ -5,3 +5,15 @@ export interface Session {
   data: string;
   created_at: string;
 }
+
+export interface SessionLatencyRow {
+  account_id: string;
+  session_id: string;
+  provider: string;
+  turns: number;
+  first_audio_p50_ms: number;
+  first_audio_p95_ms: number;
+  turn_p50_ms: number;
+  turn_p95_ms: number;
+  updated_at: string;
+}
@@ -7,4 +7,6 @@ export interface UsageMetric {
   output_tokens: number;
   total_tokens: number;
   created_at: string;
+  message_id: string | null;
+  key_hash: string | null;
 }
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountStatus, Config, ConfigKeys, ErrorCode, ZmqEvent, ZmqEventType } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { AccountStatusTestCases } from './AccountStatusTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-account-status.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+
+describe('Account status', () => {
+  let factory: ServiceFactory;
+
+  const createAccountWithKey = async (email: string, tokenRemaining = 5000) => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email, tokenRemaining });
+    const { plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Status' });
+    return { accountId: account.id, apiKey: plainKey };
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+  });
+
+  afterAll(() => {
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should reject connects for every status but active', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('status-connect@example.com');
+    const accountService = factory.getAccountService();
+    const statusService = factory.getAccountStatusService();
+
+    const active = await accountService.validateAndLoad(apiKey, 'sess-active');
+    expect(active.error, AccountStatusTestCases.EXPECT_ACTIVE_ACCOUNT_LOADS).toBe('');
+    factory.getAccountService().releaseCredits(accountId, active.holdId);
+
+    const cases: [AccountStatus, ErrorCode][] = [
+      [AccountStatus.SUSPENDED, ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED],
+      [AccountStatus.CLOSED, ErrorCode.EXTERNAL_ACCOUNT_CLOSED],
+      [AccountStatus.PAYMENT_OVERDUE, ErrorCode.EXTERNAL_PAYMENT_OVERDUE],
+    ];
+    for (const [status, error] of cases) {
+      await statusService.setStatus(accountId, status, 'admin@example.com', 'test');
+      const result = await accountService.validateAndLoad(apiKey, 'sess-status');
+      expect(result.error, AccountStatusTestCases.EXPECT_STATUS_REJECTED).toBe(error);
+      expect(result.reserved, AccountStatusTestCases.EXPECT_NO_HOLD_FOR_REJECTED).toBe(0);
+    }
+
+    await statusService.setStatus(accountId, 99 as AccountStatus, 'admin@example.com', 'unknown');
+    expect((await accountService.validateAndLoad(apiKey, 'sess-status')).error,
+      AccountStatusTestCases.EXPECT_UNKNOWN_STATUS_REJECTED).toBe(ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED);
+
+    await statusService.setStatus(accountId, AccountStatus.ACTIVE, 'admin@example.com', 'resolved');
+    expect((await accountService.validateAndLoad(apiKey, 'sess-status')).error,
+      AccountStatusTestCases.EXPECT_REACTIVATED_ACCOUNT_LOADS).toBe('');
+  });
+
+  it('should check the status before credits', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('status-credits@example.com', 0);
+    await factory.getAccountStatusService().suspend(accountId, 'admin@example.com', 'chargeback');
+
+    const result = await factory.getAccountService().validateAndLoad(apiKey, 'sess-empty');
+    expect(result.error, AccountStatusTestCases.EXPECT_STATUS_CHECKED_BEFORE_CREDITS)
+      .toBe(ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED);
+  });
+
+  it('should audit and publish status changes', async () => {
+    const { accountId } = await createAccountWithKey('status-audit@example.com');
+    const statusService = factory.getAccountStatusService();
+    const events: ZmqEvent[] = [];
+    const listener = (event: ZmqEvent) => events.push(event);
+    factory.getBalancePublisher().addListener(listener);
+
+    await statusService.suspend(accountId, 'admin@example.com', 'abuse report #12');
+    await statusService.setStatus(accountId, AccountStatus.ACTIVE, 'support@example.com', 'appeal accepted');
+    factory.getBalancePublisher().removeListener(listener);
+
+    const history = await statusService.getStatusHistory(accountId);
+    expect(history.map(({ previous_status, status, changed_by, reason }) => ({ previous_status, status, changed_by, reason })),
+      AccountStatusTestCases.EXPECT_AUDIT_RECORDED).toEqual([
+      { previous_status: AccountStatus.ACTIVE, status: AccountStatus.SUSPENDED, changed_by: 'admin@example.com',
+        reason: 'abuse report #12' },
+      { previous_status: AccountStatus.SUSPENDED, status: AccountStatus.ACTIVE, changed_by: 'support@example.com',
+        reason: 'appeal accepted' },
+    ]);
+    expect(events, AccountStatusTestCases.EXPECT_STATUS_PUBLISHED).toEqual([
+      { type: ZmqEventType.ACCOUNT_STATUS_CHANGED, accountId, status: AccountStatus.SUSPENDED },
+      { type: ZmqEventType.ACCOUNT_STATUS_CHANGED, accountId, status: AccountStatus.ACTIVE },
+    ]);
+  });
+
+  it('should not audit a missing account', async () => {
+    const statusService = factory.getAccountStatusService();
+    expect(await statusService.suspend('missing', 'admin@example.com', 'test'),
+      AccountStatusTestCases.EXPECT_MISSING_ACCOUNT_REJECTED).toBe(false);
+    expect(await statusService.getStatusHistory('missing'), AccountStatusTestCases.EXPECT_MISSING_ACCOUNT_REJECTED)
+      .toEqual([]);
+  });
+});
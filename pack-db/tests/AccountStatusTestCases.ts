@@ -0,0 +1,11 @@
+export enum AccountStatusTestCases {
+  EXPECT_ACTIVE_ACCOUNT_LOADS = 'An active account loads its session',
+  EXPECT_STATUS_REJECTED = 'Suspended, closed and payment-overdue accounts are rejected with their own error code',
+  EXPECT_NO_HOLD_FOR_REJECTED = 'No credits are reserved for a rejected account',
+  EXPECT_UNKNOWN_STATUS_REJECTED = 'An unknown status is treated as suspended',
+  EXPECT_STATUS_CHECKED_BEFORE_CREDITS = 'The status error wins over NO_CREDITS',
+  EXPECT_REACTIVATED_ACCOUNT_LOADS = 'A reactivated account loads its session again',
+  EXPECT_AUDIT_RECORDED = 'Every status change is audited with who changed it and why',
+  EXPECT_STATUS_PUBLISHED = 'Status changes are published as ACCOUNT_STATUS_CHANGED events',
+  EXPECT_MISSING_ACCOUNT_REJECTED = 'Changing the status of a missing account returns false without an audit row',
+}
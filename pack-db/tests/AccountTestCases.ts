@@ -11,4 +11,9 @@ export enum AccountTestCases {
   EXPECT_CUSTOM_TOPUP = 'Custom topup value should be set',
   EXPECT_ACCOUNT_NOT_NULL = 'Account should not be null',
   EXPECT_ACCOUNT_NULL_FOR_NONEXISTENT = 'Account should be null for non-existent ID',
+  EXPECT_THRESHOLDS_DEFAULT_NULL = 'Credit alert thresholds should default to null',
+  EXPECT_THRESHOLDS_ON_CREATE = 'Credit alert thresholds should be set on create',
+  EXPECT_THRESHOLDS_UPDATED = 'Credit alert thresholds should be updated',
+  EXPECT_THRESHOLDS_UPDATE_MISSING = 'Updating thresholds of a non-existent account should return false',
+  EXPECT_THRESHOLDS_IN_SESSION_DATA = 'validateAndLoad should return the account credit alert thresholds',
 }
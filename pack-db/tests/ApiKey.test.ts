@@ -136,5 +136,18 @@ describe('ApiKey', () => {
       const updated = keys.find((k) => k.key_hash === result.apiKey.key_hash);
       expect(updated!.last_used_at, ApiKeyTestCases.EXPECT_LAST_USED_UPDATED).not.toBeNull();
     });
+
+    it('should skip the write while last_used_at is recent', async () => {
+      const repo = factory.getAccountRepo();
+      const result = await repo.createApiKey({ accountId: testAccountId, label: 'Throttle Test' });
+      const hourAgo = new Date(Date.now() - 3600000).toISOString();
+
+      expect(await repo.updateLastUsed(result.apiKey.key_hash, hourAgo), ApiKeyTestCases.EXPECT_LAST_USED_UPDATED)
+        .toBe(true);
+      expect(await repo.updateLastUsed(result.apiKey.key_hash, hourAgo), ApiKeyTestCases.EXPECT_RECENT_USE_NOT_WRITTEN)
+        .toBe(false);
+      expect(await repo.updateLastUsed(result.apiKey.key_hash, new Date(Date.now() + 1000).toISOString()),
+        ApiKeyTestCases.EXPECT_STALE_USE_WRITTEN).toBe(true);
+    });
   });
 });
@@ -21,4 +21,6 @@ export enum ApiKeyTestCases {
   EXPECT_REVOKE_NONEXISTENT_FALSE = 'Revoke non-existent key should return false',
   EXPECT_LAST_USED_NULL_INITIALLY = 'last_used_at should be null initially',
   EXPECT_LAST_USED_UPDATED = 'last_used_at should be updated after updateLastUsed',
+  EXPECT_RECENT_USE_NOT_WRITTEN = 'last_used_at should not be rewritten while newer than the stale cutoff',
+  EXPECT_STALE_USE_WRITTEN = 'last_used_at should be rewritten once older than the stale cutoff',
 }
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zmq from 'zeromq';
+import { ConfigKeys, ZmqEvent, ZmqEventType, ZmqUtils } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { BalancePublisherTestCases } from './BalancePublisherTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-balance.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+const TEST_EVENTS_SOCKET = `ipc:///tmp/rs-test-balance-${process.pid}.sock`;
+
+type BalanceEvent = { accountId: string; credits: number };
+
+describe('BalancePublisher', () => {
+  let factory: ServiceFactory;
+  let subscriber: zmq.Subscriber;
+  const received: BalanceEvent[] = [];
+
+  const waitForEvent = async (accountId: string, credits: number): Promise<BalanceEvent | undefined> => {
+    for (let i = 0; i < 50; i++) {
+      const event = received.find(e => e.accountId === accountId && e.credits === credits);
+      if (event) return event;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return undefined;
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+    await factory.getBalancePublisher().start(TEST_EVENTS_SOCKET);
+
+    subscriber = new zmq.Subscriber();
+    subscriber.connect(TEST_EVENTS_SOCKET);
+    subscriber.subscribe(ZmqEventType.BALANCE_CHANGED);
+    (async () => {
+      for await (const frames of subscriber) {
+        const event = ZmqUtils.decodeEvent(frames.map(frame => frame.toString()));
+        if (event?.type === ZmqEventType.BALANCE_CHANGED) received.push({ accountId: event.accountId, credits: event.credits });
+      }
+    })().catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 100));
+  });
+
+  afterAll(() => {
+    subscriber.close();
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should round-trip balance events through ZmqUtils', () => {
+    const raw = ZmqUtils.encodeEvent(ZmqEventType.BALANCE_CHANGED, 'acc-1', -250);
+    expect(ZmqUtils.decodeEvent(raw), BalancePublisherTestCases.EXPECT_EVENT_ROUND_TRIP)
+      .toEqual({ type: ZmqEventType.BALANCE_CHANGED, accountId: 'acc-1', credits: -250 });
+  });
+
+  it('should publish the balance after usage is recorded', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-pub@example.com', tokenRemaining: 1000,
+      topupRemaining: 100 });
+
+    const { credits } = await factory.getUsageRepo().insertUsage(account.id, 'sess-pub', 'OPENAI', 200, 100, null, null,
+      null);
+    expect(credits, BalancePublisherTestCases.EXPECT_USAGE_RETURNS_BALANCE).toBe(800);
+
+    factory.getAccountService().updateUsage(account.id, 'sess-pub', 'OPENAI', 50, 50, '', '');
+    expect(await waitForEvent(account.id, 700), BalancePublisherTestCases.EXPECT_USAGE_PUBLISHED).toBeDefined();
+  });
+
+  it('should publish the balance after top-ups and adjustments', async () => {
+    const repo = factory.getAccountRepo();
+    const creditService = factory.getCreditService();
+    const account = await repo.createAccount({ email: 'topup-pub@example.com', tokenRemaining: 1000 });
+
+    expect(await creditService.topUp(account.id, 500), BalancePublisherTestCases.EXPECT_TOPUP_PUBLISHED).toBe(1500);
+    expect(await waitForEvent(account.id, 1500), BalancePublisherTestCases.EXPECT_TOPUP_PUBLISHED).toBeDefined();
+
+    expect(await creditService.adjustCredits(account.id, -300), BalancePublisherTestCases.EXPECT_ADJUSTMENT_PUBLISHED)
+      .toBe(1200);
+    expect(await waitForEvent(account.id, 1200), BalancePublisherTestCases.EXPECT_ADJUSTMENT_PUBLISHED).toBeDefined();
+
+    const credits = await repo.getCredits(account.id);
+    expect(credits!.topupRemaining, BalancePublisherTestCases.EXPECT_TOPUP_ADDS_TO_TOPUP_BALANCE).toBe(500);
+    expect(credits!.tokenRemaining, BalancePublisherTestCases.EXPECT_ADJUSTMENT_CHANGES_PLAN_BALANCE).toBe(700);
+  });
+
+  it('should notify in-process listeners until they are removed', async () => {
+    const publisher = factory.getBalancePublisher();
+    const notified: ZmqEvent[] = [];
+    const listener = (event: ZmqEvent) => notified.push(event);
+
+    publisher.addListener(listener);
+    publisher.publishBalance('acc-listener', 42);
+    publisher.removeListener(listener);
+    publisher.publishBalance('acc-listener', 41);
+
+    expect(notified, BalancePublisherTestCases.EXPECT_LISTENER_NOTIFIED)
+      .toEqual([{ type: ZmqEventType.BALANCE_CHANGED, accountId: 'acc-listener', credits: 42 }]);
+    expect(await waitForEvent('acc-listener', 41), BalancePublisherTestCases.EXPECT_LISTENER_DOES_NOT_REPLACE_SOCKET)
+      .toBeDefined();
+  });
+
+  it('should return null for a missing account', async () => {
+    const creditService = factory.getCreditService();
+    expect(await creditService.topUp('missing', 100), BalancePublisherTestCases.EXPECT_MISSING_ACCOUNT_NULL).toBeNull();
+    expect(await creditService.adjustCredits('missing', 100), BalancePublisherTestCases.EXPECT_MISSING_ACCOUNT_NULL)
+      .toBeNull();
+  });
+});
@@ -0,0 +1,12 @@
+export enum BalancePublisherTestCases {
+  EXPECT_USAGE_RETURNS_BALANCE = 'insertUsage returns the balance left after deduction',
+  EXPECT_USAGE_PUBLISHED = 'Balance published after usage is recorded',
+  EXPECT_TOPUP_PUBLISHED = 'Balance published after a top-up',
+  EXPECT_ADJUSTMENT_PUBLISHED = 'Balance published after an admin adjustment',
+  EXPECT_TOPUP_ADDS_TO_TOPUP_BALANCE = 'Top-up credited to topup_remaining',
+  EXPECT_ADJUSTMENT_CHANGES_PLAN_BALANCE = 'Adjustment applied to token_remaining',
+  EXPECT_MISSING_ACCOUNT_NULL = 'Top-up and adjustment of a missing account return null',
+  EXPECT_EVENT_ROUND_TRIP = 'Balance event decodes to the published account and credits',
+  EXPECT_LISTENER_NOTIFIED = 'In-process listeners receive balances published while they are registered',
+  EXPECT_LISTENER_DOES_NOT_REPLACE_SOCKET = 'Balances are still published on the socket alongside listeners',
+}
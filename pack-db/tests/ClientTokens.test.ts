@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConfigKeys, ErrorCode } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { CLIENT_TOKEN_PREFIX } from '../src/interfaces/entities/ClientToken';
+import { ClientTokensTestCases } from './ClientTokensTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-client-tokens.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+
+describe('Client tokens', () => {
+  let factory: ServiceFactory;
+
+  const createAccountWithKey = async (email: string, allowedOrigins?: string[]) => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email, tokenRemaining: 5000 });
+    const { apiKey, plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Tokens', allowedOrigins });
+    return { accountId: account.id, keyHash: apiKey.key_hash, apiKey: plainKey };
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    process.env[ConfigKeys.CLIENT_TOKEN_MAX_TTL_SECONDS] = '600';
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+  });
+
+  afterAll(() => {
+    ServiceFactory.reset();
+    delete process.env[ConfigKeys.CLIENT_TOKEN_MAX_TTL_SECONDS];
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should mint a token that loads only the session it is bound to', async () => {
+    const { accountId, keyHash, apiKey } = await createAccountWithKey('tokens-bound@example.com');
+    const accountService = factory.getAccountService();
+
+    const minted = await accountService.createClientToken(apiKey, 'sess-bound', 0);
+    expect(minted.error, ClientTokensTestCases.EXPECT_TOKEN_MINTED).toBe('');
+    expect(minted.token.startsWith(CLIENT_TOKEN_PREFIX), ClientTokensTestCases.EXPECT_TOKEN_MINTED).toBe(true);
+    expect(minted.token, ClientTokensTestCases.EXPECT_TOKEN_MINTED).not.toContain(apiKey);
+
+    const loaded = await accountService.validateAndLoad(minted.token, 'sess-bound');
+    expect(loaded, ClientTokensTestCases.EXPECT_TOKEN_LOADS_SESSION).toMatchObject({ error: '', accountId, keyHash });
+
+    expect((await accountService.validateAndLoad(minted.token, 'sess-other')).error,
+      ClientTokensTestCases.EXPECT_OTHER_SESSION_REJECTED).toBe(ErrorCode.EXTERNAL_INVALID_AUTH);
+  });
+
+  it('should clamp the requested ttl to the configured maximum', async () => {
+    const { apiKey } = await createAccountWithKey('tokens-ttl@example.com');
+    const before = Date.now();
+
+    const minted = await factory.getAccountService().createClientToken(apiKey, 'sess-ttl', 86400);
+    const ttlMs = new Date(minted.expiresAt).getTime() - before;
+    expect(ttlMs, ClientTokensTestCases.EXPECT_TTL_CLAMPED).toBeGreaterThan(590000);
+    expect(ttlMs, ClientTokensTestCases.EXPECT_TTL_CLAMPED).toBeLessThanOrEqual(601000);
+  });
+
+  it('should reject an expired token and delete it', async () => {
+    const { accountId, keyHash } = await createAccountWithKey('tokens-expired@example.com');
+    const tokenRepo = factory.getClientTokenRepo();
+
+    const { token } = await tokenRepo.createToken(keyHash, accountId, 'sess-expired', -1000);
+    expect((await factory.getAccountService().validateAndLoad(token, 'sess-expired')).error,
+      ClientTokensTestCases.EXPECT_EXPIRED_REJECTED).toBe(ErrorCode.EXTERNAL_INVALID_AUTH);
+    expect(await tokenRepo.deleteExpired(), ClientTokensTestCases.EXPECT_EXPIRED_DELETED).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should refuse to mint from unknown keys, tokens and inactive accounts', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('tokens-refuse@example.com');
+    const accountService = factory.getAccountService();
+
+    expect((await accountService.createClientToken('rslive_v1_unknown', 'sess', 0)).error,
+      ClientTokensTestCases.EXPECT_UNKNOWN_KEY_REFUSED).toBe(ErrorCode.EXTERNAL_INVALID_AUTH);
+
+    const minted = await accountService.createClientToken(apiKey, 'sess', 0);
+    expect((await accountService.createClientToken(minted.token, 'sess', 0)).error,
+      ClientTokensTestCases.EXPECT_TOKEN_NOT_EXCHANGED).toBe(ErrorCode.EXTERNAL_INVALID_AUTH);
+
+    await factory.getAccountStatusService().suspend(accountId, 'admin@example.com', 'test');
+    expect((await accountService.createClientToken(apiKey, 'sess', 0)).error,
+      ClientTokensTestCases.EXPECT_INACTIVE_ACCOUNT_REFUSED).toBe(ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED);
+  });
+
+  it('should apply the scopes of the key the token was minted from', async () => {
+    const { apiKey } = await createAccountWithKey('tokens-scope@example.com', ['https://app.example.com']);
+    const accountService = factory.getAccountService();
+    const { token } = await accountService.createClientToken(apiKey, 'sess-scope', 0);
+
+    expect((await accountService.validateAndLoad(token, 'sess-scope',
+      { provider: 'OPENAI', apiStyle: 'OPENAI', origin: 'https://evil.example.com' })).error,
+    ClientTokensTestCases.EXPECT_KEY_SCOPES_APPLIED).toBe(ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED);
+    expect((await accountService.validateAndLoad(token, 'sess-scope',
+      { provider: 'OPENAI', apiStyle: 'OPENAI', origin: 'https://app.example.com' })).error,
+    ClientTokensTestCases.EXPECT_KEY_SCOPES_APPLIED).toBe('');
+  });
+});
@@ -0,0 +1,12 @@
+export enum ClientTokensTestCases {
+  EXPECT_TOKEN_MINTED = 'A valid key mints a prefixed token that does not contain the key',
+  EXPECT_TOKEN_LOADS_SESSION = 'The token loads its session as the key it was minted from',
+  EXPECT_OTHER_SESSION_REJECTED = 'The token is rejected for any other session id',
+  EXPECT_TTL_CLAMPED = 'A requested ttl above CLIENT_TOKEN_MAX_TTL_SECONDS is clamped',
+  EXPECT_EXPIRED_REJECTED = 'An expired token is rejected',
+  EXPECT_EXPIRED_DELETED = 'Expired tokens are deleted',
+  EXPECT_UNKNOWN_KEY_REFUSED = 'An unknown key cannot mint tokens',
+  EXPECT_TOKEN_NOT_EXCHANGED = 'A token cannot be exchanged for another token',
+  EXPECT_INACTIVE_ACCOUNT_REFUSED = 'An account that is not active cannot mint tokens',
+  EXPECT_KEY_SCOPES_APPLIED = 'Scopes of the minting key apply to sessions opened with the token',
+}
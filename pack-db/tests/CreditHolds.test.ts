@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConfigKeys, ErrorCode, ZmqEvent, ZmqEventType } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { CreditHoldsTestCases } from './CreditHoldsTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-holds.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+const HOLD_CHUNK = 400;
+
+describe('Credit holds', () => {
+  let factory: ServiceFactory;
+
+  const createAccountWithKey = async (email: string, tokenRemaining: number, planName = 'Pro') => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email, tokenRemaining, planName });
+    const { plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Holds' });
+    return { accountId: account.id, apiKey: plainKey };
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    process.env[ConfigKeys.CREDIT_HOLD_CHUNK] = String(HOLD_CHUNK);
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+  });
+
+  afterAll(() => {
+    delete process.env[ConfigKeys.CREDIT_HOLD_CHUNK];
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should reserve a chunk when a session is loaded', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-load@example.com', 5000);
+
+    const sessionData = await factory.getAccountService().validateAndLoad(apiKey, 'sess-load');
+
+    expect(sessionData.reserved, CreditHoldsTestCases.EXPECT_CHUNK_RESERVED_ON_LOAD).toBe(HOLD_CHUNK);
+    expect(sessionData.holdId, CreditHoldsTestCases.EXPECT_HOLD_ID_RETURNED).not.toBe('');
+    expect(await factory.getHoldRepo().getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_CHUNK_RESERVED_ON_LOAD)
+      .toBe(HOLD_CHUNK);
+  });
+
+  it('should never reserve more than the balance for concurrent sessions', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-race@example.com', 1000);
+    const accountService = factory.getAccountService();
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map(i => accountService.validateAndLoad(apiKey, `sess-race-${i}`))
+    );
+
+    const accepted = results.filter(r => r.error === '');
+    const rejected = results.filter(r => r.error === ErrorCode.EXTERNAL_NO_CREDITS);
+    const totalReserved = accepted.reduce((sum, r) => sum + r.reserved, 0);
+
+    expect(totalReserved, CreditHoldsTestCases.EXPECT_RACE_NEVER_OVERCOMMITS).toBe(1000);
+    expect(accepted.map(r => r.reserved).sort(), CreditHoldsTestCases.EXPECT_RACE_NEVER_OVERCOMMITS)
+      .toEqual([200, 400, 400]);
+    expect(rejected.length, CreditHoldsTestCases.EXPECT_RACE_REJECTS_LATECOMERS).toBe(2);
+    expect(await factory.getHoldRepo().getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_RACE_NEVER_OVERCOMMITS)
+      .toBe(1000);
+  });
+
+  it('should bound concurrent refills by the unreserved balance', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-refill@example.com', 1000);
+    const accountService = factory.getAccountService();
+    const first = await accountService.validateAndLoad(apiKey, 'sess-refill-1');
+    const second = await accountService.validateAndLoad(apiKey, 'sess-refill-2');
+
+    const refills = await Promise.all([
+      accountService.reserveCredits(accountId, 'sess-refill-1', first.holdId, ''),
+      accountService.reserveCredits(accountId, 'sess-refill-2', second.holdId, ''),
+      accountService.reserveCredits(accountId, 'sess-refill-1', first.holdId, ''),
+    ]);
+
+    expect(refills.reduce((sum, r) => sum + r.reserved, 0), CreditHoldsTestCases.EXPECT_REFILL_RACE_BOUNDED).toBe(200);
+    expect(await factory.getHoldRepo().getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_REFILL_RACE_BOUNDED)
+      .toBe(1000);
+  });
+
+  it('should draw down and release holds', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-usage@example.com', 1000);
+    const accountService = factory.getAccountService();
+    const creditService = factory.getCreditService();
+    const holdRepo = factory.getHoldRepo();
+    const session = await accountService.validateAndLoad(apiKey, 'sess-usage');
+
+    await factory.getUsageRepo().insertUsage(accountId, 'sess-usage', 'OPENAI', 100, 50, null, null, null);
+    await creditService.drawDown(session.holdId, 150);
+    expect(await holdRepo.getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_DRAW_DOWN_REDUCES_HOLD).toBe(250);
+
+    const extended = await accountService.reserveCredits(accountId, 'sess-usage', session.holdId, '');
+    expect(extended.reserved, CreditHoldsTestCases.EXPECT_EXISTING_HOLD_EXTENDED).toBe(HOLD_CHUNK);
+    expect(await holdRepo.getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_EXISTING_HOLD_EXTENDED).toBe(650);
+
+    expect(await creditService.release(session.holdId), CreditHoldsTestCases.EXPECT_RELEASE_FREES_BALANCE).toBe(true);
+    expect(await holdRepo.getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_RELEASE_FREES_BALANCE).toBe(0);
+
+    const next = await accountService.validateAndLoad(apiKey, 'sess-usage-next');
+    expect(next.reserved, CreditHoldsTestCases.EXPECT_RELEASE_FREES_BALANCE).toBe(HOLD_CHUNK);
+  });
+
+  it('should ignore expired holds', async () => {
+    const { accountId } = await createAccountWithKey('holds-expired@example.com', 500);
+    const holdRepo = factory.getHoldRepo();
+
+    await holdRepo.reserve(accountId, 'sess-stale', 'hold-stale', 500, -1000, null);
+    expect(await holdRepo.getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_EXPIRED_HOLD_IGNORED).toBe(0);
+
+    const fresh = await holdRepo.reserve(accountId, 'sess-fresh', 'hold-fresh', 500, 60000, null);
+    expect(fresh.reserved, CreditHoldsTestCases.EXPECT_EXPIRED_HOLD_IGNORED).toBe(500);
+  });
+
+  it('should keep a refreshed hold past its original TTL', async () => {
+    const { accountId } = await createAccountWithKey('holds-refresh@example.com', 500);
+    const holdRepo = factory.getHoldRepo();
+    const limits = { maxConcurrentSessions: 1, rejectDuplicate: false, key: null };
+
+    await holdRepo.reserve(accountId, 'sess-idle', 'hold-idle', 500, 100, null);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await holdRepo.refresh('hold-idle', 60000), CreditHoldsTestCases.EXPECT_REFRESHED_HOLD_KEPT).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(await holdRepo.getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_REFRESHED_HOLD_KEPT).toBe(500);
+    expect((await holdRepo.reserveSession(accountId, 'sess-other', 'hold-other', 500, 60000, limits)).error,
+      CreditHoldsTestCases.EXPECT_REFRESHED_HOLD_KEPT).toBe(ErrorCode.EXTERNAL_TOO_MANY_SESSIONS);
+
+    const stale = await createAccountWithKey('holds-refresh-stale@example.com', 500);
+    await holdRepo.reserve(stale.accountId, 'sess-gone', 'hold-gone', 500, -1000, null);
+    expect(await holdRepo.refresh('hold-gone', 60000), CreditHoldsTestCases.EXPECT_EXPIRED_HOLD_NOT_REFRESHED)
+      .toBe(false);
+  });
+
+  it('should count open holds against the concurrent session limit of the account', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-cap@example.com', 5000, 'Free');
+    const accountService = factory.getAccountService();
+    const first = await accountService.validateAndLoad(apiKey, 'sess-cap-1');
+    await accountService.validateAndLoad(apiKey, 'sess-cap-2');
+
+    const rejected = await accountService.validateAndLoad(apiKey, 'sess-cap-3');
+    expect(rejected.error, CreditHoldsTestCases.EXPECT_SESSION_LIMIT_ENFORCED)
+      .toBe(ErrorCode.EXTERNAL_TOO_MANY_SESSIONS);
+    expect(await factory.getHoldRepo().getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_SESSION_LIMIT_ENFORCED)
+      .toBe(2 * HOLD_CHUNK);
+
+    await factory.getCreditService().release(first.holdId);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-cap-3')).error,
+      CreditHoldsTestCases.EXPECT_SESSION_SLOT_FREED).toBe('');
+  });
+
+  it('should report a live session over a lowered concurrent session limit', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-lowered@example.com', 5000);
+    const accountService = factory.getAccountService();
+    await accountService.validateAndLoad(apiKey, 'sess-lowered-1');
+    const second = await accountService.validateAndLoad(apiKey, 'sess-lowered-2');
+    expect(await accountService.checkSessionLimit(accountId, 'sess-lowered-1'),
+      CreditHoldsTestCases.EXPECT_SESSION_WITHIN_LIMIT).toEqual({ limit: 20, overLimit: false });
+
+    await factory.getAccountRepo().setMaxConcurrentSessions(accountId, 1);
+    expect(await accountService.checkSessionLimit(accountId, 'sess-lowered-1'),
+      CreditHoldsTestCases.EXPECT_SESSION_OVER_LOWERED_LIMIT).toEqual({ limit: 1, overLimit: true });
+
+    await factory.getCreditService().release(second.holdId);
+    expect(await accountService.checkSessionLimit(accountId, 'sess-lowered-1'),
+      CreditHoldsTestCases.EXPECT_SESSION_WITHIN_LIMIT).toEqual({ limit: 1, overLimit: false });
+  });
+
+  it('should reject a duplicate session when asked and replace its hold otherwise', async () => {
+    const { accountId, apiKey } = await createAccountWithKey('holds-duplicate@example.com', 5000);
+    const accountService = factory.getAccountService();
+    const events: ZmqEvent[] = [];
+    factory.getBalancePublisher().addListener(event => events.push(event));
+    const first = await accountService.validateAndLoad(apiKey, 'sess-dup');
+
+    const rejected = await accountService.validateAndLoad(apiKey, 'sess-dup',
+      { provider: '', apiStyle: '', origin: '', rejectDuplicate: true });
+    expect(rejected.error, CreditHoldsTestCases.EXPECT_DUPLICATE_REJECTED).toBe(ErrorCode.EXTERNAL_SESSION_DUPLICATE);
+
+    const second = await accountService.validateAndLoad(apiKey, 'sess-dup');
+    expect(second.error, CreditHoldsTestCases.EXPECT_DUPLICATE_REPLACED).toBe('');
+    expect(await factory.getHoldRepo().getHeldAmount(accountId), CreditHoldsTestCases.EXPECT_DUPLICATE_REPLACED)
+      .toBe(HOLD_CHUNK);
+    expect(events, CreditHoldsTestCases.EXPECT_DUPLICATE_REPLACED).toContainEqual(
+      { type: ZmqEventType.SESSION_REPLACED, accountId, sessionId: 'sess-dup', holdId: first.holdId });
+  });
+});
@@ -0,0 +1,19 @@
+export enum CreditHoldsTestCases {
+  EXPECT_CHUNK_RESERVED_ON_LOAD = 'validateAndLoad reserves one chunk for the session',
+  EXPECT_HOLD_ID_RETURNED = 'validateAndLoad returns the id of the new hold',
+  EXPECT_RACE_NEVER_OVERCOMMITS = 'Concurrent sessions never reserve more than the balance',
+  EXPECT_RACE_REJECTS_LATECOMERS = 'Sessions arriving after the balance is fully held are rejected with NO_CREDITS',
+  EXPECT_REFILL_RACE_BOUNDED = 'Concurrent refills only hand out the unreserved balance',
+  EXPECT_DRAW_DOWN_REDUCES_HOLD = 'Recorded usage draws down the hold',
+  EXPECT_RELEASE_FREES_BALANCE = 'Released holds free the balance for other sessions',
+  EXPECT_EXPIRED_HOLD_IGNORED = 'Expired holds do not block new reservations',
+  EXPECT_REFRESHED_HOLD_KEPT = 'A refreshed hold outlives its original TTL and still takes a session slot',
+  EXPECT_EXPIRED_HOLD_NOT_REFRESHED = 'An expired hold is not brought back by a refresh',
+  EXPECT_EXISTING_HOLD_EXTENDED = 'Reserving on an existing hold adds to it',
+  EXPECT_SESSION_LIMIT_ENFORCED = 'A session past the account limit of open holds is rejected without a hold',
+  EXPECT_SESSION_SLOT_FREED = 'Releasing a hold frees a session slot',
+  EXPECT_SESSION_WITHIN_LIMIT = 'A live session is within the limit while the other open holds leave it a slot',
+  EXPECT_SESSION_OVER_LOWERED_LIMIT = 'A live session is over the limit once other open holds fill the lowered limit',
+  EXPECT_DUPLICATE_REJECTED = 'A session id with an open hold is rejected when duplicates are rejected',
+  EXPECT_DUPLICATE_REPLACED = 'A duplicate session id drops the old hold and publishes SESSION_REPLACED',
+}
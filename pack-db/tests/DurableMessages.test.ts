@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zmq from 'zeromq';
+import { Config, ConfigKeys, ErrorCode, ZmqMessageType, ZmqUtils, ZmqFrames, ZMQ_PROTOCOL_VERSION } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { DurableMessagesTestCases } from './DurableMessagesTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-durable.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+const SOCKET_PATH = `ipc:///tmp/rs-test-durable-${process.pid}.sock`;
+
+describe('Durable messages', () => {
+  let factory: ServiceFactory;
+  const dealer = new zmq.Dealer();
+
+  const request = async (frames: ZmqFrames): Promise<ZmqFrames> => {
+    await dealer.send(['', ...frames]);
+    const [, ...reply] = await dealer.receive();
+    return reply.map(frame => frame.toString());
+  };
+
+  const countUsage = async (accountId: string): Promise<number> => {
+    const rows = await factory.getDatabaseConnection().getDb()
+      .selectFrom('usage_metrics')
+      .select('id')
+      .where('account_id', '=', accountId)
+      .execute();
+    return rows.length;
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+    await factory.getZmqHandler().start(SOCKET_PATH);
+    dealer.connect(SOCKET_PATH);
+  });
+
+  afterAll(() => {
+    dealer.close();
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should charge a redelivered usage message only once', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'durable@example.com', tokenRemaining: 1000 });
+    const frames = ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, 'usage-1', ZmqMessageType.UPDATE_USAGE, account.id,
+      'sess', 'openai', 60, 40, '', '');
+
+    const first = ZmqUtils.decodeResponse(await request(frames), ZmqMessageType.UPDATE_USAGE);
+    expect(first, DurableMessagesTestCases.EXPECT_ACK_AFTER_PERSIST).toEqual({ id: 'usage-1', error: '' });
+
+    const second = ZmqUtils.decodeResponse(await request(frames), ZmqMessageType.UPDATE_USAGE);
+    expect(second, DurableMessagesTestCases.EXPECT_DUPLICATE_ACKED).toEqual({ id: 'usage-1', error: '' });
+
+    expect(await countUsage(account.id), DurableMessagesTestCases.EXPECT_DUPLICATE_NOT_CHARGED).toBe(1);
+    expect(await factory.getAccountService().getCredits(account.id),
+      DurableMessagesTestCases.EXPECT_DUPLICATE_NOT_CHARGED).toBe(900);
+  });
+
+  it('should report a failed message and accept it again later', async () => {
+    const frames = ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, 'usage-missing', ZmqMessageType.UPDATE_USAGE,
+      'missing-account', 'sess', 'openai', 10, 10, '', '');
+
+    const reply = ZmqUtils.decodeResponse(await request(frames), ZmqMessageType.UPDATE_USAGE);
+    expect(reply?.error, DurableMessagesTestCases.EXPECT_FAILURE_REPORTED).not.toBe('');
+    expect(reply?.error.startsWith(ErrorCode.INTERNAL_DB_MESSAGE_REJECTED),
+      DurableMessagesTestCases.EXPECT_PERMANENT_FAILURE_MARKED).toBe(true);
+
+    expect(await factory.getMessageRepo().markProcessed('usage-missing', ZmqMessageType.UPDATE_USAGE),
+      DurableMessagesTestCases.EXPECT_FAILURE_RETRYABLE).toBe(true);
+  });
+
+  it('should keep the latest latency summary of a session', async () => {
+    const save = (id: string, turns: number, turnP95Ms: number) => request(ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION,
+      id, ZmqMessageType.SAVE_LATENCY, 'acc-latency', 'sess-latency', 'OPENAI', turns, 300, 450, 900, turnP95Ms));
+    await save('latency-1', 3, 1200);
+    const reply = ZmqUtils.decodeResponse(await save('latency-2', 5, 1500), ZmqMessageType.SAVE_LATENCY);
+    expect(reply, DurableMessagesTestCases.EXPECT_ACK_AFTER_PERSIST).toEqual({ id: 'latency-2', error: '' });
+
+    const rows = await factory.getDatabaseConnection().getDb()
+      .selectFrom('session_latency')
+      .selectAll()
+      .where('session_id', '=', 'sess-latency')
+      .execute();
+    expect(rows, DurableMessagesTestCases.EXPECT_LATENCY_UPSERTED).toHaveLength(1);
+    expect(rows[0], DurableMessagesTestCases.EXPECT_LATENCY_UPSERTED).toMatchObject({ provider: 'OPENAI', turns: 5,
+      first_audio_p50_ms: 300, first_audio_p95_ms: 450, turn_p50_ms: 900, turn_p95_ms: 1500 });
+  });
+
+  it('should purge processed ids older than the cutoff', async () => {
+    const repo = factory.getMessageRepo();
+    await repo.markProcessed('old-id', ZmqMessageType.SAVE_SESSION);
+
+    const purged = await repo.purgeProcessedBefore(new Date(Date.now() + 1000).toISOString());
+
+    expect(purged, DurableMessagesTestCases.EXPECT_OLD_IDS_PURGED).toBeGreaterThan(0);
+    expect(await repo.markProcessed('old-id', ZmqMessageType.SAVE_SESSION),
+      DurableMessagesTestCases.EXPECT_OLD_IDS_PURGED).toBe(true);
+  });
+});
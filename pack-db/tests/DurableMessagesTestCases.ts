@@ -0,0 +1,10 @@
+export enum DurableMessagesTestCases {
+  EXPECT_ACK_AFTER_PERSIST = 'A durable message is acknowledged once it has been persisted',
+  EXPECT_DUPLICATE_ACKED = 'A redelivered message id is acknowledged again',
+  EXPECT_DUPLICATE_NOT_CHARGED = 'A redelivered usage message does not charge the account twice',
+  EXPECT_FAILURE_REPORTED = 'A message that fails to persist is answered with an error',
+  EXPECT_PERMANENT_FAILURE_MARKED = 'A message pack-db can never apply is marked as rejected for good',
+  EXPECT_FAILURE_RETRYABLE = 'A message that failed to persist is not recorded as processed',
+  EXPECT_LATENCY_UPSERTED = 'A session keeps one latency row holding the latest summary',
+  EXPECT_OLD_IDS_PURGED = 'Processed ids older than the cutoff are purged',
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConfigKeys, ErrorCode, VoiceProvider } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { CreateApiKeyInput } from '../src/interfaces/entities/ApiKey';
+import { KeyScopesTestCases } from './KeyScopesTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-key-scopes.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+const ORIGIN = 'https://app.example.com';
+
+describe('API key scopes', () => {
+  let factory: ServiceFactory;
+
+  const createScopedKey = async (email: string, scope: Omit<CreateApiKeyInput, 'accountId' | 'label'>) => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email, tokenRemaining: 5000 });
+    const { apiKey, plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Scoped', ...scope });
+    return { accountId: account.id, keyHash: apiKey.key_hash, apiKey: plainKey };
+  };
+
+  const scope = (origin = ORIGIN, provider = VoiceProvider.OPENAI, apiStyle = VoiceProvider.OPENAI) =>
+    ({ provider, apiStyle, origin });
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+  });
+
+  afterAll(() => {
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should load any provider and origin for an unscoped key', async () => {
+    const { apiKey } = await createScopedKey('scope-none@example.com', {});
+    const result = await factory.getAccountService().validateAndLoad(apiKey, 'sess-none',
+      scope('', VoiceProvider.GEMINI, VoiceProvider.OPENAI));
+
+    expect(result.error, KeyScopesTestCases.EXPECT_UNSCOPED_KEY_LOADS).toBe('');
+    expect(result.maxSessionSeconds, KeyScopesTestCases.EXPECT_UNSCOPED_KEY_LOADS).toBe(0);
+  });
+
+  it('should only allow the providers of the key for both rs_provider and rs_api', async () => {
+    const { apiKey } = await createScopedKey('scope-provider@example.com', { allowedProviders: [VoiceProvider.OPENAI] });
+    const accountService = factory.getAccountService();
+
+    expect((await accountService.validateAndLoad(apiKey, 'sess-p1', scope())).error,
+      KeyScopesTestCases.EXPECT_ALLOWED_PROVIDER_LOADS).toBe('');
+    expect((await accountService.validateAndLoad(apiKey, 'sess-p2', scope(ORIGIN, VoiceProvider.GEMINI))).error,
+      KeyScopesTestCases.EXPECT_PROVIDER_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-p3',
+      scope(ORIGIN, VoiceProvider.OPENAI, VoiceProvider.GEMINI))).error,
+    KeyScopesTestCases.EXPECT_PROVIDER_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-p4')).error,
+      KeyScopesTestCases.EXPECT_MISSING_SCOPE_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED);
+  });
+
+  it('should match origins case-insensitively and ignore a trailing slash', async () => {
+    const { apiKey } = await createScopedKey('scope-origin@example.com', { allowedOrigins: [`${ORIGIN}/`] });
+    const accountService = factory.getAccountService();
+
+    expect((await accountService.validateAndLoad(apiKey, 'sess-o1', scope('HTTPS://App.Example.com'))).error,
+      KeyScopesTestCases.EXPECT_ALLOWED_ORIGIN_LOADS).toBe('');
+    expect((await accountService.validateAndLoad(apiKey, 'sess-o2', scope('https://evil.example.com'))).error,
+      KeyScopesTestCases.EXPECT_ORIGIN_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-o3', scope(''))).error,
+      KeyScopesTestCases.EXPECT_MISSING_SCOPE_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED);
+  });
+
+  it('should reject a key once its token budget is used and hold no credits', async () => {
+    const { accountId, keyHash, apiKey } = await createScopedKey('scope-budget@example.com', { tokenBudget: 100 });
+    const accountService = factory.getAccountService();
+
+    const first = await accountService.validateAndLoad(apiKey, 'sess-b1', scope());
+    expect(first.error, KeyScopesTestCases.EXPECT_BUDGET_LOADS_UNTIL_USED).toBe('');
+    expect(first.reserved, KeyScopesTestCases.EXPECT_HOLD_CAPPED_AT_BUDGET).toBe(100);
+    await factory.getPersistenceService()
+      .persistUsage(accountId, 'sess-b1', 'OPENAI', 60, 40, first.holdId, keyHash, null);
+
+    const second = await accountService.validateAndLoad(apiKey, 'sess-b2', scope());
+    expect(second.error, KeyScopesTestCases.EXPECT_BUDGET_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED);
+    expect(second.holdId, KeyScopesTestCases.EXPECT_BUDGET_REJECTED).toBe('');
+  });
+
+  it('should cap hold refills at the budget the key has left', async () => {
+    const { accountId, keyHash, apiKey } = await createScopedKey('scope-refill@example.com', { tokenBudget: 3000 });
+    const accountService = factory.getAccountService();
+    const session = await accountService.validateAndLoad(apiKey, 'sess-r', scope());
+    await factory.getPersistenceService()
+      .persistUsage(accountId, 'sess-r', 'OPENAI', 300, 200, session.holdId, keyHash, null);
+
+    const refill = await accountService.reserveCredits(accountId, 'sess-r', session.holdId, keyHash);
+    expect(refill, KeyScopesTestCases.EXPECT_REFILL_CAPPED_AT_BUDGET).toEqual({ error: '', reserved: 1000,
+      credits: 4500 });
+
+    const exhausted = await accountService.reserveCredits(accountId, 'sess-r', session.holdId, keyHash);
+    expect(exhausted.reserved, KeyScopesTestCases.EXPECT_REFILL_REJECTED_AT_BUDGET).toBe(0);
+    expect(exhausted.error, KeyScopesTestCases.EXPECT_REFILL_REJECTED_AT_BUDGET)
+      .toBe(ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED);
+  });
+
+  it('should count the holds of every session on the key against its budget', async () => {
+    const { accountId, keyHash, apiKey } = await createScopedKey('scope-shared@example.com', { tokenBudget: 3000 });
+    await factory.getAccountRepo().setMaxConcurrentSessions(accountId, 5);
+    const accountService = factory.getAccountService();
+
+    const first = await accountService.validateAndLoad(apiKey, 'sess-s1', scope());
+    const second = await accountService.validateAndLoad(apiKey, 'sess-s2', scope());
+    expect([first.reserved, second.reserved], KeyScopesTestCases.EXPECT_SHARED_BUDGET_SPLIT).toEqual([2000, 1000]);
+
+    const third = await accountService.validateAndLoad(apiKey, 'sess-s3', scope());
+    expect(third.error, KeyScopesTestCases.EXPECT_SHARED_BUDGET_REJECTED).toBe(ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED);
+    expect(third.holdId, KeyScopesTestCases.EXPECT_SHARED_BUDGET_REJECTED).toBe('');
+
+    const refill = await accountService.reserveCredits(accountId, 'sess-s1', first.holdId, keyHash);
+    expect(refill, KeyScopesTestCases.EXPECT_SHARED_BUDGET_REJECTED).toEqual({
+      error: ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED, reserved: 0, credits: 5000 });
+
+    await factory.getCreditService().release(second.holdId);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-s3', scope())).reserved,
+      KeyScopesTestCases.EXPECT_SHARED_BUDGET_SPLIT).toBe(1000);
+  });
+
+  it('should return the max session duration of the key', async () => {
+    const { apiKey } = await createScopedKey('scope-duration@example.com', { maxSessionSeconds: 300 });
+    const result = await factory.getAccountService().validateAndLoad(apiKey, 'sess-d', scope());
+
+    expect(result.error, KeyScopesTestCases.EXPECT_MAX_DURATION_RETURNED).toBe('');
+    expect(result.maxSessionSeconds, KeyScopesTestCases.EXPECT_MAX_DURATION_RETURNED).toBe(300);
+  });
+
+  it('should enforce the account origin allowlist for every key of the account', async () => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email: 'scope-account-origin@example.com', tokenRemaining: 5000,
+      allowedOrigins: [ORIGIN] });
+    const { plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Unscoped' });
+    const accountService = factory.getAccountService();
+
+    expect((await accountService.validateAndLoad(plainKey, 'sess-a1', scope())).error,
+      KeyScopesTestCases.EXPECT_ACCOUNT_ORIGIN_LOADS).toBe('');
+    expect((await accountService.validateAndLoad(plainKey, 'sess-a2', scope('https://evil.example.com'))).error,
+      KeyScopesTestCases.EXPECT_ACCOUNT_ORIGIN_REJECTED).toBe(ErrorCode.EXTERNAL_ORIGIN_NOT_ALLOWED);
+
+    await repo.setAllowedOrigins(account.id, null);
+    expect((await accountService.validateAndLoad(plainKey, 'sess-a3', scope('https://evil.example.com'))).error,
+      KeyScopesTestCases.EXPECT_ACCOUNT_ORIGINS_CLEARED).toBe('');
+  });
+
+  it('should return the plan session limit unless the account overrides it', async () => {
+    const repo = factory.getAccountRepo();
+    const account = await repo.createAccount({ email: 'scope-sessions@example.com', planName: 'Pro' });
+    const { plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Sessions' });
+    const accountService = factory.getAccountService();
+
+    expect((await accountService.validateAndLoad(plainKey, 'sess-c1', scope())).maxConcurrentSessions,
+      KeyScopesTestCases.EXPECT_PLAN_SESSION_LIMIT).toBe(20);
+
+    await repo.setMaxConcurrentSessions(account.id, 3);
+    expect((await accountService.validateAndLoad(plainKey, 'sess-c2', scope())).maxConcurrentSessions,
+      KeyScopesTestCases.EXPECT_ACCOUNT_SESSION_LIMIT).toBe(3);
+  });
+});
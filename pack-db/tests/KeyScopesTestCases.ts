@@ -0,0 +1,21 @@
+export enum KeyScopesTestCases {
+  EXPECT_UNSCOPED_KEY_LOADS = 'A key without scopes loads for any provider and origin with no duration limit',
+  EXPECT_ALLOWED_PROVIDER_LOADS = 'A session within the allowed providers loads',
+  EXPECT_PROVIDER_REJECTED = 'rs_provider and rs_api must both be allowed by the key',
+  EXPECT_MISSING_SCOPE_REJECTED = 'A scoped key is rejected when the connect scope is missing',
+  EXPECT_ALLOWED_ORIGIN_LOADS = 'An allowed origin loads regardless of case and trailing slash',
+  EXPECT_ORIGIN_REJECTED = 'An origin outside the allowlist is rejected',
+  EXPECT_BUDGET_LOADS_UNTIL_USED = 'A key with budget left loads',
+  EXPECT_BUDGET_REJECTED = 'A key that used its token budget is rejected before credits are held',
+  EXPECT_HOLD_CAPPED_AT_BUDGET = 'The session hold never exceeds the budget the key has left',
+  EXPECT_REFILL_CAPPED_AT_BUDGET = 'A refill only tops the hold up to the budget the key has left',
+  EXPECT_REFILL_REJECTED_AT_BUDGET = 'A refill is refused with the key budget error once the hold covers the rest',
+  EXPECT_SHARED_BUDGET_SPLIT = 'Concurrent sessions on one key together never hold more than its budget left',
+  EXPECT_SHARED_BUDGET_REJECTED = 'A session is refused once the other sessions of the key hold its whole budget',
+  EXPECT_MAX_DURATION_RETURNED = 'The max session duration of the key is returned with the session',
+  EXPECT_ACCOUNT_ORIGIN_LOADS = 'An origin on the account allowlist loads with an unscoped key',
+  EXPECT_ACCOUNT_ORIGIN_REJECTED = 'An origin outside the account allowlist is rejected for every key',
+  EXPECT_ACCOUNT_ORIGINS_CLEARED = 'Clearing the account allowlist accepts any origin again',
+  EXPECT_PLAN_SESSION_LIMIT = 'The concurrent session limit defaults to the plan limit',
+  EXPECT_ACCOUNT_SESSION_LIMIT = 'An account override replaces the plan session limit',
+}
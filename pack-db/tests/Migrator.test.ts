@@ -32,6 +32,11 @@ describe('Migrator', () => {
   });
 
   describe('runAll', () => {
+    it('should report every migration as pending before the first run', async () => {
+      expect(await factory.getMigrator().getPendingCount(), MigratorTestCases.EXPECT_ALL_PENDING_BEFORE_RUN)
+        .toBeGreaterThan(0);
+    });
+
     it('should run all migrations and create tables', async () => {
       const migrator = factory.getMigrator();
       const results = await migrator.runAll();
@@ -41,6 +46,7 @@ describe('Migrator', () => {
       const db = factory.getDatabaseConnection().getDb();
       expect(await PreconditionHelpers.tableExists(db, 'accounts'),
         MigratorTestCases.EXPECT_ACCOUNTS_TABLE_EXISTS).toBe(true);
+      expect(await migrator.getPendingCount(), MigratorTestCases.EXPECT_NONE_PENDING_AFTER_RUN).toBe(0);
     });
 
     it('should skip migrations on second run (idempotent)', async () => {
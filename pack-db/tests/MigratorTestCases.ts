@@ -3,6 +3,8 @@ export enum MigratorTestCases {
   EXPECT_ALL_EXECUTED_OR_SKIPPED = 'All migrations should be executed or skipped',
   EXPECT_ACCOUNTS_TABLE_EXISTS = 'Accounts table should exist after migration',
   EXPECT_ALL_SKIPPED_ON_RERUN = 'All migrations should be skipped on second run',
+  EXPECT_ALL_PENDING_BEFORE_RUN = 'Migrations should be pending on a fresh database',
+  EXPECT_NONE_PENDING_AFTER_RUN = 'No migration should be pending after runAll',
   EXPECT_TABLE_EXISTS_TRUE = 'tableExists should return true for existing table',
   EXPECT_TABLE_EXISTS_FALSE = 'tableExists should return false for non-existent table',
   EXPECT_COLUMN_EXISTS_TRUE = 'columnExists should return true for existing column',
@@ -15,6 +15,7 @@ describe('SQLiteAccountRepo', () => {
     cleanup();
     process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
     process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
     factory = ServiceFactory.getInstance();
     await factory.getMigrator().runAll();
   });
@@ -40,6 +41,7 @@ describe('SQLiteAccountRepo', () => {
       expect(account.token_remaining, AccountTestCases.EXPECT_DEFAULT_TOKENS_1000).toBe(1000);
       expect(account.topup_remaining, AccountTestCases.EXPECT_DEFAULT_TOPUP_0).toBe(0);
       expect(account.status, AccountTestCases.EXPECT_STATUS_ACTIVE).toBe(1);
+      expect(account.credit_alert_thresholds, AccountTestCases.EXPECT_THRESHOLDS_DEFAULT_NULL).toBeNull();
     });
 
     it('should create account with Pro plan defaults', async () => {
@@ -73,4 +75,32 @@ describe('SQLiteAccountRepo', () => {
       expect(account, AccountTestCases.EXPECT_ACCOUNT_NULL_FOR_NONEXISTENT).toBeNull();
     });
   });
+
+  describe('setCreditAlertThresholds', () => {
+    it('should store thresholds on create and update', async () => {
+      const repo = factory.getAccountRepo();
+      const created = await repo.createAccount({ email: 'alerts@example.com', creditAlertThresholds: '20%,5%' });
+      expect(created.credit_alert_thresholds, AccountTestCases.EXPECT_THRESHOLDS_ON_CREATE).toBe('20%,5%');
+
+      const updated = await repo.setCreditAlertThresholds(created.id, '5000,1000');
+      const account = await repo.getAccount(created.id);
+      expect(updated, AccountTestCases.EXPECT_THRESHOLDS_UPDATED).toBe(true);
+      expect(account!.credit_alert_thresholds, AccountTestCases.EXPECT_THRESHOLDS_UPDATED).toBe('5000,1000');
+    });
+
+    it('should return false for non-existent account', async () => {
+      const repo = factory.getAccountRepo();
+      const updated = await repo.setCreditAlertThresholds('non-existent-id', '10%');
+      expect(updated, AccountTestCases.EXPECT_THRESHOLDS_UPDATE_MISSING).toBe(false);
+    });
+
+    it('should return thresholds from validateAndLoad', async () => {
+      const repo = factory.getAccountRepo();
+      const account = await repo.createAccount({ email: 'alerts-load@example.com', creditAlertThresholds: '15%' });
+      const { plainKey } = await repo.createApiKey({ accountId: account.id, label: 'Alerts' });
+
+      const sessionData = await factory.getAccountService().validateAndLoad(plainKey, 'sess-alerts');
+      expect(sessionData.creditAlertThresholds, AccountTestCases.EXPECT_THRESHOLDS_IN_SESSION_DATA).toBe('15%');
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConfigKeys } from 'pack-shared';
+import { ServiceFactory } from '../src/impls/ServiceFactory';
+import { UsageRepoTestCases } from './UsageRepoTestCases';
+
+const TEST_DB_PATH = path.join(__dirname, 'test-usage.db');
+const TEST_ENCRYPTION_KEY = 'test-encryption-key-32chars!!';
+
+describe('SQLUsageRepo', () => {
+  let factory: ServiceFactory;
+
+  const countUsage = async (accountId: string): Promise<number> => {
+    const rows = await factory.getDatabaseConnection().getDb()
+      .selectFrom('usage_metrics')
+      .select('id')
+      .where('account_id', '=', accountId)
+      .execute();
+    return rows.length;
+  };
+
+  beforeAll(async () => {
+    cleanup();
+    process.env[ConfigKeys.DB_PATH] = TEST_DB_PATH;
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = TEST_ENCRYPTION_KEY;
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    Config.reset();
+    factory = ServiceFactory.getInstance();
+    await factory.getMigrator().runAll();
+  });
+
+  afterAll(() => {
+    ServiceFactory.reset();
+    cleanup();
+  });
+
+  function cleanup() {
+    [TEST_DB_PATH, `${TEST_DB_PATH}-wal`, `${TEST_DB_PATH}-shm`].forEach((f) => {
+      if (fs.existsSync(f)) fs.unlinkSync(f);
+    });
+  }
+
+  it('should ignore a repeated message id', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-repeat@example.com', tokenRemaining: 1000 });
+    const usageRepo = factory.getUsageRepo();
+
+    const first = await usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 100, 50, null, 'msg-1', null);
+    expect(first, UsageRepoTestCases.EXPECT_FIRST_INSERT_NEW).toEqual({ inserted: true, credits: 850 });
+
+    const repeat = await usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 100, 50, null, 'msg-1', null);
+    expect(repeat.inserted, UsageRepoTestCases.EXPECT_REPEAT_NOT_NEW).toBe(false);
+    expect(repeat.credits, UsageRepoTestCases.EXPECT_REPEAT_NOT_CHARGED).toBe(850);
+    expect(await countUsage(account.id), UsageRepoTestCases.EXPECT_SINGLE_ROW).toBe(1);
+  });
+
+  it('should charge concurrent deliveries of the same message once', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-race@example.com', tokenRemaining: 1000 });
+    const usageRepo = factory.getUsageRepo();
+
+    const results = await Promise.all(
+      Array.from({ length: 5 },
+        () => usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 60, 40, null, 'msg-race', null))
+    );
+
+    expect(results.filter(r => r.inserted).length, UsageRepoTestCases.EXPECT_CONCURRENT_CHARGED_ONCE).toBe(1);
+    expect(await factory.getAccountService().getCredits(account.id), UsageRepoTestCases.EXPECT_CONCURRENT_CHARGED_ONCE)
+      .toBe(900);
+  });
+
+  it('should draw the hold down with the usage once per message id', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-hold@example.com',
+      tokenRemaining: 1000 });
+    const usageRepo = factory.getUsageRepo();
+    const holdRepo = factory.getHoldRepo();
+    await holdRepo.reserve(account.id, 'sess', 'hold-usage', 500, 60000, null);
+    const hold = { holdId: 'hold-usage', ttlMs: 60000 };
+
+    await Promise.all(
+      Array.from({ length: 3 },
+        () => usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 100, 50, null, 'msg-hold', hold))
+    );
+
+    expect(await holdRepo.getHeldAmount(account.id), UsageRepoTestCases.EXPECT_HOLD_DRAWN_ONCE).toBe(350);
+    expect(await factory.getAccountService().getCredits(account.id), UsageRepoTestCases.EXPECT_HOLD_DRAWN_ONCE)
+      .toBe(850);
+  });
+
+  it('should always record usage without a message id', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-null@example.com', tokenRemaining: 1000 });
+    const usageRepo = factory.getUsageRepo();
+
+    await usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 10, 10, null, null, null);
+    const second = await usageRepo.insertUsage(account.id, 'sess', 'OPENAI', 10, 10, null, null, null);
+
+    expect(second, UsageRepoTestCases.EXPECT_NULL_IDS_NOT_DEDUPLICATED).toEqual({ inserted: true, credits: 960 });
+    expect(await countUsage(account.id), UsageRepoTestCases.EXPECT_NULL_IDS_NOT_DEDUPLICATED).toBe(2);
+  });
+
+  it('should sum usage per api key', async () => {
+    const account = await factory.getAccountRepo().createAccount({ email: 'usage-keys@example.com', tokenRemaining: 1000 });
+    const usageRepo = factory.getUsageRepo();
+
+    await usageRepo.insertUsage(account.id, 'sess-a', 'OPENAI', 10, 5, 'hash-a', null, null);
+    await usageRepo.insertUsage(account.id, 'sess-a', 'OPENAI', 20, 10, 'hash-a', null, null);
+    await usageRepo.insertUsage(account.id, 'sess-b', 'GEMINI', 7, 3, 'hash-b', null, null);
+    await usageRepo.insertUsage(account.id, 'sess-c', 'OPENAI', 1, 1, null, null, null);
+
+    const byKey = await usageRepo.getUsageByKey(account.id);
+    expect(byKey.find(u => u.keyHash === 'hash-a'), UsageRepoTestCases.EXPECT_USAGE_GROUPED_BY_KEY)
+      .toEqual({ keyHash: 'hash-a', inputTokens: 30, outputTokens: 15, totalTokens: 45 });
+    expect(byKey.find(u => u.keyHash === 'hash-b'), UsageRepoTestCases.EXPECT_USAGE_GROUPED_BY_KEY)
+      .toEqual({ keyHash: 'hash-b', inputTokens: 7, outputTokens: 3, totalTokens: 10 });
+    expect(byKey.find(u => u.keyHash === null), UsageRepoTestCases.EXPECT_UNATTRIBUTED_USAGE_KEPT)
+      .toEqual({ keyHash: null, inputTokens: 1, outputTokens: 1, totalTokens: 2 });
+
+    const future = new Date(Date.now() + 60000).toISOString();
+    expect(await usageRepo.getUsageByKey(account.id, future), UsageRepoTestCases.EXPECT_USAGE_SINCE_FILTERED)
+      .toEqual([]);
+  });
+});
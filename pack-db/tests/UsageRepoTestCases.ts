@@ -0,0 +1,12 @@
+export enum UsageRepoTestCases {
+  EXPECT_FIRST_INSERT_NEW = 'The first usage record for a message id is reported as new',
+  EXPECT_REPEAT_NOT_NEW = 'A repeated message id is reported as already recorded',
+  EXPECT_REPEAT_NOT_CHARGED = 'A repeated message id does not deduct credits again',
+  EXPECT_SINGLE_ROW = 'A repeated message id does not add a second usage row',
+  EXPECT_CONCURRENT_CHARGED_ONCE = 'Concurrent inserts with the same message id charge once',
+  EXPECT_HOLD_DRAWN_ONCE = 'The hold is drawn down in the usage transaction, once per message id',
+  EXPECT_NULL_IDS_NOT_DEDUPLICATED = 'Usage without a message id is always recorded',
+  EXPECT_USAGE_GROUPED_BY_KEY = 'Usage is summed per api key hash',
+  EXPECT_UNATTRIBUTED_USAGE_KEPT = 'Usage recorded without a key hash is grouped under null',
+  EXPECT_USAGE_SINCE_FILTERED = 'Usage before the since cutoff is excluded',
+}
@@ -0,0 +1,320 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as zmq from 'zeromq';
+import {
+  ZmqMessageType,
+  ZmqEventType,
+  ZmqArgs,
+  ZmqEventArgs,
+  ZmqUtils,
+  ZMQ_REQUEST_SCHEMA,
+  ZMQ_RESPONSE_SCHEMA,
+  ZMQ_EVENT_SCHEMA,
+  ZMQ_PROTOCOL_VERSION,
+  ZMQ_MIN_PROTOCOL_VERSION,
+  ErrorCode,
+  IAccountService,
+  SessionData,
+  CreditReservation,
+  ClientToken,
+  SessionLimitCheck,
+} from 'pack-shared';
+import { ZmqHandler } from '../src/impls/ZmqHandler';
+import { IPersistenceService } from '../src/interfaces/IPersistenceService';
+import { IMessageRepo } from '../src/interfaces/IMessageRepo';
+import { ZmqFramingTestCases } from './ZmqFramingTestCases';
+
+const RUNS = 300;
+const SOCKET_PATH = `ipc:///tmp/rs-test-framing-${process.pid}.sock`;
+const TRICKY_CHARS = ['|', '||', '\n', '\r\n', '\t', '"', '\\', '\u0000', ' ', 'é', '中', '😀', '​'];
+
+type Field = { name: string; type: 'string' | 'number' };
+
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomString(random: () => number): string {
+  const length = Math.floor(random() * 40);
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    const pick = random();
+    if (pick < 0.3) {
+      result += TRICKY_CHARS[Math.floor(random() * TRICKY_CHARS.length)];
+    } else if (pick < 0.4) {
+      result += String.fromCodePoint(0x10000 + Math.floor(random() * 0xffff));
+    } else {
+      result += String.fromCharCode(0x20 + Math.floor(random() * 0x5f));
+    }
+  }
+  return result;
+}
+
+function randomInt(random: () => number): number {
+  return Math.floor((random() - 0.5) * 2 * Number.MAX_SAFE_INTEGER);
+}
+
+function randomFields(random: () => number, schema: Field[]): (string | number)[] {
+  return schema.map(field => field.type === 'number' ? randomInt(random) : randomString(random));
+}
+
+function expectedRecord(schema: Field[], values: (string | number)[]): Record<string, string | number> {
+  const record: Record<string, string | number> = {};
+  schema.forEach((field, i) => { record[field.name] = values[i]; });
+  return record;
+}
+
+class RecordingService implements IAccountService, IPersistenceService {
+  sessions: string[] = [];
+  conversations: string[] = [];
+
+  async validateAndLoad(): Promise<SessionData> {
+    return { error: '', accountId: '', sessionData: '', credits: 0, creditAlertThresholds: '', holdId: '', reserved: 0, keyHash: '',
+      maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+  }
+
+  updateUsage(): void {}
+
+  async getCredits(): Promise<number> {
+    return 0;
+  }
+
+  async reserveCredits(): Promise<CreditReservation> {
+    return { error: '', reserved: 0, credits: 0 };
+  }
+
+  async createClientToken(): Promise<ClientToken> {
+    return { error: '', token: '', expiresAt: '' };
+  }
+
+  releaseCredits(): void {}
+
+  async refreshHold(): Promise<boolean> {
+    return true;
+  }
+
+  async checkSessionLimit(): Promise<SessionLimitCheck> {
+    return { limit: 0, overLimit: false };
+  }
+
+  saveSession(_accountId: string, _sessionId: string, sessionData: string): void {
+    this.sessions.push(sessionData);
+  }
+
+  appendConversation(_accountId: string, _sessionId: string, conversationData: string): void {
+    this.conversations.push(conversationData);
+  }
+
+  async persistUsage(): Promise<void> {}
+
+  async persistSession(accountId: string, sessionId: string, sessionData: string): Promise<void> {
+    this.saveSession(accountId, sessionId, sessionData);
+  }
+
+  async persistConversation(accountId: string, sessionId: string, conversationData: string): Promise<void> {
+    this.appendConversation(accountId, sessionId, conversationData);
+  }
+
+  async persistRelease(): Promise<void> {}
+
+  saveLatency(): void {}
+
+  async persistLatency(): Promise<void> {}
+}
+
+class MemoryMessageRepo implements IMessageRepo {
+  private processed = new Set<string>();
+
+  async markProcessed(id: string): Promise<boolean> {
+    if (this.processed.has(id)) return false;
+    this.processed.add(id);
+    return true;
+  }
+
+  async unmarkProcessed(id: string): Promise<void> {
+    this.processed.delete(id);
+  }
+
+  async purgeProcessedBefore(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('ZMQ framing', () => {
+  const random = createRandom(20250104);
+
+  it('should round-trip random request fields', () => {
+    for (let run = 0; run < RUNS; run++) {
+      for (const type of Object.values(ZmqMessageType)) {
+        const schema = ZMQ_REQUEST_SCHEMA[type];
+        const id = randomString(random);
+        const values = randomFields(random, schema);
+
+        const frames = ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, id, type, ...(values as ZmqArgs[typeof type]));
+        expect(ZmqUtils.decodeRequest(frames), ZmqFramingTestCases.EXPECT_REQUEST_ROUND_TRIP)
+          .toEqual({ version: ZMQ_PROTOCOL_VERSION, id, type, args: expectedRecord(schema, values) });
+      }
+    }
+  });
+
+  it('should round-trip random response fields', () => {
+    const types = Object.keys(ZMQ_RESPONSE_SCHEMA) as (ZmqMessageType.VALIDATE_AND_LOAD | ZmqMessageType.GET_CREDITS)[];
+    for (let run = 0; run < RUNS; run++) {
+      for (const type of types) {
+        const schema = ZMQ_RESPONSE_SCHEMA[type]!;
+        const id = randomString(random);
+        const error = randomString(random);
+        const values = randomFields(random, schema);
+
+        const frames = ZmqUtils.encodeResponse(ZMQ_PROTOCOL_VERSION, id, type, error, ...values);
+        expect(ZmqUtils.decodeResponse(frames, type), ZmqFramingTestCases.EXPECT_RESPONSE_ROUND_TRIP)
+          .toEqual({ id, error, ...expectedRecord(schema, values) });
+      }
+    }
+  });
+
+  it('should round-trip random event fields', () => {
+    for (let run = 0; run < RUNS; run++) {
+      for (const type of Object.values(ZmqEventType)) {
+        const schema = ZMQ_EVENT_SCHEMA[type];
+        const values = randomFields(random, schema);
+
+        const frames = ZmqUtils.encodeEvent(type, ...(values as ZmqEventArgs[typeof type]));
+        expect(ZmqUtils.decodeEvent(frames), ZmqFramingTestCases.EXPECT_EVENT_ROUND_TRIP)
+          .toEqual({ type, ...expectedRecord(schema, values) });
+      }
+    }
+  });
+
+  it('should reject frames with the wrong field count or type', () => {
+    const version = String(ZMQ_PROTOCOL_VERSION);
+    for (let run = 0; run < RUNS; run++) {
+      for (const type of Object.values(ZmqMessageType)) {
+        const schema = ZMQ_REQUEST_SCHEMA[type];
+        const values = randomFields(random, schema).map(String);
+        const required = schema.filter(field => field.default === undefined).length;
+        if (required > 0) {
+          expect(ZmqUtils.decodeRequest([version, 'id', type, ...values.slice(0, required - 1)]),
+            ZmqFramingTestCases.EXPECT_FIELD_COUNT_CHECKED).toBeNull();
+        }
+        expect(ZmqUtils.decodeRequest([version, 'id', type, ...values, randomString(random)]),
+          ZmqFramingTestCases.EXPECT_FIELD_COUNT_CHECKED).toBeNull();
+      }
+      expect(ZmqUtils.decodeRequest([version, 'id', `UNKNOWN${randomString(random)}`]),
+        ZmqFramingTestCases.EXPECT_UNKNOWN_TYPE_REJECTED).toBeNull();
+    }
+  });
+
+  it('should fill missing optional trailing fields from their defaults', () => {
+    const frames = [String(ZMQ_PROTOCOL_VERSION), 'id', ZmqMessageType.UPDATE_USAGE, 'acc', 'sess', 'openai', '10', '20'];
+    expect(ZmqUtils.decodeRequest(frames)?.args, ZmqFramingTestCases.EXPECT_DEFAULTS_FILLED).toEqual({
+      accountId: 'acc', sessionId: 'sess', provider: 'openai', inputTokens: 10, outputTokens: 20, holdId: '',
+      keyHash: '',
+    });
+
+    const response = ZmqUtils.decodeResponse([String(ZMQ_PROTOCOL_VERSION), 'id', '', 'acc', '{}', '500'],
+      ZmqMessageType.VALIDATE_AND_LOAD);
+    expect(response, ZmqFramingTestCases.EXPECT_DEFAULTS_FILLED).toEqual({
+      id: 'id', error: '', accountId: 'acc', sessionData: '{}', credits: 500, creditAlertThresholds: '', holdId: '',
+      reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0,
+    });
+  });
+
+  it('should ignore extra trailing fields from a newer protocol version', () => {
+    const newer = String(ZMQ_PROTOCOL_VERSION + 1);
+    const request = ZmqUtils.decodeRequest([newer, 'id', ZmqMessageType.GET_CREDITS, 'acc', 'future']);
+    expect(request?.args, ZmqFramingTestCases.EXPECT_NEWER_FIELDS_IGNORED).toEqual({ accountId: 'acc' });
+
+    const event = ZmqUtils.decodeEvent([ZmqEventType.BALANCE_CHANGED, newer, 'acc', '42', 'future']);
+    expect(event, ZmqFramingTestCases.EXPECT_NEWER_FIELDS_IGNORED)
+      .toEqual({ type: ZmqEventType.BALANCE_CHANGED, accountId: 'acc', credits: 42 });
+  });
+
+  it('should decode error responses without their fields', () => {
+    const frames = ZmqUtils.encodeResponse(ZMQ_PROTOCOL_VERSION, 'id', ZmqMessageType.RESERVE_CREDITS, 'boom');
+    expect(ZmqUtils.decodeResponse(frames, ZmqMessageType.RESERVE_CREDITS), ZmqFramingTestCases.EXPECT_ERROR_DECODED)
+      .toEqual({ id: 'id', error: 'boom', reserved: 0, credits: 0 });
+  });
+
+  it('should negotiate the highest version both sides support', () => {
+    expect(ZmqUtils.negotiateVersion(ZMQ_MIN_PROTOCOL_VERSION, ZMQ_PROTOCOL_VERSION + 5),
+      ZmqFramingTestCases.EXPECT_VERSION_NEGOTIATED).toBe(ZMQ_PROTOCOL_VERSION);
+    expect(ZmqUtils.negotiateVersion(ZMQ_PROTOCOL_VERSION + 1, ZMQ_PROTOCOL_VERSION + 5),
+      ZmqFramingTestCases.EXPECT_INCOMPATIBLE_REJECTED).toBeNull();
+    expect(ZmqUtils.negotiateVersion(0, ZMQ_MIN_PROTOCOL_VERSION - 1),
+      ZmqFramingTestCases.EXPECT_INCOMPATIBLE_REJECTED).toBeNull();
+  });
+
+  describe('over a socket', () => {
+    const accountService = new RecordingService();
+    const handler = new ZmqHandler(accountService, accountService, new MemoryMessageRepo(),
+      { check: async () => ({ database: true, pendingMigrations: 0 }), getMetrics: async () => '' });
+    const dealer = new zmq.Dealer();
+
+    afterAll(async () => {
+      dealer.close();
+      await handler.stop();
+    });
+
+    it('should deliver random payloads to the account service unchanged', async () => {
+      await handler.start(SOCKET_PATH);
+      dealer.connect(SOCKET_PATH);
+
+      const sessions: string[] = [];
+      const conversations: string[] = [];
+      for (let i = 0; i < 50; i++) {
+        const session = `{"instructions":"${randomString(random)}|${randomString(random)}"}`;
+        const conversation = `${randomString(random)}|${randomString(random)}`;
+        sessions.push(session);
+        conversations.push(conversation);
+        await dealer.send(['', ...ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, `s${i}`, ZmqMessageType.SAVE_SESSION,
+          'acc', 'sess', session)]);
+        await dealer.send(['', ...ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, `c${i}`,
+          ZmqMessageType.APPEND_CONVERSATION, 'acc', 'sess', conversation)]);
+      }
+
+      for (let i = 0; i < 50 && accountService.conversations.length < conversations.length; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+
+      expect(accountService.conversations, ZmqFramingTestCases.EXPECT_DELIVERED_OVER_SOCKET).toEqual(conversations);
+      expect(accountService.sessions, ZmqFramingTestCases.EXPECT_DELIVERED_OVER_SOCKET).toEqual(sessions);
+    });
+
+    it('should negotiate the protocol version and reject unsupported ones', async () => {
+      const peer = new zmq.Dealer();
+      peer.connect(SOCKET_PATH);
+      const request = async (frames: string[]): Promise<string[]> => {
+        await peer.send(['', ...frames]);
+        const [, ...reply] = await peer.receive();
+        return reply.map(frame => frame.toString());
+      };
+
+      const hello = await request(ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, 'hello', ZmqMessageType.HELLO,
+        ZMQ_MIN_PROTOCOL_VERSION, ZMQ_PROTOCOL_VERSION + 3));
+      expect(ZmqUtils.decodeResponse(hello, ZmqMessageType.HELLO), ZmqFramingTestCases.EXPECT_HANDSHAKE_OVER_SOCKET)
+        .toEqual({ id: 'hello', error: '', version: ZMQ_PROTOCOL_VERSION });
+
+      const tooNew = await request(ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, 'too-new', ZmqMessageType.HELLO,
+        ZMQ_PROTOCOL_VERSION + 1, ZMQ_PROTOCOL_VERSION + 3));
+      expect(ZmqUtils.decodeResponse(tooNew, ZmqMessageType.HELLO)?.error,
+        ZmqFramingTestCases.EXPECT_INCOMPATIBLE_REJECTED).toBe(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE);
+
+      const old = await request([String(ZMQ_MIN_PROTOCOL_VERSION - 1), 'old', ZmqMessageType.GET_CREDITS, 'acc']);
+      expect(ZmqUtils.decodeResponse(old, ZmqMessageType.GET_CREDITS)?.error,
+        ZmqFramingTestCases.EXPECT_OLD_VERSION_REJECTED).toBe(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE);
+
+      const current = await request(ZmqUtils.encodeRequest(ZMQ_PROTOCOL_VERSION, 'current', ZmqMessageType.PING));
+      expect(current[0], ZmqFramingTestCases.EXPECT_REPLY_IN_REQUEST_VERSION).toBe(String(ZMQ_PROTOCOL_VERSION));
+      const newer = await request([String(ZMQ_PROTOCOL_VERSION + 1), 'newer', ZmqMessageType.PING]);
+      expect(newer[0], ZmqFramingTestCases.EXPECT_REPLY_IN_REQUEST_VERSION).toBe(String(ZMQ_PROTOCOL_VERSION));
+
+      peer.close();
+    });
+  });
+});
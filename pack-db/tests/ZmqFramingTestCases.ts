@@ -0,0 +1,16 @@
+export enum ZmqFramingTestCases {
+  EXPECT_REQUEST_ROUND_TRIP = 'Every request type decodes to the fields it was encoded with',
+  EXPECT_RESPONSE_ROUND_TRIP = 'Every response type decodes to the fields it was encoded with',
+  EXPECT_EVENT_ROUND_TRIP = 'Every event type decodes to the fields it was encoded with',
+  EXPECT_FIELD_COUNT_CHECKED = 'Frames with a missing or extra field are rejected',
+  EXPECT_UNKNOWN_TYPE_REJECTED = 'Frames with an unknown message type are rejected',
+  EXPECT_DEFAULTS_FILLED = 'Missing optional trailing fields take their schema defaults',
+  EXPECT_NEWER_FIELDS_IGNORED = 'Extra trailing fields from a newer protocol version are ignored',
+  EXPECT_ERROR_DECODED = 'Error responses decode even when they carry no fields',
+  EXPECT_VERSION_NEGOTIATED = 'The handshake settles on the highest version both sides support',
+  EXPECT_INCOMPATIBLE_REJECTED = 'Peers without a common version are rejected',
+  EXPECT_HANDSHAKE_OVER_SOCKET = 'pack-db answers HELLO with the negotiated version',
+  EXPECT_OLD_VERSION_REJECTED = 'Requests from an unsupported version get INTERNAL_ZMQ_VERSION_INCOMPATIBLE',
+  EXPECT_REPLY_IN_REQUEST_VERSION = 'pack-db answers in the request version, or its own highest one if that is lower',
+  EXPECT_DELIVERED_OVER_SOCKET = 'Payloads containing the old delimiter reach the account service unchanged',
+}
@@ -0,0 +1,152 @@
+import cluster, { Worker } from 'cluster';
+import { Logger, ConfigKeys, MetricsRegistry } from 'pack-shared';
+import { WorkerStats, WorkerStatsMessage, WORKER_STATS_MESSAGE } from './core/interfaces/WorkerStats';
+import {
+  MetricsCollectMessage,
+  MetricsRequestMessage,
+  MetricsResponseMessage,
+  MetricsSnapshotMessage,
+  METRICS_COLLECT_MESSAGE,
+  METRICS_REQUEST_MESSAGE,
+  METRICS_RESPONSE_MESSAGE,
+  METRICS_SNAPSHOT_MESSAGE,
+} from './core/interfaces/WorkerMetrics';
+
+const CLASS_NAME = 'Cluster';
+const METRICS_COLLECT_TIMEOUT_MS = 1000;
+
+export interface ClusterConfig {
+  workers: number;
+  statsIntervalMs: number;
+}
+
+interface MetricsCollection {
+  requester: Worker;
+  waiting: Set<number>;
+  registry: MetricsRegistry;
+  timer: NodeJS.Timeout;
+}
+
+export class Cluster {
+  private config: ClusterConfig;
+  private workers = new Map<number, Worker>();
+  private stats = new Map<number, WorkerStats>();
+  private collections = new Map<string, MetricsCollection>();
+  private statsTimer: NodeJS.Timeout | null = null;
+  private stopping = false;
+
+  constructor(config: ClusterConfig) {
+    this.config = config;
+  }
+
+  start(): void {
+    cluster.on('message', (worker, message: WorkerStatsMessage | MetricsRequestMessage | MetricsSnapshotMessage) => {
+      switch (message?.type) {
+        case WORKER_STATS_MESSAGE:
+          this.stats.set(message.stats.workerIndex, message.stats);
+          break;
+        case METRICS_REQUEST_MESSAGE:
+          this.collectMetrics(worker, message.requestId);
+          break;
+        case METRICS_SNAPSHOT_MESSAGE:
+          this.addMetricsSnapshot(worker, message);
+          break;
+      }
+    });
+
+    for (let index = 0; index < this.config.workers; index++) {
+      this.fork(index);
+    }
+
+    this.statsTimer = setInterval(() => this.logStats(), this.config.statsIntervalMs);
+    this.statsTimer.unref();
+    Logger.debug(CLASS_NAME, null, 'Started {} workers', this.config.workers);
+  }
+
+  getWorkerStats(): WorkerStats[] {
+    return Array.from(this.stats.values()).sort((a, b) => a.workerIndex - b.workerIndex);
+  }
+
+  stop(): void {
+    this.stopping = true;
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    for (const worker of this.workers.values()) {
+      worker.kill('SIGTERM');
+    }
+  }
+
+  private fork(index: number): void {
+    const worker = cluster.fork({ [ConfigKeys.CLUSTER_WORKER_INDEX]: String(index) });
+    this.workers.set(index, worker);
+
+    worker.on('exit', (code, signal) => {
+      this.workers.delete(index);
+      this.stats.delete(index);
+      for (const [requestId, collection] of this.collections) {
+        if (collection.waiting.delete(worker.id) && collection.waiting.size === 0) {
+          this.finishMetricsCollection(requestId);
+        }
+      }
+      if (this.stopping) return;
+
+      Logger.warn(CLASS_NAME, null, 'Worker {} exited (code {}, signal {}), restarting', index, code, signal);
+      this.fork(index);
+    });
+  }
+
+  private collectMetrics(requester: Worker, requestId: string): void {
+    const timer = setTimeout(() => this.finishMetricsCollection(requestId), METRICS_COLLECT_TIMEOUT_MS);
+    this.collections.set(requestId, {
+      requester,
+      waiting: new Set(Array.from(this.workers.values(), worker => worker.id)),
+      registry: new MetricsRegistry(),
+      timer,
+    });
+
+    const message: MetricsCollectMessage = { type: METRICS_COLLECT_MESSAGE, requestId };
+    for (const worker of this.workers.values()) {
+      worker.send(message);
+    }
+  }
+
+  private addMetricsSnapshot(worker: Worker, message: MetricsSnapshotMessage): void {
+    const collection = this.collections.get(message.requestId);
+    if (!collection || !collection.waiting.delete(worker.id)) return;
+
+    collection.registry.merge(message.snapshot);
+    if (collection.waiting.size === 0) {
+      this.finishMetricsCollection(message.requestId);
+    }
+  }
+
+  private finishMetricsCollection(requestId: string): void {
+    const collection = this.collections.get(requestId);
+    if (!collection) return;
+
+    this.collections.delete(requestId);
+    clearTimeout(collection.timer);
+    if (collection.waiting.size > 0) {
+      Logger.warn(CLASS_NAME, null, '{} workers did not send metrics for {} in time', collection.waiting.size,
+        requestId);
+    }
+    if (collection.requester.isConnected()) {
+      const response: MetricsResponseMessage = {
+        type: METRICS_RESPONSE_MESSAGE,
+        requestId,
+        body: collection.registry.render(),
+      };
+      collection.requester.send(response);
+    }
+  }
+
+  private logStats(): void {
+    for (const stats of this.getWorkerStats()) {
+      Logger.debug(CLASS_NAME, null, 'Worker {} (pid {}): {} active / {} total sessions, {} rejected upgrades, {} outbox pending, pack-db {}',
+        stats.workerIndex, stats.pid, stats.activeSessions, stats.totalSessions, stats.rejectedUpgrades,
+        stats.outboxPending, stats.zmqHealth);
+    }
+  }
+}
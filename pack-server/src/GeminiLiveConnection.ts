@@ -0,0 +1,95 @@
+import WebSocket from 'ws';
+import { Config, ConfigKeys, Logger } from 'pack-shared';
+import { IConnectionHandler } from './core/interfaces/IConnectionHandler';
+import { IVoiceConnection } from './core/interfaces/IVoiceConnection';
+
+const CLASS_NAME = 'GeminiLiveConnection';
+const DEFAULT_URL = 'wss://generativelanguage.googleapis.com/ws/'
+  + 'google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+const SETUP_PATTERN = /^\s*\{\s*"setup"\s*:/;
+
+export const GEMINI_DEFAULT_MODEL = 'models/gemini-2.0-flash-live-001';
+
+export class GeminiLiveConnection implements IVoiceConnection {
+  private ws: WebSocket | null = null;
+  private readonly url: string;
+  private handler: IConnectionHandler;
+  private setupSent = false;
+
+  constructor(handler: IConnectionHandler, url: string = DEFAULT_URL) {
+    this.handler = handler;
+    this.url = url;
+  }
+
+  public connect(): void {
+    const apiKey = Config.get(ConfigKeys.GEMINI_API_KEY);
+    const separator = this.url.indexOf('?') === -1 ? '?' : '&';
+
+    this.setupSent = false;
+    this.ws = new WebSocket(`${this.url}${separator}key=${encodeURIComponent(apiKey)}`);
+
+    this.ws.on('open', () => {
+      this.handler.onConnect();
+    });
+
+    this.ws.on('error', (error) => {
+      this.handler.onError(error);
+    });
+
+    this.ws.on('close', (code, reason) => {
+      this.handler.onClose(code, reason.toString());
+      this.ws = null;
+    });
+
+    this.ws.on('message', (data) => {
+      this.handler.onMsgReceived(data.toString());
+    });
+  }
+
+  public disconnect(): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.close();
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  public static isSetupMessage(data: string): boolean {
+    return SETUP_PATTERN.test(data);
+  }
+
+  public send(message: unknown): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    const isSetup = GeminiLiveConnection.isSetupMessage(data);
+
+    if (isSetup && this.setupSent) {
+      Logger.warn(CLASS_NAME, null, 'Dropping setup message, session already configured');
+      return;
+    }
+
+    if (!this.setupSent) {
+      this.ws.send(isSetup ? data : JSON.stringify(this.defaultSetup()));
+      this.setupSent = true;
+      if (isSetup) return;
+    }
+
+    this.ws.send(data);
+  }
+
+  private defaultSetup(): unknown {
+    return {
+      setup: {
+        model: GEMINI_DEFAULT_MODEL,
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+    };
+  }
+}
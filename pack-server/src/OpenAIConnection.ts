@@ -3,13 +3,16 @@ import { Config, ConfigKeys } from 'pack-shared';
 import { IConnectionHandler } from './core/interfaces/IConnectionHandler';
 import { IVoiceConnection } from './core/interfaces/IVoiceConnection';
 
+const DEFAULT_URL = 'wss://api.openai.com/v1/realtime?model=gpt-realtime';
+
 export class OpenAIConnection implements IVoiceConnection {
   private ws: WebSocket | null = null;
-  private readonly url = 'wss://api.openai.com/v1/realtime?model=gpt-realtime';
+  private readonly url: string;
   private handler: IConnectionHandler;
 
-  constructor(handler: IConnectionHandler) {
+  constructor(handler: IConnectionHandler, url: string = DEFAULT_URL) {
     this.handler = handler;
+    this.url = url;
   }
 
   public connect(): void {
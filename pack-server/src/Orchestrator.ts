@@ -1,29 +1,65 @@
 import * as uWS from 'uWebSockets.js';
-import { IAccountService, SessionData, ErrorCode, Logger } from 'pack-shared';
+import { IAccountService, SessionData, ErrorCode, Logger, VoiceProvider, Config, ConfigKeys, AccountStatus,
+  getAccountStatusError, GaugeSeries } from 'pack-shared';
 import { IConnectionHandler } from './core/interfaces/IConnectionHandler';
 import { IVoiceConnection } from './core/interfaces/IVoiceConnection';
 import { IServiceFactory } from './core/interfaces/IServiceFactory';
 import { ICheckpointHandler } from './core/interfaces/ICheckpointHandler';
 import { IUsageHandler } from './core/interfaces/IUsageHandler';
-import { OpenAIConnection } from './OpenAIConnection';
+import { IEventConverter } from './core/interfaces/IEventConverter';
+import { IFailoverPolicy } from './core/interfaces/IFailoverPolicy';
+import { IReconnectPolicy, ReconnectState } from './core/interfaces/IReconnectPolicy';
+import { ICreditAlertPolicy } from './core/interfaces/ICreditAlertPolicy';
+import { IBalanceListener, IBalanceSubscriber } from './core/interfaces/IBalanceSubscriber';
+import { ILatencyStats } from './core/interfaces/ILatencyStats';
+import { RsCloseCode, RsErrorEvent, RsEvent, RsEventType } from './core/interfaces/RsEvents';
+import { ServerMetrics } from './core/impls/ServerMetrics';
+import { GeminiLiveConnection } from './GeminiLiveConnection';
 
 const CLASS_NAME = 'Orchestrator';
 const MAX_BUFFER_SIZE = 10000;
-const MAX_RESPONSES_BEFORE_CREDIT_CHECK = 50;
 
-export class Orchestrator implements IConnectionHandler {
+export class Orchestrator implements IConnectionHandler, IBalanceListener {
   private accountId: string;
   private sessionId: string;
   private sessionData: SessionData;
+  private provider: VoiceProvider;
+  private apiStyle: VoiceProvider;
+  private toProvider: IEventConverter | null;
+  private toClient: IEventConverter | null;
+  private lastSetup: string | null = null;
+  private currentSession: string | null = null;
+  private pendingContext: string[] = [];
+  private failoverPolicy: IFailoverPolicy;
+  private reconnectPolicy: IReconnectPolicy;
+  private creditAlertPolicy: ICreditAlertPolicy;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private sessionTimer: NodeJS.Timeout | null = null;
+  private holdRefreshTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+  private finishInFlightResponse: boolean;
+  private responseInFlight = false;
+  private creditsExhausted = false;
+  private keyBudgetExhausted = false;
   private credits: number;
+  private holdId: string;
+  private reserved: number;
+  private reserveRefillAt: number;
+  private reservationInProgress = false;
   private ws: uWS.WebSocket<unknown>;
   private factory: IServiceFactory;
   private accountService: IAccountService;
+  private balanceSubscriber: IBalanceSubscriber;
   private voiceConnection: IVoiceConnection | null = null;
   private isVoiceProviderConnected = false;
   private messageBuffer: unknown[] = [];
-  private responseCount = 0;
-  private creditsCheckInProgress = false;
+  private metrics: ServerMetrics;
+  private bufferDepth: GaugeSeries;
+  private latencyStats: ILatencyStats;
+  private latencyEventsEnabled: boolean;
+  private turnStartedAt: number | null = null;
+  private inputTranscribedAt: number | null = null;
+  private firstAudioMs: number | null = null;
   private skipSessionSave = false;
   private checkpointHandler: ICheckpointHandler;
   private usageHandler: IUsageHandler;
@@ -31,54 +67,115 @@ export class Orchestrator implements IConnectionHandler {
   constructor(
     sessionData: SessionData,
     ws: uWS.WebSocket<unknown>,
-    factory: IServiceFactory
+    factory: IServiceFactory,
+    provider: VoiceProvider,
+    apiStyle: VoiceProvider
   ) {
     this.sessionData = sessionData;
+    this.provider = provider;
+    this.apiStyle = apiStyle;
+    this.toProvider = factory.getNewEventConverter(apiStyle, provider);
+    this.toClient = factory.getNewEventConverter(provider, apiStyle);
     this.accountId = sessionData.accountId;
     this.sessionId = ws.getUserData() ? (ws.getUserData() as any).sessionId : '';
     this.credits = sessionData.credits;
+    this.holdId = sessionData.holdId;
+    this.reserved = sessionData.reserved;
+    this.reserveRefillAt = Math.floor(sessionData.reserved / 2);
     this.ws = ws;
     this.factory = factory;
     this.accountService = factory.getAccountService();
+    this.balanceSubscriber = factory.getBalanceSubscriber();
+    this.metrics = factory.getServerMetrics();
+    this.bufferDepth = this.metrics.bufferedMessages.labels();
+    this.latencyStats = factory.getNewLatencyStats();
     this.skipSessionSave = sessionData.sessionData.length > 0;
-    this.checkpointHandler = factory.getNewCheckpointHandler(this.accountId, this.sessionId);
-    this.usageHandler = factory.getNewUsageHandler(this.accountId, this.sessionId);
+    this.checkpointHandler = factory.getNewCheckpointHandler(this.accountId, this.sessionId, provider);
+    this.usageHandler = factory.getNewUsageHandler(this.accountId, this.sessionId, provider, this.holdId,
+      sessionData.keyHash);
+    this.failoverPolicy = factory.getNewFailoverPolicy(provider);
+    this.reconnectPolicy = factory.getNewReconnectPolicy();
+    this.creditAlertPolicy = factory.getNewCreditAlertPolicy(sessionData.creditAlertThresholds, this.credits);
+    this.finishInFlightResponse = Config.has(ConfigKeys.CREDITS_FINISH_IN_FLIGHT_RESPONSE)
+      && Config.get(ConfigKeys.CREDITS_FINISH_IN_FLIGHT_RESPONSE) === 'true';
+    this.latencyEventsEnabled = Config.has(ConfigKeys.LATENCY_EVENTS_ENABLED)
+      && Config.get(ConfigKeys.LATENCY_EVENTS_ENABLED) === 'true';
+    this.balanceSubscriber.register(this.accountId, this);
+    if (sessionData.maxSessionSeconds > 0) {
+      this.sessionTimer = setTimeout(() => this.onSessionExpired(), sessionData.maxSessionSeconds * 1000);
+    }
+    if (this.holdId) {
+      this.holdRefreshTimer = setInterval(() => this.refreshHold(), factory.getHoldRefreshIntervalMs());
+    }
   }
 
   connect(): void {
+    if (this.closed) return;
+    this.checkCreditAlerts();
     if (this.voiceConnection) {
       this.voiceConnection.disconnect();
     }
-    this.voiceConnection = new OpenAIConnection(this);
+    this.voiceConnection = this.factory.getNewVoiceConnection(this.provider, this);
     this.voiceConnection.connect();
   }
 
   send(message: unknown): void {
+    if (this.creditsExhausted) return;
+    this.trackTurnStart(message);
+
     if (this.isVoiceProviderConnected && this.voiceConnection) {
-      this.checkAndScheduleCreditsCheck();
       if (this.credits <= 0) {
-        this.voiceConnection.disconnect();
-        throw new Error(ErrorCode.EXTERNAL_NO_CREDITS);
+        this.onCreditsExhausted();
+        return;
       }
-      this.voiceConnection.send(message);
+      this.forward(message);
     } else {
       if (this.messageBuffer.length >= MAX_BUFFER_SIZE) {
         throw new Error(ErrorCode.EXTERNAL_BUFFER_OVERFLOW);
       }
       this.messageBuffer.push(message);
+      this.bufferDepth.inc();
+    }
+  }
+
+  private forward(message: unknown): void {
+    if (!this.toProvider) {
+      this.trackSetup(message);
+      this.voiceConnection!.send(message);
+      return;
+    }
+
+    const raw = typeof message === 'string' ? message : JSON.stringify(message);
+    for (const converted of this.toProvider.convert(raw)) {
+      this.trackSetup(converted);
+      this.voiceConnection!.send(converted);
     }
   }
 
   onConnect(): void {
+    if (this.closed) {
+      this.voiceConnection?.disconnect();
+      return;
+    }
     this.isVoiceProviderConnected = true;
+    this.failoverPolicy.onConnected();
+    this.reconnectPolicy.reset();
     if (this.sessionData.sessionData) {
       try {
-        this.voiceConnection!.send(this.sessionData.sessionData);
+        for (const message of this.sessionReplay()) {
+          this.trackSetup(message);
+          this.voiceConnection!.send(message);
+        }
       } catch (e) {
         Logger.error(CLASS_NAME, this.accountId, 'Failed to parse sessionData', e as Error);
       }
     }
 
+    for (const message of this.pendingContext) {
+      this.voiceConnection!.send(message);
+    }
+    this.pendingContext = [];
+
     this.flushBuffer();
   }
 
@@ -91,36 +188,418 @@ export class Orchestrator implements IConnectionHandler {
   onClose(code: number, reason: string): void {
     Logger.debug(CLASS_NAME, this.accountId, 'Voice connection closed: {} {}', code, reason);
     this.isVoiceProviderConnected = false;
-    Logger.debug(CLASS_NAME, this.accountId, 'Auto-reconnecting for session: {}', this.sessionId);
+    this.resetTurn();
+    if (this.closed) return;
+
+    const secondary = this.failoverPolicy.onFailure(this.provider, code);
+    if (secondary) {
+      this.switchProvider(secondary, code, reason);
+      this.reconnectPolicy.reset();
+    }
+
+    const delay = this.reconnectPolicy.nextDelay();
+    if (delay === null) {
+      this.onReconnectExhausted(code, reason);
+      return;
+    }
+
+    Logger.debug(CLASS_NAME, this.accountId, 'Auto-reconnecting for session: {} in {}ms', this.sessionId, delay);
+    this.metrics.upstreamReconnects.labels(this.provider).inc();
     this.skipSessionSave = true;
-    this.connect();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnectWithinSessionLimit();
+    }, delay);
+  }
+
+  getReconnectState(): ReconnectState & { pending: boolean } {
+    return { ...this.reconnectPolicy.getState(), pending: this.reconnectTimer !== null };
+  }
+
+  getStatus(): { provider: VoiceProvider; upstreamConnected: boolean; bufferedMessages: number } {
+    return {
+      provider: this.provider,
+      upstreamConnected: this.isVoiceProviderConnected,
+      bufferedMessages: this.messageBuffer.length,
+    };
+  }
+
+  onCreditsUpdated(credits: number): void {
+    if (this.closed) return;
+    this.credits = credits - this.usageHandler.getPendingTokens();
+    this.sendToClient({ type: RsEventType.CREDITS_UPDATED, balance: this.credits });
+    if (this.credits <= 0) {
+      if (!this.creditsExhausted) this.onCreditsExhausted();
+      return;
+    }
+    this.creditsExhausted = false;
+    this.checkCreditAlerts();
+    this.reserveIfNeeded();
+  }
+
+  onAccountStatusChanged(status: AccountStatus): void {
+    if (this.closed) return;
+    const error = getAccountStatusError(status);
+    if (!error) return;
+
+    Logger.warn(CLASS_NAME, this.accountId, 'Account status changed to {}, closing session: {}', status, this.sessionId);
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: error,
+      message: `Account is no longer active: ${error}`,
+    }, RsCloseCode.ACCOUNT_INACTIVE);
+  }
+
+  onSessionReplaced(holdId: string): void {
+    if (this.closed || holdId !== this.holdId) return;
+
+    Logger.warn(CLASS_NAME, this.accountId, 'Session {} opened on another connection, closing this one',
+      this.sessionId);
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_SESSION_REPLACED,
+      message: 'Session was opened on another connection',
+    }, RsCloseCode.SESSION_REPLACED);
+  }
+
+  private reconnectWithinSessionLimit(): void {
+    this.accountService.checkSessionLimit(this.accountId, this.sessionId)
+      .then(({ limit, overLimit }) => {
+        if (this.closed) return;
+        if (overLimit) {
+          this.onSessionLimitExceeded(limit);
+          return;
+        }
+        this.connect();
+      }).catch((err) => {
+        Logger.error(CLASS_NAME, this.accountId, 'Failed to check the session limit, reconnecting anyway', err);
+        this.connect();
+      });
+  }
+
+  private onSessionLimitExceeded(limit: number): void {
+    Logger.warn(CLASS_NAME, this.accountId, 'Session limit {} exceeded while reconnecting session: {}', limit,
+      this.sessionId);
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_TOO_MANY_SESSIONS,
+      message: `Account is over its limit of ${limit} concurrent sessions`,
+    }, RsCloseCode.TOO_MANY_SESSIONS);
+  }
+
+  private onSessionExpired(): void {
+    this.sessionTimer = null;
+    if (this.closed) return;
+
+    Logger.warn(CLASS_NAME, this.accountId, 'Max session duration reached for session: {}', this.sessionId);
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_SESSION_EXPIRED,
+      message: `Session exceeded the API key limit of ${this.sessionData.maxSessionSeconds} seconds`,
+    }, RsCloseCode.SESSION_EXPIRED);
+  }
+
+  private reserveIfNeeded(): void {
+    if (!this.holdId || this.reservationInProgress || this.reserved >= this.reserveRefillAt) return;
+
+    this.reservationInProgress = true;
+    this.accountService.reserveCredits(this.accountId, this.sessionId, this.holdId, this.sessionData.keyHash)
+      .then(({ error, reserved }) => {
+        this.reservationInProgress = false;
+        this.onReserved(reserved, error);
+      }).catch((err) => {
+        Logger.error(CLASS_NAME, this.accountId, 'Failed to reserve credits', err);
+        this.reservationInProgress = false;
+      });
+  }
+
+  private refreshHold(): void {
+    this.accountService.refreshHold(this.accountId, this.holdId)
+      .then((refreshed) => {
+        if (!refreshed && !this.closed) {
+          Logger.warn(CLASS_NAME, this.accountId, 'Hold {} of session {} expired before it was refreshed', this.holdId,
+            this.sessionId);
+        }
+      }).catch((err) => {
+        Logger.error(CLASS_NAME, this.accountId, 'Failed to refresh hold', err);
+      });
+  }
+
+  private onReserved(reserved: number, error: string): void {
+    if (this.closed) return;
+    if (error === ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED) this.keyBudgetExhausted = true;
+    this.reserved += reserved;
+    Logger.debug(CLASS_NAME, this.accountId, 'Hold {} extended by {}, now {}', this.holdId, reserved, this.reserved);
+    if (this.reserved <= 0 && !this.creditsExhausted) {
+      this.onCreditsExhausted();
+    }
+  }
+
+  private checkCreditAlerts(): void {
+    const threshold = this.creditAlertPolicy.check(this.credits);
+    if (threshold !== null) {
+      this.sendToClient({ type: RsEventType.CREDITS_LOW, balance: this.credits, threshold });
+    }
+  }
+
+  private onCreditsExhausted(): void {
+    this.creditsExhausted = true;
+    if (this.finishInFlightResponse && this.responseInFlight) {
+      Logger.debug(CLASS_NAME, this.accountId, 'Credits exhausted, finishing in-flight response for session: {}',
+        this.sessionId);
+      return;
+    }
+    this.terminateForNoCredits();
+  }
+
+  private terminateForNoCredits(): void {
+    if (this.keyBudgetExhausted) {
+      Logger.warn(CLASS_NAME, this.accountId, 'Key token budget used for session: {}', this.sessionId);
+      this.terminate({
+        type: RsEventType.ERROR,
+        code: ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED,
+        message: 'API key token budget is used up',
+      }, RsCloseCode.NO_CREDITS);
+      return;
+    }
+    Logger.warn(CLASS_NAME, this.accountId, 'Credits exhausted for session: {}, balance: {}', this.sessionId, this.credits);
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_NO_CREDITS,
+      message: 'Insufficient credits',
+      balance: this.credits,
+    }, RsCloseCode.NO_CREDITS);
+  }
+
+  private onReconnectExhausted(code: number, reason: string): void {
+    const { attempts } = this.reconnectPolicy.getState();
+    Logger.warn(CLASS_NAME, this.accountId, 'Reconnect attempts exhausted for session: {}', this.sessionId);
+
+    this.terminate({
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_UPSTREAM_UNAVAILABLE,
+      message: `Voice provider unavailable after ${attempts} reconnect attempts (last close: ${code} ${reason})`,
+    }, RsCloseCode.UPSTREAM_UNAVAILABLE);
+  }
+
+  private terminate(event: RsErrorEvent, closeCode: RsCloseCode): void {
+    this.sendToClient(event);
+    this.cleanup();
+
+    try {
+      this.ws.end(closeCode, event.message);
+    } catch (error) {
+      Logger.warn(CLASS_NAME, this.accountId, 'Failed to close WebSocket: {}', (error as Error).message);
+    }
   }
 
   onMsgReceived(message: string): void {
+    if (this.closed) return;
+
     // Try to send the message. uWebSockets.js will throw if the socket is closed.
     // We cannot check the socket state beforehand since uWS doesn't provide a state API.
     try {
-      this.ws.send(message);
+      if (this.toClient) {
+        for (const converted of this.toClient.convert(message)) {
+          this.ws.send(converted);
+        }
+      } else {
+        this.ws.send(message);
+      }
     } catch (error) {
       Logger.warn(CLASS_NAME, this.accountId, 'Failed to send message (WebSocket likely closed): {}', (error as Error).message);
       this.cleanup();
       return;
     }
 
+    this.trackResponseStart(message);
+    this.trackLatency(message);
     this.trackUsage(message);
     this.saveSessionIfNeeded(message);
     this.checkpointHandler.trackConversation(message);
+
+    if (this.creditsExhausted && !this.responseInFlight) {
+      this.terminateForNoCredits();
+    }
+  }
+
+  private trackResponseStart(message: string): void {
+    if (this.responseInFlight) return;
+    const responseEvent = this.provider === VoiceProvider.GEMINI ? '"modelTurn"' : '"type":"response.created"';
+    if (message.indexOf(responseEvent) !== -1) {
+      this.responseInFlight = true;
+    }
+  }
+
+  private trackTurnStart(message: unknown): void {
+    if (this.turnStartedAt !== null || !message || typeof message !== 'object') return;
+
+    const event = message as { type?: string; realtimeInput?: { audioStreamEnd?: boolean; activityEnd?: unknown } };
+    if (event.type === 'input_audio_buffer.commit' || event.realtimeInput?.audioStreamEnd
+      || event.realtimeInput?.activityEnd) {
+      this.turnStartedAt = performance.now();
+    }
+  }
+
+  private trackLatency(message: string): void {
+    const isGemini = this.provider === VoiceProvider.GEMINI;
+    if (this.turnStartedAt === null) {
+      if (isGemini) {
+        this.trackGeminiTurnStart(message);
+      } else if (message.indexOf('"type":"input_audio_buffer.speech_stopped"') !== -1) {
+        this.turnStartedAt = performance.now();
+      }
+      if (this.turnStartedAt === null) return;
+    }
+
+    const audioEvent = isGemini ? '"inlineData"' : '"type":"response.output_audio.delta"';
+    if (this.firstAudioMs === null && message.indexOf(audioEvent) !== -1) {
+      this.onLatencyCheck(performance.now() - this.turnStartedAt);
+    }
+
+    const doneEvent = isGemini ? '"turnComplete"' : '"type":"response.done"';
+    if (message.indexOf(doneEvent) !== -1) {
+      this.onTurnDone(performance.now() - this.turnStartedAt);
+    }
+  }
+
+  private trackGeminiTurnStart(message: string): void {
+    if (message.indexOf('"inputTranscription"') !== -1) {
+      this.inputTranscribedAt = performance.now();
+      if (message.indexOf('"finished":true') !== -1) {
+        this.turnStartedAt = this.inputTranscribedAt;
+        return;
+      }
+    }
+    if (message.indexOf('"modelTurn"') !== -1) {
+      this.turnStartedAt = this.inputTranscribedAt ?? performance.now();
+    }
+  }
+
+  private onTurnDone(turnMs: number): void {
+    this.latencyStats.recordTurn(turnMs);
+    this.metrics.turnDuration.labels(this.provider).observe(turnMs / 1000);
+    if (this.latencyEventsEnabled) {
+      this.sendToClient({
+        type: RsEventType.LATENCY,
+        firstAudioMs: this.firstAudioMs === null ? null : Math.round(this.firstAudioMs),
+        turnMs: Math.round(turnMs),
+      });
+    }
+    this.resetTurn();
+  }
+
+  private resetTurn(): void {
+    this.turnStartedAt = null;
+    this.inputTranscribedAt = null;
+    this.firstAudioMs = null;
   }
 
   private saveSessionIfNeeded(message: string): void {
     // Use indexOf to check for type field
-    if (message.indexOf('"type":"session.updated"') === -1) return;
+    const sessionEvent = this.provider === VoiceProvider.GEMINI ? '"setupComplete"' : '"type":"session.updated"';
+    if (message.indexOf(sessionEvent) === -1) return;
+
+    const sessionUpdated = this.provider === VoiceProvider.GEMINI ? this.canonicalSession() : message;
+    if (!sessionUpdated) return;
+    this.currentSession = sessionUpdated;
 
     if (this.skipSessionSave) {
       this.skipSessionSave = false;
       return;
     }
-    this.accountService.saveSession(this.accountId, this.sessionId, message);
+    this.accountService.saveSession(this.accountId, this.sessionId, sessionUpdated);
+  }
+
+  private switchProvider(provider: VoiceProvider, code: number, reason: string): void {
+    const from = this.provider;
+    Logger.warn(CLASS_NAME, this.accountId, 'Switching provider {} -> {} for session: {}', from, provider, this.sessionId);
+
+    if (this.currentSession) {
+      try {
+        this.sessionData.sessionData = this.toSessionUpdate(this.currentSession);
+      } catch (e) {
+        Logger.error(CLASS_NAME, this.accountId, 'Failed to parse current session', e as Error);
+      }
+    }
+
+    this.usageHandler.flush();
+    this.provider = provider;
+    this.lastSetup = null;
+    this.toProvider = this.factory.getNewEventConverter(this.apiStyle, provider);
+    this.toClient = this.factory.getNewEventConverter(provider, this.apiStyle);
+    this.usageHandler = this.factory.getNewUsageHandler(this.accountId, this.sessionId, provider, this.holdId,
+      this.sessionData.keyHash);
+    this.checkpointHandler.setProvider(provider);
+    this.pendingContext = this.contextReplay();
+
+    this.sendToClient({ type: RsEventType.PROVIDER_SWITCHED, from, to: provider, code, reason });
+  }
+
+  private toSessionUpdate(sessionUpdated: string): string {
+    const { object, id, expires_at, ...session } = JSON.parse(sessionUpdated).session ?? {};
+    return JSON.stringify({ type: 'session.update', session });
+  }
+
+  private contextReplay(): string[] {
+    const converter = this.factory.getNewEventConverter(VoiceProvider.OPENAI, this.provider);
+    const items: string[] = [];
+
+    for (const turn of this.checkpointHandler.getRecentTurns()) {
+      const isAgent = turn.type === 'agent';
+      const item = JSON.stringify({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: isAgent ? 'assistant' : 'user',
+          content: [{ type: isAgent ? 'output_text' : 'input_text', text: this.unescape(turn.text) }],
+        },
+      });
+      items.push(...(converter ? converter.convert(item) : [item]));
+    }
+    return items;
+  }
+
+  private unescape(text: string): string {
+    try {
+      return JSON.parse(`"${text}"`);
+    } catch (error) {
+      return text;
+    }
+  }
+
+  private sendToClient(event: RsEvent): void {
+    try {
+      this.ws.send(JSON.stringify(event));
+    } catch (error) {
+      Logger.warn(CLASS_NAME, this.accountId, 'Failed to send {} (WebSocket likely closed): {}', event.type,
+        (error as Error).message);
+    }
+  }
+
+  private sessionReplay(): string[] {
+    const converter = this.factory.getNewEventConverter(VoiceProvider.OPENAI, this.provider);
+    return converter ? converter.convert(this.sessionData.sessionData) : [this.sessionData.sessionData];
+  }
+
+  private canonicalSession(): string | null {
+    if (!this.lastSetup) return null;
+
+    const converter = this.factory.getNewEventConverter(VoiceProvider.GEMINI, VoiceProvider.OPENAI);
+    const [sessionUpdate] = converter ? converter.convert(this.lastSetup) : [];
+    if (!sessionUpdate) return null;
+
+    return JSON.stringify({ ...JSON.parse(sessionUpdate), type: 'session.updated' });
+  }
+
+  private trackSetup(message: unknown): void {
+    if (this.provider !== VoiceProvider.GEMINI) return;
+
+    if (typeof message === 'string') {
+      if (GeminiLiveConnection.isSetupMessage(message)) this.lastSetup = message;
+    } else if ((message as { setup?: unknown })?.setup) {
+      this.lastSetup = JSON.stringify(message);
+    }
   }
 
   private trackUsage(message: string): void {
@@ -128,46 +607,61 @@ export class Orchestrator implements IConnectionHandler {
     if (tokens) {
       const totalTokens = tokens.inputTokens + tokens.outputTokens;
       this.credits -= totalTokens;
-      this.responseCount++;
-      if (this.credits <= 0) {
-        this.voiceConnection?.disconnect();
-        throw new Error(ErrorCode.EXTERNAL_NO_CREDITS);
+      this.reserved -= totalTokens;
+      this.responseInFlight = false;
+      if (this.credits <= 0 || (this.keyBudgetExhausted && this.reserved <= 0)) {
+        this.creditsExhausted = true;
+      } else {
+        this.checkCreditAlerts();
+        this.reserveIfNeeded();
       }
     }
   }
 
   onLatencyCheck(latencyMs: number): void {
-    // TODO: implement latency tracking
+    this.firstAudioMs = latencyMs;
+    this.latencyStats.recordFirstAudio(latencyMs);
+    this.metrics.turnFirstAudio.labels(this.provider).observe(latencyMs / 1000);
   }
 
   cleanup(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.balanceSubscriber.unregister(this.accountId, this);
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.sessionTimer) {
+      clearTimeout(this.sessionTimer);
+      this.sessionTimer = null;
+    }
+    if (this.holdRefreshTimer) {
+      clearInterval(this.holdRefreshTimer);
+      this.holdRefreshTimer = null;
+    }
+
     this.usageHandler.flush();
     this.checkpointHandler.flush();
+    const latency = this.latencyStats.getSummary(this.provider);
+    if (latency) {
+      this.accountService.saveLatency(this.accountId, this.sessionId, latency);
+    }
+    if (this.holdId) {
+      this.accountService.releaseCredits(this.accountId, this.holdId);
+    }
 
     this.voiceConnection?.disconnect();
+    this.bufferDepth.dec(this.messageBuffer.length);
     this.messageBuffer = [];
     Logger.debug(CLASS_NAME, this.accountId, 'Cleanup completed for session: {}', this.sessionId);
   }
 
   private flushBuffer(): void {
+    this.bufferDepth.dec(this.messageBuffer.length);
     while (this.messageBuffer.length > 0) {
       const message = this.messageBuffer.shift();
-      this.voiceConnection!.send(message);
+      this.forward(message);
     }
   }
-
-  private checkAndScheduleCreditsCheck(): void {
-    if (this.creditsCheckInProgress) return;
-    if (this.responseCount < MAX_RESPONSES_BEFORE_CREDIT_CHECK) return;
-
-    this.creditsCheckInProgress = true;
-    this.accountService.getCredits(this.accountId).then((credits) => {
-      this.credits = credits;
-      this.responseCount = 0;
-      this.creditsCheckInProgress = false;
-    }).catch((err) => {
-      Logger.error(CLASS_NAME, this.accountId, 'Failed to fetch credits', err);
-      this.creditsCheckInProgress = false;
-    });
-  }
 }
@@ -1,19 +1,63 @@
 import * as uWS from 'uWebSockets.js';
-import { SessionData, Logger } from 'pack-shared';
+import cluster from 'cluster';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { IAccountService, SessionData, SessionScope, Logger, VoiceProvider, Config, ConfigKeys,
+  ErrorCode } from 'pack-shared';
 import { ServiceFactory } from './core/impls/ServiceFactory';
 import { Orchestrator } from './Orchestrator';
+import { ZmqHealthState } from './core/interfaces/ZmqHealth';
+import { AccountServiceTransport } from './core/interfaces/AccountServiceTransport';
+import { WorkerStats, WORKER_STATS_MESSAGE } from './core/interfaces/WorkerStats';
+import {
+  MetricsCollectMessage,
+  MetricsRequestMessage,
+  MetricsResponseMessage,
+  MetricsSnapshotMessage,
+  METRICS_COLLECT_MESSAGE,
+  METRICS_REQUEST_MESSAGE,
+  METRICS_RESPONSE_MESSAGE,
+  METRICS_SNAPSHOT_MESSAGE,
+} from './core/interfaces/WorkerMetrics';
+import { IRateLimiter } from './core/interfaces/IRateLimiter';
+import { DuplicateSessionPolicy } from './core/interfaces/DuplicateSessionPolicy';
+import { ServerMetrics } from './core/impls/ServerMetrics';
 
 const CLASS_NAME = 'Server';
+const MAX_TOKEN_REQUEST_BYTES = 4096;
+const KEY_PROTOCOL_PREFIX = 'rs-key.';
+const RATE_LIMIT_KEY_PREFIX_LENGTH = 16;
+const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const CLUSTER_METRICS_TIMEOUT_MS = 2000;
+const NOT_FOUND_BODY = 'Realtime Switch v2 - Connect via WebSocket';
+
+const UPGRADE_ERROR_STATUS: Partial<Record<string, string>> = {
+  [ErrorCode.EXTERNAL_NO_CREDITS]: '402 Payment Required',
+  [ErrorCode.EXTERNAL_PAYMENT_OVERDUE]: '402 Payment Required',
+  [ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_ACCOUNT_CLOSED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_ORIGIN_NOT_ALLOWED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED]: '403 Forbidden',
+  [ErrorCode.EXTERNAL_SESSION_DUPLICATE]: '409 Conflict',
+  [ErrorCode.EXTERNAL_TOO_MANY_SESSIONS]: '429 Too Many Requests',
+};
 
 export interface ServerConfig {
   port: number;
   host: string;
   maxPayloadLength: number;
   idleTimeout: number;
+  statsIntervalMs: number;
+  queryAuthEnabled: boolean;
+  duplicateSessionPolicy: DuplicateSessionPolicy;
+  trustedProxyHops: number;
+  adminToken: string;
 }
 
 type UserData = {
-  apiStyle: string;
+  apiStyle: VoiceProvider;
+  provider: VoiceProvider;
   sessionId: string;
   sessionData: SessionData;
   orchestrator: Orchestrator | null;
@@ -22,16 +66,45 @@ type UserData = {
 export class Server {
   private config: ServerConfig;
   private factory: ServiceFactory;
+  private activeSessions = 0;
+  private totalSessions = 0;
+  private rejectedUpgrades = 0;
+  private startedAt = Date.now();
+  private orchestrators = new Set<Orchestrator>();
+  private listenSocket: uWS.us_listen_socket | null = null;
+  private ipLimiter: IRateLimiter;
+  private keyLimiter: IRateLimiter;
+  private metrics: ServerMetrics;
+  private metricsRequests = new Map<string, (body: string) => void>();
 
   constructor(config: ServerConfig) {
     this.config = config;
     this.factory = ServiceFactory.getInstance();
+    this.ipLimiter = this.factory.getNewIpRateLimiter();
+    this.keyLimiter = this.factory.getNewKeyRateLimiter();
+    this.metrics = this.factory.getServerMetrics();
   }
 
   async start(): Promise<void> {
-    // Connect to ZMQ service
-    await this.factory.getZmqService().connect();
+    if (this.factory.getTransport() === AccountServiceTransport.ZMQ) {
+      // Connect to ZMQ service
+      const zmqService = this.factory.getZmqService();
+      zmqService.onHealthChange((state, previous) => {
+        if (state === ZmqHealthState.CONNECTED) {
+          Logger.debug(CLASS_NAME, null, 'pack-db connection {} (was {})', state, previous);
+        } else {
+          Logger.warn(CLASS_NAME, null, 'pack-db connection {} (was {})', state, previous);
+        }
+      });
+      await zmqService.connect();
+      this.factory.getOutbox().start();
+    } else {
+      await this.factory.loadDbServiceFactory();
+      Logger.debug(CLASS_NAME, null, 'Using in-process pack-db');
+    }
+    await this.factory.getBalanceSubscriber().connect();
     const accountService = this.factory.getAccountService();
+    this.startedAt = Date.now();
 
     const app = uWS.App()
       .ws<UserData>('/*', {
@@ -46,62 +119,99 @@ export class Server {
           });
 
           // Extract query parameters
-          const apiKey = req.getQuery('rs_key');
+          const queryKey = req.getQuery('rs_key');
           const sessionId = req.getQuery('rs_sessid');
-          const apiStyle = req.getQuery('rs_api') || 'OPENAI';
+          const apiStyle = (req.getQuery('rs_api') || VoiceProvider.OPENAI) as VoiceProvider;
+          const provider = (req.getQuery('rs_provider') || VoiceProvider.OPENAI) as VoiceProvider;
+          const origin = req.getHeader('origin');
+          const remoteAddress = this.getRemoteAddress(res, req);
 
           // Extract WebSocket headers
           const secWebSocketKey = req.getHeader('sec-websocket-key');
-          const secWebSocketProtocol = req.getHeader('sec-websocket-protocol');
           const secWebSocketExtensions = req.getHeader('sec-websocket-extensions');
+          const protocols = req.getHeader('sec-websocket-protocol').split(',').map(p => p.trim()).filter(Boolean);
+          const keyProtocol = protocols.find(p => p.startsWith(KEY_PROTOCOL_PREFIX));
+          const secWebSocketProtocol = protocols.find(p => !p.startsWith(KEY_PROTOCOL_PREFIX)) ?? keyProtocol ?? '';
+          const apiKey = this.getBearer(req)
+            || keyProtocol?.slice(KEY_PROTOCOL_PREFIX.length)
+            || (this.config.queryAuthEnabled ? queryKey : '');
+
+          const ipRetryAfter = this.checkRateLimit(this.ipLimiter, remoteAddress);
+          if (ipRetryAfter) {
+            Logger.warn(CLASS_NAME, null, 'Rate limiting upgrades from {}', remoteAddress);
+            this.rejectUpgrade(res, '429 Too Many Requests', 'Too many connection attempts', ipRetryAfter);
+            return;
+          }
 
           // Validate required parameters
-          if (!apiKey || !sessionId) {
-            Logger.warn(CLASS_NAME, null, 'Missing required query parameters');
-            if (!(res as any).aborted) {
-              res.cork(() => {
-                res.writeStatus('400 Bad Request').end('Missing parameters: rs_key, rs_sessid required');
-              });
-            }
+          if (!sessionId) {
+            Logger.warn(CLASS_NAME, null, 'Missing required query parameter rs_sessid');
+            this.rejectUpgrade(res, '400 Bad Request', 'Missing parameter: rs_sessid required');
+            return;
+          }
+
+          if (!apiKey) {
+            const message = queryKey
+              ? 'Query-string authentication is disabled, use Authorization or Sec-WebSocket-Protocol'
+              : 'Missing credentials: Authorization, Sec-WebSocket-Protocol or rs_key required';
+            Logger.warn(CLASS_NAME, null, 'Rejecting upgrade without credentials');
+            this.rejectUpgrade(res, '401 Unauthorized', message);
+            return;
+          }
+
+          const keyRetryAfter = this.checkRateLimit(this.keyLimiter, this.getKeyPrefix(apiKey));
+          if (keyRetryAfter) {
+            Logger.warn(CLASS_NAME, null, 'Rate limiting upgrades for key prefix from {}', remoteAddress);
+            this.rejectUpgrade(res, '429 Too Many Requests', 'Too many connection attempts', keyRetryAfter);
+            return;
+          }
+
+          const providers = Object.values(VoiceProvider);
+          if (!providers.includes(provider) || !providers.includes(apiStyle)) {
+            Logger.warn(CLASS_NAME, null, 'Unsupported provider or api style: {}, {}', provider, apiStyle);
+            this.rejectUpgrade(res, '400 Bad Request', `Unsupported rs_provider or rs_api: ${provider}, ${apiStyle}`);
+            return;
+          }
+
+          if (this.getAccountServiceHealth() === ZmqHealthState.DOWN) {
+            Logger.warn(CLASS_NAME, null, 'Rejecting upgrade while pack-db is down');
+            this.rejectUpgrade(res, '503 Service Unavailable', 'Authentication service unavailable');
             return;
           }
 
           // Authenticate and load session data
           let authResult: SessionData;
+          const rejectDuplicate = this.config.duplicateSessionPolicy === DuplicateSessionPolicy.REJECT;
           try {
-            authResult = await accountService.validateAndLoad(apiKey, sessionId);
+            authResult = await accountService.validateAndLoad(apiKey, sessionId,
+              { provider, apiStyle, origin, rejectDuplicate });
           } catch (error) {
             Logger.error(CLASS_NAME, null, 'Auth service error', error as Error);
-            if (!(res as any).aborted) {
-              res.cork(() => {
-                res.writeStatus('503 Service Unavailable').end('Authentication service unavailable');
-              });
-            }
+            this.rejectUpgrade(res, '503 Service Unavailable', 'Authentication service unavailable');
             return;
           }
 
           if (authResult.error) {
-            const statusCode = authResult.error === 'NO_CREDITS' ? '402 Payment Required' : '403 Forbidden';
-            const errorMessage = authResult.error === 'NO_CREDITS'
-              ? `Insufficient credits. Remaining: ${authResult.credits}`
-              : authResult.error;
+            const statusCode = UPGRADE_ERROR_STATUS[authResult.error] ?? '403 Forbidden';
+            const errorMessage = this.describeRejection(authResult, { provider, apiStyle, origin });
+            if (statusCode === '403 Forbidden') {
+              this.penalize(remoteAddress, apiKey);
+            }
 
             Logger.warn(CLASS_NAME, authResult.accountId || null, 'Connection rejected: {}', errorMessage);
 
-            if (!(res as any).aborted) {
-              res.cork(() => {
-                res.writeStatus(statusCode).end(errorMessage);
-              });
-            }
+            this.rejectUpgrade(res, statusCode, errorMessage);
             return;
           }
 
           // Upgrade to WebSocket
           if (!(res as any).aborted) {
+            this.metrics.upgrades.labels('101').inc();
             res.cork(() => {
               res.upgrade(
                 {
                   apiStyle,
+                  provider,
                   sessionId,
                   sessionData: authResult,
                   orchestrator: null,
@@ -112,17 +222,26 @@ export class Server {
                 context
               );
             });
+          } else {
+            Logger.debug(CLASS_NAME, authResult.accountId, 'Upgrade aborted, releasing hold {}', authResult.holdId);
+            accountService.releaseCredits(authResult.accountId, authResult.holdId);
           }
         },
 
         open: (ws: uWS.WebSocket<UserData>) => {
           const userData = ws.getUserData();
           Logger.debug(CLASS_NAME, userData.sessionData.accountId || null,
-            'WebSocket connected - Session: {}', userData.sessionId);
+            'WebSocket connected - Session: {}, Provider: {}, API: {}', userData.sessionId, userData.provider,
+            userData.apiStyle);
 
           // Create orchestrator with SessionData
-          const orchestrator = this.factory.getNewOrchestrator(userData.sessionData, ws);
+          const orchestrator = this.factory.getNewOrchestrator(userData.sessionData, ws, userData.provider,
+            userData.apiStyle);
           userData.orchestrator = orchestrator;
+          this.orchestrators.add(orchestrator);
+          this.metrics.activeSessions.inc();
+          this.activeSessions++;
+          this.totalSessions++;
           orchestrator.connect();
         },
 
@@ -154,15 +273,36 @@ export class Server {
           // Cleanup orchestrator
           if (userData.orchestrator) {
             userData.orchestrator.cleanup();
+            this.orchestrators.delete(userData.orchestrator);
+            this.metrics.activeSessions.dec();
             userData.orchestrator = null;
+            this.activeSessions--;
           }
         },
       })
+      .post('/client-tokens', (res, req) => {
+        this.handleClientToken(res, req, accountService);
+      })
+      .get('/healthz', (res) => {
+        this.respondJson(res, '200 OK', { status: 'ok' });
+      })
+      .get('/readyz', (res) => {
+        this.handleReadiness(res);
+      })
+      .get('/status', (res, req) => {
+        if (!this.authorizeAdmin(res, req)) return;
+        this.respondJson(res, '200 OK', this.getStatus());
+      })
+      .get('/metrics', (res, req) => {
+        if (!this.authorizeAdmin(res, req)) return;
+        this.handleMetrics(res);
+      })
       .any('/*', (res) => {
-        res.writeStatus('404').end('Realtime Switch v2 - Connect via WebSocket');
+        res.writeStatus('404').end(NOT_FOUND_BODY);
       })
       .listen(this.config.port, (token) => {
         if (token) {
+          this.listenSocket = token;
           Logger.debug(CLASS_NAME, null, 'Server listening on {}:{}',
             this.config.host, this.config.port);
         } else {
@@ -171,5 +311,321 @@ export class Server {
           process.exit(1);
         }
       });
+
+    if (process.send) {
+      setInterval(() => {
+        process.send!({ type: WORKER_STATS_MESSAGE, stats: this.getStats() });
+      }, this.config.statsIntervalMs).unref();
+    }
+
+    if (cluster.isWorker) {
+      process.on('message', (message: MetricsCollectMessage | MetricsResponseMessage) => {
+        this.handleMetricsMessage(message);
+      });
+    }
+  }
+
+  stop(): void {
+    if (this.listenSocket) {
+      uWS.us_listen_socket_close(this.listenSocket);
+      this.listenSocket = null;
+    }
+  }
+
+  getStats(): WorkerStats {
+    return {
+      workerIndex: Config.has(ConfigKeys.CLUSTER_WORKER_INDEX)
+        ? parseInt(Config.get(ConfigKeys.CLUSTER_WORKER_INDEX), 10)
+        : 0,
+      pid: process.pid,
+      activeSessions: this.activeSessions,
+      totalSessions: this.totalSessions,
+      rejectedUpgrades: this.rejectedUpgrades,
+      outboxPending: this.factory.getTransport() === AccountServiceTransport.ZMQ
+        ? this.factory.getOutbox().getPendingCount()
+        : 0,
+      zmqHealth: this.getAccountServiceHealth(),
+    };
+  }
+
+  getStatus(): WorkerStats & {
+    uptimeSeconds: number;
+    upstreamConnections: Record<string, number>;
+    bufferedMessages: number;
+  } {
+    const upstreamConnections: Record<string, number> = {};
+    for (const provider of Object.values(VoiceProvider)) {
+      upstreamConnections[provider] = 0;
+    }
+    let bufferedMessages = 0;
+    for (const orchestrator of this.orchestrators) {
+      const status = orchestrator.getStatus();
+      if (status.upstreamConnected) {
+        upstreamConnections[status.provider]++;
+      }
+      bufferedMessages += status.bufferedMessages;
+    }
+    return {
+      ...this.getStats(),
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      upstreamConnections,
+      bufferedMessages,
+    };
+  }
+
+  private async handleReadiness(res: uWS.HttpResponse): Promise<void> {
+    res.onAborted(() => {
+      (res as any).aborted = true;
+    });
+
+    const zmqHealth = this.getAccountServiceHealth();
+    let database = false;
+    let pendingMigrations = 0;
+    if (zmqHealth === ZmqHealthState.CONNECTED) {
+      try {
+        ({ database, pendingMigrations } = await this.factory.getHealthService().check());
+      } catch (error) {
+        Logger.error(CLASS_NAME, null, 'Health check failed', error as Error);
+      }
+    }
+
+    const ready = zmqHealth === ZmqHealthState.CONNECTED && database && pendingMigrations === 0;
+    this.respondJson(res, ready ? '200 OK' : '503 Service Unavailable',
+      { status: ready ? 'ready' : 'not_ready', zmqHealth, database, pendingMigrations });
+  }
+
+  private authorizeAdmin(res: uWS.HttpResponse, req: uWS.HttpRequest): boolean {
+    if (!this.config.adminToken) {
+      res.writeStatus('404').end(NOT_FOUND_BODY);
+      return false;
+    }
+    const token = Buffer.from(this.getBearer(req));
+    const expected = Buffer.from(this.config.adminToken);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      this.respondJson(res, '401 Unauthorized', { error: 'Admin token required' });
+      return false;
+    }
+    return true;
+  }
+
+  private async handleMetrics(res: uWS.HttpResponse): Promise<void> {
+    res.onAborted(() => {
+      (res as any).aborted = true;
+    });
+
+    let dbMetrics = '';
+    if (this.getAccountServiceHealth() === ZmqHealthState.CONNECTED) {
+      try {
+        dbMetrics = await this.factory.getHealthService().getMetrics();
+      } catch (error) {
+        Logger.error(CLASS_NAME, null, 'Failed to collect pack-db metrics', error as Error);
+      }
+    }
+
+    const workerMetrics = cluster.isWorker
+      ? await this.collectClusterMetrics()
+      : this.factory.getMetricsRegistry().render();
+
+    if ((res as any).aborted) return;
+    const body = workerMetrics + dbMetrics;
+    res.cork(() => {
+      res.writeStatus('200 OK').writeHeader('Content-Type', METRICS_CONTENT_TYPE).end(body);
+    });
+  }
+
+  private collectClusterMetrics(): Promise<string> {
+    const requestId = randomUUID();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.metricsRequests.delete(requestId);
+        Logger.warn(CLASS_NAME, null, 'Primary did not answer metrics request {}, serving this worker only',
+          requestId);
+        resolve(this.factory.getMetricsRegistry().render());
+      }, CLUSTER_METRICS_TIMEOUT_MS);
+
+      this.metricsRequests.set(requestId, (body) => {
+        clearTimeout(timer);
+        this.metricsRequests.delete(requestId);
+        resolve(body);
+      });
+      const request: MetricsRequestMessage = { type: METRICS_REQUEST_MESSAGE, requestId };
+      process.send!(request);
+    });
+  }
+
+  private handleMetricsMessage(message: MetricsCollectMessage | MetricsResponseMessage): void {
+    if (message?.type === METRICS_COLLECT_MESSAGE) {
+      const snapshot: MetricsSnapshotMessage = {
+        type: METRICS_SNAPSHOT_MESSAGE,
+        requestId: message.requestId,
+        snapshot: this.factory.getMetricsRegistry().snapshot(),
+      };
+      process.send!(snapshot);
+    } else if (message?.type === METRICS_RESPONSE_MESSAGE) {
+      this.metricsRequests.get(message.requestId)?.(message.body);
+    }
+  }
+
+  private getAccountServiceHealth(): ZmqHealthState {
+    return this.factory.getTransport() === AccountServiceTransport.ZMQ
+      ? this.factory.getZmqService().getHealth()
+      : ZmqHealthState.CONNECTED;
+  }
+
+  private async handleClientToken(res: uWS.HttpResponse, req: uWS.HttpRequest,
+    accountService: IAccountService): Promise<void> {
+    res.onAborted(() => {
+      (res as any).aborted = true;
+    });
+
+    const apiKey = this.getBearer(req);
+    const remoteAddress = this.getRemoteAddress(res, req);
+    const retryAfter = this.checkRateLimit(this.ipLimiter, remoteAddress)
+      || (apiKey ? this.checkRateLimit(this.keyLimiter, this.getKeyPrefix(apiKey)) : 0);
+    if (retryAfter) {
+      Logger.warn(CLASS_NAME, null, 'Rate limiting client token requests from {}', remoteAddress);
+      this.respondJson(res, '429 Too Many Requests', { error: 'Too many requests' }, retryAfter);
+      return;
+    }
+
+    const body = await this.readBody(res);
+
+    if (!apiKey) {
+      this.respondJson(res, '401 Unauthorized', { error: ErrorCode.EXTERNAL_INVALID_AUTH });
+      return;
+    }
+
+    if (body === null) {
+      this.respondJson(res, '413 Payload Too Large', { error: `Body exceeds ${MAX_TOKEN_REQUEST_BYTES} bytes` });
+      return;
+    }
+
+    let request: { session_id?: unknown; ttl_seconds?: unknown } | null;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      request = null;
+    }
+
+    const sessionId = request?.session_id;
+    const ttlSeconds = request?.ttl_seconds ?? 0;
+    if (typeof sessionId !== 'string' || !sessionId || typeof ttlSeconds !== 'number') {
+      this.respondJson(res, '400 Bad Request', { error: 'session_id must be a string, ttl_seconds a number' });
+      return;
+    }
+
+    if (this.getAccountServiceHealth() === ZmqHealthState.DOWN) {
+      this.respondJson(res, '503 Service Unavailable', { error: 'Authentication service unavailable' });
+      return;
+    }
+
+    try {
+      const result = await accountService.createClientToken(apiKey, sessionId, ttlSeconds);
+      if (result.error) {
+        const status = result.error === ErrorCode.EXTERNAL_INVALID_AUTH
+          ? '401 Unauthorized'
+          : UPGRADE_ERROR_STATUS[result.error] ?? '500 Internal Server Error';
+        if (status === '401 Unauthorized' || status === '403 Forbidden') {
+          this.penalize(remoteAddress, apiKey);
+        }
+        this.respondJson(res, status, { error: result.error });
+        return;
+      }
+      this.respondJson(res, '200 OK', { token: result.token, session_id: sessionId, expires_at: result.expiresAt });
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Client token service error', error as Error);
+      this.respondJson(res, '503 Service Unavailable', { error: 'Authentication service unavailable' });
+    }
+  }
+
+  private getRemoteAddress(res: uWS.HttpResponse, req: uWS.HttpRequest): string {
+    const forwarded = this.config.trustedProxyHops > 0
+      ? req.getHeader('x-forwarded-for').split(',').map(address => address.trim()).filter(Boolean)
+      : [];
+    if (forwarded.length > 0) {
+      return forwarded[Math.max(0, forwarded.length - this.config.trustedProxyHops)];
+    }
+    return Buffer.from(res.getRemoteAddressAsText()).toString('utf-8');
+  }
+
+  private getKeyPrefix(apiKey: string): string {
+    return apiKey.slice(0, RATE_LIMIT_KEY_PREFIX_LENGTH);
+  }
+
+  private checkRateLimit(limiter: IRateLimiter, key: string): number {
+    return limiter.tryTake(key) ? 0 : Math.max(1, limiter.getRetryAfterSeconds(key));
+  }
+
+  private penalize(remoteAddress: string, apiKey: string): void {
+    this.ipLimiter.penalize(remoteAddress);
+    this.keyLimiter.penalize(this.getKeyPrefix(apiKey));
+  }
+
+  private getBearer(req: uWS.HttpRequest): string {
+    const authorization = req.getHeader('authorization');
+    return authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+  }
+
+  private readBody(res: uWS.HttpResponse): Promise<string | null> {
+    return new Promise((resolve) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.onData((chunk, isLast) => {
+        size += chunk.byteLength;
+        if (size <= MAX_TOKEN_REQUEST_BYTES) {
+          chunks.push(Buffer.from(chunk.slice(0)));
+        }
+        if (isLast) {
+          resolve(size <= MAX_TOKEN_REQUEST_BYTES ? Buffer.concat(chunks).toString('utf-8') : null);
+        }
+      });
+    });
+  }
+
+  private respondJson(res: uWS.HttpResponse, status: string, body: Record<string, unknown>,
+    retryAfterSeconds = 0): void {
+    if ((res as any).aborted) return;
+    res.cork(() => {
+      res.writeStatus(status).writeHeader('Content-Type', 'application/json');
+      if (retryAfterSeconds) {
+        res.writeHeader('Retry-After', String(retryAfterSeconds));
+      }
+      res.end(JSON.stringify(body));
+    });
+  }
+
+  private describeRejection(authResult: SessionData, scope: SessionScope): string {
+    switch (authResult.error) {
+      case ErrorCode.EXTERNAL_NO_CREDITS:
+        return `Insufficient credits. Remaining: ${authResult.credits}`;
+      case ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED:
+        return `${authResult.error}: API key does not allow rs_provider=${scope.provider}, rs_api=${scope.apiStyle}`;
+      case ErrorCode.EXTERNAL_ORIGIN_NOT_ALLOWED:
+        return `${authResult.error}: Account does not allow origin ${scope.origin || '(none)'}`;
+      case ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED:
+        return `${authResult.error}: API key does not allow origin ${scope.origin || '(none)'}`;
+      case ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED:
+        return `${authResult.error}: API key token budget is used up`;
+      case ErrorCode.EXTERNAL_SESSION_DUPLICATE:
+        return `${authResult.error}: Session is already connected`;
+      case ErrorCode.EXTERNAL_TOO_MANY_SESSIONS:
+        return `${authResult.error}: Account has reached its concurrent session limit`;
+      default:
+        return authResult.error;
+    }
+  }
+
+  private rejectUpgrade(res: uWS.HttpResponse, status: string, message: string, retryAfterSeconds = 0): void {
+    this.rejectedUpgrades++;
+    this.metrics.upgrades.labels(status.slice(0, 3)).inc();
+    if (!(res as any).aborted) {
+      res.cork(() => {
+        res.writeStatus(status);
+        if (retryAfterSeconds) {
+          res.writeHeader('Retry-After', String(retryAfterSeconds));
+        }
+        res.end(message);
+      });
+    }
   }
 }
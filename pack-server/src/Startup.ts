@@ -1,8 +1,16 @@
-import { Logger } from 'pack-shared';
+import cluster from 'cluster';
+import { Logger, Config, ConfigKeys } from 'pack-shared';
 import { Server } from './Server';
+import { Cluster } from './Cluster';
 import { ServiceFactory } from './core/impls/ServiceFactory';
+import { AccountServiceTransport } from './core/interfaces/AccountServiceTransport';
+import { DuplicateSessionPolicy } from './core/interfaces/DuplicateSessionPolicy';
 
 const CLASS_NAME = 'Startup';
+const DEFAULT_STATS_INTERVAL_MS = 10000;
+
+let primary: Cluster | null = null;
+let server: Server | null = null;
 
 /**
  * Setup process event handlers for graceful shutdown and error handling
@@ -36,6 +44,8 @@ function setupProcessHandlers(): void {
 async function gracefulShutdown(): Promise<void> {
   try {
     Logger.debug(CLASS_NAME, null, 'Starting graceful shutdown...');
+    server?.stop();
+    primary?.stop();
     ServiceFactory.reset();
     Logger.debug(CLASS_NAME, null, 'Graceful shutdown completed');
   } catch (error) {
@@ -49,16 +59,54 @@ async function gracefulShutdown(): Promise<void> {
 export async function startServer(): Promise<void> {
   setupProcessHandlers();
 
+  let workers = Config.has(ConfigKeys.CLUSTER_WORKERS) ? parseInt(Config.get(ConfigKeys.CLUSTER_WORKERS), 10) : 1;
+  const statsIntervalMs = Config.has(ConfigKeys.CLUSTER_STATS_INTERVAL_MS)
+    ? parseInt(Config.get(ConfigKeys.CLUSTER_STATS_INTERVAL_MS), 10)
+    : DEFAULT_STATS_INTERVAL_MS;
+
+  const failoverProvider = ServiceFactory.getInstance().getFailoverProvider();
+  if (failoverProvider) {
+    Logger.debug(CLASS_NAME, null, 'Failing over to {}', failoverProvider);
+  }
+
+  if (workers > 1 && ServiceFactory.getInstance().getTransport() === AccountServiceTransport.IN_PROCESS) {
+    Logger.warn(CLASS_NAME, null, 'Ignoring {}={} with the in-process transport', ConfigKeys.CLUSTER_WORKERS, workers);
+    workers = 1;
+  }
+
+  if (workers > 1 && cluster.isPrimary) {
+    primary = new Cluster({ workers, statsIntervalMs });
+    primary.start();
+    return;
+  }
+
   const port = parseInt(process.env.PORT || '3000', 10);
   const host = process.env.HOST || 'localhost';
   const maxPayloadLength = parseInt(process.env.MAX_PAYLOAD_LENGTH || '2097152', 10); // 2MB default
   const idleTimeout = parseInt(process.env.IDLE_TIMEOUT || '120', 10);
+  const queryAuthEnabled = !Config.has(ConfigKeys.AUTH_QUERY_STRING_ENABLED)
+    || Config.get(ConfigKeys.AUTH_QUERY_STRING_ENABLED) !== 'false';
+  const duplicateSessionPolicy = Config.has(ConfigKeys.DUPLICATE_SESSION_POLICY)
+    ? Config.get(ConfigKeys.DUPLICATE_SESSION_POLICY) as DuplicateSessionPolicy
+    : DuplicateSessionPolicy.REPLACE;
+  if (!Object.values(DuplicateSessionPolicy).includes(duplicateSessionPolicy)) {
+    throw new Error(`Unsupported ${ConfigKeys.DUPLICATE_SESSION_POLICY}: ${duplicateSessionPolicy}`);
+  }
+  const trustedProxyHops = Config.has(ConfigKeys.TRUSTED_PROXY_HOPS)
+    ? parseInt(Config.get(ConfigKeys.TRUSTED_PROXY_HOPS), 10)
+    : 0;
+  const adminToken = Config.has(ConfigKeys.ADMIN_TOKEN) ? Config.get(ConfigKeys.ADMIN_TOKEN) : '';
 
-  const server = new Server({
+  server = new Server({
     port,
     host,
     maxPayloadLength,
     idleTimeout,
+    statsIntervalMs,
+    queryAuthEnabled,
+    duplicateSessionPolicy,
+    trustedProxyHops,
+    adminToken,
   });
 
   await server.start();
@@ -0,0 +1,74 @@
+import { IAccountService, SessionData, SessionScope, ClientToken, CreditReservation, SessionLatency,
+  SessionLimitCheck, Logger } from 'pack-shared';
+import { IPersistenceService } from '@rs/db';
+
+const CLASS_NAME = 'AccountServiceInProcess';
+
+export class AccountServiceInProcess implements IAccountService {
+  private accountService: IAccountService;
+  private persistenceService: IPersistenceService;
+
+  constructor(accountService: IAccountService, persistenceService: IPersistenceService) {
+    this.accountService = accountService;
+    this.persistenceService = persistenceService;
+  }
+
+  async validateAndLoad(apiKey: string, sessionId: string, scope?: SessionScope): Promise<SessionData> {
+    return this.accountService.validateAndLoad(apiKey, sessionId, scope);
+  }
+
+  updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number,
+    holdId: string, keyHash: string): void {
+    this.defer(accountId, 'Failed to persist usage', () =>
+      this.persistenceService.persistUsage(accountId, sessionId, provider, inputTokens, outputTokens, holdId, keyHash,
+        null));
+  }
+
+  async getCredits(accountId: string): Promise<number> {
+    return this.accountService.getCredits(accountId);
+  }
+
+  async reserveCredits(accountId: string, sessionId: string, holdId: string,
+    keyHash: string): Promise<CreditReservation> {
+    return this.accountService.reserveCredits(accountId, sessionId, holdId, keyHash);
+  }
+
+  async createClientToken(apiKey: string, sessionId: string, ttlSeconds: number): Promise<ClientToken> {
+    return this.accountService.createClientToken(apiKey, sessionId, ttlSeconds);
+  }
+
+  releaseCredits(accountId: string, holdId: string): void {
+    this.defer(accountId, 'Failed to release hold', () => this.persistenceService.persistRelease(accountId, holdId));
+  }
+
+  async refreshHold(accountId: string, holdId: string): Promise<boolean> {
+    return this.accountService.refreshHold(accountId, holdId);
+  }
+
+  async checkSessionLimit(accountId: string, sessionId: string): Promise<SessionLimitCheck> {
+    return this.accountService.checkSessionLimit(accountId, sessionId);
+  }
+
+  saveSession(accountId: string, sessionId: string, sessionData: string): void {
+    this.defer(accountId, 'Failed to save session', () =>
+      this.persistenceService.persistSession(accountId, sessionId, sessionData));
+  }
+
+  appendConversation(accountId: string, sessionId: string, conversationData: string): void {
+    this.defer(accountId, 'Failed to append conversation', () =>
+      this.persistenceService.persistConversation(accountId, sessionId, conversationData));
+  }
+
+  saveLatency(accountId: string, sessionId: string, latency: SessionLatency): void {
+    this.defer(accountId, 'Failed to save latency', () =>
+      this.persistenceService.persistLatency(accountId, sessionId, latency));
+  }
+
+  private defer(accountId: string, failure: string, task: () => Promise<void>): void {
+    setImmediate(() => {
+      task().catch((err) => {
+        Logger.error(CLASS_NAME, accountId, failure, err as Error);
+      });
+    });
+  }
+}
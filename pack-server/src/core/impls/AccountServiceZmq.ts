@@ -1,25 +1,29 @@
 import { randomUUID } from 'crypto';
-import { IAccountService, SessionData, ZmqMessageType } from 'pack-shared';
+import { IAccountService, SessionData, SessionScope, ClientToken, CreditReservation, SessionLatency,
+  SessionLimitCheck, ZmqMessageType } from 'pack-shared';
+import { IOutbox } from '../interfaces/IOutbox';
 import { ZmqService } from './ZmqService';
 
 export class AccountServiceZmq implements IAccountService {
   private zmqService: ZmqService;
+  private outbox: IOutbox;
 
-  constructor(zmqService: ZmqService) {
+  constructor(zmqService: ZmqService, outbox: IOutbox) {
     this.zmqService = zmqService;
+    this.outbox = outbox;
   }
 
-  async validateAndLoad(apiKey: string, sessionId: string): Promise<SessionData> {
+  async validateAndLoad(apiKey: string, sessionId: string, scope?: SessionScope): Promise<SessionData> {
     const id = randomUUID();
     const { id: _, ...sessionData } = await this.zmqService.send(id, ZmqMessageType.VALIDATE_AND_LOAD, apiKey,
-      sessionId);
+      sessionId, scope?.provider ?? '', scope?.apiStyle ?? '', scope?.origin ?? '', scope?.rejectDuplicate ? 1 : 0);
     return sessionData;
   }
 
-  updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number): void {
-    const id = randomUUID();
-    this.zmqService.sendFireAndForget(id, ZmqMessageType.UPDATE_USAGE, accountId, sessionId, provider, inputTokens,
-      outputTokens);
+  updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number,
+    holdId: string, keyHash: string): void {
+    this.outbox.enqueue(ZmqMessageType.UPDATE_USAGE, accountId, sessionId, provider, inputTokens, outputTokens, holdId,
+      keyHash);
   }
 
   async getCredits(accountId: string): Promise<number> {
@@ -28,13 +32,49 @@ export class AccountServiceZmq implements IAccountService {
     return response.credits;
   }
 
-  saveSession(accountId: string, sessionId: string, sessionData: string): void {
+  async reserveCredits(accountId: string, sessionId: string, holdId: string,
+    keyHash: string): Promise<CreditReservation> {
     const id = randomUUID();
-    this.zmqService.sendFireAndForget(id, ZmqMessageType.SAVE_SESSION, accountId, sessionId, sessionData);
+    const { error, reserved, credits } = await this.zmqService.send(id, ZmqMessageType.RESERVE_CREDITS, accountId,
+      sessionId, holdId, keyHash);
+    return { error, reserved, credits };
   }
 
-  appendConversation(accountId: string, sessionId: string, conversationData: string): void {
+  async createClientToken(apiKey: string, sessionId: string, ttlSeconds: number): Promise<ClientToken> {
     const id = randomUUID();
-    this.zmqService.sendFireAndForget(id, ZmqMessageType.APPEND_CONVERSATION, accountId, sessionId, conversationData);
+    const { error, token, expiresAt } = await this.zmqService.send(id, ZmqMessageType.CREATE_CLIENT_TOKEN, apiKey,
+      sessionId, ttlSeconds);
+    return { error, token, expiresAt };
+  }
+
+  releaseCredits(accountId: string, holdId: string): void {
+    this.outbox.enqueue(ZmqMessageType.RELEASE_CREDITS, accountId, holdId);
+  }
+
+  async refreshHold(accountId: string, holdId: string): Promise<boolean> {
+    const id = randomUUID();
+    const { refreshed } = await this.zmqService.send(id, ZmqMessageType.REFRESH_HOLD, accountId, holdId);
+    return refreshed === 1;
+  }
+
+  async checkSessionLimit(accountId: string, sessionId: string): Promise<SessionLimitCheck> {
+    const id = randomUUID();
+    const { limit, overLimit } = await this.zmqService.send(id, ZmqMessageType.CHECK_SESSION_LIMIT, accountId,
+      sessionId);
+    return { limit, overLimit: overLimit === 1 };
+  }
+
+  saveSession(accountId: string, sessionId: string, sessionData: string): void {
+    this.outbox.enqueue(ZmqMessageType.SAVE_SESSION, accountId, sessionId, sessionData);
+  }
+
+  appendConversation(accountId: string, sessionId: string, conversationData: string): void {
+    this.outbox.enqueue(ZmqMessageType.APPEND_CONVERSATION, accountId, sessionId, conversationData);
+  }
+
+  saveLatency(accountId: string, sessionId: string, latency: SessionLatency): void {
+    const { provider, turns, firstAudioP50Ms, firstAudioP95Ms, turnP50Ms, turnP95Ms } = latency;
+    this.outbox.enqueue(ZmqMessageType.SAVE_LATENCY, accountId, sessionId, provider, turns, firstAudioP50Ms,
+      firstAudioP95Ms, turnP50Ms, turnP95Ms);
   }
 }
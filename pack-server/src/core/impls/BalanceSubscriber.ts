@@ -0,0 +1,96 @@
+import * as zmq from 'zeromq';
+import { ZmqEvent, ZmqEventType, ZmqUtils, Logger, ErrorCode } from 'pack-shared';
+import { IBalanceListener, IBalanceSubscriber } from '../interfaces/IBalanceSubscriber';
+
+const CLASS_NAME = 'BalanceSubscriber';
+const DEFAULT_EVENTS_SOCKET_PATH = 'ipc:///tmp/rs-pack-db-events.sock';
+
+export class BalanceSubscriber implements IBalanceSubscriber {
+  private subscriber: zmq.Subscriber;
+  private connected = false;
+  private socketPath: string;
+  private listeners = new Map<string, Set<IBalanceListener>>();
+
+  constructor(socketPath?: string) {
+    this.socketPath = socketPath ?? DEFAULT_EVENTS_SOCKET_PATH;
+    this.subscriber = new zmq.Subscriber();
+    this.subscriber.receiveHighWaterMark = 10000;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    this.subscriber.connect(this.socketPath);
+    this.subscriber.subscribe(ZmqEventType.BALANCE_CHANGED);
+    this.subscriber.subscribe(ZmqEventType.ACCOUNT_STATUS_CHANGED);
+    this.subscriber.subscribe(ZmqEventType.SESSION_REPLACED);
+    this.connected = true;
+    this.startReceiver();
+    Logger.debug(CLASS_NAME, null, `Subscribed to ${this.socketPath}`);
+  }
+
+  register(accountId: string, listener: IBalanceListener): void {
+    let accountListeners = this.listeners.get(accountId);
+    if (!accountListeners) {
+      accountListeners = new Set();
+      this.listeners.set(accountId, accountListeners);
+    }
+    accountListeners.add(listener);
+  }
+
+  unregister(accountId: string, listener: IBalanceListener): void {
+    const accountListeners = this.listeners.get(accountId);
+    if (!accountListeners) return;
+    accountListeners.delete(listener);
+    if (accountListeners.size === 0) {
+      this.listeners.delete(accountId);
+    }
+  }
+
+  destroy(): void {
+    this.listeners.clear();
+    if (this.connected) {
+      this.connected = false;
+      this.subscriber.close();
+      Logger.debug(CLASS_NAME, null, 'Destroyed');
+    }
+  }
+
+  private dispatch(event: ZmqEvent): void {
+    const accountListeners = this.listeners.get(event.accountId);
+    if (!accountListeners) return;
+
+    for (const listener of Array.from(accountListeners)) {
+      try {
+        if (event.type === ZmqEventType.BALANCE_CHANGED) {
+          listener.onCreditsUpdated(event.credits);
+        } else if (event.type === ZmqEventType.ACCOUNT_STATUS_CHANGED) {
+          listener.onAccountStatusChanged(event.status);
+        } else if (event.type === ZmqEventType.SESSION_REPLACED) {
+          listener.onSessionReplaced(event.holdId);
+        }
+      } catch (error) {
+        Logger.error(CLASS_NAME, event.accountId, 'Balance listener failed', error as Error);
+      }
+    }
+  }
+
+  private async startReceiver(): Promise<void> {
+    try {
+      for await (const frameBuffers of this.subscriber) {
+        const frames = frameBuffers.map(frame => frame.toString());
+        const event = ZmqUtils.decodeEvent(frames);
+        if (!event) {
+          Logger.error(CLASS_NAME, null, 'Failed to decode event', new Error(ErrorCode.INTERNAL_ZMQ_DECODE_FAILED), frames.join(' ').slice(0, 100));
+          continue;
+        }
+
+        this.dispatch(event);
+      }
+    } catch (error) {
+      if (this.connected) {
+        Logger.error(CLASS_NAME, null, 'Receiver error', error as Error);
+      }
+    }
+  }
+}
@@ -1,24 +1,73 @@
-import { IAccountService } from 'pack-shared';
-import { ICheckpointHandler } from '../interfaces/ICheckpointHandler';
+import { IAccountService, VoiceProvider } from 'pack-shared';
+import { ConversationTurn, ICheckpointHandler } from '../interfaces/ICheckpointHandler';
 
 const CONVERSATION_BUFFER_THRESHOLD = 200;
+const MAX_RECENT_TURNS = 20;
 
 export class CheckpointHandler implements ICheckpointHandler {
   private accountId: string;
   private sessionId: string;
+  private provider: VoiceProvider;
   private accountService: IAccountService;
 
   private conversationBuffer: string[] = [];
   private conversationBufferLength: number = 0;
   private currentConvType: 'user' | 'agent' | null = null;
+  private recentTurns: ConversationTurn[] = [];
 
-  constructor(accountId: string, sessionId: string, accountService: IAccountService) {
+  constructor(accountId: string, sessionId: string, provider: VoiceProvider, accountService: IAccountService) {
     this.accountId = accountId;
     this.sessionId = sessionId;
+    this.provider = provider;
     this.accountService = accountService;
   }
 
   trackConversation(message: string): void {
+    const entry = this.provider === VoiceProvider.GEMINI
+      ? this.parseGeminiTranscript(message)
+      : this.parseOpenAITranscript(message);
+
+    if (!entry) return;
+    const { type, delta } = entry;
+    this.trackTurn(type, delta);
+
+    if (this.currentConvType !== type) {
+      const prefix = this.conversationBuffer.length > 0 ? '\n' : '';
+      this.conversationBuffer.push(`${prefix}${type}:${delta}`);
+      this.currentConvType = type;
+    } else {
+      this.conversationBuffer.push(delta);
+    }
+
+    this.conversationBufferLength += delta.length;
+
+    if (this.conversationBufferLength >= CONVERSATION_BUFFER_THRESHOLD) {
+      this.flush();
+    }
+  }
+
+  setProvider(provider: VoiceProvider): void {
+    this.provider = provider;
+  }
+
+  getRecentTurns(): ConversationTurn[] {
+    return this.recentTurns;
+  }
+
+  private trackTurn(type: 'user' | 'agent', delta: string): void {
+    const lastTurn = this.recentTurns[this.recentTurns.length - 1];
+    if (lastTurn && lastTurn.type === type) {
+      lastTurn.text += delta;
+      return;
+    }
+
+    this.recentTurns.push({ type, text: delta });
+    if (this.recentTurns.length > MAX_RECENT_TURNS) {
+      this.recentTurns.shift();
+    }
+  }
+
+  private parseOpenAITranscript(message: string): { type: 'user' | 'agent', delta: string } | null {
     let type: 'user' | 'agent' | null = null;
     let delta: string | null = null;
 
@@ -48,21 +97,30 @@ export class CheckpointHandler implements ICheckpointHandler {
       }
     }
 
-    if (!type || !delta) return;
+    if (!type || !delta) return null;
+    return { type, delta };
+  }
 
-    if (this.currentConvType !== type) {
-      const prefix = this.conversationBuffer.length > 0 ? '\n' : '';
-      this.conversationBuffer.push(`${prefix}${type}:${delta}`);
-      this.currentConvType = type;
-    } else {
-      this.conversationBuffer.push(delta);
+  private parseGeminiTranscript(message: string): { type: 'user' | 'agent', delta: string } | null {
+    let type: 'user' | 'agent' = 'user';
+    let fieldIdx = message.indexOf('"inputTranscription"');
+    if (fieldIdx === -1) {
+      type = 'agent';
+      fieldIdx = message.indexOf('"outputTranscription"');
     }
+    if (fieldIdx === -1) return null;
 
-    this.conversationBufferLength += delta.length;
+    const textIdx = message.indexOf('"text"', fieldIdx);
+    if (textIdx === -1) return null;
 
-    if (this.conversationBufferLength >= CONVERSATION_BUFFER_THRESHOLD) {
-      this.flush();
-    }
+    const start = message.indexOf('"', textIdx + 6) + 1;
+    if (start === 0) return null;
+    const end = message.indexOf('"', start);
+    if (end === -1) return null;
+
+    const delta = message.slice(start, end);
+    if (!delta) return null;
+    return { type, delta };
   }
 
   flush(): void {
@@ -0,0 +1,32 @@
+import { ICreditAlertPolicy } from '../interfaces/ICreditAlertPolicy';
+
+export class CreditAlertPolicy implements ICreditAlertPolicy {
+  private thresholds: number[];
+  private nextIndex = 0;
+
+  constructor(thresholds: string, initialCredits: number) {
+    this.thresholds = CreditAlertPolicy.parseThresholds(thresholds, initialCredits);
+  }
+
+  static parseThresholds(thresholds: string, initialCredits: number): number[] {
+    const values = thresholds.split(',').map((part) => part.trim()).filter(Boolean).map((part) =>
+      part.endsWith('%')
+        ? Math.floor(initialCredits * parseFloat(part.slice(0, -1)) / 100)
+        : parseInt(part, 10));
+
+    return [...new Set(values.filter((value) => Number.isFinite(value) && value > 0))].sort((a, b) => b - a);
+  }
+
+  check(credits: number): number | null {
+    while (this.nextIndex > 0 && credits > this.thresholds[this.nextIndex - 1]) {
+      this.nextIndex--;
+    }
+
+    let crossed: number | null = null;
+    while (this.nextIndex < this.thresholds.length && credits <= this.thresholds[this.nextIndex]) {
+      crossed = this.thresholds[this.nextIndex];
+      this.nextIndex++;
+    }
+    return crossed;
+  }
+}
@@ -0,0 +1,45 @@
+import { VoiceProvider } from 'pack-shared';
+import { IFailoverPolicy } from '../interfaces/IFailoverPolicy';
+
+const NORMAL_CLOSURE = 1000;
+
+export type CloseCodeRange = [number, number];
+
+export class FailoverPolicy implements IFailoverPolicy {
+  private secondary: VoiceProvider | null;
+  private maxFailures: number;
+  private failoverCodes: CloseCodeRange[];
+  private consecutiveFailures = 0;
+
+  constructor(secondary: VoiceProvider | null, maxFailures: number, failoverCodes: CloseCodeRange[]) {
+    this.secondary = secondary;
+    this.maxFailures = maxFailures;
+    this.failoverCodes = failoverCodes;
+  }
+
+  static parseCloseCodes(value: string): CloseCodeRange[] {
+    return value.split(',').map((part) => part.trim()).filter(Boolean).map((part) => {
+      const [from, to] = part.split('-').map((code) => parseInt(code, 10));
+      return [from, to ?? from] as CloseCodeRange;
+    });
+  }
+
+  onConnected(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  onFailure(provider: VoiceProvider, code: number): VoiceProvider | null {
+    if (code === NORMAL_CLOSURE) return null;
+
+    this.consecutiveFailures++;
+    if (!this.secondary || provider === this.secondary) return null;
+    if (!this.isFailoverCode(code) && this.consecutiveFailures < this.maxFailures) return null;
+
+    this.consecutiveFailures = 0;
+    return this.secondary;
+  }
+
+  private isFailoverCode(code: number): boolean {
+    return this.failoverCodes.some(([from, to]) => code >= from && code <= to);
+  }
+}
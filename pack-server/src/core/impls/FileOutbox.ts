@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ZmqArgs, ZmqDurableType, ErrorCode, Logger } from 'pack-shared';
+import { IOutbox } from '../interfaces/IOutbox';
+import { ZmqHealthState } from '../interfaces/ZmqHealth';
+import { ZmqService } from './ZmqService';
+
+const CLASS_NAME = 'FileOutbox';
+const COMPACT_AFTER_ACKS = 1000;
+
+interface OutboxEntry {
+  id: string;
+  type: ZmqDurableType;
+  args: (string | number)[];
+}
+
+interface RetryState {
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export class FileOutbox implements IOutbox {
+  private zmqService: ZmqService;
+  private filePath: string;
+  private deadLetterPath: string;
+  private retryMs: number;
+  private maxRetryMs: number;
+  private pending = new Map<string, OutboxEntry>();
+  private inFlight = new Set<string>();
+  private backoff = new Map<string, RetryState>();
+  private buffered: string[] = [];
+  private flushScheduled = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private acksSinceCompaction = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(zmqService: ZmqService, filePath: string, retryMs: number, maxRetryMs: number, deadLetterPath: string) {
+    this.zmqService = zmqService;
+    this.filePath = filePath;
+    this.retryMs = retryMs;
+    this.maxRetryMs = maxRetryMs;
+    this.deadLetterPath = deadLetterPath;
+  }
+
+  start(): void {
+    if (this.retryTimer) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.load();
+    this.compact();
+    Logger.debug(CLASS_NAME, null, 'Loaded {} pending messages from {}', this.pending.size, this.filePath);
+
+    this.retryTimer = setInterval(() => this.retry(), this.retryMs);
+    this.retryTimer.unref();
+    this.retry();
+  }
+
+  enqueue<T extends ZmqDurableType>(type: T, ...args: ZmqArgs[T]): void {
+    const entry: OutboxEntry = { id: randomUUID(), type, args };
+    this.pending.set(entry.id, entry);
+    this.inFlight.add(entry.id);
+    this.append(JSON.stringify(entry) + '\n').then(() => {
+      this.inFlight.delete(entry.id);
+      this.deliver(entry);
+    });
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.buffered.length > 0) {
+      const lines = this.buffered;
+      this.buffered = [];
+      try {
+        fs.appendFileSync(this.filePath, lines.join(''));
+      } catch (error) {
+        Logger.error(CLASS_NAME, null, 'Failed to write {} outbox records on stop', error as Error, lines.length);
+      }
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line);
+        if (record.ack) {
+          this.pending.delete(record.ack);
+        } else {
+          this.pending.set(record.id, record as OutboxEntry);
+        }
+      } catch (error) {
+        Logger.warn(CLASS_NAME, null, 'Skipping unreadable outbox line: {}', line.slice(0, 100));
+      }
+    }
+  }
+
+  private compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.pending.values(), entry => JSON.stringify(entry) + '\n');
+    fs.writeFileSync(tmpPath, lines.join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    this.acksSinceCompaction = 0;
+  }
+
+  private async compactAsync(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.pending.values(), entry => JSON.stringify(entry) + '\n');
+    try {
+      await fs.promises.writeFile(tmpPath, lines.join(''));
+      await fs.promises.rename(tmpPath, this.filePath);
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Failed to compact {}', error as Error, this.filePath);
+    }
+  }
+
+  private append(line: string): Promise<void> {
+    this.buffered.push(line);
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      this.writeQueue = this.writeQueue.then(() => this.flush());
+    }
+    return this.writeQueue;
+  }
+
+  private async flush(): Promise<void> {
+    this.flushScheduled = false;
+    const lines = this.buffered;
+    this.buffered = [];
+    if (lines.length === 0) return;
+
+    try {
+      await fs.promises.appendFile(this.filePath, lines.join(''));
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Failed to write {} outbox records, keeping them in memory', error as Error,
+        lines.length);
+    }
+  }
+
+  private retry(): void {
+    const now = Date.now();
+    for (const entry of this.pending.values()) {
+      if (this.inFlight.has(entry.id)) continue;
+      if ((this.backoff.get(entry.id)?.nextAttemptAt ?? 0) > now) continue;
+      this.deliver(entry);
+    }
+  }
+
+  private scheduleRetry(id: string): void {
+    const attempts = (this.backoff.get(id)?.attempts ?? 0) + 1;
+    const delay = Math.min(this.retryMs * 2 ** (attempts - 1), this.maxRetryMs);
+    this.backoff.set(id, { attempts, nextAttemptAt: Date.now() + delay });
+  }
+
+  private deliver(entry: OutboxEntry): void {
+    if (!this.zmqService.isConnected() || this.zmqService.getHealth() === ZmqHealthState.DOWN) return;
+
+    this.inFlight.add(entry.id);
+    this.zmqService.send(entry.id, entry.type, ...(entry.args as ZmqArgs[ZmqDurableType])).then((response) => {
+      if (!response.error) {
+        this.acknowledge(entry.id);
+      } else if (response.error.startsWith(ErrorCode.INTERNAL_DB_MESSAGE_REJECTED)) {
+        Logger.warn(CLASS_NAME, null, 'pack-db rejected {} {} for good, moving it to {}: {}', entry.type, entry.id,
+          this.deadLetterPath, response.error);
+        return this.deadLetter(entry, response.error);
+      } else {
+        this.scheduleRetry(entry.id);
+        Logger.warn(CLASS_NAME, null, 'pack-db rejected {} {}, will retry: {}', entry.type, entry.id, response.error);
+      }
+    }).catch((error) => {
+      this.scheduleRetry(entry.id);
+      Logger.warn(CLASS_NAME, null, 'Delivery of {} {} failed, will retry: {}', entry.type, entry.id,
+        (error as Error).message);
+    }).finally(() => {
+      this.inFlight.delete(entry.id);
+    });
+  }
+
+  private async deadLetter(entry: OutboxEntry, error: string): Promise<void> {
+    const record = { ...entry, error, deadAt: new Date().toISOString() };
+    try {
+      await fs.promises.appendFile(this.deadLetterPath, JSON.stringify(record) + '\n');
+    } catch (writeError) {
+      Logger.error(CLASS_NAME, null, 'Failed to dead-letter {}, will retry', writeError as Error, entry.id);
+      this.scheduleRetry(entry.id);
+      return;
+    }
+    this.acknowledge(entry.id);
+  }
+
+  private acknowledge(id: string): void {
+    this.backoff.delete(id);
+    if (!this.pending.delete(id)) return;
+
+    this.append(JSON.stringify({ ack: id }) + '\n');
+    this.acksSinceCompaction++;
+    if (this.acksSinceCompaction >= COMPACT_AFTER_ACKS) {
+      this.acksSinceCompaction = 0;
+      this.writeQueue = this.writeQueue.then(() => this.compactAsync());
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import { Logger } from 'pack-shared';
+import { IEventConverter } from '../interfaces/IEventConverter';
+
+const CLASS_NAME = 'GeminiToOpenAIConverter';
+const OPENAI_MODEL = 'gpt-realtime';
+const AUDIO_FORMAT = { type: 'audio/pcm', rate: 24000 };
+
+const VOICES: Record<string, string> = {
+  Puck: 'alloy',
+  Charon: 'ash',
+  Orus: 'ballad',
+  Aoede: 'coral',
+  Fenrir: 'echo',
+  Kore: 'sage',
+  Leda: 'shimmer',
+  Zephyr: 'verse',
+};
+
+export class GeminiToOpenAIConverter implements IEventConverter {
+  private eventCount = 0;
+  private responseCount = 0;
+  private itemCount = 0;
+  private responseId: string | null = null;
+  private outputItemId: string | null = null;
+  private inputItemId: string | null = null;
+  private turnUsage: any = null;
+  private turnCompleted = false;
+
+  convert(message: string): string[] {
+    let event: any;
+    try {
+      event = JSON.parse(message);
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Failed to parse event', error as Error);
+      return [];
+    }
+
+    const converted: unknown[] = [];
+
+    if (event.setup) {
+      converted.push({ type: 'session.update', session: this.convertSetup(event.setup) });
+    }
+    if (event.realtimeInput) {
+      this.convertRealtimeInput(event.realtimeInput, converted);
+    }
+    if (event.clientContent) {
+      this.convertClientContent(event.clientContent, converted);
+    }
+    if (event.setupComplete) {
+      converted.push({ type: 'session.updated', event_id: this.nextEventId(), session: { type: 'realtime' } });
+    }
+    if (event.serverContent) {
+      if (this.turnCompleted && !event.usageMetadata) {
+        this.completeTurn(converted);
+      }
+      this.convertServerContent(event.serverContent, converted);
+    }
+    if (event.usageMetadata) {
+      this.turnUsage = event.usageMetadata;
+    }
+    if (event.serverContent?.turnComplete) {
+      this.turnCompleted = true;
+    }
+    if (this.turnCompleted && this.turnUsage) {
+      this.completeTurn(converted);
+    }
+
+    return converted.map((e) => JSON.stringify(e));
+  }
+
+  private convertSetup(setup: any): unknown {
+    const modalities: string[] = setup.generationConfig?.responseModalities ?? ['AUDIO'];
+    const voiceName = setup.generationConfig?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+    const instructions = setup.systemInstruction?.parts?.map((p: any) => p.text).filter(Boolean).join('\n');
+    const vadDisabled = setup.realtimeInputConfig?.automaticActivityDetection?.disabled === true;
+
+    return {
+      type: 'realtime',
+      model: OPENAI_MODEL,
+      output_modalities: modalities.map((m) => m.toLowerCase()),
+      instructions: instructions || undefined,
+      audio: {
+        input: {
+          format: AUDIO_FORMAT,
+          transcription: setup.inputAudioTranscription ? { model: 'whisper-1' } : undefined,
+          turn_detection: vadDisabled ? null : { type: 'server_vad' },
+        },
+        output: {
+          format: AUDIO_FORMAT,
+          voice: VOICES[voiceName],
+        },
+      },
+    };
+  }
+
+  private convertRealtimeInput(input: any, converted: unknown[]): void {
+    if (input.audio?.data) {
+      converted.push({ type: 'input_audio_buffer.append', audio: input.audio.data });
+    }
+    if (Array.isArray(input.mediaChunks)) {
+      for (const chunk of input.mediaChunks) {
+        converted.push({ type: 'input_audio_buffer.append', audio: chunk.data });
+      }
+    }
+    if (input.audioStreamEnd) {
+      converted.push({ type: 'input_audio_buffer.commit' });
+    }
+  }
+
+  private convertClientContent(content: any, converted: unknown[]): void {
+    for (const turn of content.turns ?? []) {
+      const text = (turn.parts ?? []).map((p: any) => p.text).filter(Boolean).join('');
+      if (!text) continue;
+
+      const isModel = turn.role === 'model';
+      converted.push({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: isModel ? 'assistant' : 'user',
+          content: [{ type: isModel ? 'output_text' : 'input_text', text }],
+        },
+      });
+    }
+    if (content.turnComplete) {
+      converted.push({ type: 'response.create' });
+    }
+  }
+
+  private convertServerContent(content: any, converted: unknown[]): void {
+    if (content.interrupted) {
+      converted.push({ type: 'input_audio_buffer.speech_started', event_id: this.nextEventId() });
+    }
+
+    if (content.inputTranscription?.text) {
+      if (!this.inputItemId) this.inputItemId = this.nextItemId();
+      converted.push({
+        type: 'conversation.item.input_audio_transcription.delta',
+        event_id: this.nextEventId(),
+        item_id: this.inputItemId,
+        content_index: 0,
+        delta: content.inputTranscription.text,
+      });
+    }
+
+    for (const part of content.modelTurn?.parts ?? []) {
+      if (!part.inlineData?.data) continue;
+      converted.push({
+        type: 'response.output_audio.delta',
+        event_id: this.nextEventId(),
+        ...this.outputRefs(),
+        delta: part.inlineData.data,
+      });
+    }
+
+    if (content.outputTranscription?.text) {
+      converted.push({
+        type: 'response.output_audio_transcript.delta',
+        event_id: this.nextEventId(),
+        ...this.outputRefs(),
+        delta: content.outputTranscription.text,
+      });
+    }
+  }
+
+  private completeTurn(converted: unknown[]): void {
+    converted.push(this.responseDone(this.turnUsage));
+    this.turnUsage = null;
+    this.turnCompleted = false;
+  }
+
+  private responseDone(usage: any): unknown {
+    const inputTokens = usage?.promptTokenCount ?? 0;
+    const outputTokens = usage?.responseTokenCount ?? 0;
+    const event = {
+      type: 'response.done',
+      event_id: this.nextEventId(),
+      response: {
+        object: 'realtime.response',
+        id: this.responseId ?? this.nextResponseId(),
+        status: 'completed',
+        usage: {
+          total_tokens: usage?.totalTokenCount ?? inputTokens + outputTokens,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+        },
+      },
+    };
+
+    this.responseId = null;
+    this.outputItemId = null;
+    this.inputItemId = null;
+    return event;
+  }
+
+  private outputRefs(): { response_id: string; item_id: string; output_index: number; content_index: number } {
+    if (!this.responseId) this.responseId = this.nextResponseId();
+    if (!this.outputItemId) this.outputItemId = this.nextItemId();
+    return { response_id: this.responseId, item_id: this.outputItemId, output_index: 0, content_index: 0 };
+  }
+
+  private nextEventId(): string {
+    return `event_rs${++this.eventCount}`;
+  }
+
+  private nextResponseId(): string {
+    return `resp_rs${++this.responseCount}`;
+  }
+
+  private nextItemId(): string {
+    return `item_rs${++this.itemCount}`;
+  }
+}
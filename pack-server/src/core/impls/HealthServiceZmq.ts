@@ -0,0 +1,23 @@
+import { randomUUID } from 'crypto';
+import { DbHealth, IHealthService, ZmqMessageType } from 'pack-shared';
+import { ZmqService } from './ZmqService';
+
+export class HealthServiceZmq implements IHealthService {
+  private zmqService: ZmqService;
+
+  constructor(zmqService: ZmqService) {
+    this.zmqService = zmqService;
+  }
+
+  async check(): Promise<DbHealth> {
+    const id = randomUUID();
+    const { database, pendingMigrations } = await this.zmqService.send(id, ZmqMessageType.HEALTH);
+    return { database: database === 1, pendingMigrations };
+  }
+
+  async getMetrics(): Promise<string> {
+    const id = randomUUID();
+    const { text } = await this.zmqService.send(id, ZmqMessageType.METRICS);
+    return text;
+  }
+}
@@ -0,0 +1,72 @@
+import { Logger, ZmqEvent, ZmqEventType } from 'pack-shared';
+import { AccountEventListener, IBalancePublisher } from '@rs/db';
+import { IBalanceListener, IBalanceSubscriber } from '../interfaces/IBalanceSubscriber';
+
+const CLASS_NAME = 'InProcessBalanceSubscriber';
+
+export class InProcessBalanceSubscriber implements IBalanceSubscriber {
+  private publisher: IBalancePublisher;
+  private connected = false;
+  private listeners = new Map<string, Set<IBalanceListener>>();
+  private onPublish: AccountEventListener = (event) => this.dispatch(event);
+
+  constructor(publisher: IBalancePublisher) {
+    this.publisher = publisher;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    this.publisher.addListener(this.onPublish);
+    this.connected = true;
+    Logger.debug(CLASS_NAME, null, 'Listening to in-process account events');
+  }
+
+  register(accountId: string, listener: IBalanceListener): void {
+    let accountListeners = this.listeners.get(accountId);
+    if (!accountListeners) {
+      accountListeners = new Set();
+      this.listeners.set(accountId, accountListeners);
+    }
+    accountListeners.add(listener);
+  }
+
+  unregister(accountId: string, listener: IBalanceListener): void {
+    const accountListeners = this.listeners.get(accountId);
+    if (!accountListeners) return;
+    accountListeners.delete(listener);
+    if (accountListeners.size === 0) {
+      this.listeners.delete(accountId);
+    }
+  }
+
+  destroy(): void {
+    this.listeners.clear();
+    if (this.connected) {
+      this.connected = false;
+      this.publisher.removeListener(this.onPublish);
+      Logger.debug(CLASS_NAME, null, 'Destroyed');
+    }
+  }
+
+  private dispatch(event: ZmqEvent): void {
+    const accountListeners = this.listeners.get(event.accountId);
+    if (!accountListeners) return;
+
+    setImmediate(() => {
+      for (const listener of Array.from(accountListeners)) {
+        try {
+          if (event.type === ZmqEventType.BALANCE_CHANGED) {
+            listener.onCreditsUpdated(event.credits);
+          } else if (event.type === ZmqEventType.ACCOUNT_STATUS_CHANGED) {
+            listener.onAccountStatusChanged(event.status);
+          } else if (event.type === ZmqEventType.SESSION_REPLACED) {
+            listener.onSessionReplaced(event.holdId);
+          }
+        } catch (error) {
+          Logger.error(CLASS_NAME, event.accountId, 'Balance listener failed', error as Error);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { SessionLatency } from 'pack-shared';
+import { ILatencyStats } from '../interfaces/ILatencyStats';
+
+export class LatencyStats implements ILatencyStats {
+  private maxSamples: number;
+  private firstAudio: number[] = [];
+  private turns: number[] = [];
+  private firstAudioCount = 0;
+  private turnCount = 0;
+
+  constructor(maxSamples: number) {
+    this.maxSamples = maxSamples;
+  }
+
+  recordFirstAudio(latencyMs: number): void {
+    this.record(this.firstAudio, this.firstAudioCount++, latencyMs);
+  }
+
+  recordTurn(latencyMs: number): void {
+    this.record(this.turns, this.turnCount++, latencyMs);
+  }
+
+  getSummary(provider: string): SessionLatency | null {
+    if (this.turnCount === 0) return null;
+
+    const firstAudio = [...this.firstAudio].sort((a, b) => a - b);
+    const turns = [...this.turns].sort((a, b) => a - b);
+    return {
+      provider,
+      turns: this.turnCount,
+      firstAudioP50Ms: LatencyStats.percentile(firstAudio, 0.5),
+      firstAudioP95Ms: LatencyStats.percentile(firstAudio, 0.95),
+      turnP50Ms: LatencyStats.percentile(turns, 0.5),
+      turnP95Ms: LatencyStats.percentile(turns, 0.95),
+    };
+  }
+
+  private record(samples: number[], index: number, latencyMs: number): void {
+    samples[index % this.maxSamples] = latencyMs;
+  }
+
+  private static percentile(sorted: number[], rank: number): number {
+    if (sorted.length === 0) return 0;
+    return Math.round(sorted[Math.max(0, Math.ceil(rank * sorted.length) - 1)]);
+  }
+}
@@ -0,0 +1,97 @@
+import { Logger } from 'pack-shared';
+import { IEventConverter } from '../interfaces/IEventConverter';
+import { GEMINI_DEFAULT_MODEL } from '../../GeminiLiveConnection';
+
+const CLASS_NAME = 'OpenAIToGeminiConverter';
+const AUDIO_MIME_TYPE = 'audio/pcm;rate=24000';
+
+const VOICES: Record<string, string> = {
+  alloy: 'Puck',
+  ash: 'Charon',
+  ballad: 'Orus',
+  coral: 'Aoede',
+  echo: 'Fenrir',
+  sage: 'Kore',
+  shimmer: 'Leda',
+  verse: 'Zephyr',
+};
+
+export class OpenAIToGeminiConverter implements IEventConverter {
+  convert(message: string): string[] {
+    let event: any;
+    try {
+      event = JSON.parse(message);
+    } catch (error) {
+      Logger.error(CLASS_NAME, null, 'Failed to parse event', error as Error);
+      return [];
+    }
+
+    const converted = this.convertEvent(event);
+    return converted ? [JSON.stringify(converted)] : [];
+  }
+
+  private convertEvent(event: any): unknown | null {
+    switch (event.type) {
+      case 'session.update':
+        return { setup: this.convertSession(event.session ?? {}) };
+      case 'input_audio_buffer.append':
+        return { realtimeInput: { audio: { mimeType: AUDIO_MIME_TYPE, data: event.audio } } };
+      case 'conversation.item.create':
+        return this.convertItem(event.item);
+      case 'input_audio_buffer.commit':
+        return { realtimeInput: { audioStreamEnd: true } };
+      case 'session.updated':
+        return { setupComplete: {} };
+      case 'input_audio_buffer.speech_started':
+        return { serverContent: { interrupted: true } };
+      case 'conversation.item.input_audio_transcription.delta':
+        return { serverContent: { inputTranscription: { text: event.delta } } };
+      case 'response.output_audio.delta':
+        return { serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: AUDIO_MIME_TYPE, data: event.delta } }] } } };
+      case 'response.output_audio_transcript.delta':
+        return { serverContent: { outputTranscription: { text: event.delta } } };
+      case 'response.done':
+        return { serverContent: { turnComplete: true }, usageMetadata: this.convertUsage(event.response?.usage) };
+      default:
+        return null;
+    }
+  }
+
+  private convertSession(session: any): unknown {
+    const modalities: string[] = session.output_modalities ?? ['audio'];
+    const voice = VOICES[session.audio?.output?.voice];
+    const turnDetection = session.audio?.input?.turn_detection;
+
+    return {
+      model: GEMINI_DEFAULT_MODEL,
+      generationConfig: {
+        responseModalities: modalities.map((m) => m.toUpperCase()),
+        speechConfig: voice ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } : undefined,
+      },
+      systemInstruction: session.instructions ? { parts: [{ text: session.instructions }] } : undefined,
+      inputAudioTranscription: session.audio?.input?.transcription ? {} : undefined,
+      outputAudioTranscription: modalities.includes('audio') ? {} : undefined,
+      realtimeInputConfig: turnDetection === null ? { automaticActivityDetection: { disabled: true } } : undefined,
+    };
+  }
+
+  private convertItem(item: any): unknown | null {
+    if (item?.type !== 'message') return null;
+
+    const text = (item.content ?? []).map((c: any) => c.text).filter(Boolean).join('');
+    if (!text) return null;
+
+    const role = item.role === 'assistant' ? 'model' : 'user';
+    return { clientContent: { turns: [{ role, parts: [{ text }] }], turnComplete: false } };
+  }
+
+  private convertUsage(usage: any): unknown {
+    const inputTokens = usage?.input_tokens ?? 0;
+    const outputTokens = usage?.output_tokens ?? 0;
+    return {
+      promptTokenCount: inputTokens,
+      responseTokenCount: outputTokens,
+      totalTokenCount: usage?.total_tokens ?? inputTokens + outputTokens,
+    };
+  }
+}
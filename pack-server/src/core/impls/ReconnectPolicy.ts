@@ -0,0 +1,47 @@
+import { IReconnectPolicy, ReconnectState } from '../interfaces/IReconnectPolicy';
+
+export type ReconnectOptions = {
+  initialDelayMs: number;
+  multiplier: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  jitter: number;
+};
+
+export class ReconnectPolicy implements IReconnectPolicy {
+  private options: ReconnectOptions;
+  private random: () => number;
+  private attempts = 0;
+  private lastDelayMs = 0;
+
+  constructor(options: ReconnectOptions, random: () => number = Math.random) {
+    this.options = options;
+    this.random = random;
+  }
+
+  nextDelay(): number | null {
+    if (this.attempts >= this.options.maxAttempts) return null;
+
+    const { initialDelayMs, multiplier, maxDelayMs, jitter } = this.options;
+    const baseDelay = Math.min(initialDelayMs * Math.pow(multiplier, this.attempts), maxDelayMs);
+    const spread = baseDelay * jitter * (this.random() * 2 - 1);
+
+    this.attempts++;
+    this.lastDelayMs = Math.max(0, Math.round(baseDelay + spread));
+    return this.lastDelayMs;
+  }
+
+  reset(): void {
+    this.attempts = 0;
+    this.lastDelayMs = 0;
+  }
+
+  getState(): ReconnectState {
+    return {
+      attempts: this.attempts,
+      maxAttempts: this.options.maxAttempts,
+      lastDelayMs: this.lastDelayMs,
+      exhausted: this.attempts >= this.options.maxAttempts,
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from 'pack-shared';
+
+export class ServerMetrics {
+  readonly activeSessions: Gauge;
+  readonly upgrades: Counter;
+  readonly upstreamReconnects: Counter;
+  readonly bufferedMessages: Gauge;
+  readonly tokensBilled: Counter;
+  readonly zmqRequestDuration: Histogram;
+  readonly zmqRequestTimeouts: Counter;
+  readonly turnFirstAudio: Histogram;
+  readonly turnDuration: Histogram;
+
+  constructor(registry: MetricsRegistry) {
+    this.activeSessions = registry.gauge('rs_active_sessions', 'Client sessions currently open');
+    this.upgrades = registry.counter('rs_upgrades_total', 'WebSocket upgrade attempts by HTTP result code',
+      ['code']);
+    this.upstreamReconnects = registry.counter('rs_upstream_reconnects_total',
+      'Reconnects scheduled after the voice provider connection dropped', ['provider']);
+    this.bufferedMessages = registry.gauge('rs_buffered_messages',
+      'Client messages buffered while the voice provider connection is down');
+    this.tokensBilled = registry.counter('rs_tokens_billed_total', 'Tokens sent to pack-db for billing',
+      ['provider', 'direction']);
+    this.zmqRequestDuration = registry.histogram('rs_zmq_request_duration_seconds',
+      'Round trip of ZMQ requests to pack-db', ['type']);
+    this.zmqRequestTimeouts = registry.counter('rs_zmq_request_timeouts_total',
+      'ZMQ requests to pack-db that timed out', ['type']);
+    this.turnFirstAudio = registry.histogram('rs_turn_first_audio_seconds',
+      'Time from the end of user speech to the first response audio', ['provider']);
+    this.turnDuration = registry.histogram('rs_turn_duration_seconds',
+      'Time from the end of user speech to the end of the response', ['provider']);
+  }
+}
@@ -1,19 +1,77 @@
+import * as path from 'path';
 import * as uWS from 'uWebSockets.js';
-import { IAccountService, SessionData, Config, ConfigKeys } from 'pack-shared';
+import { IAccountService, IHealthService, SessionData, Config, ConfigKeys, VoiceProvider,
+  MetricsRegistry } from 'pack-shared';
+import type { ServiceFactory as DbServiceFactory } from '@rs/db';
 import { IServiceFactory } from '../interfaces/IServiceFactory';
 import { ICheckpointHandler } from '../interfaces/ICheckpointHandler';
 import { IUsageHandler } from '../interfaces/IUsageHandler';
+import { IConnectionHandler } from '../interfaces/IConnectionHandler';
+import { IVoiceConnection } from '../interfaces/IVoiceConnection';
+import { IEventConverter } from '../interfaces/IEventConverter';
+import { IFailoverPolicy } from '../interfaces/IFailoverPolicy';
+import { IReconnectPolicy } from '../interfaces/IReconnectPolicy';
+import { ICreditAlertPolicy } from '../interfaces/ICreditAlertPolicy';
+import { IBalanceSubscriber } from '../interfaces/IBalanceSubscriber';
+import { IOutbox } from '../interfaces/IOutbox';
+import { IRateLimiter } from '../interfaces/IRateLimiter';
+import { ILatencyStats } from '../interfaces/ILatencyStats';
+import { AccountServiceTransport } from '../interfaces/AccountServiceTransport';
 import { ZmqService } from './ZmqService';
 import { AccountServiceZmq } from './AccountServiceZmq';
+import { AccountServiceInProcess } from './AccountServiceInProcess';
+import { HealthServiceZmq } from './HealthServiceZmq';
+import { BalanceSubscriber } from './BalanceSubscriber';
+import { InProcessBalanceSubscriber } from './InProcessBalanceSubscriber';
+import { FileOutbox } from './FileOutbox';
 import { CheckpointHandler } from './CheckpointHandler';
 import { UsageHandler } from './UsageHandler';
+import { OpenAIToGeminiConverter } from './OpenAIToGeminiConverter';
+import { GeminiToOpenAIConverter } from './GeminiToOpenAIConverter';
+import { FailoverPolicy } from './FailoverPolicy';
+import { ReconnectPolicy } from './ReconnectPolicy';
+import { CreditAlertPolicy } from './CreditAlertPolicy';
+import { TokenBucketRateLimiter } from './TokenBucketRateLimiter';
+import { ServerMetrics } from './ServerMetrics';
+import { LatencyStats } from './LatencyStats';
 import { Orchestrator } from '../../Orchestrator';
+import { OpenAIConnection } from '../../OpenAIConnection';
+import { GeminiLiveConnection } from '../../GeminiLiveConnection';
+
+const DEFAULT_FAILOVER_MAX_FAILURES = 3;
+const DEFAULT_FAILOVER_CLOSE_CODES = '1011,4000-4999';
+const DEFAULT_RECONNECT_INITIAL_DELAY_MS = 250;
+const DEFAULT_RECONNECT_MULTIPLIER = 2;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 10000;
+const DEFAULT_RECONNECT_MAX_ATTEMPTS = 10;
+const DEFAULT_RECONNECT_JITTER = 0.2;
+const DEFAULT_CREDITS_LOW_THRESHOLDS = '20%,5%';
+const DEFAULT_OUTBOX_PATH = './data/outbox.log';
+const DEFAULT_OUTBOX_RETRY_MS = 1000;
+const DEFAULT_OUTBOX_MAX_RETRY_MS = 60000;
+const DEFAULT_ZMQ_HEARTBEAT_INTERVAL_MS = 1000;
+const DEFAULT_ZMQ_HEARTBEAT_MAX_MISSED = 3;
+const DEFAULT_RATE_LIMIT_IP_CAPACITY = 30;
+const DEFAULT_RATE_LIMIT_IP_REFILL_PER_SECOND = 1;
+const DEFAULT_RATE_LIMIT_KEY_CAPACITY = 10;
+const DEFAULT_RATE_LIMIT_KEY_REFILL_PER_SECOND = 0.2;
+const DEFAULT_RATE_LIMIT_FORBIDDEN_PENALTY = 5;
+const DEFAULT_CREDIT_HOLD_TTL_MS = 300000;
+const HOLD_REFRESHES_PER_TTL = 3;
+const RATE_LIMIT_MAX_KEYS = 100000;
+const LATENCY_MAX_SAMPLES = 1000;
 
 export class ServiceFactory implements IServiceFactory {
   private static instance: ServiceFactory | null = null;
 
   private zmqService: ZmqService | null = null;
-  private accountService: AccountServiceZmq | null = null;
+  private accountService: IAccountService | null = null;
+  private healthService: IHealthService | null = null;
+  private balanceSubscriber: IBalanceSubscriber | null = null;
+  private outbox: FileOutbox | null = null;
+  private dbServiceFactory: typeof DbServiceFactory | null = null;
+  private metricsRegistry: MetricsRegistry | null = null;
+  private serverMetrics: ServerMetrics | null = null;
 
   private constructor() {}
 
@@ -25,13 +83,28 @@ export class ServiceFactory implements IServiceFactory {
   }
 
   static reset(): void {
+    if (ServiceFactory.instance?.outbox) {
+      ServiceFactory.instance.outbox.stop();
+    }
     if (ServiceFactory.instance?.zmqService) {
       ServiceFactory.instance.zmqService.destroy();
     }
+    if (ServiceFactory.instance?.balanceSubscriber) {
+      ServiceFactory.instance.balanceSubscriber.destroy();
+    }
+    if (ServiceFactory.instance?.dbServiceFactory) {
+      ServiceFactory.instance.dbServiceFactory.reset();
+    }
     ServiceFactory.instance = null;
     Config.reset();
   }
 
+  async loadDbServiceFactory(): Promise<void> {
+    if (this.dbServiceFactory || this.getTransport() !== AccountServiceTransport.IN_PROCESS) return;
+    const { ServiceFactory: DbFactory } = await import('@rs/db');
+    this.dbServiceFactory = DbFactory;
+  }
+
   getZmqService(): ZmqService {
     if (!this.zmqService) {
       let socketPath: string | undefined;
@@ -48,34 +121,216 @@ export class ServiceFactory implements IServiceFactory {
         // ZMQ_TIMEOUT_MS is optional, will use default if not provided
         timeoutMs = undefined;
       }
-      this.zmqService = new ZmqService(socketPath, timeoutMs);
+      this.zmqService = new ZmqService(socketPath, timeoutMs, {
+        intervalMs: this.getNumber(ConfigKeys.ZMQ_HEARTBEAT_INTERVAL_MS, DEFAULT_ZMQ_HEARTBEAT_INTERVAL_MS),
+        maxMissed: this.getNumber(ConfigKeys.ZMQ_HEARTBEAT_MAX_MISSED, DEFAULT_ZMQ_HEARTBEAT_MAX_MISSED),
+      }, this.getServerMetrics());
     }
     return this.zmqService;
   }
 
+  getTransport(): AccountServiceTransport {
+    if (!Config.has(ConfigKeys.ACCOUNT_SERVICE_TRANSPORT)) {
+      return AccountServiceTransport.ZMQ;
+    }
+    const transport = Config.get(ConfigKeys.ACCOUNT_SERVICE_TRANSPORT) as AccountServiceTransport;
+    if (!Object.values(AccountServiceTransport).includes(transport)) {
+      throw new Error(`Unsupported ${ConfigKeys.ACCOUNT_SERVICE_TRANSPORT}: ${transport}`);
+    }
+    return transport;
+  }
+
   getAccountService(): IAccountService {
     if (!this.accountService) {
-      this.accountService = new AccountServiceZmq(this.getZmqService());
+      if (this.getTransport() === AccountServiceTransport.IN_PROCESS) {
+        const dbFactory = this.getDbFactory();
+        this.accountService = new AccountServiceInProcess(dbFactory.getAccountService(),
+          dbFactory.getPersistenceService());
+      } else {
+        this.accountService = new AccountServiceZmq(this.getZmqService(), this.getOutbox());
+      }
     }
     return this.accountService;
   }
 
-  getNewCheckpointHandler(accountId: string, sessionId: string): ICheckpointHandler {
-    return new CheckpointHandler(accountId, sessionId, this.getAccountService());
+  getHealthService(): IHealthService {
+    if (!this.healthService) {
+      this.healthService = this.getTransport() === AccountServiceTransport.IN_PROCESS
+        ? this.getDbFactory().getHealthService()
+        : new HealthServiceZmq(this.getZmqService());
+    }
+    return this.healthService;
+  }
+
+  getOutbox(): IOutbox {
+    if (!this.outbox) {
+      let filePath = Config.has(ConfigKeys.OUTBOX_PATH) ? Config.get(ConfigKeys.OUTBOX_PATH) : DEFAULT_OUTBOX_PATH;
+      if (Config.has(ConfigKeys.CLUSTER_WORKER_INDEX)) {
+        const { dir, name, ext } = path.parse(filePath);
+        filePath = path.join(dir, `${name}-${Config.get(ConfigKeys.CLUSTER_WORKER_INDEX)}${ext}`);
+      }
+      const { dir, name, ext } = path.parse(filePath);
+      this.outbox = new FileOutbox(this.getZmqService(), filePath,
+        this.getNumber(ConfigKeys.OUTBOX_RETRY_MS, DEFAULT_OUTBOX_RETRY_MS),
+        this.getNumber(ConfigKeys.OUTBOX_MAX_RETRY_MS, DEFAULT_OUTBOX_MAX_RETRY_MS),
+        path.join(dir, `${name}-dead${ext}`));
+    }
+    return this.outbox;
+  }
+
+  getBalanceSubscriber(): IBalanceSubscriber {
+    if (!this.balanceSubscriber) {
+      if (this.getTransport() === AccountServiceTransport.IN_PROCESS) {
+        this.balanceSubscriber = new InProcessBalanceSubscriber(this.getDbFactory().getBalancePublisher());
+      } else {
+        this.balanceSubscriber = Config.has(ConfigKeys.ZMQ_EVENTS_SOCKET_PATH)
+          ? new BalanceSubscriber(Config.get(ConfigKeys.ZMQ_EVENTS_SOCKET_PATH))
+          : new BalanceSubscriber();
+      }
+    }
+    return this.balanceSubscriber;
   }
 
-  getNewUsageHandler(accountId: string, sessionId: string): IUsageHandler {
-    return new UsageHandler(accountId, sessionId, this.getAccountService());
+  getMetricsRegistry(): MetricsRegistry {
+    if (!this.metricsRegistry) {
+      this.metricsRegistry = new MetricsRegistry();
+    }
+    return this.metricsRegistry;
+  }
+
+  getServerMetrics(): ServerMetrics {
+    if (!this.serverMetrics) {
+      this.serverMetrics = new ServerMetrics(this.getMetricsRegistry());
+    }
+    return this.serverMetrics;
+  }
+
+  getNewCheckpointHandler(accountId: string, sessionId: string, provider: VoiceProvider): ICheckpointHandler {
+    return new CheckpointHandler(accountId, sessionId, provider, this.getAccountService());
+  }
+
+  getNewUsageHandler(accountId: string, sessionId: string, provider: VoiceProvider, holdId: string,
+    keyHash: string): IUsageHandler {
+    return new UsageHandler(accountId, sessionId, provider, holdId, keyHash, this.getAccountService(),
+      this.getServerMetrics());
+  }
+
+  getNewVoiceConnection(provider: VoiceProvider, handler: IConnectionHandler): IVoiceConnection {
+    switch (provider) {
+      case VoiceProvider.GEMINI:
+        return Config.has(ConfigKeys.GEMINI_LIVE_URL)
+          ? new GeminiLiveConnection(handler, Config.get(ConfigKeys.GEMINI_LIVE_URL))
+          : new GeminiLiveConnection(handler);
+      case VoiceProvider.OPENAI:
+      default:
+        return Config.has(ConfigKeys.OPENAI_REALTIME_URL)
+          ? new OpenAIConnection(handler, Config.get(ConfigKeys.OPENAI_REALTIME_URL))
+          : new OpenAIConnection(handler);
+    }
+  }
+
+  getNewEventConverter(from: VoiceProvider, to: VoiceProvider): IEventConverter | null {
+    if (from === to) return null;
+    return from === VoiceProvider.OPENAI ? new OpenAIToGeminiConverter() : new GeminiToOpenAIConverter();
+  }
+
+  getFailoverProvider(): VoiceProvider | null {
+    if (!Config.has(ConfigKeys.FAILOVER_PROVIDER)) {
+      return null;
+    }
+    const provider = Config.get(ConfigKeys.FAILOVER_PROVIDER) as VoiceProvider;
+    if (!Object.values(VoiceProvider).includes(provider)) {
+      throw new Error(`Unsupported ${ConfigKeys.FAILOVER_PROVIDER}: ${provider}`);
+    }
+    return provider;
+  }
+
+  getNewFailoverPolicy(provider: VoiceProvider): IFailoverPolicy {
+    const secondary = this.getFailoverProvider();
+    const maxFailures = this.getNumber(ConfigKeys.FAILOVER_MAX_FAILURES, DEFAULT_FAILOVER_MAX_FAILURES);
+    const closeCodes = Config.has(ConfigKeys.FAILOVER_CLOSE_CODES)
+      ? Config.get(ConfigKeys.FAILOVER_CLOSE_CODES)
+      : DEFAULT_FAILOVER_CLOSE_CODES;
+
+    return new FailoverPolicy(
+      secondary && secondary !== provider ? secondary : null,
+      maxFailures,
+      FailoverPolicy.parseCloseCodes(closeCodes)
+    );
+  }
+
+  getNewReconnectPolicy(): IReconnectPolicy {
+    return new ReconnectPolicy({
+      initialDelayMs: this.getNumber(ConfigKeys.RECONNECT_INITIAL_DELAY_MS, DEFAULT_RECONNECT_INITIAL_DELAY_MS),
+      multiplier: this.getNumber(ConfigKeys.RECONNECT_MULTIPLIER, DEFAULT_RECONNECT_MULTIPLIER),
+      maxDelayMs: this.getNumber(ConfigKeys.RECONNECT_MAX_DELAY_MS, DEFAULT_RECONNECT_MAX_DELAY_MS),
+      maxAttempts: this.getNumber(ConfigKeys.RECONNECT_MAX_ATTEMPTS, DEFAULT_RECONNECT_MAX_ATTEMPTS),
+      jitter: this.getNumber(ConfigKeys.RECONNECT_JITTER, DEFAULT_RECONNECT_JITTER),
+    });
+  }
+
+  getNewIpRateLimiter(): IRateLimiter {
+    return new TokenBucketRateLimiter({
+      capacity: this.getNumber(ConfigKeys.RATE_LIMIT_IP_CAPACITY, DEFAULT_RATE_LIMIT_IP_CAPACITY),
+      refillPerSecond: this.getNumber(ConfigKeys.RATE_LIMIT_IP_REFILL_PER_SECOND,
+        DEFAULT_RATE_LIMIT_IP_REFILL_PER_SECOND),
+      penalty: this.getNumber(ConfigKeys.RATE_LIMIT_FORBIDDEN_PENALTY, DEFAULT_RATE_LIMIT_FORBIDDEN_PENALTY),
+      maxKeys: RATE_LIMIT_MAX_KEYS,
+    });
+  }
+
+  getNewKeyRateLimiter(): IRateLimiter {
+    return new TokenBucketRateLimiter({
+      capacity: this.getNumber(ConfigKeys.RATE_LIMIT_KEY_CAPACITY, DEFAULT_RATE_LIMIT_KEY_CAPACITY),
+      refillPerSecond: this.getNumber(ConfigKeys.RATE_LIMIT_KEY_REFILL_PER_SECOND,
+        DEFAULT_RATE_LIMIT_KEY_REFILL_PER_SECOND),
+      penalty: this.getNumber(ConfigKeys.RATE_LIMIT_FORBIDDEN_PENALTY, DEFAULT_RATE_LIMIT_FORBIDDEN_PENALTY),
+      maxKeys: RATE_LIMIT_MAX_KEYS,
+    });
+  }
+
+  getNewLatencyStats(): ILatencyStats {
+    return new LatencyStats(LATENCY_MAX_SAMPLES);
+  }
+
+  getHoldRefreshIntervalMs(): number {
+    const ttlMs = this.getNumber(ConfigKeys.CREDIT_HOLD_TTL_MS, DEFAULT_CREDIT_HOLD_TTL_MS);
+    return Math.floor(ttlMs / HOLD_REFRESHES_PER_TTL);
+  }
+
+  getNewCreditAlertPolicy(thresholds: string, initialCredits: number): ICreditAlertPolicy {
+    if (!thresholds) {
+      thresholds = Config.has(ConfigKeys.CREDITS_LOW_THRESHOLDS)
+        ? Config.get(ConfigKeys.CREDITS_LOW_THRESHOLDS)
+        : DEFAULT_CREDITS_LOW_THRESHOLDS;
+    }
+    return new CreditAlertPolicy(thresholds, initialCredits);
   }
 
   getNewOrchestrator(
     sessionData: SessionData,
-    ws: uWS.WebSocket<unknown>
+    ws: uWS.WebSocket<unknown>,
+    provider: VoiceProvider,
+    apiStyle: VoiceProvider
   ): Orchestrator {
     return new Orchestrator(
       sessionData,
       ws,
-      this
+      this,
+      provider,
+      apiStyle
     );
   }
+
+  private getDbFactory(): DbServiceFactory {
+    if (!this.dbServiceFactory) {
+      throw new Error(`${ConfigKeys.ACCOUNT_SERVICE_TRANSPORT}=${AccountServiceTransport.IN_PROCESS} `
+        + 'requires loadDbServiceFactory()');
+    }
+    return this.dbServiceFactory.getInstance();
+  }
+
+  private getNumber(key: ConfigKeys, defaultValue: number): number {
+    return Config.has(key) ? parseFloat(Config.get(key)) : defaultValue;
+  }
 }
@@ -0,0 +1,88 @@
+import { IRateLimiter } from '../interfaces/IRateLimiter';
+
+export type TokenBucketOptions = {
+  capacity: number;
+  refillPerSecond: number;
+  penalty: number;
+  maxKeys: number;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export class TokenBucketRateLimiter implements IRateLimiter {
+  private options: TokenBucketOptions;
+  private now: () => number;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(options: TokenBucketOptions, now: () => number = Date.now) {
+    this.options = options;
+    this.now = now;
+  }
+
+  tryTake(key: string): boolean {
+    if (!this.isEnabled()) return true;
+
+    const bucket = this.refill(key);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens--;
+    return true;
+  }
+
+  penalize(key: string): void {
+    if (!this.isEnabled()) return;
+    this.refill(key).tokens -= this.options.penalty;
+  }
+
+  getRetryAfterSeconds(key: string): number {
+    if (!this.isEnabled() || !this.buckets.has(key)) return 0;
+
+    const bucket = this.refill(key);
+    if (bucket.tokens >= 1) return 0;
+    return this.options.refillPerSecond > 0 ? Math.ceil((1 - bucket.tokens) / this.options.refillPerSecond) : 0;
+  }
+
+  getSize(): number {
+    return this.buckets.size;
+  }
+
+  private isEnabled(): boolean {
+    return this.options.capacity > 0;
+  }
+
+  private refill(key: string): Bucket {
+    const now = this.now();
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      this.evict(now);
+      const created = { tokens: this.options.capacity, updatedAt: now };
+      this.buckets.set(key, created);
+      return created;
+    }
+
+    bucket.tokens = this.tokensAt(bucket, now);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private tokensAt(bucket: Bucket, now: number): number {
+    const refilled = (now - bucket.updatedAt) / 1000 * this.options.refillPerSecond;
+    return Math.min(this.options.capacity, bucket.tokens + refilled);
+  }
+
+  private evict(now: number): void {
+    if (this.buckets.size < this.options.maxKeys) return;
+
+    for (const [key, bucket] of this.buckets) {
+      if (this.tokensAt(bucket, now) >= this.options.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+    if (this.buckets.size >= this.options.maxKeys) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest !== undefined) this.buckets.delete(oldest);
+    }
+  }
+}
@@ -1,5 +1,6 @@
-import { IAccountService, Logger } from 'pack-shared';
+import { IAccountService, Logger, VoiceProvider, CounterSeries } from 'pack-shared';
 import { IUsageHandler } from '../interfaces/IUsageHandler';
+import { ServerMetrics } from './ServerMetrics';
 
 const USAGE_BATCH_SIZE = 5;
 const CLASS_NAME = 'UsageHandler';
@@ -7,19 +8,52 @@ const CLASS_NAME = 'UsageHandler';
 export class UsageHandler implements IUsageHandler {
   private accountId: string;
   private sessionId: string;
+  private provider: VoiceProvider;
+  private holdId: string;
+  private keyHash: string;
   private accountService: IAccountService;
+  private inputTokensBilled: CounterSeries;
+  private outputTokensBilled: CounterSeries;
 
   private inputTokens: number = 0;
   private outputTokens: number = 0;
   private currentBatchSize: number = 0;
 
-  constructor(accountId: string, sessionId: string, accountService: IAccountService) {
+  constructor(accountId: string, sessionId: string, provider: VoiceProvider, holdId: string, keyHash: string,
+    accountService: IAccountService, metrics: ServerMetrics) {
     this.accountId = accountId;
     this.sessionId = sessionId;
+    this.provider = provider;
+    this.holdId = holdId;
+    this.keyHash = keyHash;
     this.accountService = accountService;
+    this.inputTokensBilled = metrics.tokensBilled.labels(provider, 'input');
+    this.outputTokensBilled = metrics.tokensBilled.labels(provider, 'output');
   }
 
   saveUsage(message: string): { inputTokens: number, outputTokens: number } | null {
+    const tokens = this.provider === VoiceProvider.GEMINI
+      ? this.parseGeminiUsage(message)
+      : this.parseOpenAIUsage(message);
+    if (!tokens) return null;
+
+    const { inputTokens, outputTokens } = tokens;
+
+    // Accumulate tokens
+    this.inputTokens += inputTokens;
+    this.outputTokens += outputTokens;
+    this.currentBatchSize++;
+
+    Logger.debug(CLASS_NAME, this.accountId, `Saved usage: input=${inputTokens}, output=${outputTokens}, batch size=${this.currentBatchSize}`);
+
+    if (this.currentBatchSize >= USAGE_BATCH_SIZE) {
+      this.flush();
+    }
+
+    return { inputTokens, outputTokens };
+  }
+
+  private parseOpenAIUsage(message: string): { inputTokens: number, outputTokens: number } | null {
     // Return early if message doesn't contain "type":"response.done"
     if (message.indexOf('"type":"response.done"') === -1) return null;
 
@@ -43,18 +77,36 @@ export class UsageHandler implements IUsageHandler {
     if (outputEnd === outputStart) return null;
     const outputTokens = parseInt(message.slice(outputStart, outputEnd), 10);
 
-    // Accumulate tokens
-    this.inputTokens += inputTokens;
-    this.outputTokens += outputTokens;
-    this.currentBatchSize++;
+    return { inputTokens, outputTokens };
+  }
 
-    Logger.debug(CLASS_NAME, this.accountId, `Saved usage: input=${inputTokens}, output=${outputTokens}, batch size=${this.currentBatchSize}`);
+  private parseGeminiUsage(message: string): { inputTokens: number, outputTokens: number } | null {
+    const usageIdx = message.indexOf('"usageMetadata"');
+    if (usageIdx === -1) return null;
 
-    if (this.currentBatchSize >= USAGE_BATCH_SIZE) {
-      this.flush();
-    }
+    const inputTokens = this.readCount(message, '"promptTokenCount"', usageIdx);
+    const outputTokens = this.readCount(message, '"responseTokenCount"', usageIdx);
+    if (inputTokens === null && outputTokens === null) return null;
 
-    return { inputTokens, outputTokens };
+    return { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0 };
+  }
+
+  private readCount(message: string, field: string, fromIdx: number): number | null {
+    const fieldIdx = message.indexOf(field, fromIdx);
+    if (fieldIdx === -1) return null;
+
+    let start = fieldIdx + field.length;
+    let code = message.charCodeAt(start);
+    while (code === 58 || code === 32 || code === 10 || code === 13 || code === 9) code = message.charCodeAt(++start);
+
+    let end = start;
+    while (message.charCodeAt(end) >= 48 && message.charCodeAt(end) <= 57) end++;
+    if (end === start) return null;
+    return parseInt(message.slice(start, end), 10);
+  }
+
+  getPendingTokens(): number {
+    return this.inputTokens + this.outputTokens;
   }
 
   flush(): void {
@@ -64,7 +116,10 @@ export class UsageHandler implements IUsageHandler {
     }
 
     Logger.debug(CLASS_NAME, this.accountId, `Flushing usage: total input=${this.inputTokens}, total output=${this.outputTokens}, batch count=${this.currentBatchSize}`);
-    this.accountService.updateUsage(this.accountId, this.sessionId, 'openai', this.inputTokens, this.outputTokens);
+    this.accountService.updateUsage(this.accountId, this.sessionId, this.provider, this.inputTokens, this.outputTokens,
+      this.holdId, this.keyHash);
+    this.inputTokensBilled.inc(this.inputTokens);
+    this.outputTokensBilled.inc(this.outputTokens);
 
     this.inputTokens = 0;
     this.outputTokens = 0;
@@ -1,17 +1,25 @@
 import * as zmq from 'zeromq';
+import { randomUUID } from 'crypto';
 import {
   ZmqMessageType,
+  ZMQ_PROTOCOL_VERSION,
+  ZMQ_MIN_PROTOCOL_VERSION,
   ZmqArgs,
   ZmqResponseData,
-  ZMQ_DELIMITER,
   ZmqUtils,
   Logger,
   Config,
   ConfigKeys,
   ErrorCode,
+  MetricsRegistry,
+  HistogramSeries,
+  CounterSeries,
 } from 'pack-shared';
+import { ZmqHealthState, ZmqHealthListener, ZmqHeartbeatOptions } from '../interfaces/ZmqHealth';
+import { ServerMetrics } from './ServerMetrics';
 
 const CLASS_NAME = 'ZmqService';
+const DEFAULT_HEARTBEAT: ZmqHeartbeatOptions = { intervalMs: 1000, maxMissed: 3 };
 
 
 type RequestResponseType = keyof ZmqResponseData;
@@ -21,6 +29,12 @@ interface PendingRequest<T extends RequestResponseType> {
   resolve: (response: { id: string } & ZmqResponseData[T]) => void;
   reject: (error: Error) => void;
   timer: NodeJS.Timeout;
+  startedAt: number;
+}
+
+interface RequestSeries {
+  duration: HistogramSeries;
+  timeouts: CounterSeries;
 }
 
 export class ZmqService {
@@ -29,16 +43,29 @@ export class ZmqService {
   private pendingRequests = new Map<string, PendingRequest<RequestResponseType>>();
   private socketPath: string;
   private timeoutMs: number;
+  private heartbeat: ZmqHeartbeatOptions;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private missedHeartbeats = 0;
+  private health = ZmqHealthState.DEGRADED;
+  private healthListeners = new Set<ZmqHealthListener>();
+  private protocolVersion: number | null = null;
+  private incompatible = false;
+  private requestSeries = new Map<ZmqMessageType, RequestSeries>();
 
-  constructor(socketPath?: string, timeoutMs?: number) {
+  constructor(socketPath?: string, timeoutMs?: number, heartbeat?: ZmqHeartbeatOptions, metrics?: ServerMetrics) {
     this.socketPath = socketPath ?? Config.get(ConfigKeys.ZMQ_SOCKET_PATH);
     this.timeoutMs = timeoutMs ?? (Config.has(ConfigKeys.ZMQ_TIMEOUT_MS)
       ? parseInt(Config.get(ConfigKeys.ZMQ_TIMEOUT_MS), 10)
       : 5000);
-    this.dealer = new zmq.Dealer();
-    this.dealer.routingId = `pack-server-${process.pid}`;
-    this.dealer.sendHighWaterMark = 1000;
-    this.dealer.receiveHighWaterMark = 1000;
+    this.heartbeat = heartbeat ?? DEFAULT_HEARTBEAT;
+    const serverMetrics = metrics ?? new ServerMetrics(new MetricsRegistry());
+    for (const type of Object.values(ZmqMessageType)) {
+      this.requestSeries.set(type, {
+        duration: serverMetrics.zmqRequestDuration.labels(type),
+        timeouts: serverMetrics.zmqRequestTimeouts.labels(type),
+      });
+    }
+    this.dealer = this.createDealer();
   }
 
   async connect(): Promise<void> {
@@ -46,7 +73,10 @@ export class ZmqService {
 
     await this.dealer.connect(this.socketPath);
     this.connected = true;
-    this.startReceiver();
+    this.startReceiver(this.dealer);
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.heartbeat.intervalMs);
+    this.heartbeatTimer.unref();
+    this.sendHeartbeat();
     Logger.debug(CLASS_NAME, null, `Connected to ${this.socketPath}`);
   }
 
@@ -54,26 +84,76 @@ export class ZmqService {
     return this.connected;
   }
 
+  getHealth(): ZmqHealthState {
+    return this.health;
+  }
+
+  getProtocolVersion(): number | null {
+    return this.protocolVersion;
+  }
+
+  onHealthChange(listener: ZmqHealthListener): void {
+    this.healthListeners.add(listener);
+  }
+
   async send<T extends RequestResponseType>(
     id: string,
     type: T,
     ...args: ZmqArgs[T]
+  ): Promise<{ id: string } & ZmqResponseData[T]> {
+    if (this.incompatible) {
+      return Promise.reject(new Error(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE));
+    }
+    return this.request(id, type, this.timeoutMs, args);
+  }
+
+  destroy(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.rejectPending(ErrorCode.INTERNAL_ZMQ_DESTROYED);
+    this.healthListeners.clear();
+
+    if (this.connected) {
+      this.connected = false;
+      this.dealer.close();
+      Logger.debug(CLASS_NAME, null, 'Destroyed');
+    }
+  }
+
+  private createDealer(): zmq.Dealer {
+    const dealer = new zmq.Dealer();
+    dealer.routingId = `pack-server-${process.pid}-${randomUUID()}`;
+    dealer.sendHighWaterMark = 1000;
+    dealer.receiveHighWaterMark = 1000;
+    dealer.linger = 0;
+    return dealer;
+  }
+
+  private request<T extends RequestResponseType>(
+    id: string,
+    type: T,
+    timeoutMs: number,
+    args: ZmqArgs[T]
   ): Promise<{ id: string } & ZmqResponseData[T]> {
     if (!this.connected) {
-      throw new Error(ErrorCode.INTERNAL_ZMQ_NOT_CONNECTED);
+      return Promise.reject(new Error(ErrorCode.INTERNAL_ZMQ_NOT_CONNECTED));
     }
 
-    const message = [id, type, ...args.map(String)].join(ZMQ_DELIMITER);
+    const frames = ZmqUtils.encodeRequest(this.protocolVersion ?? ZMQ_PROTOCOL_VERSION, id, type, ...args);
 
     return new Promise((resolve, reject) => {
       const timer = setTimeout(() => {
         this.pendingRequests.delete(id);
+        this.requestSeries.get(type)!.timeouts.inc();
         reject(new Error(ErrorCode.INTERNAL_ZMQ_REQUEST_TIMEOUT));
-      }, this.timeoutMs);
+      }, timeoutMs);
 
-      this.pendingRequests.set(id, { type, resolve, reject, timer } as PendingRequest<RequestResponseType>);
+      const startedAt = performance.now();
+      this.pendingRequests.set(id, { type, resolve, reject, timer, startedAt } as PendingRequest<RequestResponseType>);
 
-      this.dealer.send(['', message]).catch((err) => {
+      this.dealer.send(['', ...frames]).catch((err) => {
         clearTimeout(timer);
         this.pendingRequests.delete(id);
         reject(err);
@@ -81,50 +161,94 @@ export class ZmqService {
     });
   }
 
-  
-  sendFireAndForget<T extends ZmqMessageType>(
-    id: string,
-    type: T,
-    ...args: ZmqArgs[T]
-  ): void {
-    if (!this.connected) {
-      Logger.error(CLASS_NAME, null, `Not connected, dropping fire-and-forget message: ${type}`, new Error(ErrorCode.INTERNAL_ZMQ_NOT_CONNECTED));
-      return;
+  private sendHeartbeat(): void {
+    this.exchangeHeartbeat().then((compatible) => {
+      this.missedHeartbeats = 0;
+      if (!compatible) {
+        this.setHealth(ZmqHealthState.DOWN);
+        return;
+      }
+      this.setHealth(ZmqHealthState.CONNECTED);
+    }).catch(() => {
+      if (!this.connected) return;
+      this.missedHeartbeats++;
+      if (this.missedHeartbeats < this.heartbeat.maxMissed) {
+        this.setHealth(ZmqHealthState.DEGRADED);
+        return;
+      }
+      this.setHealth(ZmqHealthState.DOWN);
+      if (this.missedHeartbeats % this.heartbeat.maxMissed === 0) {
+        this.recreateSocket();
+      }
+    });
+  }
+
+  private async exchangeHeartbeat(): Promise<boolean> {
+    if (this.protocolVersion !== null) {
+      await this.request(randomUUID(), ZmqMessageType.PING, this.heartbeat.intervalMs, []);
+      return true;
     }
 
-    const message = [id, type, ...args.map(String)].join(ZMQ_DELIMITER);
-    this.dealer.send(['', message]).catch((err) => {
-      Logger.error(CLASS_NAME, null, 'Fire-and-forget send error', err);
-    });
+    const hello = await this.request(randomUUID(), ZmqMessageType.HELLO, this.heartbeat.intervalMs,
+      [ZMQ_MIN_PROTOCOL_VERSION, ZMQ_PROTOCOL_VERSION]);
+    if (hello.error) {
+      if (!this.incompatible) {
+        Logger.error(CLASS_NAME, null, 'pack-db does not support protocol {}-{}',
+          new Error(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE), ZMQ_MIN_PROTOCOL_VERSION, ZMQ_PROTOCOL_VERSION);
+      }
+      this.incompatible = true;
+      return false;
+    }
+
+    this.incompatible = false;
+    this.protocolVersion = hello.version;
+    Logger.debug(CLASS_NAME, null, 'Negotiated protocol version {}', hello.version);
+    return true;
   }
 
-  destroy(): void {
-    for (const [id, pending] of this.pendingRequests) {
-      clearTimeout(pending.timer);
-      pending.reject(new Error(ErrorCode.INTERNAL_ZMQ_DESTROYED));
+  private setHealth(state: ZmqHealthState): void {
+    if (state === this.health) return;
+
+    const previous = this.health;
+    this.health = state;
+    Logger.debug(CLASS_NAME, null, 'Health changed from {} to {}', previous, state);
+    for (const listener of this.healthListeners) {
+      listener(state, previous);
     }
-    this.pendingRequests.clear();
+  }
 
-    if (this.connected) {
-      this.dealer.close();
-      this.connected = false;
-      Logger.debug(CLASS_NAME, null, 'Destroyed');
+  private recreateSocket(): void {
+    if (!this.connected) return;
+
+    Logger.warn(CLASS_NAME, null, 'Recreating socket to {} after {} missed heartbeats', this.socketPath,
+      this.missedHeartbeats);
+    this.rejectPending(ErrorCode.INTERNAL_ZMQ_SOCKET_RECREATED);
+    this.protocolVersion = null;
+    this.dealer.close();
+    this.dealer = this.createDealer();
+    this.dealer.connect(this.socketPath);
+    this.startReceiver(this.dealer);
+  }
+
+  private rejectPending(code: ErrorCode): void {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(code));
     }
+    this.pendingRequests.clear();
   }
 
-  private async startReceiver(): Promise<void> {
+  private async startReceiver(dealer: zmq.Dealer): Promise<void> {
     try {
-      for await (const [delimiter, msgBuffer] of this.dealer) {
-        const rawString = msgBuffer.toString();
+      for await (const [delimiter, ...frameBuffers] of dealer) {
+        const frames = frameBuffers.map(frame => frame.toString());
 
-
-        const firstDelim = rawString.indexOf(ZMQ_DELIMITER);
-        if (firstDelim === -1) {
-          Logger.error(CLASS_NAME, null, 'Invalid response format', new Error(ErrorCode.INTERNAL_ZMQ_INVALID_RESPONSE), rawString.slice(0, 100));
+        const id = ZmqUtils.getResponseId(frames);
+        if (id === null) {
+          Logger.error(CLASS_NAME, null, 'Invalid response format', new Error(ErrorCode.INTERNAL_ZMQ_INVALID_RESPONSE), frames.join(' ').slice(0, 100));
           continue;
         }
 
-        const id = rawString.slice(0, firstDelim);
         const pending = this.pendingRequests.get(id);
 
         if (!pending) {
@@ -132,19 +256,27 @@ export class ZmqService {
           continue;
         }
 
-        const response = ZmqUtils.decodeResponse(rawString, pending.type);
+        const response = ZmqUtils.decodeResponse(frames, pending.type);
         if (!response) {
-          Logger.error(CLASS_NAME, null, 'Failed to decode response', new Error(ErrorCode.INTERNAL_ZMQ_DECODE_FAILED), rawString.slice(0, 100));
+          Logger.error(CLASS_NAME, null, 'Failed to decode response', new Error(ErrorCode.INTERNAL_ZMQ_DECODE_FAILED), frames.join(' ').slice(0, 100));
           continue;
         }
 
         clearTimeout(pending.timer);
         this.pendingRequests.delete(id);
+        this.requestSeries.get(pending.type)!.duration.observe((performance.now() - pending.startedAt) / 1000);
+        if (response.error === ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE && pending.type !== ZmqMessageType.HELLO) {
+          this.protocolVersion = null;
+          pending.reject(new Error(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE));
+          continue;
+        }
         pending.resolve(response);
       }
     } catch (error) {
-      if (this.connected) {
+      if (this.connected && dealer === this.dealer) {
         Logger.error(CLASS_NAME, null, 'Receiver error', error as Error);
+        this.setHealth(ZmqHealthState.DOWN);
+        this.recreateSocket();
       }
     }
   }
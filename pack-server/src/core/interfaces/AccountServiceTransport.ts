@@ -0,0 +1,4 @@
+export enum AccountServiceTransport {
+  ZMQ = 'zmq',
+  IN_PROCESS = 'in-process',
+}
@@ -0,0 +1,4 @@
+export enum DuplicateSessionPolicy {
+  REPLACE = 'replace',
+  REJECT = 'reject',
+}
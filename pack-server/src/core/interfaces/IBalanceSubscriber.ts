@@ -0,0 +1,14 @@
+import { AccountStatus } from 'pack-shared';
+
+export interface IBalanceListener {
+  onCreditsUpdated(credits: number): void;
+  onAccountStatusChanged(status: AccountStatus): void;
+  onSessionReplaced(holdId: string): void;
+}
+
+export interface IBalanceSubscriber {
+  connect(): Promise<void>;
+  register(accountId: string, listener: IBalanceListener): void;
+  unregister(accountId: string, listener: IBalanceListener): void;
+  destroy(): void;
+}
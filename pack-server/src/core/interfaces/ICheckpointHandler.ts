@@ -1,4 +1,13 @@
+import { VoiceProvider } from 'pack-shared';
+
+export type ConversationTurn = {
+  type: 'user' | 'agent';
+  text: string;
+};
+
 export interface ICheckpointHandler {
   trackConversation(message: string): void;
+  setProvider(provider: VoiceProvider): void;
+  getRecentTurns(): ConversationTurn[];
   flush(): void;
 }
@@ -0,0 +1,3 @@
+export interface ICreditAlertPolicy {
+  check(credits: number): number | null;
+}
@@ -0,0 +1,3 @@
+export interface IEventConverter {
+  convert(message: string): string[];
+}
@@ -0,0 +1,6 @@
+import { VoiceProvider } from 'pack-shared';
+
+export interface IFailoverPolicy {
+  onConnected(): void;
+  onFailure(provider: VoiceProvider, code: number): VoiceProvider | null;
+}
@@ -0,0 +1,7 @@
+import { SessionLatency } from 'pack-shared';
+
+export interface ILatencyStats {
+  recordFirstAudio(latencyMs: number): void;
+  recordTurn(latencyMs: number): void;
+  getSummary(provider: string): SessionLatency | null;
+}
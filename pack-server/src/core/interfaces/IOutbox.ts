@@ -0,0 +1,8 @@
+import { ZmqArgs, ZmqDurableType } from 'pack-shared';
+
+export interface IOutbox {
+  start(): void;
+  enqueue<T extends ZmqDurableType>(type: T, ...args: ZmqArgs[T]): void;
+  getPendingCount(): number;
+  stop(): void;
+}
@@ -0,0 +1,5 @@
+export interface IRateLimiter {
+  tryTake(key: string): boolean;
+  penalize(key: string): void;
+  getRetryAfterSeconds(key: string): number;
+}
@@ -0,0 +1,12 @@
+export type ReconnectState = {
+  attempts: number;
+  maxAttempts: number;
+  lastDelayMs: number;
+  exhausted: boolean;
+};
+
+export interface IReconnectPolicy {
+  nextDelay(): number | null;
+  reset(): void;
+  getState(): ReconnectState;
+}
@@ -1,17 +1,47 @@
 import * as uWS from 'uWebSockets.js';
-import { IAccountService, SessionData } from 'pack-shared';
+import { IAccountService, IHealthService, SessionData, VoiceProvider, MetricsRegistry } from 'pack-shared';
 import { ICheckpointHandler } from './ICheckpointHandler';
 import { IUsageHandler } from './IUsageHandler';
+import { IConnectionHandler } from './IConnectionHandler';
+import { IVoiceConnection } from './IVoiceConnection';
+import { IEventConverter } from './IEventConverter';
+import { IFailoverPolicy } from './IFailoverPolicy';
+import { IReconnectPolicy } from './IReconnectPolicy';
+import { ICreditAlertPolicy } from './ICreditAlertPolicy';
+import { IBalanceSubscriber } from './IBalanceSubscriber';
+import { IOutbox } from './IOutbox';
+import { IRateLimiter } from './IRateLimiter';
+import { ILatencyStats } from './ILatencyStats';
+import { AccountServiceTransport } from './AccountServiceTransport';
 import { ZmqService } from '../impls/ZmqService';
+import { ServerMetrics } from '../impls/ServerMetrics';
 import { Orchestrator } from '../../Orchestrator';
 
 export interface IServiceFactory {
+  getTransport(): AccountServiceTransport;
   getZmqService(): ZmqService;
   getAccountService(): IAccountService;
-  getNewCheckpointHandler(accountId: string, sessionId: string): ICheckpointHandler;
-  getNewUsageHandler(accountId: string, sessionId: string): IUsageHandler;
+  getHealthService(): IHealthService;
+  getOutbox(): IOutbox;
+  getBalanceSubscriber(): IBalanceSubscriber;
+  getMetricsRegistry(): MetricsRegistry;
+  getServerMetrics(): ServerMetrics;
+  getNewCheckpointHandler(accountId: string, sessionId: string, provider: VoiceProvider): ICheckpointHandler;
+  getNewUsageHandler(accountId: string, sessionId: string, provider: VoiceProvider, holdId: string,
+    keyHash: string): IUsageHandler;
+  getNewVoiceConnection(provider: VoiceProvider, handler: IConnectionHandler): IVoiceConnection;
+  getNewEventConverter(from: VoiceProvider, to: VoiceProvider): IEventConverter | null;
+  getNewFailoverPolicy(provider: VoiceProvider): IFailoverPolicy;
+  getNewReconnectPolicy(): IReconnectPolicy;
+  getNewIpRateLimiter(): IRateLimiter;
+  getNewKeyRateLimiter(): IRateLimiter;
+  getNewLatencyStats(): ILatencyStats;
+  getNewCreditAlertPolicy(thresholds: string, initialCredits: number): ICreditAlertPolicy;
+  getHoldRefreshIntervalMs(): number;
   getNewOrchestrator(
     sessionData: SessionData,
-    ws: uWS.WebSocket<unknown>
+    ws: uWS.WebSocket<unknown>,
+    provider: VoiceProvider,
+    apiStyle: VoiceProvider
   ): Orchestrator;
 }
@@ -1,4 +1,5 @@
 export interface IUsageHandler {
   saveUsage(message: string): { inputTokens: number, outputTokens: number } | null;
+  getPendingTokens(): number;
   flush(): void;
 }
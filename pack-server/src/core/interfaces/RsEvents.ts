@@ -0,0 +1,53 @@
+import { ErrorCode, VoiceProvider } from 'pack-shared';
+
+export enum RsEventType {
+  PROVIDER_SWITCHED = 'rs.provider.switched',
+  ERROR = 'rs.error',
+  CREDITS_LOW = 'rs.credits.low',
+  CREDITS_UPDATED = 'rs.credits.updated',
+  LATENCY = 'rs.latency',
+}
+
+export enum RsCloseCode {
+  NO_CREDITS = 4402,
+  ACCOUNT_INACTIVE = 4403,
+  SESSION_EXPIRED = 4408,
+  SESSION_REPLACED = 4409,
+  TOO_MANY_SESSIONS = 4429,
+  UPSTREAM_UNAVAILABLE = 4503,
+}
+
+export type RsProviderSwitchedEvent = {
+  type: RsEventType.PROVIDER_SWITCHED;
+  from: VoiceProvider;
+  to: VoiceProvider;
+  code: number;
+  reason: string;
+};
+
+export type RsErrorEvent = {
+  type: RsEventType.ERROR;
+  code: ErrorCode;
+  message: string;
+  balance?: number;
+};
+
+export type RsCreditsLowEvent = {
+  type: RsEventType.CREDITS_LOW;
+  balance: number;
+  threshold: number;
+};
+
+export type RsCreditsUpdatedEvent = {
+  type: RsEventType.CREDITS_UPDATED;
+  balance: number;
+};
+
+export type RsLatencyEvent = {
+  type: RsEventType.LATENCY;
+  firstAudioMs: number | null;
+  turnMs: number;
+};
+
+export type RsEvent = RsProviderSwitchedEvent | RsErrorEvent | RsCreditsLowEvent | RsCreditsUpdatedEvent
+  | RsLatencyEvent;
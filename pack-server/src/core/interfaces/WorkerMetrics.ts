@@ -0,0 +1,28 @@
+import { MetricSnapshot } from 'pack-shared';
+
+export const METRICS_REQUEST_MESSAGE = 'rs.metrics.request';
+export const METRICS_COLLECT_MESSAGE = 'rs.metrics.collect';
+export const METRICS_SNAPSHOT_MESSAGE = 'rs.metrics.snapshot';
+export const METRICS_RESPONSE_MESSAGE = 'rs.metrics.response';
+
+export type MetricsRequestMessage = {
+  type: typeof METRICS_REQUEST_MESSAGE;
+  requestId: string;
+};
+
+export type MetricsCollectMessage = {
+  type: typeof METRICS_COLLECT_MESSAGE;
+  requestId: string;
+};
+
+export type MetricsSnapshotMessage = {
+  type: typeof METRICS_SNAPSHOT_MESSAGE;
+  requestId: string;
+  snapshot: MetricSnapshot[];
+};
+
+export type MetricsResponseMessage = {
+  type: typeof METRICS_RESPONSE_MESSAGE;
+  requestId: string;
+  body: string;
+};
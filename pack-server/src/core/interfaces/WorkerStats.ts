@@ -0,0 +1,18 @@
+import { ZmqHealthState } from './ZmqHealth';
+
+export const WORKER_STATS_MESSAGE = 'rs.worker.stats';
+
+export type WorkerStats = {
+  workerIndex: number;
+  pid: number;
+  activeSessions: number;
+  totalSessions: number;
+  rejectedUpgrades: number;
+  outboxPending: number;
+  zmqHealth: ZmqHealthState;
+};
+
+export type WorkerStatsMessage = {
+  type: typeof WORKER_STATS_MESSAGE;
+  stats: WorkerStats;
+};
@@ -0,0 +1,12 @@
+export enum ZmqHealthState {
+  CONNECTED = 'connected',
+  DEGRADED = 'degraded',
+  DOWN = 'down',
+}
+
+export type ZmqHealthListener = (state: ZmqHealthState, previous: ZmqHealthState) => void;
+
+export type ZmqHeartbeatOptions = {
+  intervalMs: number;
+  maxMissed: number;
+};
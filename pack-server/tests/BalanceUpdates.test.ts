@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as zmq from 'zeromq';
+import { AccountStatus, ErrorCode, SessionData, VoiceProvider, ZmqEventType, ZmqUtils } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { BalanceSubscriber } from '../src/core/impls/BalanceSubscriber';
+import { RsCloseCode, RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { BalanceUpdatesTestCases } from './BalanceUpdatesTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const EVENTS_SOCKET = `ipc:///tmp/rs-test-balance-updates-${process.pid}.sock`;
+
+describe('Push-based balance updates', () => {
+  let publisher: zmq.Publisher;
+  let subscriber: BalanceSubscriber;
+
+  const createSession = (accountId: string, sessionId: string): { orchestrator: Orchestrator; client: FakeClientSocket } => {
+    const data: SessionData = { error: '', accountId, sessionData: '', credits: 10000, creditAlertThresholds: '',
+      holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    const client = new FakeClientSocket({ sessionId });
+    const orchestrator = new TestServiceFactory(new RecordingAccountService(), subscriber)
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+    return { orchestrator, client };
+  };
+
+  const balancesOf = (client: FakeClientSocket) =>
+    client.sent.filter(m => m.type === RsEventType.CREDITS_UPDATED).map(m => m.balance);
+
+  const publish = async (frames: string[]) => {
+    await publisher.send(frames);
+    await wait(50);
+  };
+
+  beforeAll(async () => {
+    publisher = new zmq.Publisher();
+    await publisher.bind(EVENTS_SOCKET);
+    subscriber = new BalanceSubscriber(EVENTS_SOCKET);
+    await subscriber.connect();
+    await wait(100);
+  });
+
+  afterAll(() => {
+    subscriber.destroy();
+    publisher.close();
+  });
+
+  it('should deliver published balances to every session of the account', async () => {
+    const first = createSession('acc-push', 'sess-1');
+    const second = createSession('acc-push', 'sess-2');
+    const other = createSession('acc-other', 'sess-3');
+
+    await publish(ZmqUtils.encodeEvent(ZmqEventType.BALANCE_CHANGED, 'acc-push', 4321));
+
+    expect(balancesOf(first.client), BalanceUpdatesTestCases.EXPECT_ALL_SESSIONS_UPDATED).toEqual([4321]);
+    expect(balancesOf(second.client), BalanceUpdatesTestCases.EXPECT_ALL_SESSIONS_UPDATED).toEqual([4321]);
+    expect(balancesOf(other.client), BalanceUpdatesTestCases.EXPECT_OTHER_ACCOUNTS_UNTOUCHED).toEqual([]);
+
+    first.orchestrator.cleanup();
+    second.orchestrator.cleanup();
+    other.orchestrator.cleanup();
+  });
+
+  it('should close every session of the account when the balance is exhausted', async () => {
+    const first = createSession('acc-drain', 'sess-1');
+    const second = createSession('acc-drain', 'sess-2');
+
+    await publish(ZmqUtils.encodeEvent(ZmqEventType.BALANCE_CHANGED, 'acc-drain', -50));
+
+    expect(first.client.closed?.code, BalanceUpdatesTestCases.EXPECT_ALL_SESSIONS_CLOSED).toBe(RsCloseCode.NO_CREDITS);
+    expect(second.client.closed?.code, BalanceUpdatesTestCases.EXPECT_ALL_SESSIONS_CLOSED).toBe(RsCloseCode.NO_CREDITS);
+  });
+
+  it('should stop delivering balances after cleanup', async () => {
+    const live = createSession('acc-cleanup', 'sess-1');
+    const gone = createSession('acc-cleanup', 'sess-2');
+    gone.orchestrator.cleanup();
+
+    await publish([ZmqEventType.BALANCE_CHANGED, 'acc-cleanup']);
+    await publish(ZmqUtils.encodeEvent(ZmqEventType.BALANCE_CHANGED, 'acc-cleanup', 900));
+
+    expect(balancesOf(live.client), BalanceUpdatesTestCases.EXPECT_INVALID_EVENT_IGNORED).toEqual([900]);
+    expect(balancesOf(gone.client), BalanceUpdatesTestCases.EXPECT_UNREGISTERED_ON_CLEANUP).toEqual([]);
+
+    live.orchestrator.cleanup();
+  });
+
+  it('should close every session of the account when it is suspended', async () => {
+    const first = createSession('acc-suspend', 'sess-1');
+    const second = createSession('acc-suspend', 'sess-2');
+    const other = createSession('acc-active', 'sess-3');
+
+    await publish(ZmqUtils.encodeEvent(ZmqEventType.ACCOUNT_STATUS_CHANGED, 'acc-suspend', AccountStatus.SUSPENDED));
+
+    for (const session of [first, second]) {
+      expect(session.client.closed?.code, BalanceUpdatesTestCases.EXPECT_SUSPENDED_SESSIONS_CLOSED)
+        .toBe(RsCloseCode.ACCOUNT_INACTIVE);
+      expect(session.client.sent.find(m => m.type === RsEventType.ERROR)?.code,
+        BalanceUpdatesTestCases.EXPECT_SUSPENDED_SESSIONS_CLOSED).toBe(ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED);
+    }
+    expect(other.client.closed, BalanceUpdatesTestCases.EXPECT_OTHER_ACCOUNTS_UNTOUCHED).toBeNull();
+
+    other.orchestrator.cleanup();
+  });
+
+  it('should keep sessions open when the account becomes active', async () => {
+    const live = createSession('acc-reactivated', 'sess-1');
+
+    await publish(ZmqUtils.encodeEvent(ZmqEventType.ACCOUNT_STATUS_CHANGED, 'acc-reactivated', AccountStatus.ACTIVE));
+
+    expect(live.client.closed, BalanceUpdatesTestCases.EXPECT_ACTIVE_STATUS_IGNORED).toBeNull();
+    live.orchestrator.cleanup();
+  });
+});
@@ -0,0 +1,9 @@
+export enum BalanceUpdatesTestCases {
+  EXPECT_ALL_SESSIONS_UPDATED = 'Every live session of the account receives the published balance',
+  EXPECT_OTHER_ACCOUNTS_UNTOUCHED = 'Sessions of other accounts ignore the published balance',
+  EXPECT_ALL_SESSIONS_CLOSED = 'Every live session of the account closes when the published balance is exhausted',
+  EXPECT_UNREGISTERED_ON_CLEANUP = 'Cleaned up sessions no longer receive balance updates',
+  EXPECT_INVALID_EVENT_IGNORED = 'Malformed balance events are ignored',
+  EXPECT_SUSPENDED_SESSIONS_CLOSED = 'Every live session of a suspended account is closed with the status error',
+  EXPECT_ACTIVE_STATUS_IGNORED = 'Switching an account to active leaves its sessions open',
+}
@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import { spawn, ChildProcess } from 'child_process';
+import WebSocket from 'ws';
+import { Config, ConfigKeys, SessionData, VoiceProvider } from 'pack-shared';
+import { ServiceFactory as DbServiceFactory } from '@rs/db';
+import { ZmqService } from '../src/core/impls/ZmqService';
+import { FileOutbox } from '../src/core/impls/FileOutbox';
+import { AccountServiceZmq } from '../src/core/impls/AccountServiceZmq';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { WorkerStats } from '../src/core/interfaces/WorkerStats';
+import { ZmqHealthState } from '../src/core/interfaces/ZmqHealth';
+import { FakeOpenAIServer, FAKE_OPENAI_USAGE } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { ClusterTestCases } from './ClusterTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const AUDIO_APPEND = { type: 'input_audio_buffer.append', audio: 'AAAA' };
+const TEST_DIR = path.join(os.tmpdir(), `rs-test-cluster-${process.pid}`);
+const TCP_ENDPOINT = `tcp://127.0.0.1:${20000 + (process.pid % 20000)}`;
+const INITIAL_CREDITS = 100000;
+const RESPONSES_PER_WORKER = 3;
+const FORKED_PORT = 20000 + ((process.pid + 13) % 20000);
+const FORKED_URL = `http://127.0.0.1:${FORKED_PORT}`;
+const ADMIN_TOKEN = 'test-admin-token';
+const FORKED_SESSIONS = 2;
+const FORKED_REJECTED_UPGRADES = 10;
+const FORKED_STARTUP_MS = 20000;
+const FORKED_STOP_MS = 5000;
+
+type Worker = {
+  zmqService: ZmqService;
+  outbox: FileOutbox;
+  accountService: AccountServiceZmq;
+};
+
+describe('Cluster mode', () => {
+  let openai: FakeOpenAIServer;
+  let dbFactory: DbServiceFactory;
+  const workers: Worker[] = [];
+
+  const startWorker = async (index: number): Promise<Worker> => {
+    const zmqService = new ZmqService(TCP_ENDPOINT, 2000);
+    await zmqService.connect();
+    const outbox = new FileOutbox(zmqService, path.join(TEST_DIR, `outbox-${index}.log`), 50, 1000,
+      path.join(TEST_DIR, `outbox-${index}-dead.log`));
+    outbox.start();
+    return { zmqService, outbox, accountService: new AccountServiceZmq(zmqService, outbox) };
+  };
+
+  const runSession = async (worker: Worker, apiKey: string, sessionId: string): Promise<SessionData> => {
+    const sessionData = await worker.accountService.validateAndLoad(apiKey, sessionId);
+    const client = new FakeClientSocket({ sessionId });
+    const orchestrator = new TestServiceFactory(worker.accountService)
+      .getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+
+    orchestrator.connect();
+    await wait(100);
+    for (let i = 0; i < RESPONSES_PER_WORKER; i++) {
+      orchestrator.send(AUDIO_APPEND);
+      await wait(100);
+    }
+    orchestrator.cleanup();
+    return sessionData;
+  };
+
+  const waitForOutboxes = async () => {
+    for (let i = 0; i < 100 && workers.some(w => w.outbox.getPendingCount() > 0); i++) {
+      await wait(20);
+    }
+  };
+
+  beforeAll(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    process.env[ConfigKeys.DB_PATH] = path.join(TEST_DIR, 'cluster.db');
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = 'test-encryption-key-32chars!!';
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    Config.reset();
+
+    dbFactory = DbServiceFactory.getInstance();
+    await dbFactory.getMigrator().runAll();
+    await dbFactory.getZmqHandler().start(TCP_ENDPOINT);
+
+    workers.push(await startWorker(0), await startWorker(1));
+  });
+
+  afterAll(async () => {
+    for (const worker of workers) {
+      worker.outbox.stop();
+      worker.zmqService.destroy();
+    }
+    DbServiceFactory.reset();
+    await openai.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env[ConfigKeys.DB_PATH];
+    delete process.env[ConfigKeys.DB_ENCRYPTION_KEY];
+    Config.reset();
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should bill usage from two workers against one pack-db exactly once', async () => {
+    const accountRepo = dbFactory.getAccountRepo();
+    const account = await accountRepo.createAccount({ email: 'cluster@example.com', tokenRemaining: INITIAL_CREDITS });
+    const { plainKey } = await accountRepo.createApiKey({ accountId: account.id, label: 'Cluster' });
+
+    const sessions = await Promise.all([
+      runSession(workers[0], plainKey, 'sess-worker-0'),
+      runSession(workers[1], plainKey, 'sess-worker-1'),
+    ]);
+    expect(sessions.map(s => s.error), ClusterTestCases.EXPECT_BOTH_WORKERS_AUTHENTICATED).toEqual(['', '']);
+
+    await waitForOutboxes();
+
+    const billed = 2 * RESPONSES_PER_WORKER * FAKE_OPENAI_USAGE.total_tokens;
+    expect(await dbFactory.getAccountService().getCredits(account.id), ClusterTestCases.EXPECT_USAGE_BILLED_ONCE)
+      .toBe(INITIAL_CREDITS - billed);
+
+    const rows = await dbFactory.getDatabaseConnection().getDb()
+      .selectFrom('usage_metrics')
+      .select(['session_id', 'total_tokens'])
+      .where('account_id', '=', account.id)
+      .execute();
+    const totals = new Map<string, number>();
+    rows.forEach(row => totals.set(row.session_id, (totals.get(row.session_id) ?? 0) + row.total_tokens));
+    expect(Object.fromEntries(totals), ClusterTestCases.EXPECT_USAGE_ROWS_PER_WORKER).toEqual({
+      'sess-worker-0': billed / 2,
+      'sess-worker-1': billed / 2,
+    });
+
+    expect(await dbFactory.getHoldRepo().getHeldAmount(account.id), ClusterTestCases.EXPECT_HOLDS_RELEASED).toBe(0);
+  });
+
+  it('should give each worker its own outbox file', () => {
+    process.env[ConfigKeys.OUTBOX_PATH] = path.join(TEST_DIR, 'outbox.log');
+    process.env[ConfigKeys.CLUSTER_WORKER_INDEX] = '3';
+    process.env[ConfigKeys.ZMQ_SOCKET_PATH] = TCP_ENDPOINT;
+    Config.reset();
+    const outbox = ServiceFactory.getInstance().getOutbox();
+    outbox.start();
+
+    expect(fs.existsSync(path.join(TEST_DIR, 'outbox-3.log')), ClusterTestCases.EXPECT_OUTBOX_PATH_PER_WORKER).toBe(true);
+
+    ServiceFactory.reset();
+    delete process.env[ConfigKeys.OUTBOX_PATH];
+    delete process.env[ConfigKeys.CLUSTER_WORKER_INDEX];
+    delete process.env[ConfigKeys.ZMQ_SOCKET_PATH];
+  });
+
+  describe('with forked workers', () => {
+    let primary: ChildProcess;
+
+    const get = (urlPath: string): Promise<string> => new Promise((resolve, reject) => {
+      const headers = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+      http.get(`${FORKED_URL}${urlPath}`, { agent: false, headers }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => {
+          body += chunk;
+        });
+        res.on('end', () => resolve(body));
+      }).on('error', reject);
+    });
+
+    const collectStatuses = async (ready: (statuses: WorkerStats[]) => boolean): Promise<WorkerStats[]> => {
+      const statuses = new Map<number, WorkerStats>();
+      const deadline = Date.now() + FORKED_STARTUP_MS;
+      while (Date.now() < deadline) {
+        const body = await get('/status').catch(() => null);
+        if (body) {
+          const status = JSON.parse(body) as WorkerStats;
+          statuses.set(status.workerIndex, status);
+        }
+        const sorted = Array.from(statuses.values()).sort((a, b) => a.workerIndex - b.workerIndex);
+        if (ready(sorted)) return sorted;
+        await wait(50);
+      }
+      return Array.from(statuses.values()).sort((a, b) => a.workerIndex - b.workerIndex);
+    };
+
+    const runSession = (query: string): Promise<number> => new Promise((resolve) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${FORKED_PORT}/?${query}`);
+      socket.on('open', () => socket.send(JSON.stringify(AUDIO_APPEND)));
+      socket.on('message', (data) => {
+        if (JSON.parse(data.toString()).type === 'response.done') socket.close();
+      });
+      socket.on('close', () => resolve(101));
+      socket.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+      socket.on('error', () => resolve(0));
+    });
+
+    beforeAll(() => {
+      primary = spawn(process.execPath, ['--import', 'tsx', path.join(__dirname, '..', 'src', 'Startup.ts')], {
+        cwd: path.join(__dirname, '..'),
+        env: {
+          ...process.env,
+          [ConfigKeys.CLUSTER_WORKERS]: '2',
+          [ConfigKeys.CLUSTER_STATS_INTERVAL_MS]: '100',
+          [ConfigKeys.ZMQ_SOCKET_PATH]: TCP_ENDPOINT,
+          [ConfigKeys.OUTBOX_PATH]: path.join(TEST_DIR, 'forked', 'outbox.log'),
+          [ConfigKeys.RATE_LIMIT_IP_CAPACITY]: '1000',
+          [ConfigKeys.RATE_LIMIT_KEY_CAPACITY]: '1000',
+          [ConfigKeys.ADMIN_TOKEN]: ADMIN_TOKEN,
+          PORT: String(FORKED_PORT),
+          HOST: '127.0.0.1',
+        },
+        stdio: 'ignore',
+      });
+    });
+
+    afterAll(async () => {
+      if (primary.exitCode !== null || primary.signalCode !== null) return;
+
+      const exited = new Promise(resolve => primary.once('exit', resolve));
+      primary.kill('SIGTERM');
+      await Promise.race([exited, wait(FORKED_STOP_MS)]);
+      if (primary.exitCode === null && primary.signalCode === null) primary.kill('SIGKILL');
+    });
+
+    it('should serve sessions from two worker processes against one pack-db', async () => {
+      const started = await collectStatuses(statuses => statuses.length === 2
+        && statuses.every(status => status.zmqHealth === ZmqHealthState.CONNECTED));
+      expect(started.map(status => status.workerIndex), ClusterTestCases.EXPECT_WORKERS_FORKED).toEqual([0, 1]);
+      expect(new Set(started.map(status => status.pid)).size, ClusterTestCases.EXPECT_WORKERS_FORKED).toBe(2);
+      expect(started.every(status => status.pid !== process.pid && status.pid !== primary.pid),
+        ClusterTestCases.EXPECT_WORKERS_FORKED).toBe(true);
+      expect(started.map(status => status.zmqHealth), ClusterTestCases.EXPECT_FORKED_WORKERS_CONNECTED)
+        .toEqual([ZmqHealthState.CONNECTED, ZmqHealthState.CONNECTED]);
+
+      const accountRepo = dbFactory.getAccountRepo();
+      const account = await accountRepo.createAccount({ email: 'forked@example.com', tokenRemaining: INITIAL_CREDITS });
+      const { plainKey } = await accountRepo.createApiKey({ accountId: account.id, label: 'Forked' });
+
+      const accepted: number[] = [];
+      for (let i = 0; i < FORKED_SESSIONS; i++) {
+        accepted.push(await runSession(`rs_key=${plainKey}&rs_sessid=sess-forked-${i}`));
+      }
+      const rejected: number[] = [];
+      for (let i = 0; i < FORKED_REJECTED_UPGRADES; i++) {
+        rejected.push(await runSession(`rs_key=rs_invalid_key_${i}&rs_sessid=sess-rejected-${i}`));
+      }
+      expect(accepted, ClusterTestCases.EXPECT_FORKED_SESSIONS_SERVED).toEqual(Array(FORKED_SESSIONS).fill(101));
+
+      const billed = FORKED_SESSIONS * FAKE_OPENAI_USAGE.total_tokens;
+      const accountService = dbFactory.getAccountService();
+      for (let i = 0; i < 100 && await accountService.getCredits(account.id) !== INITIAL_CREDITS - billed; i++) {
+        await wait(50);
+      }
+      expect(await accountService.getCredits(account.id), ClusterTestCases.EXPECT_FORKED_USAGE_BILLED)
+        .toBe(INITIAL_CREDITS - billed);
+
+      const finished = await collectStatuses(statuses => statuses.length === 2
+        && statuses.reduce((sum, status) => sum + status.rejectedUpgrades, 0) === FORKED_REJECTED_UPGRADES);
+      expect(finished.reduce((sum, status) => sum + status.rejectedUpgrades, 0),
+        ClusterTestCases.EXPECT_FORKED_REJECTIONS_COUNTED).toBe(FORKED_REJECTED_UPGRADES);
+
+      const code = rejected[0];
+      for (let i = 0; i < 3; i++) {
+        const lines = (await get('/metrics')).split('\n');
+        expect(lines, ClusterTestCases.EXPECT_METRICS_AGGREGATED)
+          .toContain(`rs_upgrades_total{code="${code}"} ${FORKED_REJECTED_UPGRADES}`);
+        expect(lines, ClusterTestCases.EXPECT_METRICS_AGGREGATED)
+          .toContain(`rs_upgrades_total{code="101"} ${FORKED_SESSIONS}`);
+      }
+
+      expect(fs.readdirSync(path.join(TEST_DIR, 'forked')).filter(name => /^outbox-\d\.log$/.test(name)).sort(),
+        ClusterTestCases.EXPECT_OUTBOX_PATH_PER_WORKER).toEqual(['outbox-0.log', 'outbox-1.log']);
+    }, FORKED_STARTUP_MS * 2);
+  });
+});
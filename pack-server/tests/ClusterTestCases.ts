@@ -0,0 +1,13 @@
+export enum ClusterTestCases {
+  EXPECT_BOTH_WORKERS_AUTHENTICATED = 'Both workers load sessions from the shared pack-db',
+  EXPECT_USAGE_BILLED_ONCE = 'Usage from every worker is billed exactly once',
+  EXPECT_USAGE_ROWS_PER_WORKER = 'Each worker records usage for its own session',
+  EXPECT_HOLDS_RELEASED = 'Holds of both workers are released when their sessions end',
+  EXPECT_OUTBOX_PATH_PER_WORKER = 'Each worker gets its own outbox file',
+  EXPECT_WORKERS_FORKED = 'The primary forks one process per configured worker, each with its own index',
+  EXPECT_FORKED_WORKERS_CONNECTED = 'Every forked worker connects to the shared pack-db',
+  EXPECT_FORKED_SESSIONS_SERVED = 'Forked workers accept sessions on the shared port',
+  EXPECT_FORKED_USAGE_BILLED = 'Usage from forked workers is billed in the shared pack-db',
+  EXPECT_FORKED_REJECTIONS_COUNTED = 'Rejected upgrades are counted by the worker that served them',
+  EXPECT_METRICS_AGGREGATED = 'Every scrape returns the series of all workers added up',
+}
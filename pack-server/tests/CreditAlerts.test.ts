@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, SessionData, VoiceProvider } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { CreditAlertPolicy } from '../src/core/impls/CreditAlertPolicy';
+import { RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer, FAKE_OPENAI_USAGE } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { CreditAlertsTestCases } from './CreditAlertsTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const AUDIO_APPEND = { type: 'input_audio_buffer.append', audio: 'AAAA' };
+
+describe('CreditAlertPolicy', () => {
+  it('should resolve percent, absolute and invalid thresholds', () => {
+    expect(CreditAlertPolicy.parseThresholds('20%, 5%', 10000), CreditAlertsTestCases.EXPECT_PERCENT_THRESHOLDS)
+      .toEqual([2000, 500]);
+    expect(CreditAlertPolicy.parseThresholds('1000,5000,10%', 20000), CreditAlertsTestCases.EXPECT_ABSOLUTE_THRESHOLDS)
+      .toEqual([5000, 2000, 1000]);
+    expect(CreditAlertPolicy.parseThresholds('abc,-5,0,,300', 1000), CreditAlertsTestCases.EXPECT_INVALID_IGNORED)
+      .toEqual([300]);
+  });
+
+  it('should report each threshold once and the lowest when several are crossed', () => {
+    const policy = new CreditAlertPolicy('50%,20%,5%', 1000);
+
+    expect(policy.check(900), CreditAlertsTestCases.EXPECT_SINGLE_ALERT_PER_THRESHOLD).toBeNull();
+    expect(policy.check(500), CreditAlertsTestCases.EXPECT_SINGLE_ALERT_PER_THRESHOLD).toBe(500);
+    expect(policy.check(450), CreditAlertsTestCases.EXPECT_SINGLE_ALERT_PER_THRESHOLD).toBeNull();
+    expect(policy.check(40), CreditAlertsTestCases.EXPECT_LOWEST_CROSSED_REPORTED).toBe(50);
+    expect(policy.check(10), CreditAlertsTestCases.EXPECT_SINGLE_ALERT_PER_THRESHOLD).toBeNull();
+  });
+
+  it('should re-arm thresholds after a top-up', () => {
+    const policy = new CreditAlertPolicy('50%,20%', 1000);
+
+    expect(policy.check(150), CreditAlertsTestCases.EXPECT_LOWEST_CROSSED_REPORTED).toBe(200);
+    expect(policy.check(300), CreditAlertsTestCases.EXPECT_REARMED_AFTER_TOPUP).toBeNull();
+    expect(policy.check(190), CreditAlertsTestCases.EXPECT_REARMED_AFTER_TOPUP).toBe(200);
+  });
+});
+
+describe('Orchestrator credit events', () => {
+  let openai: FakeOpenAIServer;
+  let client: FakeClientSocket;
+
+  const createOrchestrator = (credits: number, creditAlertThresholds: string): Orchestrator => {
+    const data: SessionData = { error: '', accountId: 'acc-alerts', sessionData: '', credits, creditAlertThresholds,
+      holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    client = new FakeClientSocket({ sessionId: 'sess-alerts' });
+    return new TestServiceFactory(new RecordingAccountService())
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+  };
+
+  const eventsOf = (type: RsEventType) => client.sent.filter(m => m.type === type);
+
+  beforeAll(async () => {
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    process.env.CREDITS_LOW_THRESHOLDS = '90%';
+    Config.reset();
+  });
+
+  afterAll(async () => {
+    await openai.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env.CREDITS_LOW_THRESHOLDS;
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    openai.received = [];
+  });
+
+  it('should send rs.credits.low as the running balance crosses account thresholds', async () => {
+    const orchestrator = createOrchestrator(1000, '80%,50%');
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+
+    expect(eventsOf(RsEventType.CREDITS_LOW), CreditAlertsTestCases.EXPECT_LOW_EVENT_SENT).toEqual([
+      { type: RsEventType.CREDITS_LOW, balance: 1000 - FAKE_OPENAI_USAGE.total_tokens, threshold: 800 },
+      { type: RsEventType.CREDITS_LOW, balance: 1000 - 2 * FAKE_OPENAI_USAGE.total_tokens, threshold: 500 },
+    ]);
+
+    orchestrator.cleanup();
+    await wait(50);
+  });
+
+  it('should send rs.credits.updated when the balance is refreshed', async () => {
+    const orchestrator = createOrchestrator(10000, '5000');
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.onCreditsUpdated(4000);
+    orchestrator.onCreditsUpdated(20000);
+
+    expect(eventsOf(RsEventType.CREDITS_UPDATED), CreditAlertsTestCases.EXPECT_UPDATED_EVENT_SENT).toEqual([
+      { type: RsEventType.CREDITS_UPDATED, balance: 4000 },
+      { type: RsEventType.CREDITS_UPDATED, balance: 20000 },
+    ]);
+    expect(eventsOf(RsEventType.CREDITS_LOW), CreditAlertsTestCases.EXPECT_LOW_EVENT_SENT).toEqual([
+      { type: RsEventType.CREDITS_LOW, balance: 4000, threshold: 5000 },
+    ]);
+
+    orchestrator.cleanup();
+    await wait(50);
+  });
+
+  it('should fall back to configured thresholds and report on connect', async () => {
+    const withDefaults = createOrchestrator(1000, '');
+    withDefaults.connect();
+    await wait(100);
+    withDefaults.send(AUDIO_APPEND);
+    await wait(100);
+
+    expect(eventsOf(RsEventType.CREDITS_LOW), CreditAlertsTestCases.EXPECT_DEFAULT_THRESHOLDS).toEqual([
+      { type: RsEventType.CREDITS_LOW, balance: 1000 - FAKE_OPENAI_USAGE.total_tokens, threshold: 900 },
+    ]);
+    withDefaults.cleanup();
+
+    const belowThreshold = createOrchestrator(800, '1000');
+    belowThreshold.connect();
+
+    expect(eventsOf(RsEventType.CREDITS_LOW), CreditAlertsTestCases.EXPECT_ALERT_ON_CONNECT).toEqual([
+      { type: RsEventType.CREDITS_LOW, balance: 800, threshold: 1000 },
+    ]);
+    belowThreshold.cleanup();
+    await wait(50);
+  });
+});
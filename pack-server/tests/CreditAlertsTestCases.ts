@@ -0,0 +1,12 @@
+export enum CreditAlertsTestCases {
+  EXPECT_PERCENT_THRESHOLDS = 'Percent thresholds resolved against the balance at connect',
+  EXPECT_ABSOLUTE_THRESHOLDS = 'Absolute thresholds used as token values',
+  EXPECT_INVALID_IGNORED = 'Invalid and non-positive thresholds ignored',
+  EXPECT_SINGLE_ALERT_PER_THRESHOLD = 'Each threshold reported once while the balance stays below it',
+  EXPECT_LOWEST_CROSSED_REPORTED = 'Lowest threshold reported when several are crossed at once',
+  EXPECT_REARMED_AFTER_TOPUP = 'Threshold re-armed after the balance rises above it',
+  EXPECT_LOW_EVENT_SENT = 'Client receives rs.credits.low when a threshold is crossed',
+  EXPECT_UPDATED_EVENT_SENT = 'Client receives rs.credits.updated when the balance is refreshed',
+  EXPECT_DEFAULT_THRESHOLDS = 'Configured default thresholds used when the account has none',
+  EXPECT_ALERT_ON_CONNECT = 'Balance already below an absolute threshold reported on connect',
+}
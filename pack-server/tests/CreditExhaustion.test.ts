@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, ErrorCode, SessionData, VoiceProvider } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { RsCloseCode, RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer, FAKE_OPENAI_INPUT_TRANSCRIPT, FAKE_OPENAI_USAGE } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { CreditExhaustionTestCases } from './CreditExhaustionTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const AUDIO_APPEND = { type: 'input_audio_buffer.append', audio: 'AAAA' };
+
+describe('Credit exhaustion', () => {
+  let openai: FakeOpenAIServer;
+  let accountService: RecordingAccountService;
+  let client: FakeClientSocket;
+
+  const createOrchestrator = (credits: number): Orchestrator => {
+    const data: SessionData = { error: '', accountId: 'acc-credits', sessionData: '', credits, creditAlertThresholds: '',
+      holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    client = new FakeClientSocket({ sessionId: 'sess-credits' });
+    return new TestServiceFactory(accountService)
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+  };
+
+  const setFinishInFlight = (enabled: boolean) => {
+    process.env.CREDITS_FINISH_IN_FLIGHT_RESPONSE = String(enabled);
+    Config.reset();
+  };
+
+  const typeIndex = (type: string) => client.sent.findIndex(m => m.type === type);
+
+  beforeAll(async () => {
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    Config.reset();
+  });
+
+  afterAll(async () => {
+    await openai.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env.CREDITS_FINISH_IN_FLIGHT_RESPONSE;
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    openai.received = [];
+    openai.holdResponses = false;
+    accountService = new RecordingAccountService();
+    setFinishInFlight(false);
+  });
+
+  it('should close with 4402 after the response that exhausts the credits', async () => {
+    const orchestrator = createOrchestrator(100);
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(200);
+
+    expect(typeIndex('response.done'), CreditExhaustionTestCases.EXPECT_RESPONSE_DELIVERED_FIRST)
+      .toBeLessThan(typeIndex(RsEventType.ERROR));
+    expect(client.sent[typeIndex(RsEventType.ERROR)], CreditExhaustionTestCases.EXPECT_NO_CREDITS_ERROR).toMatchObject({
+      code: ErrorCode.EXTERNAL_NO_CREDITS,
+      balance: 100 - FAKE_OPENAI_USAGE.total_tokens,
+    });
+    expect(client.closed?.code, CreditExhaustionTestCases.EXPECT_CLOSE_CODE).toBe(RsCloseCode.NO_CREDITS);
+    expect(accountService.usage, CreditExhaustionTestCases.EXPECT_USAGE_FLUSHED).toEqual([{
+      provider: VoiceProvider.OPENAI,
+      inputTokens: FAKE_OPENAI_USAGE.input_tokens,
+      outputTokens: FAKE_OPENAI_USAGE.output_tokens,
+    }]);
+    expect(accountService.conversations.join(''), CreditExhaustionTestCases.EXPECT_CONVERSATION_FLUSHED)
+      .toContain(FAKE_OPENAI_INPUT_TRANSCRIPT);
+  });
+
+  it('should count usage not yet flushed against a pushed balance', async () => {
+    const orchestrator = createOrchestrator(100000);
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+    expect(accountService.usage, CreditExhaustionTestCases.EXPECT_PENDING_USAGE_SUBTRACTED).toEqual([]);
+
+    orchestrator.onCreditsUpdated(FAKE_OPENAI_USAGE.total_tokens);
+    expect(client.sent.find(m => m.type === RsEventType.CREDITS_UPDATED),
+      CreditExhaustionTestCases.EXPECT_PENDING_USAGE_SUBTRACTED).toMatchObject({ balance: 0 });
+    expect(client.closed?.code, CreditExhaustionTestCases.EXPECT_CLOSE_CODE).toBe(RsCloseCode.NO_CREDITS);
+  });
+
+  it('should not forward client messages when the balance is already spent', async () => {
+    const orchestrator = createOrchestrator(0);
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+
+    expect(openai.received, CreditExhaustionTestCases.EXPECT_MESSAGE_NOT_FORWARDED).toEqual([]);
+    expect(client.sent, CreditExhaustionTestCases.EXPECT_NO_CREDITS_ERROR).toEqual([{
+      type: RsEventType.ERROR,
+      code: ErrorCode.EXTERNAL_NO_CREDITS,
+      message: 'Insufficient credits',
+      balance: 0,
+    }]);
+    expect(client.closed?.code, CreditExhaustionTestCases.EXPECT_CLOSE_CODE).toBe(RsCloseCode.NO_CREDITS);
+  });
+
+  it('should let the in-flight response finish when enabled', async () => {
+    setFinishInFlight(true);
+    openai.holdResponses = true;
+    const orchestrator = createOrchestrator(1000);
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+
+    orchestrator.onCreditsUpdated(0);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+
+    expect(client.closed, CreditExhaustionTestCases.EXPECT_IN_FLIGHT_FINISHED).toBeNull();
+    expect(openai.received.filter(m => m.type === AUDIO_APPEND.type).length,
+      CreditExhaustionTestCases.EXPECT_MESSAGE_NOT_FORWARDED).toBe(1);
+
+    openai.releaseResponses();
+    await wait(100);
+
+    expect(typeIndex('response.done'), CreditExhaustionTestCases.EXPECT_IN_FLIGHT_FINISHED)
+      .toBeLessThan(typeIndex(RsEventType.ERROR));
+    expect(client.sent[typeIndex(RsEventType.ERROR)].balance, CreditExhaustionTestCases.EXPECT_BALANCE_REPORTED)
+      .toBe(-FAKE_OPENAI_USAGE.total_tokens);
+    expect(client.closed?.code, CreditExhaustionTestCases.EXPECT_CLOSE_CODE).toBe(RsCloseCode.NO_CREDITS);
+    expect(accountService.usage.length, CreditExhaustionTestCases.EXPECT_USAGE_FLUSHED).toBe(1);
+  });
+
+  it('should close immediately when in-flight responses are not finished', async () => {
+    openai.holdResponses = true;
+    const orchestrator = createOrchestrator(1000);
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+
+    orchestrator.onCreditsUpdated(0);
+
+    expect(client.closed?.code, CreditExhaustionTestCases.EXPECT_IMMEDIATE_CLOSE).toBe(RsCloseCode.NO_CREDITS);
+    expect(typeIndex('response.done'), CreditExhaustionTestCases.EXPECT_IMMEDIATE_CLOSE).toBe(-1);
+
+    openai.releaseResponses();
+    await wait(100);
+  });
+});
@@ -0,0 +1,12 @@
+export enum CreditExhaustionTestCases {
+  EXPECT_RESPONSE_DELIVERED_FIRST = 'Response that exhausted the credits delivered before rs.error',
+  EXPECT_NO_CREDITS_ERROR = 'Client receives rs.error with EXTERNAL_NO_CREDITS',
+  EXPECT_BALANCE_REPORTED = 'rs.error carries the remaining balance',
+  EXPECT_CLOSE_CODE = 'Client socket closed with the no-credits close code',
+  EXPECT_USAGE_FLUSHED = 'Usage flushed before the session is closed',
+  EXPECT_CONVERSATION_FLUSHED = 'Conversation checkpoint flushed before the session is closed',
+  EXPECT_PENDING_USAGE_SUBTRACTED = 'A pushed balance is reduced by the session usage not yet flushed to pack-db',
+  EXPECT_MESSAGE_NOT_FORWARDED = 'Client message not forwarded once credits are exhausted',
+  EXPECT_IN_FLIGHT_FINISHED = 'In-flight response allowed to finish before closing',
+  EXPECT_IMMEDIATE_CLOSE = 'Session closed immediately when in-flight responses are not finished',
+}
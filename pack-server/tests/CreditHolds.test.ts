@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, ConfigKeys, ErrorCode, SessionData, VoiceProvider } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { RsCloseCode, RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer, FAKE_OPENAI_USAGE } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { CreditHoldsTestCases } from './CreditHoldsTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const AUDIO_APPEND = { type: 'input_audio_buffer.append', audio: 'AAAA' };
+const HOLD_ID = 'hold-test';
+const KEY_HASH = 'key-hash-test';
+
+describe('Orchestrator credit holds', () => {
+  let openai: FakeOpenAIServer;
+  let accountService: RecordingAccountService;
+  let client: FakeClientSocket;
+
+  const createOrchestrator = (reserved: number): Orchestrator => {
+    const data: SessionData = { error: '', accountId: 'acc-holds', sessionData: '', credits: 1000000,
+      creditAlertThresholds: '', holdId: HOLD_ID, reserved, keyHash: KEY_HASH, maxSessionSeconds: 0,
+      maxConcurrentSessions: 0 };
+    client = new FakeClientSocket({ sessionId: 'sess-holds' });
+    return new TestServiceFactory(accountService)
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+  };
+
+  const respond = async (orchestrator: Orchestrator) => {
+    orchestrator.send(AUDIO_APPEND);
+    await wait(100);
+  };
+
+  beforeAll(async () => {
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    Config.reset();
+  });
+
+  afterAll(async () => {
+    await openai.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    openai.received = [];
+    accountService = new RecordingAccountService();
+  });
+
+  it('should reserve more once the hold runs low', async () => {
+    accountService.reserveGrant = 1000;
+    const orchestrator = createOrchestrator(4 * FAKE_OPENAI_USAGE.total_tokens);
+
+    orchestrator.connect();
+    await wait(100);
+    await respond(orchestrator);
+    expect(accountService.reservations, CreditHoldsTestCases.EXPECT_NO_REFILL_ABOVE_HALF).toEqual([]);
+
+    await respond(orchestrator);
+    await respond(orchestrator);
+    expect(accountService.reservations, CreditHoldsTestCases.EXPECT_REFILL_BELOW_HALF).toEqual([HOLD_ID]);
+    expect(client.closed, CreditHoldsTestCases.EXPECT_SESSION_KEPT_OPEN).toBeNull();
+
+    orchestrator.cleanup();
+    expect(accountService.usageHoldIds, CreditHoldsTestCases.EXPECT_USAGE_CARRIES_HOLD).toEqual([HOLD_ID]);
+    expect(accountService.released, CreditHoldsTestCases.EXPECT_HOLD_RELEASED).toEqual([HOLD_ID]);
+  });
+
+  it('should close with 4402 when the hold is spent and cannot be refilled', async () => {
+    accountService.reserveGrant = 0;
+    const orchestrator = createOrchestrator(FAKE_OPENAI_USAGE.total_tokens + 100);
+
+    orchestrator.connect();
+    await wait(100);
+    await respond(orchestrator);
+    expect(client.closed, CreditHoldsTestCases.EXPECT_SESSION_KEPT_OPEN).toBeNull();
+
+    await respond(orchestrator);
+    expect(client.closed?.code, CreditHoldsTestCases.EXPECT_CLOSED_WHEN_HOLD_EMPTY).toBe(RsCloseCode.NO_CREDITS);
+    expect(accountService.released, CreditHoldsTestCases.EXPECT_HOLD_RELEASED).toEqual([HOLD_ID]);
+  });
+
+  it('should close with the key budget error once the hold capped by the key budget is spent', async () => {
+    accountService.reserveGrant = 0;
+    accountService.reserveError = ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED;
+    const orchestrator = createOrchestrator(FAKE_OPENAI_USAGE.total_tokens + 100);
+
+    orchestrator.connect();
+    await wait(100);
+    await respond(orchestrator);
+    expect(accountService.reservationKeyHashes, CreditHoldsTestCases.EXPECT_RESERVATION_CARRIES_KEY)
+      .toEqual([KEY_HASH]);
+    expect(client.closed, CreditHoldsTestCases.EXPECT_BUDGET_HOLD_USED_FIRST).toBeNull();
+
+    await respond(orchestrator);
+    const error = client.sent.find(event => event.type === RsEventType.ERROR);
+    expect(error?.code, CreditHoldsTestCases.EXPECT_CLOSED_WHEN_KEY_BUDGET_USED)
+      .toBe(ErrorCode.EXTERNAL_KEY_BUDGET_EXHAUSTED);
+    expect(client.closed?.code, CreditHoldsTestCases.EXPECT_CLOSED_WHEN_KEY_BUDGET_USED).toBe(RsCloseCode.NO_CREDITS);
+  });
+
+  it('should keep refreshing the hold of an idle session until cleanup', async () => {
+    process.env[ConfigKeys.CREDIT_HOLD_TTL_MS] = '150';
+    Config.reset();
+    const orchestrator = createOrchestrator(1000);
+
+    orchestrator.connect();
+    await wait(250);
+    expect(accountService.refreshed.length, CreditHoldsTestCases.EXPECT_IDLE_HOLD_REFRESHED)
+      .toBeGreaterThanOrEqual(3);
+    expect(accountService.refreshed.every(holdId => holdId === HOLD_ID),
+      CreditHoldsTestCases.EXPECT_IDLE_HOLD_REFRESHED).toBe(true);
+
+    orchestrator.cleanup();
+    const refreshes = accountService.refreshed.length;
+    await wait(150);
+    expect(accountService.refreshed.length, CreditHoldsTestCases.EXPECT_REFRESH_STOPPED).toBe(refreshes);
+    delete process.env[ConfigKeys.CREDIT_HOLD_TTL_MS];
+    Config.reset();
+  });
+});
@@ -0,0 +1,13 @@
+export enum CreditHoldsTestCases {
+  EXPECT_REFILL_BELOW_HALF = 'More credits reserved once the hold drops below half of the initial reservation',
+  EXPECT_NO_REFILL_ABOVE_HALF = 'No reservation while the hold is above half of the initial reservation',
+  EXPECT_SESSION_KEPT_OPEN = 'Session stays open while the hold can be refilled',
+  EXPECT_CLOSED_WHEN_HOLD_EMPTY = 'Session closes with 4402 once the hold is spent and no more can be reserved',
+  EXPECT_RESERVATION_CARRIES_KEY = 'Reservations carry the key hash so pack-db can cap them at the key budget',
+  EXPECT_BUDGET_HOLD_USED_FIRST = 'Session stays open while the hold left under the key budget is not spent',
+  EXPECT_CLOSED_WHEN_KEY_BUDGET_USED = 'Session closes with a key budget rs.error once the capped hold is spent',
+  EXPECT_USAGE_CARRIES_HOLD = 'Usage reported against the session hold',
+  EXPECT_HOLD_RELEASED = 'Hold released on cleanup',
+  EXPECT_IDLE_HOLD_REFRESHED = 'The hold of an idle session is refreshed several times per TTL',
+  EXPECT_REFRESH_STOPPED = 'Hold refreshes stop once the session is cleaned up',
+}
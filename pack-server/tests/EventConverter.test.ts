@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { VoiceProvider } from 'pack-shared';
+import { OpenAIToGeminiConverter } from '../src/core/impls/OpenAIToGeminiConverter';
+import { GeminiToOpenAIConverter } from '../src/core/impls/GeminiToOpenAIConverter';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { IEventConverter } from '../src/core/interfaces/IEventConverter';
+import { ConverterFixture, OPENAI_TO_GEMINI_FIXTURES } from './fixtures/OpenAIToGeminiFixtures';
+import { GEMINI_TO_OPENAI_FIXTURES } from './fixtures/GeminiToOpenAIFixtures';
+import { EventConverterTestCases } from './EventConverterTestCases';
+
+const run = (converter: IEventConverter, fixture: ConverterFixture): unknown[] =>
+  fixture.input.flatMap((event) => converter.convert(JSON.stringify(event))).map((m) => JSON.parse(m));
+
+describe('Event Converters', () => {
+  it.each(OPENAI_TO_GEMINI_FIXTURES)('OpenAI → Gemini: $name', (fixture) => {
+    expect(run(new OpenAIToGeminiConverter(), fixture), EventConverterTestCases.EXPECT_OPENAI_TO_GEMINI)
+      .toEqual(fixture.expected);
+  });
+
+  it.each(GEMINI_TO_OPENAI_FIXTURES)('Gemini → OpenAI: $name', (fixture) => {
+    expect(run(new GeminiToOpenAIConverter(), fixture), EventConverterTestCases.EXPECT_GEMINI_TO_OPENAI)
+      .toEqual(fixture.expected);
+  });
+
+  it('should drop messages that are not valid JSON', () => {
+    expect(new OpenAIToGeminiConverter().convert('{not json'), EventConverterTestCases.EXPECT_INVALID_JSON_DROPPED)
+      .toEqual([]);
+    expect(new GeminiToOpenAIConverter().convert('{not json'), EventConverterTestCases.EXPECT_INVALID_JSON_DROPPED)
+      .toEqual([]);
+  });
+
+  it('should not create a converter when API style matches the provider', () => {
+    const factory = ServiceFactory.getInstance();
+    expect(factory.getNewEventConverter(VoiceProvider.OPENAI, VoiceProvider.OPENAI),
+      EventConverterTestCases.EXPECT_SAME_STYLE_NO_CONVERTER).toBeNull();
+    expect(factory.getNewEventConverter(VoiceProvider.GEMINI, VoiceProvider.GEMINI),
+      EventConverterTestCases.EXPECT_SAME_STYLE_NO_CONVERTER).toBeNull();
+    expect(factory.getNewEventConverter(VoiceProvider.OPENAI, VoiceProvider.GEMINI))
+      .toBeInstanceOf(OpenAIToGeminiConverter);
+    expect(factory.getNewEventConverter(VoiceProvider.GEMINI, VoiceProvider.OPENAI))
+      .toBeInstanceOf(GeminiToOpenAIConverter);
+  });
+
+  it('should preserve session settings across a round trip', () => {
+    const sessionUpdate = OPENAI_TO_GEMINI_FIXTURES[0].input[0] as any;
+    const [setup] = new OpenAIToGeminiConverter().convert(JSON.stringify(sessionUpdate));
+    const [roundTrip] = new GeminiToOpenAIConverter().convert(setup).map((m) => JSON.parse(m));
+
+    expect(roundTrip.session.instructions, EventConverterTestCases.EXPECT_SESSION_ROUND_TRIP)
+      .toBe(sessionUpdate.session.instructions);
+    expect(roundTrip.session.audio.output.voice, EventConverterTestCases.EXPECT_SESSION_ROUND_TRIP)
+      .toBe(sessionUpdate.session.audio.output.voice);
+  });
+});
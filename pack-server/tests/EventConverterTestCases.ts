@@ -0,0 +1,7 @@
+export enum EventConverterTestCases {
+  EXPECT_OPENAI_TO_GEMINI = 'OpenAI event converted to the expected Gemini messages',
+  EXPECT_GEMINI_TO_OPENAI = 'Gemini message converted to the expected OpenAI events',
+  EXPECT_INVALID_JSON_DROPPED = 'Invalid JSON produces no converted messages',
+  EXPECT_SAME_STYLE_NO_CONVERTER = 'No converter created when API style matches the provider',
+  EXPECT_SESSION_ROUND_TRIP = 'Session instructions and voice survive an OpenAI → Gemini → OpenAI round trip',
+}
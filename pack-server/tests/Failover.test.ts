@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, ConfigKeys, SessionData, VoiceProvider } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { FailoverPolicy } from '../src/core/impls/FailoverPolicy';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer, FAKE_OPENAI_INPUT_TRANSCRIPT, FAKE_OPENAI_OUTPUT_TRANSCRIPT, FAKE_OPENAI_USAGE } from './utils/FakeOpenAIServer';
+import { FakeGeminiServer, FAKE_GEMINI_USAGE } from './utils/FakeGeminiServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { FailoverTestCases } from './FailoverTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const STORED_SESSION = JSON.stringify({
+  type: 'session.update',
+  session: { type: 'realtime', instructions: 'Stored instructions', output_modalities: ['audio'] },
+});
+
+describe('Provider failover', () => {
+  let openai: FakeOpenAIServer;
+  let gemini: FakeGeminiServer;
+  let accountService: RecordingAccountService;
+  let client: FakeClientSocket;
+  let orchestrator: Orchestrator;
+
+  const createOrchestrator = (sessionData: string): Orchestrator => {
+    const data: SessionData = { error: '', accountId: 'acc-failover', sessionData, credits: 1000000, creditAlertThresholds: '',
+      holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    client = new FakeClientSocket({ sessionId: 'sess-failover' });
+    return new TestServiceFactory(accountService)
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+  };
+
+  const switchEvents = () => client.sent.filter(m => m.type === RsEventType.PROVIDER_SWITCHED);
+
+  beforeAll(async () => {
+    openai = new FakeOpenAIServer();
+    gemini = new FakeGeminiServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.GEMINI_API_KEY = 'test-gemini-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    process.env.GEMINI_LIVE_URL = await gemini.start();
+    process.env.FAILOVER_PROVIDER = VoiceProvider.GEMINI;
+    process.env.FAILOVER_MAX_FAILURES = '2';
+    process.env.RECONNECT_INITIAL_DELAY_MS = '10';
+    Config.reset();
+  });
+
+  afterAll(async () => {
+    await openai.stop();
+    await gemini.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env.GEMINI_LIVE_URL;
+    delete process.env.FAILOVER_PROVIDER;
+    delete process.env.FAILOVER_MAX_FAILURES;
+    delete process.env.RECONNECT_INITIAL_DELAY_MS;
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    openai.received = [];
+    openai.connectionAttempts = 0;
+    openai.rejectConnections = false;
+    gemini.received = [];
+    accountService = new RecordingAccountService();
+  });
+
+  it('should switch to the secondary provider after consecutive failures', async () => {
+    openai.rejectConnections = true;
+    orchestrator = createOrchestrator(STORED_SESSION);
+
+    orchestrator.connect();
+    await wait(500);
+
+    expect(openai.connectionAttempts, FailoverTestCases.EXPECT_PRIMARY_RETRIED).toBe(2);
+    expect(gemini.received[0]?.setup, FailoverTestCases.EXPECT_SWITCHED_TO_SECONDARY).toBeDefined();
+    expect(gemini.received[0].setup.systemInstruction.parts[0].text,
+      FailoverTestCases.EXPECT_STORED_SESSION_REPLAYED).toBe('Stored instructions');
+    expect(switchEvents(), FailoverTestCases.EXPECT_SWITCH_EVENT).toEqual([
+      expect.objectContaining({ from: VoiceProvider.OPENAI, to: VoiceProvider.GEMINI }),
+    ]);
+
+    orchestrator.send({ type: 'input_audio_buffer.append', audio: 'AAAA' });
+    await wait(200);
+
+    const done = client.sent.find(m => m.type === 'response.done');
+    expect(done?.response.usage.input_tokens, FailoverTestCases.EXPECT_CLIENT_STYLE_KEPT)
+      .toBe(FAKE_GEMINI_USAGE.promptTokenCount);
+
+    orchestrator.cleanup();
+    await wait(100);
+
+    expect(accountService.usage[0], FailoverTestCases.EXPECT_USAGE_PER_PROVIDER).toEqual({
+      provider: VoiceProvider.GEMINI,
+      inputTokens: FAKE_GEMINI_USAGE.promptTokenCount,
+      outputTokens: FAKE_GEMINI_USAGE.responseTokenCount,
+    });
+  });
+
+  it('should fail over immediately on 1011 and inject the conversation context', async () => {
+    orchestrator = createOrchestrator('');
+
+    orchestrator.connect();
+    await wait(200);
+
+    orchestrator.send({
+      type: 'session.update',
+      session: { type: 'realtime', instructions: 'Live instructions', audio: { output: { voice: 'coral' } } },
+    });
+    orchestrator.send({ type: 'input_audio_buffer.append', audio: 'AAAA' });
+    await wait(200);
+
+    openai.closeAll(1011, 'server error');
+    await wait(300);
+
+    expect(openai.connectionAttempts, FailoverTestCases.EXPECT_IMMEDIATE_FAILOVER).toBe(1);
+    const [event] = switchEvents();
+    expect(event?.code, FailoverTestCases.EXPECT_SWITCH_CLOSE_CODE).toBe(1011);
+
+    const setup = gemini.received[0]?.setup;
+    expect(setup?.systemInstruction.parts[0].text, FailoverTestCases.EXPECT_LIVE_SESSION_REPLAYED)
+      .toBe('Live instructions');
+    expect(setup?.generationConfig.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName,
+      FailoverTestCases.EXPECT_LIVE_SESSION_REPLAYED).toBe('Aoede');
+
+    const turns = gemini.received.filter(m => m.clientContent).map(m => m.clientContent.turns[0]);
+    expect(turns, FailoverTestCases.EXPECT_CONTEXT_INJECTED).toEqual([
+      { role: 'user', parts: [{ text: FAKE_OPENAI_INPUT_TRANSCRIPT }] },
+      { role: 'model', parts: [{ text: FAKE_OPENAI_OUTPUT_TRANSCRIPT }] },
+    ]);
+    expect(accountService.usage[0], FailoverTestCases.EXPECT_USAGE_PER_PROVIDER).toEqual({
+      provider: VoiceProvider.OPENAI,
+      inputTokens: FAKE_OPENAI_USAGE.input_tokens,
+      outputTokens: FAKE_OPENAI_USAGE.output_tokens,
+    });
+
+    orchestrator.cleanup();
+    await wait(100);
+  });
+
+  it('should reconnect to the same provider on a normal closure', async () => {
+    orchestrator = createOrchestrator(STORED_SESSION);
+
+    orchestrator.connect();
+    await wait(200);
+
+    openai.closeAll(1000, 'done');
+    await wait(300);
+
+    expect(openai.connectionAttempts, FailoverTestCases.EXPECT_NO_SWITCH_ON_NORMAL_CLOSE).toBe(2);
+    expect(switchEvents(), FailoverTestCases.EXPECT_NO_SWITCH_ON_NORMAL_CLOSE).toEqual([]);
+    expect(gemini.received, FailoverTestCases.EXPECT_NO_SWITCH_ON_NORMAL_CLOSE).toEqual([]);
+
+    orchestrator.cleanup();
+    await wait(100);
+  });
+});
+
+describe('FailoverPolicy', () => {
+  const failoverCodes = FailoverPolicy.parseCloseCodes('1011,4000-4999');
+
+  it('should parse single codes and ranges', () => {
+    expect(failoverCodes, FailoverTestCases.EXPECT_CLOSE_CODES_PARSED).toEqual([[1011, 1011], [4000, 4999]]);
+  });
+
+  it('should never switch without a secondary provider', () => {
+    const policy = new FailoverPolicy(null, 1, failoverCodes);
+    expect(policy.onFailure(VoiceProvider.OPENAI, 1011), FailoverTestCases.EXPECT_NO_SECONDARY_NO_SWITCH).toBeNull();
+    expect(policy.onFailure(VoiceProvider.OPENAI, 1006), FailoverTestCases.EXPECT_NO_SECONDARY_NO_SWITCH).toBeNull();
+  });
+
+  it('should not switch away from the secondary provider', () => {
+    const policy = new FailoverPolicy(VoiceProvider.GEMINI, 1, failoverCodes);
+    expect(policy.onFailure(VoiceProvider.GEMINI, 4500), FailoverTestCases.EXPECT_NO_SWITCH_BACK).toBeNull();
+  });
+
+  it('should reset consecutive failures after a successful connect', () => {
+    const policy = new FailoverPolicy(VoiceProvider.GEMINI, 2, failoverCodes);
+    expect(policy.onFailure(VoiceProvider.OPENAI, 1006), FailoverTestCases.EXPECT_FAILURES_RESET_ON_CONNECT).toBeNull();
+    policy.onConnected();
+    expect(policy.onFailure(VoiceProvider.OPENAI, 1006), FailoverTestCases.EXPECT_FAILURES_RESET_ON_CONNECT).toBeNull();
+    expect(policy.onFailure(VoiceProvider.OPENAI, 1006), FailoverTestCases.EXPECT_FAILURES_RESET_ON_CONNECT)
+      .toBe(VoiceProvider.GEMINI);
+  });
+
+  it('should reject an unknown failover provider', () => {
+    process.env[ConfigKeys.FAILOVER_PROVIDER] = 'GEMNI';
+    Config.reset();
+    expect(() => ServiceFactory.getInstance().getFailoverProvider(), FailoverTestCases.EXPECT_UNKNOWN_PROVIDER_REJECTED)
+      .toThrow(`Unsupported ${ConfigKeys.FAILOVER_PROVIDER}: GEMNI`);
+    delete process.env[ConfigKeys.FAILOVER_PROVIDER];
+    Config.reset();
+  });
+});
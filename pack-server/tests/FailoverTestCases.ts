@@ -0,0 +1,18 @@
+export enum FailoverTestCases {
+  EXPECT_PRIMARY_RETRIED = 'Primary provider retried until the failure threshold',
+  EXPECT_SWITCHED_TO_SECONDARY = 'Orchestrator connected to the secondary provider',
+  EXPECT_SWITCH_EVENT = 'Client received rs.provider.switched with from/to providers',
+  EXPECT_SWITCH_CLOSE_CODE = 'rs.provider.switched carries the upstream close code',
+  EXPECT_STORED_SESSION_REPLAYED = 'Stored session.update replayed to the secondary provider',
+  EXPECT_LIVE_SESSION_REPLAYED = 'Latest session.updated replayed to the secondary provider',
+  EXPECT_CONTEXT_INJECTED = 'Conversation so far injected into the secondary provider',
+  EXPECT_CLIENT_STYLE_KEPT = 'Client keeps receiving events in its API style after the switch',
+  EXPECT_USAGE_PER_PROVIDER = 'Usage recorded against the provider that produced it',
+  EXPECT_IMMEDIATE_FAILOVER = 'Failover close code switches without retrying the primary',
+  EXPECT_NO_SWITCH_ON_NORMAL_CLOSE = 'Normal closure reconnects to the same provider',
+  EXPECT_NO_SECONDARY_NO_SWITCH = 'Policy without a secondary provider never switches',
+  EXPECT_NO_SWITCH_BACK = 'Policy never switches away from the secondary provider',
+  EXPECT_FAILURES_RESET_ON_CONNECT = 'Consecutive failure count resets after a successful connect',
+  EXPECT_CLOSE_CODES_PARSED = 'Close code list with ranges parsed',
+  EXPECT_UNKNOWN_PROVIDER_REJECTED = 'An unknown FAILOVER_PROVIDER is rejected instead of being used as a provider',
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, VoiceProvider, MetricsRegistry } from 'pack-shared';
+import { GeminiLiveConnection, GEMINI_DEFAULT_MODEL } from '../src/GeminiLiveConnection';
+import { UsageHandler } from '../src/core/impls/UsageHandler';
+import { ServerMetrics } from '../src/core/impls/ServerMetrics';
+import { CheckpointHandler } from '../src/core/impls/CheckpointHandler';
+import { IConnectionHandler } from '../src/core/interfaces/IConnectionHandler';
+import {
+  FakeGeminiServer,
+  FAKE_GEMINI_AUDIO,
+  FAKE_GEMINI_INPUT_TRANSCRIPT,
+  FAKE_GEMINI_OUTPUT_TRANSCRIPT,
+  FAKE_GEMINI_USAGE,
+} from './utils/FakeGeminiServer';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { GeminiLiveTestCases } from './GeminiLiveTestCases';
+
+const TEST_GEMINI_KEY = 'test-gemini-live-key';
+
+class RecordingHandler implements IConnectionHandler {
+  connected = false;
+  closeCode: number | null = null;
+  messages: any[] = [];
+
+  onConnect(): void {
+    this.connected = true;
+  }
+
+  onError(_error: Error): void {}
+
+  onClose(code: number, _reason: string): void {
+    this.closeCode = code;
+  }
+
+  onMsgReceived(message: unknown): void {
+    this.messages.push(JSON.parse(message as string));
+  }
+
+  onLatencyCheck(_latencyMs: number): void {}
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('GeminiLiveConnection', () => {
+  let server: FakeGeminiServer;
+  let url: string;
+
+  beforeAll(async () => {
+    process.env.GEMINI_API_KEY = TEST_GEMINI_KEY;
+    Config.reset();
+    server = new FakeGeminiServer();
+    url = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    server.received = [];
+    server.requestUrls = [];
+  });
+
+  it('should connect with the API key in the query string', async () => {
+    const handler = new RecordingHandler();
+    const connection = new GeminiLiveConnection(handler, url);
+
+    connection.connect();
+    await wait(200);
+
+    expect(connection.isConnected(), GeminiLiveTestCases.EXPECT_CONNECTION_SUCCESS).toBe(true);
+    expect(handler.connected, GeminiLiveTestCases.EXPECT_CONNECTION_SUCCESS).toBe(true);
+    expect(server.requestUrls[0], GeminiLiveTestCases.EXPECT_API_KEY_IN_URL).toContain(`key=${TEST_GEMINI_KEY}`);
+
+    connection.disconnect();
+    await wait(100);
+  });
+
+  it('should send a default setup before realtimeInput and receive a full turn', async () => {
+    const handler = new RecordingHandler();
+    const connection = new GeminiLiveConnection(handler, url);
+
+    connection.connect();
+    await wait(200);
+
+    connection.send({ realtimeInput: { audio: { mimeType: 'audio/pcm;rate=24000', data: 'AAAA' } } });
+    await wait(200);
+
+    expect(server.received[0].setup, GeminiLiveTestCases.EXPECT_SETUP_SENT_FIRST).toBeDefined();
+    expect(server.received[0].setup.model, GeminiLiveTestCases.EXPECT_DEFAULT_SETUP).toBe(GEMINI_DEFAULT_MODEL);
+    expect(server.received[1].realtimeInput, GeminiLiveTestCases.EXPECT_SETUP_SENT_FIRST).toBeDefined();
+
+    expect(handler.messages.find(m => m.setupComplete), GeminiLiveTestCases.EXPECT_SETUP_COMPLETE).toBeDefined();
+    const audio = handler.messages.find(m => m.serverContent?.modelTurn);
+    expect(audio.serverContent.modelTurn.parts[0].inlineData.data,
+      GeminiLiveTestCases.EXPECT_SERVER_CONTENT_AUDIO).toBe(FAKE_GEMINI_AUDIO);
+    const done = handler.messages.find(m => m.serverContent?.turnComplete);
+    expect(done.usageMetadata, GeminiLiveTestCases.EXPECT_USAGE_METADATA).toEqual(FAKE_GEMINI_USAGE);
+
+    connection.disconnect();
+    await wait(100);
+  });
+
+  it('should forward the client setup and drop a second setup', async () => {
+    const handler = new RecordingHandler();
+    const connection = new GeminiLiveConnection(handler, url);
+
+    connection.connect();
+    await wait(200);
+
+    const setup = { setup: { model: 'models/custom-live', systemInstruction: { parts: [{ text: 'Be brief' }] } } };
+    connection.send(JSON.stringify(setup));
+    connection.send({ setup: { model: 'models/other-live' } });
+    await wait(200);
+
+    const setups = server.received.filter(m => m.setup);
+    expect(setups.length, GeminiLiveTestCases.EXPECT_SECOND_SETUP_DROPPED).toBe(1);
+    expect(setups[0].setup.model, GeminiLiveTestCases.EXPECT_CLIENT_SETUP_USED).toBe('models/custom-live');
+
+    connection.disconnect();
+    await wait(100);
+  });
+
+  it('should report the server close code', async () => {
+    const handler = new RecordingHandler();
+    const connection = new GeminiLiveConnection(handler, url);
+
+    connection.connect();
+    await wait(200);
+
+    server.closeAll(1011, 'internal error');
+    await wait(200);
+
+    expect(handler.closeCode, GeminiLiveTestCases.EXPECT_CLOSE_CODE).toBe(1011);
+    expect(connection.isConnected(), GeminiLiveTestCases.EXPECT_CLOSE_CODE).toBe(false);
+  });
+});
+
+describe('Gemini usage and transcript tracking', () => {
+  it('UsageHandler parses usageMetadata and reports the GEMINI provider', () => {
+    const accountService = new RecordingAccountService();
+    const usageHandler = new UsageHandler('acc-1', 'sess-1', VoiceProvider.GEMINI, '', '', accountService,
+      new ServerMetrics(new MetricsRegistry()));
+
+    const tokens = usageHandler.saveUsage(JSON.stringify({
+      serverContent: { turnComplete: true },
+      usageMetadata: FAKE_GEMINI_USAGE,
+    }, null, 2));
+    usageHandler.flush();
+
+    expect(tokens, GeminiLiveTestCases.EXPECT_GEMINI_USAGE_PARSED).toEqual({
+      inputTokens: FAKE_GEMINI_USAGE.promptTokenCount,
+      outputTokens: FAKE_GEMINI_USAGE.responseTokenCount,
+    });
+    expect(accountService.usage[0].provider, GeminiLiveTestCases.EXPECT_GEMINI_USAGE_PARSED).toBe(VoiceProvider.GEMINI);
+    expect(usageHandler.saveUsage(JSON.stringify({ serverContent: { turnComplete: true } })),
+      GeminiLiveTestCases.EXPECT_GEMINI_USAGE_PARSED).toBeNull();
+  });
+
+  it('CheckpointHandler records input and output transcriptions', () => {
+    const accountService = new RecordingAccountService();
+    const checkpointHandler = new CheckpointHandler('acc-1', 'sess-1', VoiceProvider.GEMINI, accountService);
+
+    checkpointHandler.trackConversation(JSON.stringify({
+      serverContent: { inputTranscription: { text: FAKE_GEMINI_INPUT_TRANSCRIPT } },
+    }));
+    checkpointHandler.trackConversation(JSON.stringify({
+      serverContent: { outputTranscription: { text: FAKE_GEMINI_OUTPUT_TRANSCRIPT } },
+    }));
+    checkpointHandler.flush();
+
+    expect(accountService.conversations[0], GeminiLiveTestCases.EXPECT_GEMINI_TRANSCRIPT_TRACKED)
+      .toBe(`user:${FAKE_GEMINI_INPUT_TRANSCRIPT}\nagent:${FAKE_GEMINI_OUTPUT_TRANSCRIPT}`);
+  });
+});
@@ -0,0 +1,14 @@
+export enum GeminiLiveTestCases {
+  EXPECT_CONNECTION_SUCCESS = 'Connection to fake Gemini server successful',
+  EXPECT_API_KEY_IN_URL = 'API key passed as key query parameter',
+  EXPECT_SETUP_SENT_FIRST = 'Setup message sent before any other message',
+  EXPECT_DEFAULT_SETUP = 'Default setup sent when first message is not a setup',
+  EXPECT_CLIENT_SETUP_USED = 'Client setup forwarded as the first message',
+  EXPECT_SECOND_SETUP_DROPPED = 'Second setup message dropped',
+  EXPECT_SETUP_COMPLETE = 'setupComplete message received',
+  EXPECT_SERVER_CONTENT_AUDIO = 'serverContent audio part received',
+  EXPECT_USAGE_METADATA = 'usageMetadata received with turnComplete',
+  EXPECT_CLOSE_CODE = 'onClose receives the server close code',
+  EXPECT_GEMINI_USAGE_PARSED = 'UsageHandler extracts Gemini usageMetadata tokens',
+  EXPECT_GEMINI_TRANSCRIPT_TRACKED = 'CheckpointHandler records Gemini transcriptions',
+}
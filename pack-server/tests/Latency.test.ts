@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Config, ConfigKeys, SessionData, VoiceProvider } from 'pack-shared';
+import { LatencyStats } from '../src/core/impls/LatencyStats';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { RsEventType } from '../src/core/interfaces/RsEvents';
+import { Orchestrator } from '../src/Orchestrator';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { LatencyTestCases } from './LatencyTestCases';
+
+describe('LatencyStats', () => {
+  it('should have no summary before a turn completes', () => {
+    const stats = new LatencyStats(10);
+    stats.recordFirstAudio(120);
+
+    expect(stats.getSummary('OPENAI'), LatencyTestCases.EXPECT_NO_SUMMARY_WITHOUT_TURNS).toBeNull();
+  });
+
+  it('should report nearest-rank p50 and p95', () => {
+    const stats = new LatencyStats(100);
+    for (let i = 20; i >= 1; i--) {
+      stats.recordFirstAudio(i * 10);
+      stats.recordTurn(i * 100 + 0.4);
+    }
+
+    expect(stats.getSummary('GEMINI'), LatencyTestCases.EXPECT_NEAREST_RANK_PERCENTILES).toEqual({
+      provider: 'GEMINI',
+      turns: 20,
+      firstAudioP50Ms: 100,
+      firstAudioP95Ms: 190,
+      turnP50Ms: 1000,
+      turnP95Ms: 1900,
+    });
+  });
+
+  it('should keep only the most recent samples', () => {
+    const stats = new LatencyStats(2);
+    for (const latencyMs of [5000, 100, 200]) stats.recordTurn(latencyMs);
+
+    expect(stats.getSummary('OPENAI'), LatencyTestCases.EXPECT_OLDEST_SAMPLES_DROPPED).toMatchObject({
+      turns: 3,
+      firstAudioP50Ms: 0,
+      turnP50Ms: 100,
+      turnP95Ms: 200,
+    });
+  });
+});
+
+describe('Orchestrator turn latency', () => {
+  const data: SessionData = { error: '', accountId: 'acc-latency', sessionData: '', credits: 1000,
+    creditAlertThresholds: '', holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+  let now: number;
+  let accountService: RecordingAccountService;
+  let factory: TestServiceFactory;
+  let client: FakeClientSocket;
+
+  function createOrchestrator(provider: VoiceProvider): Orchestrator {
+    client = new FakeClientSocket({ sessionId: 'sess-latency' });
+    return factory.getNewOrchestrator(data, client.asWebSocket(), provider, provider);
+  }
+
+  function advance(ms: number): void {
+    now += ms;
+  }
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    accountService = new RecordingAccountService();
+    factory = new TestServiceFactory(accountService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env[ConfigKeys.LATENCY_EVENTS_ENABLED];
+    ServiceFactory.reset();
+  });
+
+  it('should measure a turn from the client commit', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.OPENAI);
+    orchestrator.send({ type: 'input_audio_buffer.commit' });
+    advance(250);
+    orchestrator.onMsgReceived('{"type":"response.output_audio.delta","delta":"AAAA"}');
+    advance(50);
+    orchestrator.onMsgReceived('{"type":"response.output_audio.delta","delta":"AAAA"}');
+    advance(700);
+    orchestrator.onMsgReceived('{"type":"response.done","response":{"status":"completed"}}');
+    orchestrator.cleanup();
+
+    expect(accountService.latencies, LatencyTestCases.EXPECT_TURN_MEASURED_FROM_COMMIT).toEqual([{
+      provider: VoiceProvider.OPENAI,
+      turns: 1,
+      firstAudioP50Ms: 250,
+      firstAudioP95Ms: 250,
+      turnP50Ms: 1000,
+      turnP95Ms: 1000,
+    }]);
+  });
+
+  it('should start a turn on server VAD speech_stopped', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.OPENAI);
+    orchestrator.onMsgReceived('{"type":"input_audio_buffer.speech_stopped","audio_end_ms":900}');
+    advance(300);
+    orchestrator.onMsgReceived('{"type":"response.output_audio.delta","delta":"AAAA"}');
+    advance(100);
+    orchestrator.onMsgReceived('{"type":"response.done","response":{"status":"completed"}}');
+    orchestrator.cleanup();
+
+    expect(accountService.latencies[0], LatencyTestCases.EXPECT_TURN_STARTED_BY_SERVER_VAD).toMatchObject({
+      turns: 1,
+      firstAudioP50Ms: 300,
+      turnP50Ms: 400,
+    });
+  });
+
+  it('should start a Gemini turn when automatic activity detection finishes the input transcription', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.GEMINI);
+    orchestrator.onMsgReceived('{"serverContent":{"inputTranscription":{"text":"What time"}}}');
+    advance(500);
+    orchestrator.onMsgReceived('{"serverContent":{"inputTranscription":{"text":" is it?","finished":true}}}');
+    advance(200);
+    orchestrator.onMsgReceived('{"serverContent":{"modelTurn":{"parts":[{"inlineData":{"data":"AAAA"}}]}}}');
+    advance(300);
+    orchestrator.onMsgReceived('{"serverContent":{"turnComplete":true}}');
+    orchestrator.cleanup();
+
+    expect(accountService.latencies[0], LatencyTestCases.EXPECT_GEMINI_TURN_STARTED_BY_TRANSCRIPTION).toMatchObject({
+      turns: 1,
+      firstAudioP50Ms: 200,
+      turnP50Ms: 500,
+    });
+  });
+
+  it('should start a Gemini turn at the last input transcription before the model turn', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.GEMINI);
+    orchestrator.onMsgReceived('{"serverContent":{"inputTranscription":{"text":"Hello"}}}');
+    advance(400);
+    orchestrator.onMsgReceived('{"serverContent":{"inputTranscription":{"text":" there"}}}');
+    advance(150);
+    orchestrator.onMsgReceived('{"serverContent":{"modelTurn":{"parts":[{"inlineData":{"data":"AAAA"}}]}}}');
+    advance(250);
+    orchestrator.onMsgReceived('{"serverContent":{"turnComplete":true}}');
+    orchestrator.cleanup();
+
+    expect(accountService.latencies[0], LatencyTestCases.EXPECT_GEMINI_TURN_STARTED_BY_TRANSCRIPTION).toMatchObject({
+      turns: 1,
+      firstAudioP50Ms: 150,
+      turnP50Ms: 400,
+    });
+  });
+
+  it('should start a Gemini turn at the model turn boundary without input transcription', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.GEMINI);
+    for (const turnMs of [600, 900]) {
+      orchestrator.onMsgReceived('{"serverContent":{"modelTurn":{"parts":[{"inlineData":{"data":"AAAA"}}]}}}');
+      advance(turnMs);
+      orchestrator.onMsgReceived('{"serverContent":{"turnComplete":true}}');
+      advance(1000);
+    }
+    orchestrator.cleanup();
+
+    expect(accountService.latencies[0], LatencyTestCases.EXPECT_GEMINI_TURN_STARTED_AT_BOUNDARY).toMatchObject({
+      turns: 2,
+      firstAudioP50Ms: 0,
+      turnP50Ms: 600,
+      turnP95Ms: 900,
+    });
+  });
+
+  it('should send rs.latency after each turn when enabled', () => {
+    process.env[ConfigKeys.LATENCY_EVENTS_ENABLED] = 'true';
+    Config.reset();
+    const orchestrator = createOrchestrator(VoiceProvider.GEMINI);
+    orchestrator.send({ realtimeInput: { audioStreamEnd: true } });
+    advance(180);
+    orchestrator.onMsgReceived('{"serverContent":{"modelTurn":{"parts":[{"inlineData":{"data":"AAAA"}}]}}}');
+    advance(420);
+    orchestrator.onMsgReceived('{"serverContent":{"turnComplete":true}}');
+    orchestrator.cleanup();
+
+    expect(client.sent.filter(event => event.type === RsEventType.LATENCY), LatencyTestCases.EXPECT_LATENCY_EVENT_SENT)
+      .toEqual([{ type: RsEventType.LATENCY, firstAudioMs: 180, turnMs: 600 }]);
+  });
+
+  it('should not send rs.latency by default', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.OPENAI);
+    orchestrator.send({ type: 'input_audio_buffer.commit' });
+    orchestrator.onMsgReceived('{"type":"response.done","response":{"status":"completed"}}');
+
+    expect(client.sent.filter(event => event.type === RsEventType.LATENCY),
+      LatencyTestCases.EXPECT_NO_LATENCY_EVENT_BY_DEFAULT).toEqual([]);
+    orchestrator.cleanup();
+  });
+
+  it('should save nothing for a session without turns', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.OPENAI);
+    orchestrator.onMsgReceived('{"type":"response.done","response":{"status":"completed"}}');
+    orchestrator.cleanup();
+
+    expect(accountService.latencies, LatencyTestCases.EXPECT_SUMMARY_SAVED_ON_CLEANUP).toEqual([]);
+  });
+
+  it('should observe first audio and turn durations per provider', () => {
+    const orchestrator = createOrchestrator(VoiceProvider.OPENAI);
+    orchestrator.send({ type: 'input_audio_buffer.commit' });
+    advance(40);
+    orchestrator.onMsgReceived('{"type":"response.output_audio.delta","delta":"AAAA"}');
+    advance(60);
+    orchestrator.onMsgReceived('{"type":"response.done","response":{"status":"completed"}}');
+    orchestrator.cleanup();
+
+    const lines = factory.getMetricsRegistry().render().split('\n');
+    expect(lines, LatencyTestCases.EXPECT_LATENCY_METRICS)
+      .toContain('rs_turn_first_audio_seconds_bucket{provider="OPENAI",le="0.05"} 1');
+    expect(lines, LatencyTestCases.EXPECT_LATENCY_METRICS)
+      .toContain('rs_turn_duration_seconds_bucket{provider="OPENAI",le="0.1"} 1');
+    expect(lines, LatencyTestCases.EXPECT_LATENCY_METRICS)
+      .toContain('rs_turn_duration_seconds_count{provider="OPENAI"} 1');
+  });
+});
@@ -0,0 +1,13 @@
+export enum LatencyTestCases {
+  EXPECT_NO_SUMMARY_WITHOUT_TURNS = 'Sessions without a completed turn have no latency summary',
+  EXPECT_NEAREST_RANK_PERCENTILES = 'p50 and p95 use the nearest-rank method over the recorded samples',
+  EXPECT_OLDEST_SAMPLES_DROPPED = 'Only the most recent samples are kept once the window is full',
+  EXPECT_TURN_MEASURED_FROM_COMMIT = 'A turn runs from the client commit to its first audio and to response.done',
+  EXPECT_TURN_STARTED_BY_SERVER_VAD = 'speech_stopped from the provider starts a turn when the client never commits',
+  EXPECT_GEMINI_TURN_STARTED_BY_TRANSCRIPTION = 'Gemini turns start when the input transcription ends',
+  EXPECT_GEMINI_TURN_STARTED_AT_BOUNDARY = 'Gemini turns start at the model turn when there is no input transcription',
+  EXPECT_LATENCY_EVENT_SENT = 'An rs.latency event is sent after each turn when enabled',
+  EXPECT_NO_LATENCY_EVENT_BY_DEFAULT = 'No rs.latency event is sent unless enabled',
+  EXPECT_SUMMARY_SAVED_ON_CLEANUP = 'The session latency summary is saved when the session ends',
+  EXPECT_LATENCY_METRICS = 'First audio and turn durations are observed in the provider histograms',
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { MetricsRegistry, SessionData, VoiceProvider } from 'pack-shared';
+import { ServerMetrics } from '../src/core/impls/ServerMetrics';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { UsageHandler } from '../src/core/impls/UsageHandler';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { MetricsTestCases } from './MetricsTestCases';
+
+describe('MetricsRegistry', () => {
+  it('should render unlabelled metrics with a zero series', () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge('rs_test_open', 'Open things');
+    registry.counter('rs_test_total', 'Things seen');
+    gauge.inc(3);
+    gauge.dec();
+
+    expect(registry.render(), MetricsTestCases.EXPECT_UNLABELLED_SERIES_RENDERED).toBe([
+      '# HELP rs_test_open Open things',
+      '# TYPE rs_test_open gauge',
+      'rs_test_open 2',
+      '# HELP rs_test_total Things seen',
+      '# TYPE rs_test_total counter',
+      'rs_test_total 0',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render one series per label combination', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('rs_test_total', 'Things seen', ['kind', 'code']);
+    counter.labels('a', '200').inc();
+    counter.labels('a', '200').inc(2);
+    counter.labels('b"\\\n', '500').inc();
+
+    const lines = registry.render().split('\n');
+    expect(lines, MetricsTestCases.EXPECT_LABELLED_SERIES_RENDERED).toContain('rs_test_total{kind="a",code="200"} 3');
+    expect(lines, MetricsTestCases.EXPECT_LABELLED_SERIES_RENDERED)
+      .toContain('rs_test_total{kind="b\\"\\\\\\n",code="500"} 1');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('rs_test_seconds', 'Durations', ['type'], [0.5, 0.1]);
+    const series = histogram.labels('PING');
+    for (const value of [0.05, 0.2, 0.3, 2]) series.observe(value);
+
+    const lines = registry.render().split('\n');
+    expect(lines, MetricsTestCases.EXPECT_HISTOGRAM_CUMULATIVE).toEqual(expect.arrayContaining([
+      'rs_test_seconds_bucket{type="PING",le="0.1"} 1',
+      'rs_test_seconds_bucket{type="PING",le="0.5"} 3',
+      'rs_test_seconds_bucket{type="PING",le="+Inf"} 4',
+      'rs_test_seconds_sum{type="PING"} 2.55',
+      'rs_test_seconds_count{type="PING"} 4',
+    ]));
+  });
+
+  it('should return the existing metric for a repeated name and reject other types', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('rs_test_total', 'Things seen', ['kind']);
+
+    expect(registry.counter('rs_test_total', 'Things seen', ['kind']), MetricsTestCases.EXPECT_REGISTRATION_IDEMPOTENT)
+      .toBe(counter);
+    expect(() => registry.gauge('rs_test_total', 'Things seen'), MetricsTestCases.EXPECT_TYPE_CONFLICT_REJECTED)
+      .toThrow();
+    expect(() => counter.labels('a', 'b'), MetricsTestCases.EXPECT_LABEL_COUNT_CHECKED).toThrow();
+  });
+
+  it('should add up snapshots of several registries', () => {
+    const workers = [new MetricsRegistry(), new MetricsRegistry()];
+    for (const [index, worker] of workers.entries()) {
+      worker.gauge('rs_test_open', 'Open things').inc(index + 1);
+      worker.counter('rs_test_total', 'Things seen', ['kind']).labels(index ? 'b' : 'a').inc(5);
+      worker.histogram('rs_test_seconds', 'Durations', ['type'], [0.1, 1]).labels('PING').observe(index ? 0.5 : 0.05);
+    }
+
+    const merged = new MetricsRegistry();
+    workers.forEach(worker => merged.merge(worker.snapshot()));
+
+    expect(merged.render().split('\n'), MetricsTestCases.EXPECT_SNAPSHOTS_MERGED).toEqual(expect.arrayContaining([
+      'rs_test_open 3',
+      'rs_test_total{kind="a"} 5',
+      'rs_test_total{kind="b"} 5',
+      'rs_test_seconds_bucket{type="PING",le="0.1"} 1',
+      'rs_test_seconds_bucket{type="PING",le="1"} 2',
+      'rs_test_seconds_sum{type="PING"} 0.55',
+      'rs_test_seconds_count{type="PING"} 2',
+    ]));
+  });
+});
+
+describe('ServerMetrics', () => {
+  afterAll(() => {
+    ServiceFactory.reset();
+  });
+
+  it('should track messages buffered before the upstream connects', () => {
+    const data: SessionData = { error: '', accountId: 'acc-metrics', sessionData: '', credits: 1000,
+      creditAlertThresholds: '', holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    const factory = new TestServiceFactory(new RecordingAccountService());
+    const bufferDepth = factory.getServerMetrics().bufferedMessages.labels();
+    const orchestrator = factory.getNewOrchestrator(data, new FakeClientSocket({ sessionId: 'sess-metrics' })
+      .asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+
+    orchestrator.send({ type: 'input_audio_buffer.append', audio: 'AAAA' });
+    orchestrator.send({ type: 'input_audio_buffer.append', audio: 'AAAA' });
+    expect(bufferDepth.value, MetricsTestCases.EXPECT_BUFFER_DEPTH_TRACKED).toBe(2);
+
+    orchestrator.cleanup();
+    expect(bufferDepth.value, MetricsTestCases.EXPECT_BUFFER_DEPTH_TRACKED).toBe(0);
+  });
+
+  it('should count billed tokens by provider and direction when usage is flushed', () => {
+    const registry = new MetricsRegistry();
+    const usageHandler = new UsageHandler('acc-1', 'sess-1', VoiceProvider.OPENAI, '', '',
+      new RecordingAccountService(), new ServerMetrics(registry));
+    usageHandler.saveUsage('{"type":"response.done","response":{"usage":{"input_tokens":12,"output_tokens":30}}}');
+    usageHandler.flush();
+
+    const lines = registry.render().split('\n');
+    expect(lines, MetricsTestCases.EXPECT_TOKENS_BILLED)
+      .toContain('rs_tokens_billed_total{provider="OPENAI",direction="input"} 12');
+    expect(lines, MetricsTestCases.EXPECT_TOKENS_BILLED)
+      .toContain('rs_tokens_billed_total{provider="OPENAI",direction="output"} 30');
+  });
+});
@@ -0,0 +1,11 @@
+export enum MetricsTestCases {
+  EXPECT_UNLABELLED_SERIES_RENDERED = 'Metrics without labels render a zero series right after registration',
+  EXPECT_LABELLED_SERIES_RENDERED = 'Each label combination renders as its own series with escaped values',
+  EXPECT_HISTOGRAM_CUMULATIVE = 'Histogram buckets are cumulative and end with +Inf, _sum and _count',
+  EXPECT_REGISTRATION_IDEMPOTENT = 'Registering a name twice returns the existing metric',
+  EXPECT_TYPE_CONFLICT_REJECTED = 'Registering a name with another type is rejected',
+  EXPECT_LABEL_COUNT_CHECKED = 'Series with the wrong number of label values are rejected',
+  EXPECT_SNAPSHOTS_MERGED = 'Merging worker snapshots sums counters, gauges and histogram buckets per series',
+  EXPECT_BUFFER_DEPTH_TRACKED = 'Buffered messages raise the gauge and cleanup lowers it again',
+  EXPECT_TOKENS_BILLED = 'Flushed usage is counted by provider and direction',
+}
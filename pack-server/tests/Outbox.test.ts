@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zmq from 'zeromq';
+import { ErrorCode, ZmqMessageType, ZmqUtils, ZMQ_PROTOCOL_VERSION } from 'pack-shared';
+import { FileOutbox } from '../src/core/impls/FileOutbox';
+import { ZmqService } from '../src/core/impls/ZmqService';
+import { OutboxTestCases } from './OutboxTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const SOCKET_PATH = `ipc:///tmp/rs-test-outbox-${process.pid}.sock`;
+const OUTBOX_PATH = path.join(os.tmpdir(), `rs-test-outbox-${process.pid}`, 'outbox.log');
+const DEAD_LETTER_PATH = path.join(path.dirname(OUTBOX_PATH), 'outbox-dead.log');
+const RETRY_MS = 50;
+const MAX_RETRY_MS = 200;
+
+class FakePackDb {
+  private router = new zmq.Router();
+  received: { id: string; type: string; args: Record<string, string | number> }[] = [];
+  receivedAt: number[] = [];
+  failuresLeft = 0;
+  failure = 'database is locked';
+
+  async start(): Promise<void> {
+    await this.router.bind(SOCKET_PATH);
+    this.listen();
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      for await (const [identity, delimiter, ...frameBuffers] of this.router) {
+        const request = ZmqUtils.decodeRequest(frameBuffers.map(frame => frame.toString()))!;
+        if (request.type === ZmqMessageType.PING || request.type === ZmqMessageType.HELLO) {
+          await this.router.send([identity, delimiter, ...ZmqUtils.encodeResponse(request.version, request.id,
+            request.type, '', ZMQ_PROTOCOL_VERSION)]);
+          continue;
+        }
+        this.received.push(request);
+        this.receivedAt.push(Date.now());
+        const error = this.failuresLeft > 0 ? this.failure : '';
+        if (this.failuresLeft > 0) this.failuresLeft--;
+        await this.router.send([identity, delimiter, ...ZmqUtils.encodeResponse(request.version, request.id,
+          request.type, error)]);
+      }
+    } catch (error) {
+      // Socket closed
+    }
+  }
+
+  stop(): void {
+    this.router.close();
+  }
+}
+
+describe('File outbox', () => {
+  const packDb = new FakePackDb();
+  const zmqService = new ZmqService(SOCKET_PATH, 500);
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await wait(20);
+    }
+  };
+
+  beforeAll(async () => {
+    fs.rmSync(path.dirname(OUTBOX_PATH), { recursive: true, force: true });
+    await packDb.start();
+    await zmqService.connect();
+  });
+
+  afterAll(() => {
+    zmqService.destroy();
+    packDb.stop();
+    fs.rmSync(path.dirname(OUTBOX_PATH), { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    packDb.received = [];
+    packDb.receivedAt = [];
+    packDb.failuresLeft = 0;
+    packDb.failure = 'database is locked';
+  });
+
+  it('should retry a rejected message with the same id until it is acknowledged', async () => {
+    const outbox = new FileOutbox(zmqService, OUTBOX_PATH, RETRY_MS, MAX_RETRY_MS, DEAD_LETTER_PATH);
+    outbox.start();
+    packDb.failuresLeft = 2;
+
+    outbox.enqueue(ZmqMessageType.UPDATE_USAGE, 'acc-1', 'sess-1', 'openai', 180, 120, 'hold-1', 'hash-1');
+    await waitFor(() => outbox.getPendingCount() === 0);
+    outbox.stop();
+
+    expect(packDb.received.length, OutboxTestCases.EXPECT_RETRIED_UNTIL_ACKED).toBe(3);
+    const firstGap = packDb.receivedAt[1] - packDb.receivedAt[0];
+    const secondGap = packDb.receivedAt[2] - packDb.receivedAt[1];
+    expect(firstGap, OutboxTestCases.EXPECT_BACKOFF).toBeGreaterThanOrEqual(RETRY_MS);
+    expect(secondGap, OutboxTestCases.EXPECT_BACKOFF).toBeGreaterThanOrEqual(RETRY_MS * 2);
+    expect(new Set(packDb.received.map(r => r.id)).size, OutboxTestCases.EXPECT_SAME_ID_ON_RETRY).toBe(1);
+    expect(packDb.received[0].args, OutboxTestCases.EXPECT_DELIVERED).toEqual({
+      accountId: 'acc-1', sessionId: 'sess-1', provider: 'openai', inputTokens: 180, outputTokens: 120, holdId: 'hold-1',
+      keyHash: 'hash-1',
+    });
+    expect(outbox.getPendingCount(), OutboxTestCases.EXPECT_PENDING_CLEARED).toBe(0);
+  });
+
+  it('should move a message pack-db rejects for good to the dead-letter file', async () => {
+    const outbox = new FileOutbox(zmqService, OUTBOX_PATH, RETRY_MS, MAX_RETRY_MS, DEAD_LETTER_PATH);
+    outbox.start();
+    packDb.failuresLeft = 1;
+    packDb.failure = `${ErrorCode.INTERNAL_DB_MESSAGE_REJECTED}: ${ErrorCode.INTERNAL_DB_ACCOUNT_NOT_FOUND}`;
+
+    outbox.enqueue(ZmqMessageType.UPDATE_USAGE, 'acc-gone', 'sess-3', 'openai', 10, 10, '', '');
+    await waitFor(() => outbox.getPendingCount() === 0);
+    await wait(RETRY_MS * 3);
+    outbox.stop();
+
+    expect(packDb.received.length, OutboxTestCases.EXPECT_NOT_RETRIED_AFTER_REJECTION).toBe(1);
+    expect(outbox.getPendingCount(), OutboxTestCases.EXPECT_NOT_RETRIED_AFTER_REJECTION).toBe(0);
+    const deadLetters = fs.readFileSync(DEAD_LETTER_PATH, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(deadLetters, OutboxTestCases.EXPECT_DEAD_LETTERED).toHaveLength(1);
+    expect(deadLetters[0], OutboxTestCases.EXPECT_DEAD_LETTERED).toMatchObject({ id: packDb.received[0].id,
+      type: ZmqMessageType.UPDATE_USAGE, error: packDb.failure });
+  });
+
+  it('should deliver messages queued while disconnected after a restart', async () => {
+    const offline = new FileOutbox(new ZmqService(SOCKET_PATH, 500), OUTBOX_PATH, RETRY_MS, MAX_RETRY_MS,
+      DEAD_LETTER_PATH);
+    offline.start();
+    offline.enqueue(ZmqMessageType.SAVE_SESSION, 'acc-2', 'sess-2', '{"type":"session.updated"}');
+    offline.enqueue(ZmqMessageType.APPEND_CONVERSATION, 'acc-2', 'sess-2', 'hello|world');
+    offline.stop();
+    expect(offline.getPendingCount(), OutboxTestCases.EXPECT_SURVIVES_RESTART).toBe(2);
+
+    const restarted = new FileOutbox(zmqService, OUTBOX_PATH, RETRY_MS, MAX_RETRY_MS, DEAD_LETTER_PATH);
+    restarted.start();
+    await waitFor(() => restarted.getPendingCount() === 0);
+    restarted.stop();
+
+    expect(packDb.received.map(r => r.type), OutboxTestCases.EXPECT_SURVIVES_RESTART)
+      .toEqual([ZmqMessageType.SAVE_SESSION, ZmqMessageType.APPEND_CONVERSATION]);
+    expect(packDb.received[1].args.conversationData, OutboxTestCases.EXPECT_SURVIVES_RESTART).toBe('hello|world');
+
+    const reloaded = new FileOutbox(zmqService, OUTBOX_PATH, RETRY_MS, MAX_RETRY_MS, DEAD_LETTER_PATH);
+    reloaded.start();
+    reloaded.stop();
+    expect(reloaded.getPendingCount(), OutboxTestCases.EXPECT_ACKED_NOT_RELOADED).toBe(0);
+  });
+});
@@ -0,0 +1,11 @@
+export enum OutboxTestCases {
+  EXPECT_DELIVERED = 'Queued messages reach pack-db',
+  EXPECT_RETRIED_UNTIL_ACKED = 'Messages rejected by pack-db are retried until acknowledged',
+  EXPECT_BACKOFF = 'The wait between retries grows after each failure',
+  EXPECT_NOT_RETRIED_AFTER_REJECTION = 'Messages pack-db rejects for good are acknowledged and not retried',
+  EXPECT_DEAD_LETTERED = 'Messages pack-db rejects for good are kept in the dead-letter file with the error',
+  EXPECT_SAME_ID_ON_RETRY = 'Retries reuse the message id so pack-db can de-duplicate them',
+  EXPECT_PENDING_CLEARED = 'Acknowledged messages leave the outbox',
+  EXPECT_SURVIVES_RESTART = 'Messages queued while disconnected are delivered by the next process',
+  EXPECT_ACKED_NOT_RELOADED = 'Acknowledged messages are not reloaded after a restart',
+}
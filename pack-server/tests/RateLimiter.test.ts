@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { TokenBucketRateLimiter, TokenBucketOptions } from '../src/core/impls/TokenBucketRateLimiter';
+import { RateLimiterTestCases } from './RateLimiterTestCases';
+
+const OPTIONS: TokenBucketOptions = { capacity: 3, refillPerSecond: 1, penalty: 4, maxKeys: 100 };
+
+describe('TokenBucketRateLimiter', () => {
+  const createLimiter = (options: Partial<TokenBucketOptions> = {}) => {
+    const clock = { now: 0 };
+    const limiter = new TokenBucketRateLimiter({ ...OPTIONS, ...options }, () => clock.now);
+    return { clock, limiter };
+  };
+
+  it('should allow a burst up to the capacity and then deny', () => {
+    const { limiter } = createLimiter();
+    const results = [limiter.tryTake('ip'), limiter.tryTake('ip'), limiter.tryTake('ip')];
+
+    expect(results, RateLimiterTestCases.EXPECT_BURST_ALLOWED).toEqual([true, true, true]);
+    expect(limiter.tryTake('ip'), RateLimiterTestCases.EXPECT_EMPTY_BUCKET_DENIED).toBe(false);
+    expect(limiter.getRetryAfterSeconds('ip'), RateLimiterTestCases.EXPECT_EMPTY_BUCKET_DENIED).toBe(1);
+  });
+
+  it('should refill at the configured rate without exceeding the capacity', () => {
+    const { clock, limiter } = createLimiter();
+    for (let i = 0; i < 3; i++) limiter.tryTake('ip');
+
+    clock.now = 2000;
+    expect([limiter.tryTake('ip'), limiter.tryTake('ip'), limiter.tryTake('ip')],
+      RateLimiterTestCases.EXPECT_REFILL_OVER_TIME).toEqual([true, true, false]);
+
+    clock.now = 60000;
+    expect([limiter.tryTake('ip'), limiter.tryTake('ip'), limiter.tryTake('ip'), limiter.tryTake('ip')],
+      RateLimiterTestCases.EXPECT_REFILL_OVER_TIME).toEqual([true, true, true, false]);
+  });
+
+  it('should keep a bucket per key', () => {
+    const { limiter } = createLimiter({ capacity: 1 });
+    limiter.tryTake('a');
+
+    expect(limiter.tryTake('a'), RateLimiterTestCases.EXPECT_KEYS_INDEPENDENT).toBe(false);
+    expect(limiter.tryTake('b'), RateLimiterTestCases.EXPECT_KEYS_INDEPENDENT).toBe(true);
+  });
+
+  it('should lengthen the lockout for each penalty', () => {
+    const { clock, limiter } = createLimiter();
+    limiter.tryTake('ip');
+    limiter.penalize('ip');
+    expect(limiter.getRetryAfterSeconds('ip'), RateLimiterTestCases.EXPECT_PENALTY_EXTENDS_LOCKOUT).toBe(3);
+
+    limiter.penalize('ip');
+    expect(limiter.getRetryAfterSeconds('ip'), RateLimiterTestCases.EXPECT_PENALTY_EXTENDS_LOCKOUT).toBe(7);
+
+    clock.now = 6000;
+    expect(limiter.tryTake('ip'), RateLimiterTestCases.EXPECT_PENALTY_EXTENDS_LOCKOUT).toBe(false);
+    clock.now = 7000;
+    expect(limiter.tryTake('ip'), RateLimiterTestCases.EXPECT_PENALTY_EXTENDS_LOCKOUT).toBe(true);
+  });
+
+  it('should allow everything when the capacity is 0', () => {
+    const { limiter } = createLimiter({ capacity: 0 });
+    limiter.penalize('ip');
+
+    expect(limiter.tryTake('ip'), RateLimiterTestCases.EXPECT_DISABLED_ALLOWS_ALL).toBe(true);
+    expect(limiter.getRetryAfterSeconds('ip'), RateLimiterTestCases.EXPECT_DISABLED_ALLOWS_ALL).toBe(0);
+    expect(limiter.getSize(), RateLimiterTestCases.EXPECT_DISABLED_ALLOWS_ALL).toBe(0);
+  });
+
+  it('should evict refilled buckets before limited ones when full', () => {
+    const { clock, limiter } = createLimiter({ capacity: 2, maxKeys: 2 });
+    limiter.tryTake('idle');
+    limiter.penalize('abuser');
+
+    clock.now = 1000;
+    limiter.tryTake('new');
+
+    expect(limiter.getSize(), RateLimiterTestCases.EXPECT_IDLE_BUCKETS_EVICTED).toBe(2);
+    expect(limiter.tryTake('abuser'), RateLimiterTestCases.EXPECT_IDLE_BUCKETS_EVICTED).toBe(false);
+  });
+});
@@ -0,0 +1,9 @@
+export enum RateLimiterTestCases {
+  EXPECT_BURST_ALLOWED = 'Requests up to the bucket capacity are allowed',
+  EXPECT_EMPTY_BUCKET_DENIED = 'A request on an empty bucket is denied with a retry delay',
+  EXPECT_REFILL_OVER_TIME = 'Tokens come back at the refill rate up to the capacity',
+  EXPECT_KEYS_INDEPENDENT = 'Each key has its own bucket',
+  EXPECT_PENALTY_EXTENDS_LOCKOUT = 'A penalty takes extra tokens and lengthens the retry delay',
+  EXPECT_DISABLED_ALLOWS_ALL = 'A capacity of 0 disables the limiter',
+  EXPECT_IDLE_BUCKETS_EVICTED = 'Full buckets are evicted first once maxKeys is reached',
+}
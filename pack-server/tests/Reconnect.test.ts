@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Config, ErrorCode, SessionData, VoiceProvider } from 'pack-shared';
+import { Orchestrator } from '../src/Orchestrator';
+import { ReconnectPolicy, ReconnectOptions } from '../src/core/impls/ReconnectPolicy';
+import { RsCloseCode, RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { RecordingAccountService } from './utils/RecordingAccountService';
+import { TestServiceFactory } from './utils/TestServiceFactory';
+import { ReconnectTestCases } from './ReconnectTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const OPTIONS: ReconnectOptions = { initialDelayMs: 100, multiplier: 2, maxDelayMs: 500, maxAttempts: 5, jitter: 0 };
+
+describe('ReconnectPolicy', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new ReconnectPolicy(OPTIONS);
+    const delays = [policy.nextDelay(), policy.nextDelay(), policy.nextDelay()];
+
+    expect(delays, ReconnectTestCases.EXPECT_EXPONENTIAL_DELAYS).toEqual([100, 200, 400]);
+    expect(policy.nextDelay(), ReconnectTestCases.EXPECT_DELAY_CAPPED).toBe(500);
+    expect(policy.nextDelay(), ReconnectTestCases.EXPECT_DELAY_CAPPED).toBe(500);
+  });
+
+  it('should stop once max attempts are used', () => {
+    const policy = new ReconnectPolicy({ ...OPTIONS, maxAttempts: 2 });
+    policy.nextDelay();
+    policy.nextDelay();
+
+    expect(policy.nextDelay(), ReconnectTestCases.EXPECT_ATTEMPTS_EXHAUSTED).toBeNull();
+    expect(policy.getState(), ReconnectTestCases.EXPECT_ATTEMPTS_EXHAUSTED)
+      .toEqual({ attempts: 2, maxAttempts: 2, lastDelayMs: 200, exhausted: true });
+  });
+
+  it('should apply jitter within the configured spread', () => {
+    const low = new ReconnectPolicy({ ...OPTIONS, jitter: 0.5 }, () => 0);
+    const high = new ReconnectPolicy({ ...OPTIONS, jitter: 0.5 }, () => 0.999999);
+
+    expect(low.nextDelay(), ReconnectTestCases.EXPECT_JITTER_BOUNDS).toBe(50);
+    expect(high.nextDelay(), ReconnectTestCases.EXPECT_JITTER_BOUNDS).toBe(150);
+  });
+
+  it('should restart from the initial delay after reset', () => {
+    const policy = new ReconnectPolicy(OPTIONS);
+    policy.nextDelay();
+    policy.nextDelay();
+    policy.reset();
+
+    expect(policy.nextDelay(), ReconnectTestCases.EXPECT_RESET).toBe(100);
+    expect(policy.getState().attempts, ReconnectTestCases.EXPECT_RESET).toBe(1);
+  });
+});
+
+describe('Orchestrator reconnect', () => {
+  let openai: FakeOpenAIServer;
+  let client: FakeClientSocket;
+  let accountService: RecordingAccountService;
+
+  const createOrchestrator = (): Orchestrator => {
+    const data: SessionData = { error: '', accountId: 'acc-reconnect', sessionData: '', credits: 1000000, creditAlertThresholds: '',
+      holdId: '', reserved: 0, keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0 };
+    client = new FakeClientSocket({ sessionId: 'sess-reconnect' });
+    return new TestServiceFactory(accountService)
+      .getNewOrchestrator(data, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI);
+  };
+
+  beforeAll(async () => {
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    process.env.RECONNECT_INITIAL_DELAY_MS = '100';
+    process.env.RECONNECT_MULTIPLIER = '2';
+    process.env.RECONNECT_MAX_ATTEMPTS = '3';
+    process.env.RECONNECT_JITTER = '0';
+    Config.reset();
+  });
+
+  afterAll(async () => {
+    await openai.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env.RECONNECT_INITIAL_DELAY_MS;
+    delete process.env.RECONNECT_MULTIPLIER;
+    delete process.env.RECONNECT_MAX_ATTEMPTS;
+    delete process.env.RECONNECT_JITTER;
+    Config.reset();
+  });
+
+  beforeEach(() => {
+    openai.connectionAttempts = 0;
+    openai.rejectConnections = false;
+    accountService = new RecordingAccountService();
+  });
+
+  it('should back off between attempts and send rs.error once exhausted', async () => {
+    openai.rejectConnections = true;
+    const orchestrator = createOrchestrator();
+
+    orchestrator.connect();
+    await wait(150);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_BACKOFF_BETWEEN_ATTEMPTS).toBe(2);
+    expect(orchestrator.getReconnectState(), ReconnectTestCases.EXPECT_STATE_EXPOSED)
+      .toMatchObject({ attempts: 2, lastDelayMs: 200, pending: true, exhausted: false });
+
+    await wait(800);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_BACKOFF_BETWEEN_ATTEMPTS).toBe(4);
+    expect(client.sent.filter(m => m.type === RsEventType.ERROR), ReconnectTestCases.EXPECT_TERMINAL_ERROR)
+      .toEqual([expect.objectContaining({ code: ErrorCode.EXTERNAL_UPSTREAM_UNAVAILABLE })]);
+    expect(client.closed?.code, ReconnectTestCases.EXPECT_CLIENT_CLOSED).toBe(RsCloseCode.UPSTREAM_UNAVAILABLE);
+    expect(orchestrator.getReconnectState(), ReconnectTestCases.EXPECT_STATE_EXPOSED)
+      .toMatchObject({ attempts: 3, exhausted: true, pending: false });
+  });
+
+  it('should reset the reconnect state after a successful connect', async () => {
+    const orchestrator = createOrchestrator();
+
+    orchestrator.connect();
+    await wait(100);
+    openai.closeAll(1011, 'server error');
+    await wait(300);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_STATE_RESET_ON_CONNECT).toBe(2);
+    expect(orchestrator.getReconnectState().attempts, ReconnectTestCases.EXPECT_STATE_RESET_ON_CONNECT).toBe(0);
+
+    orchestrator.cleanup();
+    await wait(100);
+  });
+
+  it('should not reconnect after cleanup', async () => {
+    const orchestrator = createOrchestrator();
+
+    orchestrator.connect();
+    await wait(100);
+    orchestrator.cleanup();
+    await wait(300);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_NO_RECONNECT_AFTER_CLEANUP).toBe(1);
+  });
+
+  it('should cancel a pending reconnect on cleanup', async () => {
+    openai.rejectConnections = true;
+    const orchestrator = createOrchestrator();
+
+    orchestrator.connect();
+    await wait(50);
+
+    expect(orchestrator.getReconnectState().pending, ReconnectTestCases.EXPECT_STATE_EXPOSED).toBe(true);
+    orchestrator.cleanup();
+    await wait(300);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_NO_RECONNECT_AFTER_CLEANUP).toBe(1);
+    expect(orchestrator.getReconnectState().pending, ReconnectTestCases.EXPECT_NO_RECONNECT_AFTER_CLEANUP).toBe(false);
+  });
+
+  it('should close with rs.error instead of reconnecting when pack-db reports the account over its limit', async () => {
+    const orchestrator = createOrchestrator();
+    orchestrator.connect();
+    await wait(100);
+
+    accountService.sessionLimit = { limit: 1, overLimit: true };
+    openai.closeAll(1011, 'server error');
+    await wait(300);
+
+    expect(openai.connectionAttempts, ReconnectTestCases.EXPECT_SESSION_LIMIT_ON_RECONNECT).toBe(1);
+    expect(client.sent.filter(m => m.type === RsEventType.ERROR), ReconnectTestCases.EXPECT_SESSION_LIMIT_ON_RECONNECT)
+      .toEqual([expect.objectContaining({ code: ErrorCode.EXTERNAL_TOO_MANY_SESSIONS,
+        message: 'Account is over its limit of 1 concurrent sessions' })]);
+    expect(client.closed?.code, ReconnectTestCases.EXPECT_SESSION_LIMIT_ON_RECONNECT)
+      .toBe(RsCloseCode.TOO_MANY_SESSIONS);
+  });
+});
@@ -0,0 +1,14 @@
+export enum ReconnectTestCases {
+  EXPECT_EXPONENTIAL_DELAYS = 'Delays grow by the multiplier from the initial delay',
+  EXPECT_DELAY_CAPPED = 'Delay never exceeds the configured maximum',
+  EXPECT_JITTER_BOUNDS = 'Jitter keeps the delay within the configured spread',
+  EXPECT_ATTEMPTS_EXHAUSTED = 'No delay returned once max attempts are used',
+  EXPECT_RESET = 'Reset restarts the backoff from the initial delay',
+  EXPECT_BACKOFF_BETWEEN_ATTEMPTS = 'Orchestrator waits between reconnect attempts',
+  EXPECT_STATE_EXPOSED = 'Orchestrator exposes reconnect attempts and pending state',
+  EXPECT_TERMINAL_ERROR = 'Client receives rs.error once attempts are exhausted',
+  EXPECT_CLIENT_CLOSED = 'Client socket closed with the upstream unavailable code',
+  EXPECT_NO_RECONNECT_AFTER_CLEANUP = 'No reconnect attempt after cleanup',
+  EXPECT_STATE_RESET_ON_CONNECT = 'Reconnect state resets after a successful connect',
+  EXPECT_SESSION_LIMIT_ON_RECONNECT = 'A session pack-db reports over the session limit gets rs.error, not a reconnect',
+}
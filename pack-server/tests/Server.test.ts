@@ -0,0 +1,395 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { sql } from 'kysely';
+import { Config, ConfigKeys, ErrorCode } from 'pack-shared';
+import { ServiceFactory as DbServiceFactory } from '@rs/db';
+import { Server } from '../src/Server';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { AccountServiceTransport } from '../src/core/interfaces/AccountServiceTransport';
+import { DuplicateSessionPolicy } from '../src/core/interfaces/DuplicateSessionPolicy';
+import { RsCloseCode } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer } from './utils/FakeOpenAIServer';
+import { ServerTestCases } from './ServerTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const TEST_DIR = path.join(os.tmpdir(), `rs-test-server-${process.pid}`);
+const PORT = 20000 + ((process.pid + 7) % 20000);
+const STRICT_PORT = PORT + 1;
+const RATE_LIMITED_PORT = PORT + 2;
+const PROXIED_PORT = PORT + 3;
+const BASE_URL = `http://127.0.0.1:${PORT}`;
+const ADMIN_TOKEN = 'test-admin-token';
+const ADMIN_HEADERS = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+const RATE_LIMIT_KEYS = [ConfigKeys.RATE_LIMIT_IP_CAPACITY, ConfigKeys.RATE_LIMIT_IP_REFILL_PER_SECOND,
+  ConfigKeys.RATE_LIMIT_KEY_CAPACITY, ConfigKeys.RATE_LIMIT_KEY_REFILL_PER_SECOND,
+  ConfigKeys.RATE_LIMIT_FORBIDDEN_PENALTY];
+
+type UpgradeOptions = { port?: number; protocols?: string[]; headers?: Record<string, string> };
+type OpenSocket = { socket: WebSocket; messages: any[]; closed: Promise<number> };
+
+describe('Server', () => {
+  let openai: FakeOpenAIServer;
+  let dbFactory: DbServiceFactory;
+  let server: Server;
+  let strictServer: Server;
+  let rateLimitedServer: Server;
+  let proxiedServer: Server;
+  let apiKey: string;
+  let accountId: string;
+
+  const mintToken = (body: unknown, authorization = `Bearer ${apiKey}`, baseUrl = BASE_URL) =>
+    fetch(`${baseUrl}/client-tokens`, {
+    method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  const connect = (query: string, options: UpgradeOptions = {}): Promise<{ status: number; protocol: string }> =>
+    new Promise((resolve) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${options.port ?? PORT}/?${query}`, options.protocols ?? [],
+        { headers: options.headers });
+      socket.on('open', () => {
+        socket.close();
+        resolve({ status: 101, protocol: socket.protocol });
+      });
+      socket.on('unexpected-response', (_req, res) => resolve({ status: res.statusCode ?? 0, protocol: '' }));
+      socket.on('error', () => resolve({ status: 0, protocol: '' }));
+    });
+
+  const upgrade = async (query: string, options?: UpgradeOptions): Promise<number> =>
+    (await connect(query, options)).status;
+
+  const open = (query: string, options: UpgradeOptions = {}): Promise<OpenSocket> =>
+    new Promise((resolve, reject) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${options.port ?? PORT}/?${query}`, { headers: options.headers });
+      const messages: any[] = [];
+      const closed = new Promise<number>(resolveClose => socket.on('close', resolveClose));
+      socket.on('message', data => messages.push(JSON.parse(data.toString())));
+      socket.on('open', () => resolve({ socket, messages, closed }));
+      socket.on('unexpected-response', (_req, res) => reject(new Error(`Upgrade failed: ${res.statusCode}`)));
+    });
+
+  beforeAll(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    process.env[ConfigKeys.ACCOUNT_SERVICE_TRANSPORT] = AccountServiceTransport.IN_PROCESS;
+    process.env[ConfigKeys.DB_PATH] = path.join(TEST_DIR, 'server.db');
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = 'test-encryption-key-32chars!!';
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    process.env[ConfigKeys.RATE_LIMIT_IP_CAPACITY] = '1000';
+    process.env[ConfigKeys.RATE_LIMIT_KEY_CAPACITY] = '1000';
+    Config.reset();
+
+    dbFactory = DbServiceFactory.getInstance();
+    await dbFactory.getMigrator().runAll();
+    const account = await dbFactory.getAccountRepo().createAccount({ email: 'server@example.com', tokenRemaining: 100000 });
+    accountId = account.id;
+    apiKey = (await dbFactory.getAccountRepo().createApiKey({ accountId, label: 'server' })).plainKey;
+
+    const config = { host: '127.0.0.1', maxPayloadLength: 1024 * 1024, idleTimeout: 120, statsIntervalMs: 10000 };
+    server = new Server({ ...config, port: PORT, queryAuthEnabled: true,
+      duplicateSessionPolicy: DuplicateSessionPolicy.REPLACE, trustedProxyHops: 0,
+      adminToken: ADMIN_TOKEN });
+    await server.start();
+    strictServer = new Server({ ...config, port: STRICT_PORT, queryAuthEnabled: false,
+      duplicateSessionPolicy: DuplicateSessionPolicy.REJECT, trustedProxyHops: 0, adminToken: '' });
+    await strictServer.start();
+
+    process.env[ConfigKeys.RATE_LIMIT_IP_CAPACITY] = '4';
+    process.env[ConfigKeys.RATE_LIMIT_IP_REFILL_PER_SECOND] = '0.01';
+    process.env[ConfigKeys.RATE_LIMIT_KEY_CAPACITY] = '2';
+    process.env[ConfigKeys.RATE_LIMIT_KEY_REFILL_PER_SECOND] = '0.01';
+    process.env[ConfigKeys.RATE_LIMIT_FORBIDDEN_PENALTY] = '5';
+    Config.reset();
+    rateLimitedServer = new Server({ ...config, port: RATE_LIMITED_PORT, queryAuthEnabled: true,
+      duplicateSessionPolicy: DuplicateSessionPolicy.REPLACE, trustedProxyHops: 0, adminToken: '' });
+    await rateLimitedServer.start();
+    proxiedServer = new Server({ ...config, port: PROXIED_PORT, queryAuthEnabled: true,
+      duplicateSessionPolicy: DuplicateSessionPolicy.REPLACE, trustedProxyHops: 1, adminToken: '' });
+    await proxiedServer.start();
+  });
+
+  afterAll(async () => {
+    server.stop();
+    strictServer.stop();
+    rateLimitedServer.stop();
+    proxiedServer.stop();
+    await wait(100);
+    ServiceFactory.reset();
+    DbServiceFactory.reset();
+    await openai.stop();
+    for (const key of [ConfigKeys.ACCOUNT_SERVICE_TRANSPORT, ConfigKeys.DB_PATH, ConfigKeys.DB_ENCRYPTION_KEY,
+      ConfigKeys.OPENAI_REALTIME_URL, ...RATE_LIMIT_KEYS]) {
+      delete process.env[key];
+    }
+    Config.reset();
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should mint a client token that upgrades only its own session', async () => {
+    const response = await mintToken({ session_id: 'sess-token', ttl_seconds: 60 });
+    expect(response.status, ServerTestCases.EXPECT_TOKEN_MINTED).toBe(200);
+    const { token, session_id, expires_at } = await response.json() as Record<string, string>;
+    expect(session_id, ServerTestCases.EXPECT_TOKEN_MINTED).toBe('sess-token');
+    expect(new Date(expires_at).getTime(), ServerTestCases.EXPECT_TOKEN_MINTED).toBeGreaterThan(Date.now());
+
+    expect(await upgrade(`rs_key=${token}&rs_sessid=sess-token`), ServerTestCases.EXPECT_TOKEN_UPGRADES).toBe(101);
+    expect(await upgrade(`rs_key=${token}&rs_sessid=sess-other`), ServerTestCases.EXPECT_TOKEN_BOUND_TO_SESSION)
+      .toBe(403);
+    expect(await upgrade(`rs_key=${apiKey}&rs_sessid=sess-key`), ServerTestCases.EXPECT_API_KEY_UPGRADES).toBe(101);
+    await wait(100);
+  });
+
+  it('should reject token requests without a valid key or session id', async () => {
+    const missing = await mintToken({ session_id: 'sess' }, '');
+    expect(missing.status, ServerTestCases.EXPECT_MISSING_KEY_UNAUTHORIZED).toBe(401);
+
+    const unknown = await mintToken({ session_id: 'sess' }, 'Bearer rslive_v1_unknown');
+    expect(unknown.status, ServerTestCases.EXPECT_UNKNOWN_KEY_UNAUTHORIZED).toBe(401);
+    expect(await unknown.json(), ServerTestCases.EXPECT_UNKNOWN_KEY_UNAUTHORIZED)
+      .toEqual({ error: ErrorCode.EXTERNAL_INVALID_AUTH });
+
+    expect((await mintToken('not json')).status, ServerTestCases.EXPECT_BAD_BODY_REJECTED).toBe(400);
+    expect((await mintToken({ ttl_seconds: 60 })).status, ServerTestCases.EXPECT_BAD_BODY_REJECTED).toBe(400);
+  });
+
+  it('should authenticate upgrades with a bearer header', async () => {
+    expect(await upgrade('rs_sessid=sess-bearer', { headers: { Authorization: `Bearer ${apiKey}` } }),
+      ServerTestCases.EXPECT_BEARER_UPGRADES).toBe(101);
+    expect(await upgrade('rs_sessid=sess-bearer', { headers: { Authorization: 'Bearer rslive_v1_unknown' } }),
+      ServerTestCases.EXPECT_BEARER_UPGRADES).toBe(403);
+    await wait(100);
+  });
+
+  it('should authenticate upgrades with a key subprotocol and echo only the other protocol', async () => {
+    const result = await connect('rs_sessid=sess-protocol', { protocols: ['realtime', `rs-key.${apiKey}`] });
+    expect(result, ServerTestCases.EXPECT_PROTOCOL_UPGRADES).toEqual({ status: 101, protocol: 'realtime' });
+    await wait(100);
+  });
+
+  it('should echo the key subprotocol when it is the only protocol offered', async () => {
+    const result = await connect('rs_sessid=sess-key-protocol', { protocols: [`rs-key.${apiKey}`] });
+    expect(result, ServerTestCases.EXPECT_KEY_PROTOCOL_ECHOED).toEqual({ status: 101, protocol: `rs-key.${apiKey}` });
+    await wait(100);
+  });
+
+  it('should reject upgrades without credentials or session id', async () => {
+    expect(await upgrade('rs_sessid=sess-none'), ServerTestCases.EXPECT_MISSING_CREDENTIALS_UNAUTHORIZED).toBe(401);
+    expect(await upgrade(`rs_key=${apiKey}`), ServerTestCases.EXPECT_MISSING_SESSION_REJECTED).toBe(400);
+  });
+
+  it('should ignore rs_key when query-string auth is disabled', async () => {
+    const port = STRICT_PORT;
+    expect(await upgrade(`rs_key=${apiKey}&rs_sessid=sess-noquery`, { port }),
+      ServerTestCases.EXPECT_QUERY_AUTH_DISABLED).toBe(401);
+    expect(await upgrade('rs_sessid=sess-noquery', { port, headers: { Authorization: `Bearer ${apiKey}` } }),
+      ServerTestCases.EXPECT_QUERY_AUTH_DISABLED).toBe(101);
+    await wait(100);
+  });
+
+  it('should answer 429 once the key prefix or remote address runs out of attempts', async () => {
+    const port = RATE_LIMITED_PORT;
+    const bearer = (key: string) => ({ port, headers: { Authorization: `Bearer ${key}` } });
+
+    expect(await upgrade('rs_sessid=sess-limit-1', bearer(apiKey)), ServerTestCases.EXPECT_KEY_PREFIX_LIMITED)
+      .toBe(101);
+    expect(await upgrade('rs_sessid=sess-limit-2', bearer(apiKey)), ServerTestCases.EXPECT_KEY_PREFIX_LIMITED)
+      .toBe(101);
+    expect(await upgrade('rs_sessid=sess-limit-3', bearer(apiKey)), ServerTestCases.EXPECT_KEY_PREFIX_LIMITED)
+      .toBe(429);
+
+    expect(await upgrade('rs_sessid=sess-limit-4', bearer('rslive_v1_unknown')),
+      ServerTestCases.EXPECT_FORBIDDEN_PENALIZED).toBe(403);
+    const limited = await mintToken({ session_id: 'sess-limit' }, 'Bearer rslive_v1_other',
+      `http://127.0.0.1:${port}`);
+    expect(limited.status, ServerTestCases.EXPECT_FORBIDDEN_PENALIZED).toBe(429);
+    expect(Number(limited.headers.get('retry-after')), ServerTestCases.EXPECT_RETRY_AFTER_SENT).toBeGreaterThan(0);
+    await wait(100);
+  });
+
+  it('should key the address bucket on the entry the trusted proxy appended to X-Forwarded-For', async () => {
+    const mintForwarded = (forwardedFor: string, key: string) =>
+      fetch(`http://127.0.0.1:${PROXIED_PORT}/client-tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwardedFor,
+          Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ session_id: 'sess-proxied' }),
+      });
+
+    expect((await mintForwarded('198.51.100.7', 'rslive_v1_proxyA')).status,
+      ServerTestCases.EXPECT_FORWARDED_ADDRESS_LIMITED).toBe(401);
+    expect((await mintForwarded('198.51.100.7', 'rslive_v1_proxyB')).status,
+      ServerTestCases.EXPECT_FORWARDED_ADDRESS_LIMITED).toBe(429);
+    expect((await mintForwarded('198.51.100.7, 203.0.113.9', 'rslive_v1_proxyC')).status,
+      ServerTestCases.EXPECT_SPOOFED_FORWARDED_ENTRY_IGNORED).toBe(401);
+  });
+
+  it('should answer 429 once the account has its limit of concurrent sessions open', async () => {
+    const repo = dbFactory.getAccountRepo();
+    const limited = await repo.createAccount({ email: 'limited@example.com', tokenRemaining: 100000,
+      maxConcurrentSessions: 1 });
+    const limitedKey = (await repo.createApiKey({ accountId: limited.id, label: 'limited' })).plainKey;
+
+    const first = await open(`rs_key=${limitedKey}&rs_sessid=sess-cap-1`);
+    expect(await upgrade(`rs_key=${limitedKey}&rs_sessid=sess-cap-2`), ServerTestCases.EXPECT_SESSION_LIMIT_ENFORCED)
+      .toBe(429);
+
+    first.socket.close();
+    await first.closed;
+    await wait(50);
+    expect(await upgrade(`rs_key=${limitedKey}&rs_sessid=sess-cap-2`), ServerTestCases.EXPECT_SESSION_SLOT_FREED)
+      .toBe(101);
+    await wait(100);
+  });
+
+  it('should release the hold of an upgrade aborted while the session was loading', async () => {
+    const repo = dbFactory.getAccountRepo();
+    const aborted = await repo.createAccount({ email: 'aborted@example.com', tokenRemaining: 100000 });
+    const abortedKey = (await repo.createApiKey({ accountId: aborted.id, label: 'aborted' })).plainKey;
+    const service = ServiceFactory.getInstance().getAccountService();
+    const validateAndLoad = service.validateAndLoad.bind(service);
+    const loading = vi.spyOn(service, 'validateAndLoad').mockImplementation(async (...args) => {
+      const result = await validateAndLoad(...args);
+      await wait(200);
+      return result;
+    });
+
+    const socket = net.connect(PORT, '127.0.0.1');
+    socket.write(`GET /?rs_key=${abortedKey}&rs_sessid=sess-aborted HTTP/1.1\r\nHost: 127.0.0.1\r\n`
+      + 'Upgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Version: 13\r\n'
+      + 'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\n\r\n');
+    await wait(100);
+    expect(await dbFactory.getHoldRepo().getHeldAmount(aborted.id), ServerTestCases.EXPECT_ABORTED_HOLD_RELEASED)
+      .toBeGreaterThan(0);
+    socket.destroy();
+    await wait(300);
+    loading.mockRestore();
+
+    expect(await dbFactory.getHoldRepo().getHeldAmount(aborted.id), ServerTestCases.EXPECT_ABORTED_HOLD_RELEASED)
+      .toBe(0);
+  });
+
+  it('should replace the socket of a duplicate rs_sessid with rs.error on the old one', async () => {
+    const first = await open(`rs_key=${apiKey}&rs_sessid=sess-duplicate`);
+    const second = await open(`rs_key=${apiKey}&rs_sessid=sess-duplicate`);
+
+    expect(await first.closed, ServerTestCases.EXPECT_DUPLICATE_REPLACED).toBe(RsCloseCode.SESSION_REPLACED);
+    expect(first.messages, ServerTestCases.EXPECT_DUPLICATE_REPLACED)
+      .toContainEqual(expect.objectContaining({ code: ErrorCode.EXTERNAL_SESSION_REPLACED }));
+    expect(second.socket.readyState, ServerTestCases.EXPECT_DUPLICATE_REPLACED).toBe(WebSocket.OPEN);
+
+    second.socket.close();
+    await second.closed;
+  });
+
+  it('should reject a duplicate rs_sessid with 409 when configured to', async () => {
+    const options = { port: STRICT_PORT, headers: { Authorization: `Bearer ${apiKey}` } };
+    const first = await open('rs_sessid=sess-duplicate-strict', options);
+
+    expect(await upgrade('rs_sessid=sess-duplicate-strict', options), ServerTestCases.EXPECT_DUPLICATE_REJECTED)
+      .toBe(409);
+    expect(first.socket.readyState, ServerTestCases.EXPECT_DUPLICATE_REJECTED).toBe(WebSocket.OPEN);
+
+    first.socket.close();
+    await first.closed;
+  });
+
+  it('should apply the session limit and duplicate checks across servers sharing one pack-db', async () => {
+    const repo = dbFactory.getAccountRepo();
+    const shared = await repo.createAccount({ email: 'shared@example.com', tokenRemaining: 100000,
+      maxConcurrentSessions: 2 });
+    const sharedKey = (await repo.createApiKey({ accountId: shared.id, label: 'shared' })).plainKey;
+    const strict = { port: STRICT_PORT, headers: { Authorization: `Bearer ${sharedKey}` } };
+
+    const first = await open('rs_sessid=sess-shared-1', strict);
+    expect(await upgrade('rs_sessid=sess-shared-1', strict), ServerTestCases.EXPECT_SHARED_DUPLICATE_CHECKED)
+      .toBe(409);
+    const second = await open(`rs_key=${sharedKey}&rs_sessid=sess-shared-2`);
+    expect(await upgrade('rs_sessid=sess-shared-3', strict), ServerTestCases.EXPECT_SHARED_SESSION_LIMIT)
+      .toBe(429);
+
+    const replacement = await open(`rs_key=${sharedKey}&rs_sessid=sess-shared-1`);
+    expect(await first.closed, ServerTestCases.EXPECT_SHARED_DUPLICATE_CHECKED).toBe(RsCloseCode.SESSION_REPLACED);
+
+    replacement.socket.close();
+    second.socket.close();
+    await Promise.all([replacement.closed, second.closed]);
+    await wait(50);
+  });
+
+  it('should answer liveness and readiness once the database is migrated', async () => {
+    const health = await fetch(`${BASE_URL}/healthz`);
+    expect(health.status, ServerTestCases.EXPECT_HEALTHZ_OK).toBe(200);
+    expect(await health.json(), ServerTestCases.EXPECT_HEALTHZ_OK).toEqual({ status: 'ok' });
+
+    const ready = await fetch(`${BASE_URL}/readyz`);
+    expect(ready.status, ServerTestCases.EXPECT_READY).toBe(200);
+    expect(await ready.json(), ServerTestCases.EXPECT_READY)
+      .toMatchObject({ status: 'ready', database: true, pendingMigrations: 0 });
+  });
+
+  it('should not be ready while migrations are pending', async () => {
+    await sql`PRAGMA user_version = 0`.execute(dbFactory.getDatabaseConnection().getDb());
+    const notReady = await fetch(`${BASE_URL}/readyz`);
+    expect(notReady.status, ServerTestCases.EXPECT_NOT_READY_WITH_PENDING_MIGRATIONS).toBe(503);
+    const body = await notReady.json() as Record<string, unknown>;
+    expect(body.pendingMigrations, ServerTestCases.EXPECT_NOT_READY_WITH_PENDING_MIGRATIONS).toBeGreaterThan(0);
+
+    await dbFactory.getMigrator().runAll();
+    expect((await fetch(`${BASE_URL}/readyz`)).status, ServerTestCases.EXPECT_READY).toBe(200);
+  });
+
+  it('should answer /status and /metrics only with the admin token', async () => {
+    for (const route of ['/status', '/metrics']) {
+      expect((await fetch(`${BASE_URL}${route}`)).status, ServerTestCases.EXPECT_ADMIN_TOKEN_REQUIRED).toBe(401);
+      expect((await fetch(`${BASE_URL}${route}`, { headers: { Authorization: 'Bearer wrong-token' } })).status,
+        ServerTestCases.EXPECT_ADMIN_TOKEN_REQUIRED).toBe(401);
+      expect((await fetch(`http://127.0.0.1:${STRICT_PORT}${route}`, { headers: ADMIN_HEADERS })).status,
+        ServerTestCases.EXPECT_ADMIN_ROUTES_OFF_WITHOUT_TOKEN).toBe(404);
+    }
+  });
+
+  it('should report open sessions and upstream connections in /status', async () => {
+    const session = await open(`rs_key=${apiKey}&rs_sessid=sess-status`);
+    await wait(100);
+
+    const status = await (await fetch(`${BASE_URL}/status`, { headers: ADMIN_HEADERS }))
+      .json() as Record<string, any>;
+    expect(status.activeSessions, ServerTestCases.EXPECT_STATUS_SESSIONS).toBe(1);
+    expect(status.upstreamConnections.OPENAI, ServerTestCases.EXPECT_STATUS_UPSTREAMS).toBe(1);
+    expect(status.bufferedMessages, ServerTestCases.EXPECT_STATUS_SESSIONS).toBe(0);
+    expect(status.uptimeSeconds, ServerTestCases.EXPECT_STATUS_SESSIONS).toBeGreaterThanOrEqual(0);
+
+    session.socket.close();
+    await session.closed;
+    await wait(50);
+    const after = await (await fetch(`${BASE_URL}/status`, { headers: ADMIN_HEADERS }))
+      .json() as Record<string, any>;
+    expect(after.activeSessions, ServerTestCases.EXPECT_STATUS_SESSIONS).toBe(0);
+    expect(after.upstreamConnections.OPENAI, ServerTestCases.EXPECT_STATUS_UPSTREAMS).toBe(0);
+  });
+
+  it('should expose server and pack-db metrics in Prometheus text format', async () => {
+    const response = await fetch(`${BASE_URL}/metrics`, { headers: ADMIN_HEADERS });
+    expect(response.headers.get('content-type'), ServerTestCases.EXPECT_METRICS_EXPOSED).toContain('text/plain');
+
+    const lines = (await response.text()).split('\n');
+    expect(lines, ServerTestCases.EXPECT_METRICS_EXPOSED).toContain('# TYPE rs_active_sessions gauge');
+    expect(lines, ServerTestCases.EXPECT_METRICS_EXPOSED).toContain('rs_active_sessions 0');
+    const upgrades = lines.filter(line => line.startsWith('rs_upgrades_total{'));
+    expect(upgrades, ServerTestCases.EXPECT_UPGRADES_COUNTED).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^rs_upgrades_total\{code="101"\} [1-9]/),
+      expect.stringMatching(/^rs_upgrades_total\{code="409"\} [1-9]/),
+    ]));
+    const selects = lines.find(line => line.startsWith('rs_db_query_duration_seconds_count{operation="select"}'));
+    expect(Number(selects?.split(' ')[1]), ServerTestCases.EXPECT_DB_QUERIES_TIMED).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,37 @@
+export enum ServerTestCases {
+  EXPECT_TOKEN_MINTED = 'POST /client-tokens returns a token bound to the session with its expiry',
+  EXPECT_TOKEN_UPGRADES = 'A client token is accepted as rs_key for its session',
+  EXPECT_TOKEN_BOUND_TO_SESSION = 'A client token is rejected for another session id',
+  EXPECT_API_KEY_UPGRADES = 'A long-lived API key is still accepted as rs_key',
+  EXPECT_MISSING_KEY_UNAUTHORIZED = 'A token request without a bearer key is rejected with 401',
+  EXPECT_UNKNOWN_KEY_UNAUTHORIZED = 'A token request with an unknown key is rejected with 401',
+  EXPECT_BAD_BODY_REJECTED = 'A token request without a JSON session_id is rejected with 400',
+  EXPECT_BEARER_UPGRADES = 'An Authorization bearer header authenticates the upgrade',
+  EXPECT_PROTOCOL_UPGRADES = 'An rs-key. subprotocol authenticates and only the other offered protocol is echoed',
+  EXPECT_KEY_PROTOCOL_ECHOED = 'A lone rs-key. subprotocol is echoed so browsers complete the handshake',
+  EXPECT_MISSING_CREDENTIALS_UNAUTHORIZED = 'An upgrade without any credential is rejected with 401',
+  EXPECT_MISSING_SESSION_REJECTED = 'An upgrade without rs_sessid is rejected with 400',
+  EXPECT_QUERY_AUTH_DISABLED = 'rs_key is ignored when query-string auth is disabled, headers still work',
+  EXPECT_KEY_PREFIX_LIMITED = 'Upgrades for one key prefix are answered with 429 once its bucket is empty',
+  EXPECT_FORBIDDEN_PENALIZED = 'A 403 takes a penalty from the remote address so further requests get 429',
+  EXPECT_RETRY_AFTER_SENT = 'A 429 carries a Retry-After header',
+  EXPECT_ADMIN_TOKEN_REQUIRED = '/status and /metrics answer 401 without the configured admin token',
+  EXPECT_ADMIN_ROUTES_OFF_WITHOUT_TOKEN = '/status and /metrics answer 404 when no admin token is configured',
+  EXPECT_FORWARDED_ADDRESS_LIMITED = 'With a trusted proxy the address bucket is keyed on the X-Forwarded-For entry',
+  EXPECT_SPOOFED_FORWARDED_ENTRY_IGNORED = 'Entries left of the one the trusted proxy appended are ignored',
+  EXPECT_SESSION_LIMIT_ENFORCED = 'An upgrade beyond the account concurrent session limit is rejected with 429',
+  EXPECT_SESSION_SLOT_FREED = 'Closing a session frees its slot for a new upgrade',
+  EXPECT_ABORTED_HOLD_RELEASED = 'The hold reserved for an upgrade aborted during authentication is released',
+  EXPECT_DUPLICATE_REPLACED = 'A duplicate rs_sessid replaces the old socket, which gets rs.error and 4409',
+  EXPECT_DUPLICATE_REJECTED = 'A duplicate rs_sessid is rejected with 409 under the reject policy',
+  EXPECT_SHARED_SESSION_LIMIT = 'Sessions open on another server count against the account limit',
+  EXPECT_SHARED_DUPLICATE_CHECKED = 'An rs_sessid open on another server is rejected or replaced there',
+  EXPECT_HEALTHZ_OK = '/healthz answers 200 while the process is alive',
+  EXPECT_READY = '/readyz answers 200 once pack-db is reachable and fully migrated',
+  EXPECT_NOT_READY_WITH_PENDING_MIGRATIONS = '/readyz answers 503 while migrations are pending',
+  EXPECT_STATUS_SESSIONS = '/status reports open sessions, buffered messages and uptime',
+  EXPECT_STATUS_UPSTREAMS = '/status counts upstream connections by provider',
+  EXPECT_METRICS_EXPOSED = '/metrics answers Prometheus text with the session gauge',
+  EXPECT_UPGRADES_COUNTED = 'Upgrades are counted by their HTTP result code',
+  EXPECT_DB_QUERIES_TIMED = 'pack-db query durations are included in /metrics',
+}
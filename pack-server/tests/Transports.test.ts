@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config, ConfigKeys, ErrorCode, IAccountService, VoiceProvider } from 'pack-shared';
+import { ServiceFactory as DbServiceFactory } from '@rs/db';
+import { ServiceFactory } from '../src/core/impls/ServiceFactory';
+import { AccountServiceZmq } from '../src/core/impls/AccountServiceZmq';
+import { AccountServiceInProcess } from '../src/core/impls/AccountServiceInProcess';
+import { AccountServiceTransport } from '../src/core/interfaces/AccountServiceTransport';
+import { RsCloseCode, RsEventType } from '../src/core/interfaces/RsEvents';
+import { FakeOpenAIServer, FAKE_OPENAI_USAGE, FAKE_OPENAI_OUTPUT_TRANSCRIPT } from './utils/FakeOpenAIServer';
+import { FakeClientSocket } from './utils/FakeClientSocket';
+import { TransportsTestCases } from './TransportsTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const AUDIO_APPEND = { type: 'input_audio_buffer.append', audio: 'AAAA' };
+const SESSION_UPDATE = { type: 'session.update', session: { type: 'realtime', instructions: 'Be brief.' } };
+const INITIAL_CREDITS = 100000;
+const RESPONSES = 3;
+const PORT_BASE = 20000 + (process.pid % 20000);
+const HOLD_TTL_MS = 600;
+
+const TRANSPORTS = [
+  { transport: AccountServiceTransport.ZMQ, implementation: AccountServiceZmq },
+  { transport: AccountServiceTransport.IN_PROCESS, implementation: AccountServiceInProcess },
+];
+
+describe.each(TRANSPORTS)('Orchestrator over the $transport transport', ({ transport, implementation }) => {
+  const testDir = path.join(os.tmpdir(), `rs-test-transport-${transport}-${process.pid}`);
+  let openai: FakeOpenAIServer;
+  let dbFactory: DbServiceFactory;
+  let factory: ServiceFactory;
+  let accountService: IAccountService;
+
+  const waitFor = async (condition: () => Promise<boolean>): Promise<boolean> => {
+    for (let i = 0; i < 100; i++) {
+      if (await condition()) return true;
+      await wait(20);
+    }
+    return false;
+  };
+
+  const createAccount = async (email: string): Promise<{ accountId: string; apiKey: string }> => {
+    const accountRepo = dbFactory.getAccountRepo();
+    const account = await accountRepo.createAccount({ email, tokenRemaining: INITIAL_CREDITS });
+    const { plainKey } = await accountRepo.createApiKey({ accountId: account.id, label: transport });
+    return { accountId: account.id, apiKey: plainKey };
+  };
+
+  const countUsage = async (accountId: string): Promise<number> => {
+    const rows = await dbFactory.getDatabaseConnection().getDb()
+      .selectFrom('usage_metrics')
+      .select('id')
+      .where('account_id', '=', accountId)
+      .execute();
+    return rows.length;
+  };
+
+  beforeAll(async () => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env[ConfigKeys.ACCOUNT_SERVICE_TRANSPORT] = transport;
+    process.env[ConfigKeys.DB_PATH] = path.join(testDir, 'transport.db');
+    process.env[ConfigKeys.DB_ENCRYPTION_KEY] = 'test-encryption-key-32chars!!';
+    process.env[ConfigKeys.GEMINI_API_KEY] = process.env[ConfigKeys.GEMINI_API_KEY] || 'test-gemini-key';
+    process.env[ConfigKeys.ZMQ_SOCKET_PATH] = `tcp://127.0.0.1:${PORT_BASE}`;
+    process.env[ConfigKeys.ZMQ_EVENTS_SOCKET_PATH] = `tcp://127.0.0.1:${PORT_BASE + 1}`;
+    process.env[ConfigKeys.OUTBOX_PATH] = path.join(testDir, 'outbox.log');
+    process.env[ConfigKeys.OUTBOX_RETRY_MS] = '50';
+    process.env[ConfigKeys.CREDIT_HOLD_TTL_MS] = String(HOLD_TTL_MS);
+    openai = new FakeOpenAIServer();
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    process.env.OPENAI_REALTIME_URL = await openai.start();
+    Config.reset();
+
+    dbFactory = DbServiceFactory.getInstance();
+    await dbFactory.getMigrator().runAll();
+    factory = ServiceFactory.getInstance();
+    await factory.loadDbServiceFactory();
+
+    if (transport === AccountServiceTransport.ZMQ) {
+      await dbFactory.getBalancePublisher().start(Config.get(ConfigKeys.ZMQ_EVENTS_SOCKET_PATH));
+      await dbFactory.getZmqHandler().start(Config.get(ConfigKeys.ZMQ_SOCKET_PATH));
+      await factory.getZmqService().connect();
+      factory.getOutbox().start();
+    }
+    await factory.getBalanceSubscriber().connect();
+    accountService = factory.getAccountService();
+    await wait(100);
+  });
+
+  afterAll(async () => {
+    ServiceFactory.reset();
+    DbServiceFactory.reset();
+    await openai.stop();
+    for (const key of [ConfigKeys.ACCOUNT_SERVICE_TRANSPORT, ConfigKeys.DB_PATH, ConfigKeys.DB_ENCRYPTION_KEY,
+      ConfigKeys.ZMQ_SOCKET_PATH, ConfigKeys.ZMQ_EVENTS_SOCKET_PATH, ConfigKeys.OUTBOX_PATH,
+      ConfigKeys.OUTBOX_RETRY_MS, ConfigKeys.OPENAI_REALTIME_URL, ConfigKeys.CREDIT_HOLD_TTL_MS]) {
+      delete process.env[key];
+    }
+    Config.reset();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should select the configured transport', () => {
+    expect(factory.getTransport(), TransportsTestCases.EXPECT_TRANSPORT_SELECTED).toBe(transport);
+    expect(accountService, TransportsTestCases.EXPECT_TRANSPORT_SELECTED).toBeInstanceOf(implementation);
+  });
+
+  it('should report a reachable, fully migrated database and its metrics', async () => {
+    expect(await factory.getHealthService().check(), TransportsTestCases.EXPECT_DATABASE_HEALTHY)
+      .toEqual({ database: true, pendingMigrations: 0 });
+    expect(await factory.getHealthService().getMetrics(), TransportsTestCases.EXPECT_DB_METRICS_COLLECTED)
+      .toContain('rs_db_query_duration_seconds_count{operation="select"}');
+  });
+
+  it('should load sessions and reject unknown keys', async () => {
+    const { apiKey } = await createAccount(`load-${transport}@example.com`);
+
+    const loaded = await accountService.validateAndLoad(apiKey, 'sess-load');
+    expect(loaded.error, TransportsTestCases.EXPECT_SESSION_LOADED).toBe('');
+    expect(loaded.reserved, TransportsTestCases.EXPECT_SESSION_LOADED).toBeGreaterThan(0);
+
+    const rejected = await accountService.validateAndLoad('rs_invalid', 'sess-load');
+    expect(rejected.error, TransportsTestCases.EXPECT_INVALID_KEY_REJECTED).toBe(ErrorCode.EXTERNAL_INVALID_AUTH);
+  });
+
+  it('should apply fire-and-forget writes after returning', async () => {
+    const { accountId } = await createAccount(`async-${transport}@example.com`);
+
+    accountService.updateUsage(accountId, 'sess-async', VoiceProvider.OPENAI, 10, 5, '', '');
+    expect(await countUsage(accountId), TransportsTestCases.EXPECT_FIRE_AND_FORGET_DEFERRED).toBe(0);
+
+    expect(await waitFor(async () => await countUsage(accountId) === 1),
+      TransportsTestCases.EXPECT_FIRE_AND_FORGET_APPLIED).toBe(true);
+    expect(await accountService.getCredits(accountId), TransportsTestCases.EXPECT_FIRE_AND_FORGET_APPLIED)
+      .toBe(INITIAL_CREDITS - 15);
+  });
+
+  it('should bill, save and release a full session', async () => {
+    const { accountId, apiKey } = await createAccount(`session-${transport}@example.com`);
+    const sessionData = await accountService.validateAndLoad(apiKey, 'sess-full');
+    const client = new FakeClientSocket({ sessionId: 'sess-full' });
+    const orchestrator = factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI,
+      VoiceProvider.OPENAI);
+
+    orchestrator.connect();
+    orchestrator.send(SESSION_UPDATE);
+    await wait(100);
+    for (let i = 0; i < RESPONSES; i++) {
+      orchestrator.send(AUDIO_APPEND);
+      await wait(100);
+    }
+    orchestrator.cleanup();
+
+    const expected = INITIAL_CREDITS - RESPONSES * FAKE_OPENAI_USAGE.total_tokens;
+    expect(await waitFor(async () => await accountService.getCredits(accountId) === expected),
+      TransportsTestCases.EXPECT_USAGE_BILLED).toBe(true);
+    expect(await waitFor(async () => await dbFactory.getHoldRepo().getHeldAmount(accountId) === 0),
+      TransportsTestCases.EXPECT_HOLD_RELEASED).toBe(true);
+
+    const usageKeys = await dbFactory.getDatabaseConnection().getDb()
+      .selectFrom('usage_metrics')
+      .select('key_hash')
+      .where('account_id', '=', accountId)
+      .execute();
+    expect(sessionData.keyHash, TransportsTestCases.EXPECT_USAGE_ATTRIBUTED_TO_KEY).not.toBe('');
+    expect(usageKeys.map(row => row.key_hash), TransportsTestCases.EXPECT_USAGE_ATTRIBUTED_TO_KEY)
+      .toEqual([sessionData.keyHash]);
+
+    const rows = await dbFactory.getSessionRepo().loadSessionByKeyAndId(apiKey, 'sess-full');
+    const saved = Object.fromEntries(rows.map(row => [row.type, row.data]));
+    expect(saved.SESSION, TransportsTestCases.EXPECT_SESSION_AND_CONVERSATION_SAVED).toContain('Be brief.');
+    expect(saved.CONV, TransportsTestCases.EXPECT_SESSION_AND_CONVERSATION_SAVED)
+      .toContain(FAKE_OPENAI_OUTPUT_TRANSCRIPT);
+  });
+
+  it('should push balance updates to live sessions', async () => {
+    const { accountId, apiKey } = await createAccount(`balance-${transport}@example.com`);
+    const sessionData = await accountService.validateAndLoad(apiKey, 'sess-balance');
+    const client = new FakeClientSocket({ sessionId: 'sess-balance' });
+    const orchestrator = factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI,
+      VoiceProvider.OPENAI);
+    orchestrator.connect();
+    await wait(100);
+
+    accountService.updateUsage(accountId, 'sess-elsewhere', VoiceProvider.OPENAI, 100, 50, '', '');
+    const balances = () => client.sent.filter(m => m.type === RsEventType.CREDITS_UPDATED).map(m => m.balance);
+    expect(await waitFor(async () => balances().includes(INITIAL_CREDITS - 150)),
+      TransportsTestCases.EXPECT_BALANCE_PUSHED).toBe(true);
+
+    orchestrator.cleanup();
+    expect(await waitFor(async () => await dbFactory.getHoldRepo().getHeldAmount(accountId) === 0),
+      TransportsTestCases.EXPECT_HOLD_RELEASED).toBe(true);
+  });
+
+  it('should keep the hold of an idle session past its TTL', async () => {
+    const { accountId, apiKey } = await createAccount(`idle-${transport}@example.com`);
+    const sessionData = await accountService.validateAndLoad(apiKey, 'sess-idle');
+    const client = new FakeClientSocket({ sessionId: 'sess-idle' });
+    const orchestrator = factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI,
+      VoiceProvider.OPENAI);
+    orchestrator.connect();
+
+    await wait(2 * HOLD_TTL_MS);
+    expect(await dbFactory.getHoldRepo().getHeldAmount(accountId), TransportsTestCases.EXPECT_IDLE_HOLD_KEPT)
+      .toBe(sessionData.reserved);
+
+    orchestrator.cleanup();
+    expect(await waitFor(async () => await dbFactory.getHoldRepo().getHeldAmount(accountId) === 0),
+      TransportsTestCases.EXPECT_HOLD_RELEASED).toBe(true);
+  });
+
+  it('should close reconnecting sessions once the account is over its lowered session limit', async () => {
+    const { accountId, apiKey } = await createAccount(`lowered-${transport}@example.com`);
+    const clients: FakeClientSocket[] = [];
+    for (const sessionId of ['sess-lowered-1', 'sess-lowered-2']) {
+      const sessionData = await accountService.validateAndLoad(apiKey, sessionId);
+      const client = new FakeClientSocket({ sessionId });
+      const orchestrator = factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI,
+        VoiceProvider.OPENAI);
+      orchestrator.connect();
+      clients.push(client);
+    }
+    await wait(100);
+
+    await dbFactory.getAccountRepo().setMaxConcurrentSessions(accountId, 1);
+    openai.closeAll(1011, 'server error');
+    expect(await waitFor(async () => clients.some(client => client.closed?.code === RsCloseCode.TOO_MANY_SESSIONS)),
+      TransportsTestCases.EXPECT_LOWERED_LIMIT_ON_RECONNECT).toBe(true);
+  });
+
+  it('should close live sessions of a suspended account', async () => {
+    const { accountId, apiKey } = await createAccount(`suspend-${transport}@example.com`);
+    const sessionData = await accountService.validateAndLoad(apiKey, 'sess-suspend');
+    const client = new FakeClientSocket({ sessionId: 'sess-suspend' });
+    factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI).connect();
+    await wait(100);
+
+    await dbFactory.getAccountStatusService().suspend(accountId, 'admin@example.com', 'test');
+    expect(await waitFor(async () => client.closed?.code === RsCloseCode.ACCOUNT_INACTIVE),
+      TransportsTestCases.EXPECT_SUSPENDED_SESSION_CLOSED).toBe(true);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-suspend')).error,
+      TransportsTestCases.EXPECT_SUSPENDED_SESSION_CLOSED).toBe(ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED);
+    expect(await waitFor(async () => await dbFactory.getHoldRepo().getHeldAmount(accountId) === 0),
+      TransportsTestCases.EXPECT_HOLD_RELEASED).toBe(true);
+  });
+
+  it('should enforce key scopes and close the session at its max duration', async () => {
+    const accountRepo = dbFactory.getAccountRepo();
+    const account = await accountRepo.createAccount({ email: `scope-${transport}@example.com`,
+      tokenRemaining: INITIAL_CREDITS });
+    const { plainKey: apiKey } = await accountRepo.createApiKey({ accountId: account.id, label: transport,
+      allowedProviders: [VoiceProvider.OPENAI], allowedOrigins: ['https://app.example.com'], maxSessionSeconds: 1 });
+    const scope = { provider: VoiceProvider.OPENAI, apiStyle: VoiceProvider.OPENAI, origin: 'https://app.example.com' };
+
+    expect((await accountService.validateAndLoad(apiKey, 'sess-scope', { ...scope, origin: 'https://other.com' })).error,
+      TransportsTestCases.EXPECT_SCOPE_ENFORCED).toBe(ErrorCode.EXTERNAL_KEY_ORIGIN_NOT_ALLOWED);
+    expect((await accountService.validateAndLoad(apiKey, 'sess-scope', { ...scope, provider: VoiceProvider.GEMINI }))
+      .error, TransportsTestCases.EXPECT_SCOPE_ENFORCED).toBe(ErrorCode.EXTERNAL_KEY_PROVIDER_NOT_ALLOWED);
+
+    const sessionData = await accountService.validateAndLoad(apiKey, 'sess-scope', scope);
+    expect(sessionData, TransportsTestCases.EXPECT_SCOPE_ENFORCED).toMatchObject({ error: '', maxSessionSeconds: 1 });
+
+    const client = new FakeClientSocket({ sessionId: 'sess-scope' });
+    factory.getNewOrchestrator(sessionData, client.asWebSocket(), VoiceProvider.OPENAI, VoiceProvider.OPENAI).connect();
+    expect(await waitFor(async () => client.closed?.code === RsCloseCode.SESSION_EXPIRED),
+      TransportsTestCases.EXPECT_SESSION_EXPIRED).toBe(true);
+    expect(client.sent.find(m => m.type === RsEventType.ERROR), TransportsTestCases.EXPECT_SESSION_EXPIRED)
+      .toMatchObject({ code: ErrorCode.EXTERNAL_SESSION_EXPIRED });
+    expect(await waitFor(async () => await dbFactory.getHoldRepo().getHeldAmount(account.id) === 0),
+      TransportsTestCases.EXPECT_HOLD_RELEASED).toBe(true);
+  });
+});
+
+describe('Account service transport selection', () => {
+  afterAll(() => {
+    delete process.env[ConfigKeys.ACCOUNT_SERVICE_TRANSPORT];
+    ServiceFactory.reset();
+  });
+
+  it('should reject an unknown transport', () => {
+    process.env[ConfigKeys.ACCOUNT_SERVICE_TRANSPORT] = 'carrier-pigeon';
+    Config.reset();
+    expect(() => ServiceFactory.getInstance().getTransport(), TransportsTestCases.EXPECT_UNKNOWN_TRANSPORT_REJECTED)
+      .toThrow('carrier-pigeon');
+  });
+});
@@ -0,0 +1,20 @@
+export enum TransportsTestCases {
+  EXPECT_TRANSPORT_SELECTED = 'ServiceFactory selects the transport configured in ACCOUNT_SERVICE_TRANSPORT',
+  EXPECT_DATABASE_HEALTHY = 'The health query reports the database reachable with no pending migrations',
+  EXPECT_DB_METRICS_COLLECTED = 'pack-db query metrics can be collected over the transport',
+  EXPECT_SESSION_LOADED = 'A valid key loads the session and reserves a hold',
+  EXPECT_INVALID_KEY_REJECTED = 'An unknown key is rejected with EXTERNAL_INVALID_AUTH',
+  EXPECT_FIRE_AND_FORGET_DEFERRED = 'Fire-and-forget writes are not applied before the call returns',
+  EXPECT_FIRE_AND_FORGET_APPLIED = 'Fire-and-forget writes are applied shortly after the call returns',
+  EXPECT_USAGE_BILLED = 'Usage of every response is billed against the account',
+  EXPECT_USAGE_ATTRIBUTED_TO_KEY = 'Usage rows carry the hash of the key the session connected with',
+  EXPECT_SESSION_AND_CONVERSATION_SAVED = 'The session config and conversation are stored for the next connect',
+  EXPECT_HOLD_RELEASED = 'The credit hold is released when the session ends',
+  EXPECT_IDLE_HOLD_KEPT = 'An idle session keeps its credit hold past CREDIT_HOLD_TTL_MS',
+  EXPECT_LOWERED_LIMIT_ON_RECONNECT = 'A reconnecting session is closed with 4429 once pack-db counts it over the limit',
+  EXPECT_BALANCE_PUSHED = 'Balance updates reach the live session',
+  EXPECT_SUSPENDED_SESSION_CLOSED = 'Suspending the account closes its live session and blocks new connects',
+  EXPECT_SCOPE_ENFORCED = 'Provider and origin scopes of the key are checked on connect across the transport',
+  EXPECT_SESSION_EXPIRED = 'The session is closed with 4408 once the max duration of the key passes',
+  EXPECT_UNKNOWN_TRANSPORT_REJECTED = 'An unknown transport name is rejected',
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as zmq from 'zeromq';
+import { ZmqMessageType, ZmqUtils, ZMQ_PROTOCOL_VERSION, ErrorCode } from 'pack-shared';
+import { ZmqService } from '../src/core/impls/ZmqService';
+import { ZmqHealthState } from '../src/core/interfaces/ZmqHealth';
+import { ZmqHealthTestCases } from './ZmqHealthTestCases';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const SOCKET_PATH = `ipc:///tmp/rs-test-zmq-health-${process.pid}.sock`;
+const HEARTBEAT = { intervalMs: 50, maxMissed: 3 };
+
+class FakePackDb {
+  private router: zmq.Router | null = null;
+  incompatible = false;
+  requestVersions: number[] = [];
+
+  async start(): Promise<void> {
+    this.router = new zmq.Router();
+    await this.router.bind(SOCKET_PATH);
+    this.listen(this.router);
+  }
+
+  private async listen(router: zmq.Router): Promise<void> {
+    try {
+      for await (const [identity, delimiter, ...frameBuffers] of router) {
+        const request = ZmqUtils.decodeRequest(frameBuffers.map(frame => frame.toString()))!;
+        if (request.type === ZmqMessageType.GET_CREDITS) this.requestVersions.push(request.version);
+        let reply = ZmqUtils.encodeResponse(request.version, request.id, request.type, '');
+        if (this.incompatible) {
+          reply = ZmqUtils.encodeResponse(request.version, request.id, request.type,
+            ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE);
+        } else if (request.type === ZmqMessageType.HELLO) {
+          reply = ZmqUtils.encodeResponse(request.version, request.id, request.type, '', ZMQ_PROTOCOL_VERSION);
+        } else if (request.type === ZmqMessageType.GET_CREDITS) {
+          reply = ZmqUtils.encodeResponse(request.version, request.id, request.type, '', 42);
+        }
+        await router.send([identity, delimiter, ...reply]);
+      }
+    } catch (error) {
+      // Socket closed
+    }
+  }
+
+  stop(): void {
+    this.router?.close();
+    this.router = null;
+  }
+}
+
+describe('ZMQ health', () => {
+  const packDb = new FakePackDb();
+  const zmqService = new ZmqService(SOCKET_PATH, 500, HEARTBEAT);
+  const transitions: ZmqHealthState[] = [];
+
+  const waitForHealth = async (state: ZmqHealthState) => {
+    for (let i = 0; i < 100 && zmqService.getHealth() !== state; i++) {
+      await wait(20);
+    }
+  };
+
+  afterAll(() => {
+    zmqService.destroy();
+    packDb.stop();
+  });
+
+  it('should move through degraded and down when pack-db stops answering', async () => {
+    zmqService.onHealthChange(state => transitions.push(state));
+    await packDb.start();
+    await zmqService.connect();
+
+    await waitForHealth(ZmqHealthState.CONNECTED);
+    expect(zmqService.getHealth(), ZmqHealthTestCases.EXPECT_CONNECTED_AFTER_PONG).toBe(ZmqHealthState.CONNECTED);
+    expect(zmqService.getProtocolVersion(), ZmqHealthTestCases.EXPECT_VERSION_NEGOTIATED).toBe(ZMQ_PROTOCOL_VERSION);
+
+    packDb.stop();
+    await waitForHealth(ZmqHealthState.DEGRADED);
+    expect(zmqService.getHealth(), ZmqHealthTestCases.EXPECT_DEGRADED_ON_MISS).toBe(ZmqHealthState.DEGRADED);
+
+    await waitForHealth(ZmqHealthState.DOWN);
+    expect(zmqService.getHealth(), ZmqHealthTestCases.EXPECT_DOWN_AFTER_MAX_MISSED).toBe(ZmqHealthState.DOWN);
+    expect(transitions, ZmqHealthTestCases.EXPECT_TRANSITIONS_REPORTED)
+      .toEqual([ZmqHealthState.CONNECTED, ZmqHealthState.DEGRADED, ZmqHealthState.DOWN]);
+  });
+
+  it('should reconnect once pack-db is back', async () => {
+    await packDb.start();
+
+    await waitForHealth(ZmqHealthState.CONNECTED);
+    expect(zmqService.getHealth(), ZmqHealthTestCases.EXPECT_RECOVERS_AFTER_RESTART).toBe(ZmqHealthState.CONNECTED);
+
+    const response = await zmqService.send('credits-1', ZmqMessageType.GET_CREDITS, 'acc-1');
+    expect(response.credits, ZmqHealthTestCases.EXPECT_REQUESTS_WORK_AFTER_RECOVERY).toBe(42);
+    expect(packDb.requestVersions, ZmqHealthTestCases.EXPECT_NEGOTIATED_VERSION_SENT)
+      .toEqual([zmqService.getProtocolVersion()]);
+  });
+
+  it('should report pack-db as down when it speaks an incompatible protocol', async () => {
+    packDb.stop();
+    packDb.incompatible = true;
+    await packDb.start();
+    const incompatible = new ZmqService(SOCKET_PATH, 500, HEARTBEAT);
+    await incompatible.connect();
+
+    for (let i = 0; i < 100 && incompatible.getHealth() !== ZmqHealthState.DOWN; i++) {
+      await wait(20);
+    }
+    expect(incompatible.getHealth(), ZmqHealthTestCases.EXPECT_INCOMPATIBLE_DOWN).toBe(ZmqHealthState.DOWN);
+    await expect(incompatible.send('credits-2', ZmqMessageType.GET_CREDITS, 'acc-1'),
+      ZmqHealthTestCases.EXPECT_INCOMPATIBLE_REJECTED).rejects.toThrow(ErrorCode.INTERNAL_ZMQ_VERSION_INCOMPATIBLE);
+
+    incompatible.destroy();
+  });
+});
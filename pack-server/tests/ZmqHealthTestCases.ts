@@ -0,0 +1,12 @@
+export enum ZmqHealthTestCases {
+  EXPECT_CONNECTED_AFTER_PONG = 'The service reports connected once pack-db answers a heartbeat',
+  EXPECT_VERSION_NEGOTIATED = 'The first heartbeat negotiates the protocol version',
+  EXPECT_NEGOTIATED_VERSION_SENT = 'Requests are sent in the negotiated protocol version',
+  EXPECT_INCOMPATIBLE_DOWN = 'An incompatible pack-db is reported as down',
+  EXPECT_INCOMPATIBLE_REJECTED = 'Requests to an incompatible pack-db fail fast with INTERNAL_ZMQ_VERSION_INCOMPATIBLE',
+  EXPECT_DEGRADED_ON_MISS = 'A missed heartbeat degrades the connection',
+  EXPECT_DOWN_AFTER_MAX_MISSED = 'The connection is down after the configured number of missed heartbeats',
+  EXPECT_TRANSITIONS_REPORTED = 'Health listeners see every transition in order',
+  EXPECT_RECOVERS_AFTER_RESTART = 'A recreated socket reconnects once pack-db is back',
+  EXPECT_REQUESTS_WORK_AFTER_RECOVERY = 'Requests succeed again after the socket is recreated',
+}
@@ -0,0 +1,204 @@
+import { ConverterFixture } from './OpenAIToGeminiFixtures';
+
+const AUDIO_FORMAT = { type: 'audio/pcm', rate: 24000 };
+
+export const GEMINI_TO_OPENAI_FIXTURES: ConverterFixture[] = [
+  {
+    name: 'setup becomes session.update',
+    input: [{
+      setup: {
+        model: 'models/gemini-2.0-flash-live-001',
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+        },
+        systemInstruction: { parts: [{ text: 'Be brief.' }] },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+    }],
+    expected: [{
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        model: 'gpt-realtime',
+        output_modalities: ['audio'],
+        instructions: 'Be brief.',
+        audio: {
+          input: { format: AUDIO_FORMAT, transcription: { model: 'whisper-1' }, turn_detection: { type: 'server_vad' } },
+          output: { format: AUDIO_FORMAT, voice: 'sage' },
+        },
+      },
+    }],
+  },
+  {
+    name: 'setup with disabled activity detection clears turn detection',
+    input: [{ setup: { model: 'models/gemini-2.0-flash-live-001', realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } }],
+    expected: [{
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        model: 'gpt-realtime',
+        output_modalities: ['audio'],
+        audio: { input: { format: AUDIO_FORMAT, turn_detection: null }, output: { format: AUDIO_FORMAT } },
+      },
+    }],
+  },
+  {
+    name: 'realtimeInput audio and mediaChunks become appends',
+    input: [
+      { realtimeInput: { audio: { mimeType: 'audio/pcm;rate=24000', data: 'AAECAw==' } } },
+      { realtimeInput: { mediaChunks: [{ mimeType: 'audio/pcm', data: 'BAU=' }, { mimeType: 'audio/pcm', data: 'Bgc=' }] } },
+    ],
+    expected: [
+      { type: 'input_audio_buffer.append', audio: 'AAECAw==' },
+      { type: 'input_audio_buffer.append', audio: 'BAU=' },
+      { type: 'input_audio_buffer.append', audio: 'Bgc=' },
+    ],
+  },
+  {
+    name: 'clientContent turns become conversation items and a response request',
+    input: [{
+      clientContent: {
+        turns: [{ role: 'user', parts: [{ text: 'hello' }] }, { role: 'model', parts: [{ text: 'hi there' }] }],
+        turnComplete: true,
+      },
+    }],
+    expected: [
+      { type: 'conversation.item.create', item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'hello' }] } },
+      { type: 'conversation.item.create', item: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'hi there' }] } },
+      { type: 'response.create' },
+    ],
+  },
+  {
+    name: 'audioStreamEnd becomes commit',
+    input: [{ realtimeInput: { audioStreamEnd: true } }],
+    expected: [{ type: 'input_audio_buffer.commit' }],
+  },
+  {
+    name: 'setupComplete becomes session.updated',
+    input: [{ setupComplete: {} }],
+    expected: [{ type: 'session.updated', event_id: 'event_rs1', session: { type: 'realtime' } }],
+  },
+  {
+    name: 'full turn maps to deltas and a single response.done',
+    input: [
+      { serverContent: { inputTranscription: { text: 'hello' } } },
+      { serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'CAkKCw==' } }] } } },
+      { serverContent: { outputTranscription: { text: 'hi there' } } },
+      {
+        serverContent: { turnComplete: true },
+        usageMetadata: { promptTokenCount: 120, responseTokenCount: 80, totalTokenCount: 200 },
+      },
+    ],
+    expected: [
+      {
+        type: 'conversation.item.input_audio_transcription.delta',
+        event_id: 'event_rs1',
+        item_id: 'item_rs1',
+        content_index: 0,
+        delta: 'hello',
+      },
+      {
+        type: 'response.output_audio.delta',
+        event_id: 'event_rs2',
+        response_id: 'resp_rs1',
+        item_id: 'item_rs2',
+        output_index: 0,
+        content_index: 0,
+        delta: 'CAkKCw==',
+      },
+      {
+        type: 'response.output_audio_transcript.delta',
+        event_id: 'event_rs3',
+        response_id: 'resp_rs1',
+        item_id: 'item_rs2',
+        output_index: 0,
+        content_index: 0,
+        delta: 'hi there',
+      },
+      {
+        type: 'response.done',
+        event_id: 'event_rs4',
+        response: {
+          object: 'realtime.response',
+          id: 'resp_rs1',
+          status: 'completed',
+          usage: { total_tokens: 200, input_tokens: 120, output_tokens: 80 },
+        },
+      },
+    ],
+  },
+  {
+    name: 'interrupted becomes speech_started',
+    input: [{ serverContent: { interrupted: true } }],
+    expected: [{ type: 'input_audio_buffer.speech_started', event_id: 'event_rs1' }],
+  },
+  {
+    name: 'usage sent after turnComplete is attached to a single response.done',
+    input: [
+      { serverContent: { turnComplete: true } },
+      { usageMetadata: { promptTokenCount: 12, responseTokenCount: 8, totalTokenCount: 20 } },
+    ],
+    expected: [{
+      type: 'response.done',
+      event_id: 'event_rs1',
+      response: {
+        object: 'realtime.response',
+        id: 'resp_rs1',
+        status: 'completed',
+        usage: { total_tokens: 20, input_tokens: 12, output_tokens: 8 },
+      },
+    }],
+  },
+  {
+    name: 'usage sent before turnComplete is attached to a single response.done',
+    input: [
+      { usageMetadata: { promptTokenCount: 12, responseTokenCount: 8, totalTokenCount: 20 } },
+      { serverContent: { turnComplete: true } },
+    ],
+    expected: [{
+      type: 'response.done',
+      event_id: 'event_rs1',
+      response: {
+        object: 'realtime.response',
+        id: 'resp_rs1',
+        status: 'completed',
+        usage: { total_tokens: 20, input_tokens: 12, output_tokens: 8 },
+      },
+    }],
+  },
+  {
+    name: 'turnComplete without usage reports zero tokens once the next turn starts',
+    input: [
+      { serverContent: { turnComplete: true } },
+      { serverContent: { outputTranscription: { text: 'next' } } },
+    ],
+    expected: [
+      {
+        type: 'response.done',
+        event_id: 'event_rs1',
+        response: {
+          object: 'realtime.response',
+          id: 'resp_rs1',
+          status: 'completed',
+          usage: { total_tokens: 0, input_tokens: 0, output_tokens: 0 },
+        },
+      },
+      {
+        type: 'response.output_audio_transcript.delta',
+        event_id: 'event_rs2',
+        response_id: 'resp_rs2',
+        item_id: 'item_rs1',
+        output_index: 0,
+        content_index: 0,
+        delta: 'next',
+      },
+    ],
+  },
+  {
+    name: 'unmapped messages are dropped',
+    input: [{ toolCallCancellation: { ids: ['call_1'] } }, { goAway: { timeLeft: '10s' } }],
+    expected: [],
+  },
+];
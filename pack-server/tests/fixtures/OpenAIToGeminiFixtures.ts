@@ -0,0 +1,109 @@
+export type ConverterFixture = {
+  name: string;
+  input: unknown[];
+  expected: unknown[];
+};
+
+export const OPENAI_TO_GEMINI_FIXTURES: ConverterFixture[] = [
+  {
+    name: 'session.update becomes setup',
+    input: [{
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        instructions: 'You are a helpful assistant.',
+        output_modalities: ['audio'],
+        audio: {
+          input: { transcription: { model: 'whisper-1' }, turn_detection: { type: 'server_vad' } },
+          output: { voice: 'coral' },
+        },
+      },
+    }],
+    expected: [{
+      setup: {
+        model: 'models/gemini-2.0-flash-live-001',
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Aoede' } } },
+        },
+        systemInstruction: { parts: [{ text: 'You are a helpful assistant.' }] },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+    }],
+  },
+  {
+    name: 'session.update without turn detection disables activity detection',
+    input: [{ type: 'session.update', session: { output_modalities: ['text'], audio: { input: { turn_detection: null } } } }],
+    expected: [{
+      setup: {
+        model: 'models/gemini-2.0-flash-live-001',
+        generationConfig: { responseModalities: ['TEXT'] },
+        realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+      },
+    }],
+  },
+  {
+    name: 'input_audio_buffer.append becomes realtimeInput audio',
+    input: [{ type: 'input_audio_buffer.append', audio: 'AAECAw==' }],
+    expected: [{ realtimeInput: { audio: { mimeType: 'audio/pcm;rate=24000', data: 'AAECAw==' } } }],
+  },
+  {
+    name: 'conversation.item.create messages become clientContent turns',
+    input: [
+      { type: 'conversation.item.create', item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'hello' }] } },
+      { type: 'conversation.item.create', item: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'hi there' }] } },
+      { type: 'conversation.item.create', item: { type: 'function_call_output', call_id: 'call_1', output: '{}' } },
+    ],
+    expected: [
+      { clientContent: { turns: [{ role: 'user', parts: [{ text: 'hello' }] }], turnComplete: false } },
+      { clientContent: { turns: [{ role: 'model', parts: [{ text: 'hi there' }] }], turnComplete: false } },
+    ],
+  },
+  {
+    name: 'input_audio_buffer.commit becomes audioStreamEnd',
+    input: [{ type: 'input_audio_buffer.commit' }],
+    expected: [{ realtimeInput: { audioStreamEnd: true } }],
+  },
+  {
+    name: 'session.updated becomes setupComplete',
+    input: [{ type: 'session.updated', event_id: 'event_1', session: { type: 'realtime' } }],
+    expected: [{ setupComplete: {} }],
+  },
+  {
+    name: 'speech_started becomes interrupted',
+    input: [{ type: 'input_audio_buffer.speech_started', event_id: 'event_2', audio_start_ms: 120, item_id: 'item_1' }],
+    expected: [{ serverContent: { interrupted: true } }],
+  },
+  {
+    name: 'input transcription delta becomes inputTranscription',
+    input: [{ type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_1', content_index: 0, delta: 'hello' }],
+    expected: [{ serverContent: { inputTranscription: { text: 'hello' } } }],
+  },
+  {
+    name: 'output audio delta becomes modelTurn inlineData',
+    input: [{ type: 'response.output_audio.delta', response_id: 'resp_1', item_id: 'item_2', delta: 'BAUGBw==' }],
+    expected: [{ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'BAUGBw==' } }] } } }],
+  },
+  {
+    name: 'output transcript delta becomes outputTranscription',
+    input: [{ type: 'response.output_audio_transcript.delta', response_id: 'resp_1', item_id: 'item_2', delta: 'hi there' }],
+    expected: [{ serverContent: { outputTranscription: { text: 'hi there' } } }],
+  },
+  {
+    name: 'response.done becomes turnComplete with usageMetadata',
+    input: [{
+      type: 'response.done',
+      response: { id: 'resp_1', status: 'completed', usage: { total_tokens: 200, input_tokens: 120, output_tokens: 80 } },
+    }],
+    expected: [{
+      serverContent: { turnComplete: true },
+      usageMetadata: { promptTokenCount: 120, responseTokenCount: 80, totalTokenCount: 200 },
+    }],
+  },
+  {
+    name: 'unmapped events are dropped',
+    input: [{ type: 'rate_limits.updated', rate_limits: [] }, { type: 'response.created', response: { id: 'resp_1' } }],
+    expected: [],
+  },
+];
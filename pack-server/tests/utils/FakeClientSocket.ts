@@ -0,0 +1,31 @@
+import * as uWS from 'uWebSockets.js';
+
+export class FakeClientSocket {
+  sent: any[] = [];
+  closed: { code: number; reason: string } | null = null;
+  private userData: Record<string, unknown>;
+
+  constructor(userData: Record<string, unknown>) {
+    this.userData = userData;
+  }
+
+  send(message: string): number {
+    if (this.closed) {
+      throw new Error('Invalid access of closed uWS.WebSocket/SSLWebSocket.');
+    }
+    this.sent.push(JSON.parse(message));
+    return 1;
+  }
+
+  end(code: number, reason: string): void {
+    this.closed = { code, reason };
+  }
+
+  getUserData(): Record<string, unknown> {
+    return this.userData;
+  }
+
+  asWebSocket(): uWS.WebSocket<unknown> {
+    return this as unknown as uWS.WebSocket<unknown>;
+  }
+}
@@ -0,0 +1,66 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+
+export const FAKE_GEMINI_USAGE = { promptTokenCount: 120, responseTokenCount: 80, totalTokenCount: 200 };
+export const FAKE_GEMINI_INPUT_TRANSCRIPT = 'this is a great day';
+export const FAKE_GEMINI_OUTPUT_TRANSCRIPT = 'What a great day';
+export const FAKE_GEMINI_AUDIO = Buffer.from('fake-gemini-audio').toString('base64');
+
+export class FakeGeminiServer {
+  private wss: WebSocketServer | null = null;
+  private sockets: WebSocket[] = [];
+  received: any[] = [];
+  requestUrls: string[] = [];
+
+  async start(): Promise<string> {
+    this.wss = new WebSocketServer({ port: 0 });
+    this.wss.on('connection', (socket, req) => {
+      this.sockets.push(socket);
+      this.requestUrls.push(req.url ?? '');
+      socket.on('message', (data) => this.handleMessage(socket, JSON.parse(data.toString())));
+    });
+    await new Promise<void>((resolve) => this.wss!.once('listening', () => resolve()));
+    const { port } = this.wss.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}/ws/BidiGenerateContent`;
+  }
+
+  closeAll(code: number, reason: string): void {
+    for (const socket of this.sockets) {
+      socket.close(code, reason);
+    }
+    this.sockets = [];
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.terminate();
+    }
+    this.sockets = [];
+    await new Promise<void>((resolve) => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    this.wss = null;
+  }
+
+  private handleMessage(socket: WebSocket, message: any): void {
+    this.received.push(message);
+
+    if (message.setup) {
+      this.reply(socket, { setupComplete: {} });
+      return;
+    }
+
+    if (message.realtimeInput?.audio) {
+      this.reply(socket, { serverContent: { inputTranscription: { text: FAKE_GEMINI_INPUT_TRANSCRIPT } } });
+      this.reply(socket, {
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: FAKE_GEMINI_AUDIO } }] },
+        },
+      });
+      this.reply(socket, { serverContent: { outputTranscription: { text: FAKE_GEMINI_OUTPUT_TRANSCRIPT } } });
+      this.reply(socket, { serverContent: { turnComplete: true }, usageMetadata: FAKE_GEMINI_USAGE });
+    }
+  }
+
+  private reply(socket: WebSocket, message: unknown): void {
+    socket.send(Buffer.from(JSON.stringify(message)));
+  }
+}
@@ -0,0 +1,97 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+
+export const FAKE_OPENAI_USAGE = { total_tokens: 300, input_tokens: 180, output_tokens: 120 };
+export const FAKE_OPENAI_INPUT_TRANSCRIPT = 'what is the weather';
+export const FAKE_OPENAI_OUTPUT_TRANSCRIPT = 'It is sunny today';
+export const FAKE_OPENAI_AUDIO = Buffer.from('fake-openai-audio').toString('base64');
+
+export class FakeOpenAIServer {
+  private wss: WebSocketServer | null = null;
+  private sockets: WebSocket[] = [];
+  private eventCount = 0;
+  received: any[] = [];
+  connectionAttempts = 0;
+  rejectConnections = false;
+  holdResponses = false;
+  private heldResponses: { socket: WebSocket; message: Record<string, unknown> }[] = [];
+
+  async start(): Promise<string> {
+    this.wss = new WebSocketServer({
+      port: 0,
+      verifyClient: (_info, done) => {
+        this.connectionAttempts++;
+        done(!this.rejectConnections, 503, 'Service Unavailable');
+      },
+    });
+    this.wss.on('connection', (socket) => {
+      this.sockets.push(socket);
+      socket.on('message', (data) => this.handleMessage(socket, JSON.parse(data.toString())));
+    });
+    await new Promise<void>((resolve) => this.wss!.once('listening', () => resolve()));
+    const { port } = this.wss.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}/v1/realtime?model=gpt-realtime`;
+  }
+
+  releaseResponses(): void {
+    for (const { socket, message } of this.heldResponses) {
+      this.reply(socket, message);
+    }
+    this.heldResponses = [];
+  }
+
+  closeAll(code: number, reason: string): void {
+    for (const socket of this.sockets) {
+      socket.close(code, reason);
+    }
+    this.sockets = [];
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.terminate();
+    }
+    this.sockets = [];
+    await new Promise<void>((resolve) => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    this.wss = null;
+  }
+
+  private handleMessage(socket: WebSocket, message: any): void {
+    this.received.push(message);
+
+    if (message.type === 'session.update') {
+      this.reply(socket, {
+        type: 'session.updated',
+        session: { ...message.session, object: 'realtime.session', id: 'sess_fake', expires_at: 0 },
+      });
+      return;
+    }
+
+    if (message.type === 'input_audio_buffer.append') {
+      this.reply(socket, {
+        type: 'conversation.item.input_audio_transcription.delta',
+        item_id: 'item_1',
+        content_index: 0,
+        delta: FAKE_OPENAI_INPUT_TRANSCRIPT,
+      });
+      this.reply(socket, { type: 'response.created', response: { id: 'resp_1', status: 'in_progress' } });
+      this.reply(socket, { type: 'response.output_audio.delta', response_id: 'resp_1', item_id: 'item_2', delta: FAKE_OPENAI_AUDIO });
+      this.reply(socket, {
+        type: 'response.output_audio_transcript.delta',
+        response_id: 'resp_1',
+        item_id: 'item_2',
+        delta: FAKE_OPENAI_OUTPUT_TRANSCRIPT,
+      });
+      const done = { type: 'response.done', response: { id: 'resp_1', status: 'completed', usage: FAKE_OPENAI_USAGE } };
+      if (this.holdResponses) {
+        this.heldResponses.push({ socket, message: done });
+      } else {
+        this.reply(socket, done);
+      }
+    }
+  }
+
+  private reply(socket: WebSocket, message: Record<string, unknown>): void {
+    socket.send(JSON.stringify({ event_id: `event_${++this.eventCount}`, ...message }));
+  }
+}
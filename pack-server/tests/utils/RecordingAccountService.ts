@@ -0,0 +1,73 @@
+import { IAccountService, SessionData, ClientToken, CreditReservation, SessionLatency,
+  SessionLimitCheck } from 'pack-shared';
+
+export class RecordingAccountService implements IAccountService {
+  usage: { provider: string; inputTokens: number; outputTokens: number }[] = [];
+  usageHoldIds: string[] = [];
+  usageKeyHashes: string[] = [];
+  conversations: string[] = [];
+  sessions: string[] = [];
+  credits = 0;
+  reserveGrant = 0;
+  reserveError = '';
+  reservations: string[] = [];
+  reservationKeyHashes: string[] = [];
+  released: string[] = [];
+  refreshed: string[] = [];
+  sessionLimit: SessionLimitCheck = { limit: 0, overLimit: false };
+  latencies: SessionLatency[] = [];
+
+  async validateAndLoad(_apiKey: string, _sessionId: string): Promise<SessionData> {
+    return {
+      error: '', accountId: '', sessionData: '', credits: this.credits, creditAlertThresholds: '', holdId: '', reserved: 0,
+      keyHash: '', maxSessionSeconds: 0, maxConcurrentSessions: 0,
+    };
+  }
+
+  updateUsage(_accountId: string, _sessionId: string, provider: string, inputTokens: number,
+    outputTokens: number, holdId: string, keyHash: string): void {
+    this.usage.push({ provider, inputTokens, outputTokens });
+    this.usageHoldIds.push(holdId);
+    this.usageKeyHashes.push(keyHash);
+  }
+
+  async getCredits(_accountId: string): Promise<number> {
+    return this.credits;
+  }
+
+  async reserveCredits(_accountId: string, _sessionId: string, holdId: string,
+    keyHash: string): Promise<CreditReservation> {
+    this.reservations.push(holdId);
+    this.reservationKeyHashes.push(keyHash);
+    return { error: this.reserveError, reserved: this.reserveGrant, credits: this.credits };
+  }
+
+  async createClientToken(): Promise<ClientToken> {
+    return { error: '', token: '', expiresAt: '' };
+  }
+
+  releaseCredits(_accountId: string, holdId: string): void {
+    this.released.push(holdId);
+  }
+
+  async refreshHold(_accountId: string, holdId: string): Promise<boolean> {
+    this.refreshed.push(holdId);
+    return true;
+  }
+
+  async checkSessionLimit(): Promise<SessionLimitCheck> {
+    return this.sessionLimit;
+  }
+
+  saveSession(_accountId: string, _sessionId: string, sessionData: string): void {
+    this.sessions.push(sessionData);
+  }
+
+  appendConversation(_accountId: string, _sessionId: string, conversationData: string): void {
+    this.conversations.push(conversationData);
+  }
+
+  saveLatency(_accountId: string, _sessionId: string, latency: SessionLatency): void {
+    this.latencies.push(latency);
+  }
+}
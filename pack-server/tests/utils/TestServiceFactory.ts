@@ -0,0 +1,121 @@
+import * as uWS from 'uWebSockets.js';
+import { IAccountService, IHealthService, SessionData, VoiceProvider, MetricsRegistry } from 'pack-shared';
+import { IServiceFactory } from '../../src/core/interfaces/IServiceFactory';
+import { ICheckpointHandler } from '../../src/core/interfaces/ICheckpointHandler';
+import { IUsageHandler } from '../../src/core/interfaces/IUsageHandler';
+import { IConnectionHandler } from '../../src/core/interfaces/IConnectionHandler';
+import { IVoiceConnection } from '../../src/core/interfaces/IVoiceConnection';
+import { IEventConverter } from '../../src/core/interfaces/IEventConverter';
+import { IFailoverPolicy } from '../../src/core/interfaces/IFailoverPolicy';
+import { IReconnectPolicy } from '../../src/core/interfaces/IReconnectPolicy';
+import { IRateLimiter } from '../../src/core/interfaces/IRateLimiter';
+import { ICreditAlertPolicy } from '../../src/core/interfaces/ICreditAlertPolicy';
+import { IBalanceSubscriber } from '../../src/core/interfaces/IBalanceSubscriber';
+import { IOutbox } from '../../src/core/interfaces/IOutbox';
+import { ILatencyStats } from '../../src/core/interfaces/ILatencyStats';
+import { AccountServiceTransport } from '../../src/core/interfaces/AccountServiceTransport';
+import { ServiceFactory } from '../../src/core/impls/ServiceFactory';
+import { CheckpointHandler } from '../../src/core/impls/CheckpointHandler';
+import { UsageHandler } from '../../src/core/impls/UsageHandler';
+import { ZmqService } from '../../src/core/impls/ZmqService';
+import { ServerMetrics } from '../../src/core/impls/ServerMetrics';
+import { BalanceSubscriber } from '../../src/core/impls/BalanceSubscriber';
+import { Orchestrator } from '../../src/Orchestrator';
+
+export class TestServiceFactory implements IServiceFactory {
+  private accountService: IAccountService;
+  private balanceSubscriber: IBalanceSubscriber;
+  private factory = ServiceFactory.getInstance();
+
+  constructor(accountService: IAccountService, balanceSubscriber?: IBalanceSubscriber) {
+    this.accountService = accountService;
+    this.balanceSubscriber = balanceSubscriber ?? new BalanceSubscriber();
+  }
+
+  getTransport(): AccountServiceTransport {
+    return AccountServiceTransport.IN_PROCESS;
+  }
+
+  getZmqService(): ZmqService {
+    throw new Error('ZMQ is not available in TestServiceFactory');
+  }
+
+  getAccountService(): IAccountService {
+    return this.accountService;
+  }
+
+  getHealthService(): IHealthService {
+    return { check: async () => ({ database: true, pendingMigrations: 0 }), getMetrics: async () => '' };
+  }
+
+  getOutbox(): IOutbox {
+    throw new Error('Outbox is not available in TestServiceFactory');
+  }
+
+  getBalanceSubscriber(): IBalanceSubscriber {
+    return this.balanceSubscriber;
+  }
+
+  getMetricsRegistry(): MetricsRegistry {
+    return this.factory.getMetricsRegistry();
+  }
+
+  getServerMetrics(): ServerMetrics {
+    return this.factory.getServerMetrics();
+  }
+
+  getNewCheckpointHandler(accountId: string, sessionId: string, provider: VoiceProvider): ICheckpointHandler {
+    return new CheckpointHandler(accountId, sessionId, provider, this.accountService);
+  }
+
+  getNewUsageHandler(accountId: string, sessionId: string, provider: VoiceProvider, holdId: string,
+    keyHash: string): IUsageHandler {
+    return new UsageHandler(accountId, sessionId, provider, holdId, keyHash, this.accountService,
+      this.factory.getServerMetrics());
+  }
+
+  getNewVoiceConnection(provider: VoiceProvider, handler: IConnectionHandler): IVoiceConnection {
+    return this.factory.getNewVoiceConnection(provider, handler);
+  }
+
+  getNewEventConverter(from: VoiceProvider, to: VoiceProvider): IEventConverter | null {
+    return this.factory.getNewEventConverter(from, to);
+  }
+
+  getNewFailoverPolicy(provider: VoiceProvider): IFailoverPolicy {
+    return this.factory.getNewFailoverPolicy(provider);
+  }
+
+  getNewReconnectPolicy(): IReconnectPolicy {
+    return this.factory.getNewReconnectPolicy();
+  }
+
+  getNewIpRateLimiter(): IRateLimiter {
+    return this.factory.getNewIpRateLimiter();
+  }
+
+  getNewKeyRateLimiter(): IRateLimiter {
+    return this.factory.getNewKeyRateLimiter();
+  }
+
+  getNewLatencyStats(): ILatencyStats {
+    return this.factory.getNewLatencyStats();
+  }
+
+  getHoldRefreshIntervalMs(): number {
+    return this.factory.getHoldRefreshIntervalMs();
+  }
+
+  getNewCreditAlertPolicy(thresholds: string, initialCredits: number): ICreditAlertPolicy {
+    return this.factory.getNewCreditAlertPolicy(thresholds, initialCredits);
+  }
+
+  getNewOrchestrator(
+    sessionData: SessionData,
+    ws: uWS.WebSocket<unknown>,
+    provider: VoiceProvider,
+    apiStyle: VoiceProvider
+  ): Orchestrator {
+    return new Orchestrator(sessionData, ws, this, provider, apiStyle);
+  }
+}
@@ -0,0 +1,23 @@
+import { ErrorCode } from './Errors';
+
+export enum AccountStatus {
+  ACTIVE = 1,
+  SUSPENDED = 2,
+  CLOSED = 3,
+  PAYMENT_OVERDUE = 4,
+}
+
+const STATUS_ERRORS: Record<AccountStatus, ErrorCode | ''> = {
+  [AccountStatus.ACTIVE]: '',
+  [AccountStatus.SUSPENDED]: ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED,
+  [AccountStatus.CLOSED]: ErrorCode.EXTERNAL_ACCOUNT_CLOSED,
+  [AccountStatus.PAYMENT_OVERDUE]: ErrorCode.EXTERNAL_PAYMENT_OVERDUE,
+};
+
+export function isAccountStatus(value: number): value is AccountStatus {
+  return Object.prototype.hasOwnProperty.call(STATUS_ERRORS, value);
+}
+
+export function getAccountStatusError(status: number): ErrorCode | '' {
+  return isAccountStatus(status) ? STATUS_ERRORS[status] : ErrorCode.EXTERNAL_ACCOUNT_SUSPENDED;
+}
@@ -4,8 +4,45 @@ import path from 'path';
 export enum ConfigKeys {
   OPENAI_API_KEY = 'OPENAI_API_KEY',
   GEMINI_API_KEY = 'GEMINI_API_KEY',
+  OPENAI_REALTIME_URL = 'OPENAI_REALTIME_URL',
+  GEMINI_LIVE_URL = 'GEMINI_LIVE_URL',
+  FAILOVER_PROVIDER = 'FAILOVER_PROVIDER',
+  FAILOVER_MAX_FAILURES = 'FAILOVER_MAX_FAILURES',
+  FAILOVER_CLOSE_CODES = 'FAILOVER_CLOSE_CODES',
+  RECONNECT_INITIAL_DELAY_MS = 'RECONNECT_INITIAL_DELAY_MS',
+  RECONNECT_MULTIPLIER = 'RECONNECT_MULTIPLIER',
+  RECONNECT_MAX_DELAY_MS = 'RECONNECT_MAX_DELAY_MS',
+  RECONNECT_MAX_ATTEMPTS = 'RECONNECT_MAX_ATTEMPTS',
+  RECONNECT_JITTER = 'RECONNECT_JITTER',
+  CREDITS_FINISH_IN_FLIGHT_RESPONSE = 'CREDITS_FINISH_IN_FLIGHT_RESPONSE',
+  CREDITS_LOW_THRESHOLDS = 'CREDITS_LOW_THRESHOLDS',
+  LATENCY_EVENTS_ENABLED = 'LATENCY_EVENTS_ENABLED',
+  CREDIT_HOLD_CHUNK = 'CREDIT_HOLD_CHUNK',
+  CREDIT_HOLD_TTL_MS = 'CREDIT_HOLD_TTL_MS',
+  API_KEY_LAST_USED_THROTTLE_MS = 'API_KEY_LAST_USED_THROTTLE_MS',
+  CLIENT_TOKEN_TTL_SECONDS = 'CLIENT_TOKEN_TTL_SECONDS',
+  CLIENT_TOKEN_MAX_TTL_SECONDS = 'CLIENT_TOKEN_MAX_TTL_SECONDS',
+  AUTH_QUERY_STRING_ENABLED = 'AUTH_QUERY_STRING_ENABLED',
+  DUPLICATE_SESSION_POLICY = 'DUPLICATE_SESSION_POLICY',
+  RATE_LIMIT_IP_CAPACITY = 'RATE_LIMIT_IP_CAPACITY',
+  RATE_LIMIT_IP_REFILL_PER_SECOND = 'RATE_LIMIT_IP_REFILL_PER_SECOND',
+  RATE_LIMIT_KEY_CAPACITY = 'RATE_LIMIT_KEY_CAPACITY',
+  RATE_LIMIT_KEY_REFILL_PER_SECOND = 'RATE_LIMIT_KEY_REFILL_PER_SECOND',
+  RATE_LIMIT_FORBIDDEN_PENALTY = 'RATE_LIMIT_FORBIDDEN_PENALTY',
+  TRUSTED_PROXY_HOPS = 'TRUSTED_PROXY_HOPS',
+  ADMIN_TOKEN = 'ADMIN_TOKEN',
+  ACCOUNT_SERVICE_TRANSPORT = 'ACCOUNT_SERVICE_TRANSPORT',
   ZMQ_SOCKET_PATH = 'ZMQ_SOCKET_PATH',
   ZMQ_TIMEOUT_MS = 'ZMQ_TIMEOUT_MS',
+  ZMQ_HEARTBEAT_INTERVAL_MS = 'ZMQ_HEARTBEAT_INTERVAL_MS',
+  ZMQ_HEARTBEAT_MAX_MISSED = 'ZMQ_HEARTBEAT_MAX_MISSED',
+  CLUSTER_WORKERS = 'CLUSTER_WORKERS',
+  CLUSTER_WORKER_INDEX = 'CLUSTER_WORKER_INDEX',
+  CLUSTER_STATS_INTERVAL_MS = 'CLUSTER_STATS_INTERVAL_MS',
+  ZMQ_EVENTS_SOCKET_PATH = 'ZMQ_EVENTS_SOCKET_PATH',
+  OUTBOX_PATH = 'OUTBOX_PATH',
+  OUTBOX_RETRY_MS = 'OUTBOX_RETRY_MS',
+  OUTBOX_MAX_RETRY_MS = 'OUTBOX_MAX_RETRY_MS',
   DB_PATH = 'DB_PATH',
   DB_ENCRYPTION_KEY = 'DB_ENCRYPTION_KEY',
 }
@@ -4,13 +4,29 @@ export enum ErrorCode {
   EXTERNAL_NO_CREDITS = 'EXTERNAL_NO_CREDITS',
   EXTERNAL_BUFFER_OVERFLOW = 'EXTERNAL_BUFFER_OVERFLOW',
   EXTERNAL_INVALID_AUTH = 'EXTERNAL_INVALID_AUTH',
+  EXTERNAL_UPSTREAM_UNAVAILABLE = 'EXTERNAL_UPSTREAM_UNAVAILABLE',
+  EXTERNAL_ACCOUNT_SUSPENDED = 'EXTERNAL_ACCOUNT_SUSPENDED',
+  EXTERNAL_ACCOUNT_CLOSED = 'EXTERNAL_ACCOUNT_CLOSED',
+  EXTERNAL_PAYMENT_OVERDUE = 'EXTERNAL_PAYMENT_OVERDUE',
+  EXTERNAL_ORIGIN_NOT_ALLOWED = 'EXTERNAL_ORIGIN_NOT_ALLOWED',
+  EXTERNAL_KEY_PROVIDER_NOT_ALLOWED = 'EXTERNAL_KEY_PROVIDER_NOT_ALLOWED',
+  EXTERNAL_KEY_ORIGIN_NOT_ALLOWED = 'EXTERNAL_KEY_ORIGIN_NOT_ALLOWED',
+  EXTERNAL_KEY_BUDGET_EXHAUSTED = 'EXTERNAL_KEY_BUDGET_EXHAUSTED',
+  EXTERNAL_SESSION_EXPIRED = 'EXTERNAL_SESSION_EXPIRED',
+  EXTERNAL_TOO_MANY_SESSIONS = 'EXTERNAL_TOO_MANY_SESSIONS',
+  EXTERNAL_SESSION_DUPLICATE = 'EXTERNAL_SESSION_DUPLICATE',
+  EXTERNAL_SESSION_REPLACED = 'EXTERNAL_SESSION_REPLACED',
 
   // Internal errors
   INTERNAL_ENV_KEY_NOT_FOUND = 'INTERNAL_ENV_KEY_NOT_FOUND',
   INTERNAL_ZMQ_NOT_CONNECTED = 'INTERNAL_ZMQ_NOT_CONNECTED',
   INTERNAL_ZMQ_REQUEST_TIMEOUT = 'INTERNAL_ZMQ_REQUEST_TIMEOUT',
   INTERNAL_ZMQ_DESTROYED = 'INTERNAL_ZMQ_DESTROYED',
+  INTERNAL_ZMQ_SOCKET_RECREATED = 'INTERNAL_ZMQ_SOCKET_RECREATED',
   INTERNAL_ZMQ_INVALID_RESPONSE = 'INTERNAL_ZMQ_INVALID_RESPONSE',
   INTERNAL_ZMQ_NO_PENDING_REQUEST = 'INTERNAL_ZMQ_NO_PENDING_REQUEST',
   INTERNAL_ZMQ_DECODE_FAILED = 'INTERNAL_ZMQ_DECODE_FAILED',
+  INTERNAL_ZMQ_VERSION_INCOMPATIBLE = 'INTERNAL_ZMQ_VERSION_INCOMPATIBLE',
+  INTERNAL_DB_ACCOUNT_NOT_FOUND = 'INTERNAL_DB_ACCOUNT_NOT_FOUND',
+  INTERNAL_DB_MESSAGE_REJECTED = 'INTERNAL_DB_MESSAGE_REJECTED',
 }
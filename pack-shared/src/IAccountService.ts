@@ -5,12 +5,58 @@ export interface SessionData {
   accountId: string;
   sessionData: string;
   credits: number;
+  creditAlertThresholds: string;
+  holdId: string;
+  reserved: number;
+  keyHash: string;
+  maxSessionSeconds: number;
+  maxConcurrentSessions: number;
+}
+
+export interface SessionScope {
+  provider: string;
+  apiStyle: string;
+  origin: string;
+  rejectDuplicate?: boolean;
+}
+
+export interface ClientToken {
+  error: string;
+  token: string;
+  expiresAt: string;
+}
+
+export interface SessionLatency {
+  provider: string;
+  turns: number;
+  firstAudioP50Ms: number;
+  firstAudioP95Ms: number;
+  turnP50Ms: number;
+  turnP95Ms: number;
+}
+
+export interface CreditReservation {
+  error: string;
+  reserved: number;
+  credits: number;
+}
+
+export interface SessionLimitCheck {
+  limit: number;
+  overLimit: boolean;
 }
 
 export interface IAccountService {
-  validateAndLoad(apiKey: string, sessionId: string): Promise<SessionData>;
-  updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number): void;
+  validateAndLoad(apiKey: string, sessionId: string, scope?: SessionScope): Promise<SessionData>;
+  updateUsage(accountId: string, sessionId: string, provider: string, inputTokens: number, outputTokens: number,
+    holdId: string, keyHash: string): void;
   getCredits(accountId: string): Promise<number>;
+  reserveCredits(accountId: string, sessionId: string, holdId: string, keyHash: string): Promise<CreditReservation>;
+  releaseCredits(accountId: string, holdId: string): void;
+  refreshHold(accountId: string, holdId: string): Promise<boolean>;
+  checkSessionLimit(accountId: string, sessionId: string): Promise<SessionLimitCheck>;
   saveSession(accountId: string, sessionId: string, sessionData: string): void;
   appendConversation(accountId: string, sessionId: string, conversationData: string): void;
+  saveLatency(accountId: string, sessionId: string, latency: SessionLatency): void;
+  createClientToken(apiKey: string, sessionId: string, ttlSeconds: number): Promise<ClientToken>;
 }
@@ -0,0 +1,9 @@
+export interface DbHealth {
+  database: boolean;
+  pendingMigrations: number;
+}
+
+export interface IHealthService {
+  check(): Promise<DbHealth>;
+  getMetrics(): Promise<string>;
+}
@@ -0,0 +1,296 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export const DEFAULT_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export type SeriesSnapshot = {
+  labelValues: string[];
+  value?: number;
+  counts?: number[];
+  sum?: number;
+  count?: number;
+};
+
+export type MetricSnapshot = {
+  name: string;
+  help: string;
+  type: MetricType;
+  labelNames: string[];
+  buckets?: number[];
+  series: SeriesSnapshot[];
+};
+
+export class CounterSeries {
+  value = 0;
+
+  inc(amount = 1): void {
+    this.value += amount;
+  }
+}
+
+export class GaugeSeries {
+  value = 0;
+
+  set(value: number): void {
+    this.value = value;
+  }
+
+  inc(amount = 1): void {
+    this.value += amount;
+  }
+
+  dec(amount = 1): void {
+    this.value -= amount;
+  }
+}
+
+export class HistogramSeries {
+  readonly buckets: number[];
+  readonly counts: number[];
+  sum = 0;
+  count = 0;
+
+  constructor(buckets: number[]) {
+    this.buckets = buckets;
+    this.counts = new Array(buckets.length).fill(0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        this.counts[i]++;
+        return;
+      }
+    }
+  }
+}
+
+abstract class Metric<S> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected series = new Map<string, { labelValues: string[]; series: S }>();
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract readonly type: MetricType;
+
+  protected abstract create(): S;
+
+  protected abstract renderSeries(lines: string[], labelValues: string[], series: S): void;
+
+  protected abstract snapshotSeries(series: S): Omit<SeriesSnapshot, 'labelValues'>;
+
+  protected abstract mergeSeries(series: S, snapshot: SeriesSnapshot): void;
+
+  labels(...labelValues: string[]): S {
+    if (labelValues.length !== this.labelNames.length) {
+      throw new Error(`${this.name} expects labels ${this.labelNames.join(', ')}`);
+    }
+    const key = labelValues.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labelValues, series: this.create() };
+      this.series.set(key, entry);
+    }
+    return entry.series;
+  }
+
+  render(lines: string[]): void {
+    lines.push(`# HELP ${this.name} ${this.help}`);
+    lines.push(`# TYPE ${this.name} ${this.type}`);
+    for (const { labelValues, series } of this.series.values()) {
+      this.renderSeries(lines, labelValues, series);
+    }
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      labelNames: this.labelNames,
+      series: Array.from(this.series.values(), ({ labelValues, series }) => ({
+        labelValues,
+        ...this.snapshotSeries(series),
+      })),
+    };
+  }
+
+  merge(snapshot: MetricSnapshot): void {
+    for (const series of snapshot.series) {
+      this.mergeSeries(this.labels(...series.labelValues), series);
+    }
+  }
+
+  protected formatLabels(labelValues: string[], extra = ''): string {
+    const pairs = labelValues.map((value, i) => `${this.labelNames[i]}="${Metric.escape(value)}"`);
+    if (extra) pairs.push(extra);
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+  }
+
+  private static escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+}
+
+export class Counter extends Metric<CounterSeries> {
+  readonly type = 'counter';
+
+  inc(amount = 1): void {
+    this.labels().inc(amount);
+  }
+
+  protected create(): CounterSeries {
+    return new CounterSeries();
+  }
+
+  protected renderSeries(lines: string[], labelValues: string[], series: CounterSeries): void {
+    lines.push(`${this.name}${this.formatLabels(labelValues)} ${series.value}`);
+  }
+
+  protected snapshotSeries(series: CounterSeries): Omit<SeriesSnapshot, 'labelValues'> {
+    return { value: series.value };
+  }
+
+  protected mergeSeries(series: CounterSeries, snapshot: SeriesSnapshot): void {
+    series.inc(snapshot.value ?? 0);
+  }
+}
+
+export class Gauge extends Metric<GaugeSeries> {
+  readonly type = 'gauge';
+
+  set(value: number): void {
+    this.labels().set(value);
+  }
+
+  inc(amount = 1): void {
+    this.labels().inc(amount);
+  }
+
+  dec(amount = 1): void {
+    this.labels().dec(amount);
+  }
+
+  protected create(): GaugeSeries {
+    return new GaugeSeries();
+  }
+
+  protected renderSeries(lines: string[], labelValues: string[], series: GaugeSeries): void {
+    lines.push(`${this.name}${this.formatLabels(labelValues)} ${series.value}`);
+  }
+
+  protected snapshotSeries(series: GaugeSeries): Omit<SeriesSnapshot, 'labelValues'> {
+    return { value: series.value };
+  }
+
+  protected mergeSeries(series: GaugeSeries, snapshot: SeriesSnapshot): void {
+    series.inc(snapshot.value ?? 0);
+  }
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number): void {
+    this.labels().observe(value);
+  }
+
+  protected create(): HistogramSeries {
+    return new HistogramSeries(this.buckets);
+  }
+
+  protected renderSeries(lines: string[], labelValues: string[], series: HistogramSeries): void {
+    const labels = this.formatLabels(labelValues);
+    let cumulative = 0;
+    for (let i = 0; i < series.buckets.length; i++) {
+      cumulative += series.counts[i];
+      lines.push(`${this.name}_bucket${this.formatLabels(labelValues, `le="${series.buckets[i]}"`)} ${cumulative}`);
+    }
+    lines.push(`${this.name}_bucket${this.formatLabels(labelValues, 'le="+Inf"')} ${series.count}`);
+    lines.push(`${this.name}_sum${labels} ${series.sum}`);
+    lines.push(`${this.name}_count${labels} ${series.count}`);
+  }
+
+  snapshot(): MetricSnapshot {
+    return { ...super.snapshot(), buckets: this.buckets };
+  }
+
+  protected snapshotSeries(series: HistogramSeries): Omit<SeriesSnapshot, 'labelValues'> {
+    return { counts: [...series.counts], sum: series.sum, count: series.count };
+  }
+
+  protected mergeSeries(series: HistogramSeries, snapshot: SeriesSnapshot): void {
+    snapshot.counts?.forEach((count, i) => {
+      series.counts[i] += count;
+    });
+    series.sum += snapshot.sum ?? 0;
+    series.count += snapshot.count ?? 0;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [],
+    buckets: number[] = DEFAULT_DURATION_BUCKETS): Histogram {
+    return this.register(name, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  snapshot(): MetricSnapshot[] {
+    return Array.from(this.metrics.values(), metric => metric.snapshot());
+  }
+
+  merge(snapshots: MetricSnapshot[]): void {
+    for (const snapshot of snapshots) {
+      const metric = snapshot.type === 'histogram'
+        ? this.histogram(snapshot.name, snapshot.help, snapshot.labelNames, snapshot.buckets)
+        : this[snapshot.type](snapshot.name, snapshot.help, snapshot.labelNames);
+      metric.merge(snapshot);
+    }
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      metric.render(lines);
+    }
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  private register<M extends Metric<any>>(name: string, create: () => M): M {
+    const metric = create();
+    const existing = this.metrics.get(name);
+    if (!existing) {
+      if (metric.labelNames.length === 0) {
+        metric.labels();
+      }
+      this.metrics.set(name, metric);
+      return metric;
+    }
+    if (existing.type !== metric.type) {
+      throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+    }
+    return existing as M;
+  }
+}
@@ -0,0 +1,4 @@
+export enum VoiceProvider {
+  OPENAI = 'OPENAI',
+  GEMINI = 'GEMINI',
+}
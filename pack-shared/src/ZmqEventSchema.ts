@@ -0,0 +1,60 @@
+import { ZmqField } from './ZmqRequestSchema';
+
+export enum ZmqEventType {
+  BALANCE_CHANGED = 'BALANCE_CHANGED',
+  ACCOUNT_STATUS_CHANGED = 'ACCOUNT_STATUS_CHANGED',
+  SESSION_REPLACED = 'SESSION_REPLACED',
+}
+
+
+export interface BalanceChangedData {
+  accountId: string;
+  credits: number;
+}
+
+
+export interface AccountStatusChangedData {
+  accountId: string;
+  status: number;
+}
+
+
+export interface SessionReplacedData {
+  accountId: string;
+  sessionId: string;
+  holdId: string;
+}
+
+
+export const ZMQ_EVENT_SCHEMA: Record<ZmqEventType, ZmqField[]> = {
+  [ZmqEventType.BALANCE_CHANGED]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'credits', type: 'number' },
+  ],
+  [ZmqEventType.ACCOUNT_STATUS_CHANGED]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'status', type: 'number' },
+  ],
+  [ZmqEventType.SESSION_REPLACED]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'holdId', type: 'string' },
+  ],
+};
+
+
+export type ZmqEventArgs = {
+  [ZmqEventType.BALANCE_CHANGED]: [accountId: string, credits: number];
+  [ZmqEventType.ACCOUNT_STATUS_CHANGED]: [accountId: string, status: number];
+  [ZmqEventType.SESSION_REPLACED]: [accountId: string, sessionId: string, holdId: string];
+};
+
+
+export type ZmqEventData = {
+  [ZmqEventType.BALANCE_CHANGED]: BalanceChangedData;
+  [ZmqEventType.ACCOUNT_STATUS_CHANGED]: AccountStatusChangedData;
+  [ZmqEventType.SESSION_REPLACED]: SessionReplacedData;
+};
+
+
+export type ZmqEvent = { [T in ZmqEventType]: { type: T } & ZmqEventData[T] }[ZmqEventType];
@@ -1,25 +1,54 @@
-export const ZMQ_DELIMITER = '|';
-
 export enum ZmqMessageType {
   VALIDATE_AND_LOAD = 'VALIDATE_AND_LOAD',
   UPDATE_USAGE = 'UPDATE_USAGE',
   GET_CREDITS = 'GET_CREDITS',
   SAVE_SESSION = 'SAVE_SESSION',
   APPEND_CONVERSATION = 'APPEND_CONVERSATION',
+  RESERVE_CREDITS = 'RESERVE_CREDITS',
+  RELEASE_CREDITS = 'RELEASE_CREDITS',
+  REFRESH_HOLD = 'REFRESH_HOLD',
+  CHECK_SESSION_LIMIT = 'CHECK_SESSION_LIMIT',
+  PING = 'PING',
+  HELLO = 'HELLO',
+  CREATE_CLIENT_TOKEN = 'CREATE_CLIENT_TOKEN',
+  HEALTH = 'HEALTH',
+  METRICS = 'METRICS',
+  SAVE_LATENCY = 'SAVE_LATENCY',
 }
 
 
-export const ZMQ_FIRE_AND_FORGET: Set<ZmqMessageType> = new Set([
+export const ZMQ_PROTOCOL_VERSION = 1;
+export const ZMQ_MIN_PROTOCOL_VERSION = 1;
+
+
+export type ZmqField = { name: string; type: 'string' | 'number'; default?: string | number; since?: number };
+
+
+export type ZmqDurableType =
+  | ZmqMessageType.UPDATE_USAGE
+  | ZmqMessageType.SAVE_SESSION
+  | ZmqMessageType.APPEND_CONVERSATION
+  | ZmqMessageType.RELEASE_CREDITS
+  | ZmqMessageType.SAVE_LATENCY;
+
+
+export const ZMQ_DURABLE: Set<ZmqMessageType> = new Set<ZmqMessageType>([
   ZmqMessageType.UPDATE_USAGE,
   ZmqMessageType.SAVE_SESSION,
   ZmqMessageType.APPEND_CONVERSATION,
+  ZmqMessageType.RELEASE_CREDITS,
+  ZmqMessageType.SAVE_LATENCY,
 ]);
 
 
-export const ZMQ_REQUEST_SCHEMA: Record<ZmqMessageType, { name: string; type: 'string' | 'number' }[]> = {
+export const ZMQ_REQUEST_SCHEMA: Record<ZmqMessageType, ZmqField[]> = {
   [ZmqMessageType.VALIDATE_AND_LOAD]: [
     { name: 'apiKey', type: 'string' },
     { name: 'sessionId', type: 'string' },
+    { name: 'provider', type: 'string', default: '' },
+    { name: 'apiStyle', type: 'string', default: '' },
+    { name: 'origin', type: 'string', default: '' },
+    { name: 'rejectDuplicate', type: 'number', default: 0 },
   ],
   [ZmqMessageType.UPDATE_USAGE]: [
     { name: 'accountId', type: 'string' },
@@ -27,6 +56,8 @@ export const ZMQ_REQUEST_SCHEMA: Record<ZmqMessageType, { name: string; type: 's
     { name: 'provider', type: 'string' },
     { name: 'inputTokens', type: 'number' },
     { name: 'outputTokens', type: 'number' },
+    { name: 'holdId', type: 'string', default: '' },
+    { name: 'keyHash', type: 'string', default: '' },
   ],
   [ZmqMessageType.GET_CREDITS]: [
     { name: 'accountId', type: 'string' },
@@ -41,14 +72,66 @@ export const ZMQ_REQUEST_SCHEMA: Record<ZmqMessageType, { name: string; type: 's
     { name: 'sessionId', type: 'string' },
     { name: 'conversationData', type: 'string' },
   ],
+  [ZmqMessageType.RESERVE_CREDITS]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'holdId', type: 'string' },
+    { name: 'keyHash', type: 'string', default: '' },
+  ],
+  [ZmqMessageType.RELEASE_CREDITS]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'holdId', type: 'string' },
+  ],
+  [ZmqMessageType.REFRESH_HOLD]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'holdId', type: 'string' },
+  ],
+  [ZmqMessageType.CHECK_SESSION_LIMIT]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+  ],
+  [ZmqMessageType.PING]: [],
+  [ZmqMessageType.HELLO]: [
+    { name: 'minVersion', type: 'number' },
+    { name: 'maxVersion', type: 'number' },
+  ],
+  [ZmqMessageType.CREATE_CLIENT_TOKEN]: [
+    { name: 'apiKey', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'ttlSeconds', type: 'number' },
+  ],
+  [ZmqMessageType.HEALTH]: [],
+  [ZmqMessageType.METRICS]: [],
+  [ZmqMessageType.SAVE_LATENCY]: [
+    { name: 'accountId', type: 'string' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'provider', type: 'string' },
+    { name: 'turns', type: 'number' },
+    { name: 'firstAudioP50Ms', type: 'number' },
+    { name: 'firstAudioP95Ms', type: 'number' },
+    { name: 'turnP50Ms', type: 'number' },
+    { name: 'turnP95Ms', type: 'number' },
+  ],
 };
 
 
 export type ZmqArgs = {
-  [ZmqMessageType.VALIDATE_AND_LOAD]: [apiKey: string, sessionId: string];
+  [ZmqMessageType.VALIDATE_AND_LOAD]: [apiKey: string, sessionId: string, provider: string, apiStyle: string,
+    origin: string, rejectDuplicate: number];
   [ZmqMessageType.UPDATE_USAGE]: [accountId: string, sessionId: string, provider: string, inputTokens: number,
-    outputTokens: number];
+    outputTokens: number, holdId: string, keyHash: string];
   [ZmqMessageType.GET_CREDITS]: [accountId: string];
   [ZmqMessageType.SAVE_SESSION]: [accountId: string, sessionId: string, sessionData: string];
   [ZmqMessageType.APPEND_CONVERSATION]: [accountId: string, sessionId: string, conversationData: string];
+  [ZmqMessageType.RESERVE_CREDITS]: [accountId: string, sessionId: string, holdId: string, keyHash: string];
+  [ZmqMessageType.RELEASE_CREDITS]: [accountId: string, holdId: string];
+  [ZmqMessageType.REFRESH_HOLD]: [accountId: string, holdId: string];
+  [ZmqMessageType.CHECK_SESSION_LIMIT]: [accountId: string, sessionId: string];
+  [ZmqMessageType.PING]: [];
+  [ZmqMessageType.HELLO]: [minVersion: number, maxVersion: number];
+  [ZmqMessageType.CREATE_CLIENT_TOKEN]: [apiKey: string, sessionId: string, ttlSeconds: number];
+  [ZmqMessageType.HEALTH]: [];
+  [ZmqMessageType.METRICS]: [];
+  [ZmqMessageType.SAVE_LATENCY]: [accountId: string, sessionId: string, provider: string, turns: number,
+    firstAudioP50Ms: number, firstAudioP95Ms: number, turnP50Ms: number, turnP95Ms: number];
 };
@@ -1,5 +1,5 @@
-import { SessionData } from './IAccountService';
-import { ZmqMessageType } from './ZmqRequestSchema';
+import { SessionData, ClientToken } from './IAccountService';
+import { ZmqMessageType, ZmqField } from './ZmqRequestSchema';
 
 
 export interface CreditsData {
@@ -8,20 +8,114 @@ export interface CreditsData {
 }
 
 
+export interface AckData {
+  error: string;
+}
+
+
+export interface HelloData {
+  error: string;
+  version: number;
+}
+
+
+export interface HealthData {
+  error: string;
+  database: number;
+  pendingMigrations: number;
+}
+
+
+export interface MetricsData {
+  error: string;
+  text: string;
+}
+
+
+export interface ReservationData {
+  error: string;
+  reserved: number;
+  credits: number;
+}
 
-export const ZMQ_RESPONSE_SCHEMA: Partial<Record<ZmqMessageType, { name: string; type: 'string' | 'number' }[]>> = {
+
+export interface HoldRefreshData {
+  error: string;
+  refreshed: number;
+}
+
+
+export interface SessionLimitData {
+  error: string;
+  limit: number;
+  overLimit: number;
+}
+
+
+
+export const ZMQ_RESPONSE_SCHEMA: Partial<Record<ZmqMessageType, ZmqField[]>> = {
   [ZmqMessageType.VALIDATE_AND_LOAD]: [
     { name: 'accountId', type: 'string' },
-    { name: 'sessionData', type: 'string' },  
+    { name: 'sessionData', type: 'string' },
     { name: 'credits', type: 'number' },
+    { name: 'creditAlertThresholds', type: 'string', default: '' },
+    { name: 'holdId', type: 'string', default: '' },
+    { name: 'reserved', type: 'number', default: 0 },
+    { name: 'keyHash', type: 'string', default: '' },
+    { name: 'maxSessionSeconds', type: 'number', default: 0 },
+    { name: 'maxConcurrentSessions', type: 'number', default: 0 },
   ],
   [ZmqMessageType.GET_CREDITS]: [
     { name: 'credits', type: 'number' },
   ],
+  [ZmqMessageType.RESERVE_CREDITS]: [
+    { name: 'reserved', type: 'number' },
+    { name: 'credits', type: 'number' },
+  ],
+  [ZmqMessageType.UPDATE_USAGE]: [],
+  [ZmqMessageType.SAVE_SESSION]: [],
+  [ZmqMessageType.APPEND_CONVERSATION]: [],
+  [ZmqMessageType.RELEASE_CREDITS]: [],
+  [ZmqMessageType.REFRESH_HOLD]: [
+    { name: 'refreshed', type: 'number' },
+  ],
+  [ZmqMessageType.CHECK_SESSION_LIMIT]: [
+    { name: 'limit', type: 'number' },
+    { name: 'overLimit', type: 'number' },
+  ],
+  [ZmqMessageType.SAVE_LATENCY]: [],
+  [ZmqMessageType.PING]: [],
+  [ZmqMessageType.HELLO]: [
+    { name: 'version', type: 'number' },
+  ],
+  [ZmqMessageType.CREATE_CLIENT_TOKEN]: [
+    { name: 'token', type: 'string' },
+    { name: 'expiresAt', type: 'string' },
+  ],
+  [ZmqMessageType.HEALTH]: [
+    { name: 'database', type: 'number' },
+    { name: 'pendingMigrations', type: 'number' },
+  ],
+  [ZmqMessageType.METRICS]: [
+    { name: 'text', type: 'string' },
+  ],
 };
 
 
 export type ZmqResponseData = {
   [ZmqMessageType.VALIDATE_AND_LOAD]: SessionData;
   [ZmqMessageType.GET_CREDITS]: CreditsData;
+  [ZmqMessageType.RESERVE_CREDITS]: ReservationData;
+  [ZmqMessageType.UPDATE_USAGE]: AckData;
+  [ZmqMessageType.SAVE_SESSION]: AckData;
+  [ZmqMessageType.APPEND_CONVERSATION]: AckData;
+  [ZmqMessageType.RELEASE_CREDITS]: AckData;
+  [ZmqMessageType.REFRESH_HOLD]: HoldRefreshData;
+  [ZmqMessageType.CHECK_SESSION_LIMIT]: SessionLimitData;
+  [ZmqMessageType.SAVE_LATENCY]: AckData;
+  [ZmqMessageType.PING]: AckData;
+  [ZmqMessageType.HELLO]: HelloData;
+  [ZmqMessageType.CREATE_CLIENT_TOKEN]: ClientToken;
+  [ZmqMessageType.HEALTH]: HealthData;
+  [ZmqMessageType.METRICS]: MetricsData;
 };
@@ -1,64 +1,148 @@
-import { ZMQ_DELIMITER, ZMQ_REQUEST_SCHEMA, ZmqMessageType } from './ZmqRequestSchema';
+import {
+  ZMQ_REQUEST_SCHEMA,
+  ZMQ_PROTOCOL_VERSION,
+  ZMQ_MIN_PROTOCOL_VERSION,
+  ZmqArgs,
+  ZmqField,
+  ZmqMessageType,
+} from './ZmqRequestSchema';
 import { ZMQ_RESPONSE_SCHEMA, ZmqResponseData } from './ZmqResponseSchema';
+import { ZMQ_EVENT_SCHEMA, ZmqEvent, ZmqEventArgs, ZmqEventType } from './ZmqEventSchema';
+
+export type ZmqFrames = string[];
 
 export class ZmqUtils {
-  
-  static decodeRequest(raw: string): {
+
+  static encodeRequest<T extends ZmqMessageType>(version: number, id: string, type: T, ...args: ZmqArgs[T]): ZmqFrames {
+    const values = args.slice(0, ZmqUtils.countFields(ZMQ_REQUEST_SCHEMA[type], version));
+    return [String(version), id, type, ...values.map(String)];
+  }
+
+
+  static decodeRequest(frames: ZmqFrames): {
+    version: number;
     id: string;
     type: ZmqMessageType;
     args: Record<string, string | number>;
   } | null {
-    const parts = raw.split(ZMQ_DELIMITER);
-    if (parts.length < 2) return null;
+    if (frames.length < 3) return null;
 
-    const [id, typeStr, ...argStrings] = parts;
+    const [versionStr, id, typeStr, ...argStrings] = frames;
+    const version = ZmqUtils.parseVersion(versionStr);
     const type = typeStr as ZmqMessageType;
 
     const schema = ZMQ_REQUEST_SCHEMA[type];
-    if (!schema) return null;
-    if (argStrings.length !== schema.length) return null;
+    if (version === null || !schema) return null;
 
-    const args: Record<string, string | number> = {};
-    for (let i = 0; i < schema.length; i++) {
-      const field = schema[i];
-      const val = argStrings[i];
-      args[field.name] = field.type === 'number' ? parseInt(val, 10) : val;
-    }
+    const args = ZmqUtils.decodeFields(schema, argStrings, version);
+    if (!args) return null;
 
-    return { id, type, args };
+    return { version, id, type, args };
   }
 
-  
+
   static encodeResponse<T extends ZmqMessageType>(
+    version: number,
     id: string,
-    _type: T,
+    type: T,
     error: string,
     ...fields: (string | number)[]
-  ): string {
-    return [id, error, ...fields.map(String)].join(ZMQ_DELIMITER);
+  ): ZmqFrames {
+    const schema = ZMQ_RESPONSE_SCHEMA[type as keyof ZmqResponseData];
+    const values = schema ? fields.slice(0, ZmqUtils.countFields(schema, version)) : fields;
+    return [String(version), id, error, ...values.map(String)];
   }
 
-  
+
   static decodeResponse<T extends keyof ZmqResponseData>(
-    raw: string,
+    frames: ZmqFrames,
     type: T
   ): { id: string } & ZmqResponseData[T] | null {
-    const parts = raw.split(ZMQ_DELIMITER);
-    if (parts.length < 2) return null;
+    if (frames.length < 3) return null;
 
-    const [id, error, ...fieldStrings] = parts;
+    const [versionStr, id, error, ...fieldStrings] = frames;
+    const version = ZmqUtils.parseVersion(versionStr);
     const schema = ZMQ_RESPONSE_SCHEMA[type];
 
-    if (!schema) return null;
-    if (fieldStrings.length !== schema.length) return null;
+    if (version === null || !schema) return null;
+
+    const fields = ZmqUtils.decodeFields(schema, fieldStrings, version, error !== '');
+    if (!fields) return null;
+
+    const result: Record<string, string | number> = { error, ...fields };
+    return { id, ...result } as { id: string } & ZmqResponseData[T];
+  }
+
+
+  static getResponseId(frames: ZmqFrames): string | null {
+    return frames.length >= 3 ? frames[1] : null;
+  }
+
+
+  static encodeEvent<T extends ZmqEventType>(type: T, ...args: ZmqEventArgs[T]): ZmqFrames {
+    return [type, String(ZMQ_PROTOCOL_VERSION), ...args.map(String)];
+  }
+
 
-    const result: Record<string, string | number> = { error };
+  static decodeEvent(frames: ZmqFrames): ZmqEvent | null {
+    if (frames.length < 2) return null;
+
+    const [typeStr, versionStr, ...fieldStrings] = frames;
+    const version = ZmqUtils.parseVersion(versionStr);
+    const type = typeStr as ZmqEventType;
+
+    const schema = ZMQ_EVENT_SCHEMA[type];
+    if (version === null || !schema) return null;
+
+    const result = ZmqUtils.decodeFields(schema, fieldStrings, version);
+    if (!result) return null;
+
+    return { type, ...result } as ZmqEvent;
+  }
+
+
+  static isSupportedVersion(version: number): boolean {
+    return version >= ZMQ_MIN_PROTOCOL_VERSION;
+  }
+
+
+  static negotiateVersion(peerMin: number, peerMax: number): number | null {
+    const version = Math.min(peerMax, ZMQ_PROTOCOL_VERSION);
+    return version >= Math.max(peerMin, ZMQ_MIN_PROTOCOL_VERSION) ? version : null;
+  }
+
+
+  static parseVersion(value: string): number | null {
+    if (!/^\d+$/.test(value)) return null;
+    return parseInt(value, 10);
+  }
+
+  private static countFields(schema: ZmqField[], version: number): number {
+    return schema.filter(field => (field.since ?? ZMQ_MIN_PROTOCOL_VERSION) <= version).length;
+  }
+
+  private static decodeFields(
+    schema: ZmqField[],
+    values: string[],
+    version: number,
+    allowMissing = false
+  ): Record<string, string | number> | null {
+    const required = schema.findIndex(field => field.default !== undefined);
+    const requiredCount = required === -1 ? schema.length : required;
+
+    if (!allowMissing && values.length < requiredCount) return null;
+    if (values.length > schema.length && version <= ZMQ_PROTOCOL_VERSION) return null;
+
+    const result: Record<string, string | number> = {};
     for (let i = 0; i < schema.length; i++) {
       const field = schema[i];
-      const val = fieldStrings[i];
-      result[field.name] = field.type === 'number' ? (val ? parseInt(val, 10) : 0) : val;
+      const val = values[i];
+      if (val === undefined) {
+        result[field.name] = field.default ?? (field.type === 'number' ? 0 : '');
+      } else {
+        result[field.name] = field.type === 'number' ? (val ? parseInt(val, 10) : 0) : val;
+      }
     }
-
-    return { id, ...result } as { id: string } & ZmqResponseData[T];
+    return result;
   }
 }
@@ -1,7 +1,12 @@
 export * from './IAccountService';
+export * from './IHealthService';
 export * from './Logger';
 export * from './ZmqRequestSchema';
 export * from './ZmqResponseSchema';
+export * from './ZmqEventSchema';
 export * from './ZmqUtils';
 export * from './Errors';
 export * from './Config';
+export * from './VoiceProvider';
+export * from './AccountStatus';
+export * from './Metrics';